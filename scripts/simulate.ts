@@ -0,0 +1,138 @@
+/**
+ * Balance simulation CLI - plays a full campaign headlessly and prints
+ * time-per-sector, deaths and the scrap curve.
+ *
+ * Run with: npm run simulate -- [options]
+ *   --policy <name>    Purchase policy: recommended, cheapest, offense, none (default recommended)
+ *   --seed <n>         RNG seed (default random)
+ *   --max-hours <h>    Stop after this much simulated time (default 6)
+ *   --sample <s>       Scrap curve resolution in seconds (default 300)
+ *   --json             Print the raw report as JSON
+ */
+import { SimulationEngine, SimulationReport } from '../src/sim/SimulationEngine';
+import { PURCHASE_POLICIES } from '../src/sim/PurchasePolicies';
+import { createDefaultSave } from '../src/systems/SaveManager';
+
+interface CliOptions {
+    policy: string;
+    seed?: number;
+    maxHours: number;
+    sample: number;
+    json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = { policy: 'recommended', maxHours: 6, sample: 300, json: false };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const next = (): string => {
+            const value = argv[++i];
+            if (value === undefined) fail(`Missing value for ${arg}`);
+            return value;
+        };
+
+        switch (arg) {
+            case '--policy':
+                options.policy = next();
+                break;
+            case '--seed':
+                options.seed = readNumber(arg, next());
+                break;
+            case '--max-hours':
+                options.maxHours = readNumber(arg, next());
+                break;
+            case '--sample':
+                options.sample = readNumber(arg, next());
+                break;
+            case '--json':
+                options.json = true;
+                break;
+            default:
+                fail(`Unknown option: ${arg}`);
+        }
+    }
+
+    if (!PURCHASE_POLICIES[options.policy]) {
+        fail(`Unknown policy "${options.policy}" (choose from: ${Object.keys(PURCHASE_POLICIES).join(', ')})`);
+    }
+    return options;
+}
+
+function readNumber(flag: string, value: string): number {
+    const number = Number(value);
+    if (!Number.isFinite(number)) fail(`${flag} expects a number, got "${value}"`);
+    return number;
+}
+
+function fail(message: string): never {
+    console.error(message);
+    process.exit(1);
+}
+
+function formatTime(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60);
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${secs}s`;
+    return `${secs}s`;
+}
+
+function printReport(report: SimulationReport): void {
+    console.log(`Auto Invaders balance simulation - policy: ${report.policy}, seed: ${report.seed}\n`);
+
+    console.log('Sector  Name                  Time        Deaths  Kills   Scrap earned  Purchases');
+    report.sectors.forEach(sector => {
+        console.log([
+            String(sector.sector).padEnd(8),
+            sector.name.padEnd(22),
+            formatTime(sector.timeSeconds).padEnd(12),
+            String(sector.deaths).padEnd(8),
+            String(sector.kills).padEnd(8),
+            Math.floor(sector.scrapEarned).toLocaleString().padEnd(14),
+            String(sector.purchases),
+        ].join(''));
+    });
+
+    console.log('');
+    if (report.completed) {
+        console.log(`Campaign cleared in ${formatTime(report.timeSeconds)} with ${report.deaths} deaths.`);
+    } else if (report.stalledAt) {
+        console.log(`Stalled at sector ${report.stalledAt.sector}, wave ${report.stalledAt.wave} after ${formatTime(report.timeSeconds)} (${report.deaths} deaths).`);
+    } else {
+        console.log(`Ran out of time after ${formatTime(report.timeSeconds)} (${report.deaths} deaths).`);
+    }
+
+    // Log-scaled bars keep early and late game on one chart
+    const maxEarned = Math.max(1, ...report.scrapCurve.map(s => s.totalScrapEarned));
+    console.log('\nScrap curve (total earned):');
+    report.scrapCurve.forEach(sample => {
+        const width = Math.round((Math.log10(sample.totalScrapEarned + 1) / Math.log10(maxEarned + 1)) * 40);
+        console.log([
+            formatTime(sample.timeSeconds).padStart(8),
+            `  S${sample.sector} W${sample.wave}`.padEnd(10),
+            Math.floor(sample.totalScrapEarned).toLocaleString().padStart(14),
+            '  ',
+            '#'.repeat(width),
+        ].join(''));
+    });
+
+    console.log('\nFinal upgrades:');
+    console.log(Object.entries(report.upgrades).map(([id, level]) => `${id} ${level}`).join(', ') || '(none)');
+}
+
+const options = parseArgs(process.argv.slice(2));
+const engine = new SimulationEngine(createDefaultSave(), {
+    seed: options.seed,
+    policy: PURCHASE_POLICIES[options.policy],
+    maxSimSeconds: options.maxHours * 3600,
+    sampleIntervalSeconds: options.sample,
+});
+const report = engine.run();
+
+if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+} else {
+    printReport(report);
+}
@@ -19,6 +19,34 @@ export const PLAYER_MANUAL_FIRE_COOLDOWN = 125; // ~8 shots/sec max manual click
 export const PLAYER_BASE_BULLET_SPEED = 400;
 export const PLAYER_BASE_MOVE_SPEED = 150;
 
+// Heat (S5+): auto-fire builds heat, and hotter guns hit harder. Reaching
+// capacity is a meltdown: it burns the hull and throttles the fire rate
+// until the guns cool down. Venting (E) dumps the heat as a damaging pulse.
+export const HEAT_PER_SHOT = 3; // Scaled by the weapon mod's heatMultiplier
+export const HEAT_BASE_CAPACITY = 100;
+export const HEAT_BASE_COOLING = 15; // per second
+export const HEAT_DAMAGE_BONUS_MAX = 0.4; // +40% damage at full heat
+export const OVERHEAT_FIRE_RATE_MULT = 0.3;
+export const OVERHEAT_RECOVERY_FRACTION = 0.5; // Overheat ends below this fraction of capacity
+export const MELTDOWN_HULL_DAMAGE = 0.12; // Fraction of max HP a meltdown burns
+
+// Drones
+export const MAX_DRONE_BAYS = 5; // Drone Bays I-IV and the prestige Reserve Drone Bay
+export const DRONE_BASE_DAMAGE = 5;
+export const DRONE_BASE_FIRE_INTERVAL = 800; // ms between shots
+
+// Drone classes (see DRONE_CLASSES)
+export const INTERCEPTOR_BASE_INTERVAL = 900; // ms between shot-downs
+export const INTERCEPTOR_BASE_RANGE = 120; // px from the drone
+export const REPAIR_DRONE_BASE_HEAL = 0.004; // Fraction of max HP per second
+export const REPAIR_DRONE_PULSE = 1000; // ms between heals
+export const SHIELD_DRONE_BASE_RECHARGE = 8000; // ms per stored hit
+export const SALVAGE_DRONE_BASE_BONUS = 0.10; // +10% scrap per salvage drone
+export const HEAVY_DRONE_BASE_INTERVAL = 2400; // ms between missiles
+export const HEAVY_DRONE_DAMAGE_MULT = 4; // Missile damage vs. a combat drone bullet
+export const HEAVY_DRONE_MISSILE_SPEED = 260;
+export const HEAVY_DRONE_TURN_RATE = 240; // deg/s
+
 // ============================================================================
 // ENEMY BASE STATS
 // ============================================================================
@@ -130,6 +158,82 @@ export const ENEMY_TYPES: Record<string, EnemyStats> = {
     },
 };
 
+export const SPAWN_Y = -55; // Where enemies and bosses enter, above the screen
+export const SPAWN_Y_SCATTER = 25; // px random spawns are spread either side of SPAWN_Y
+export const DESCENT_FACTOR = 0.3; // Enemies descend at this share of their speed
+
+// Relative weights for the random wave mix (unlisted types use DEFAULT_SPAWN_WEIGHT)
+export const ENEMY_SPAWN_WEIGHTS: Record<string, number> = {
+    grunt: 40,
+    swarmer: 25,
+    tank: 10,
+    shielded: 12,
+    bomber: 10,
+    jammer: 8,
+    splitter: 10,
+    diver: 12,
+    collector: 8,
+};
+export const DEFAULT_SPAWN_WEIGHT = 10;
+
+// Damage dealt to the player
+export const ENEMY_BULLET_DAMAGE = 10; // Bullets without a fire profile (explosive and reflective elites)
+export const ENEMY_COLLISION_DAMAGE = 15;
+export const ENEMY_ESCAPE_DAMAGE = 20; // Enemy slipped past the bottom of the screen
+
+// ============================================================================
+// ENEMY FIRE PATTERNS
+// ============================================================================
+// How each shooting enemy type fires. Speeds multiply ENEMY_BULLET_SPEED
+// (which itself scales with getEnemyBulletSpeedMultiplier).
+
+export type EnemyFirePattern = 'straight' | 'aimed' | 'spread' | 'homing' | 'burst';
+export type EnemyBulletShape = 'bolt' | 'orb' | 'missile';
+
+export interface EnemyFireProfile {
+    pattern: EnemyFirePattern;
+    shape: EnemyBulletShape;
+    damage: number; // Per bullet
+    speed: number; // Multiplier on ENEMY_BULLET_SPEED
+    count?: number; // Bullets per spread volley or per burst
+    arc?: number; // Spread arc (degrees)
+    aimError?: number; // Random aim offset for aimed shots (+/- degrees)
+    windup?: number; // ms of warning glow before a burst
+    burstInterval?: number; // ms between the shots of a burst
+    turnRate?: number; // Homing missiles: max turn (degrees/s)
+    lifetime?: number; // Homing missiles: ms of steering before they fly straight
+}
+
+export const ENEMY_BULLET_SPEED = 150;
+
+export const ENEMY_FIRE_PROFILES: Record<string, EnemyFireProfile> = {
+    grunt: { pattern: 'aimed', shape: 'bolt', damage: 10, speed: 1, aimError: 12 },
+    tank: { pattern: 'homing', shape: 'missile', damage: 18, speed: 0.6, turnRate: 80, lifetime: 2500 },
+    shielded: { pattern: 'burst', shape: 'orb', damage: 7, speed: 1.3, count: 3, windup: 450, burstInterval: 140 },
+    bomber: { pattern: 'spread', shape: 'orb', damage: 8, speed: 0.9, count: 3, arc: 30 },
+};
+
+const DEFAULT_FIRE_PROFILE: EnemyFireProfile = { pattern: 'straight', shape: 'bolt', damage: ENEMY_BULLET_DAMAGE, speed: 1 };
+
+/**
+ * Fire profile for an enemy type (types without one fire straight down)
+ */
+export function getEnemyFireProfile(type: string): EnemyFireProfile {
+    return ENEMY_FIRE_PROFILES[type] ?? DEFAULT_FIRE_PROFILE;
+}
+
+// Shielded enemies: the shield soaks damage first, then recharges once the
+// enemy has gone SHIELD_REGEN_DELAY ms without being hit
+export const SHIELD_FRACTION = 0.5; // Shield HP as a fraction of max HP
+export const SHIELD_REGEN_DELAY = 2500;
+
+/**
+ * Fraction of a full shield restored per second while recharging
+ */
+export function getShieldRegenRate(globalWave: number): number {
+    return Math.min(0.6, 0.15 * (1 + 0.02 * (globalWave - 1)));
+}
+
 // ============================================================================
 // SECTOR CONFIGURATION
 // ============================================================================
@@ -137,6 +241,10 @@ export const SECTOR_COUNT = 6;
 export const WAVES_PER_SECTOR = 10;
 export const TOTAL_WAVES = SECTOR_COUNT * WAVES_PER_SECTOR;
 
+export const WAVE_DELAY = 1500; // ms between waves
+export const BOSS_DELAY = 2000; // ms before the boss wave
+export const SECTOR_DELAY = 2000; // ms after a boss, before the next sector
+
 export const SECTOR_HP_BOOST = [1.00, 1.14, 1.30, 1.52, 1.75, 2.05];
 
 export const SECTOR_NAMES = [
@@ -158,13 +266,49 @@ export const SECTOR_ENEMY_UNLOCKS: Record<number, string[]> = {
     5: [], // No new types, just harder versions
 };
 
+/**
+ * Enemy types that can spawn in a sector (everything unlocked up to it)
+ */
+export function getAvailableEnemyTypes(sector: number): string[] {
+    const types = ['grunt'];
+    for (let s = 0; s <= sector; s++) {
+        types.push(...(SECTOR_ENEMY_UNLOCKS[s] || []));
+    }
+    return types;
+}
+
+/**
+ * HP boost for a sector. Endless sectors past the table keep climbing by the
+ * final step (+0.30 per sector).
+ */
+export function getSectorHPBoost(sector: number): number {
+    if (sector < 0) return 1.0;
+    if (sector < SECTOR_HP_BOOST.length) return SECTOR_HP_BOOST[sector];
+
+    const last = SECTOR_HP_BOOST.length - 1;
+    const step = SECTOR_HP_BOOST[last] - SECTOR_HP_BOOST[last - 1];
+    return SECTOR_HP_BOOST[last] + step * (sector - last);
+}
+
+/**
+ * Display name for a sector (endless sectors get generated names)
+ */
+export function getSectorName(sector: number): string {
+    if (sector < SECTOR_NAMES.length) return SECTOR_NAMES[Math.max(0, sector)];
+
+    const depth = sector - SECTOR_NAMES.length;
+    const prefix = ENDLESS_SECTOR_PREFIXES[depth % ENDLESS_SECTOR_PREFIXES.length];
+    const suffix = ENDLESS_SECTOR_SUFFIXES[depth % ENDLESS_SECTOR_SUFFIXES.length];
+    return `${prefix} ${suffix}`;
+}
+
 // ============================================================================
 // DIFFICULTY SCALING FORMULAS
 // ============================================================================
 
 /**
  * Global difficulty multiplier: D(g) = 1.12^(g-1)
- * @param globalWave - Global wave index (1 to 60)
+ * @param globalWave - Global wave index (1 to 60, unbounded in endless mode)
  */
 export function getDifficultyMultiplier(globalWave: number): number {
     return Math.pow(1.12, globalWave - 1);
@@ -176,7 +320,7 @@ export function getDifficultyMultiplier(globalWave: number): number {
 export function getEnemyHP(type: string, sector: number, globalWave: number): number {
     const baseHP = ENEMY_TYPES[type]?.baseHP || 25;
     const D = getDifficultyMultiplier(globalWave);
-    const sectorBoost = SECTOR_HP_BOOST[sector] || 1.0;
+    const sectorBoost = getSectorHPBoost(sector);
     return Math.round(baseHP * D * sectorBoost);
 }
 
@@ -192,11 +336,20 @@ export function getScrapDrop(type: string, globalWave: number): number {
 /**
  * Calculate spawn count for a wave
  * count = baseCount + floor((g-1)/2.5), baseCount=10, cap at 40
+ * (endless waves past TOTAL_WAVES raise the cap to ENDLESS_SPAWN_CAP)
  */
 export function getSpawnCount(globalWave: number): number {
     const baseCount = 10;
     const count = baseCount + Math.floor((globalWave - 1) / 2.5);
-    return Math.min(count, 40);
+    return Math.min(count, globalWave > TOTAL_WAVES ? ENDLESS_SPAWN_CAP : 40);
+}
+
+/**
+ * Milliseconds between enemy spawns (faster in later waves)
+ * interval = max(200, 800 - 8g)
+ */
+export function getSpawnInterval(globalWave: number): number {
+    return Math.max(200, 800 - globalWave * 8);
 }
 
 /**
@@ -206,10 +359,21 @@ export function getSpawnCount(globalWave: number): number {
 export function getBossHP(sector: number, globalWave: number): number {
     const gruntHP = ENEMY_TYPES.grunt.baseHP;
     const D = getDifficultyMultiplier(globalWave);
-    const sectorBoost = SECTOR_HP_BOOST[sector] || 1.0;
+    const sectorBoost = getSectorHPBoost(sector);
     return Math.round(35 * gruntHP * D * sectorBoost);
 }
 
+/**
+ * Boss HP clamped into a time-to-kill window for the player's estimated DPS,
+ * so bosses stay tough but fair: ttk in [18 + 2s, 40 + 3s] seconds
+ */
+export function getScaledBossHP(sector: number, globalWave: number, estimatedDps: number): number {
+    const dps = Math.max(20, estimatedDps);
+    const minHp = dps * (18 + sector * 2);
+    const maxHp = dps * (40 + sector * 3);
+    return Math.round(Math.min(maxHp, Math.max(minHp, getBossHP(sector, globalWave))));
+}
+
 /**
  * Calculate boss scrap reward
  * bossScrap = 120 * D(g)^0.65
@@ -227,6 +391,106 @@ export function getEnemyFireMultiplier(globalWave: number): number {
     return 1 + 0.010 * (globalWave - 1);
 }
 
+/**
+ * Drone bullet damage: 5 * 1.08^droneDamageLevel
+ */
+export function getDroneDamage(droneDamageLevel: number): number {
+    return DRONE_BASE_DAMAGE * Math.pow(1.08, droneDamageLevel);
+}
+
+/**
+ * Drone ms between shots: 800 / 1.06^droneFireRateLevel
+ */
+export function getDroneFireInterval(droneFireRateLevel: number): number {
+    return DRONE_BASE_FIRE_INTERVAL / Math.pow(1.06, droneFireRateLevel);
+}
+
+/**
+ * Heat capacity: 100 * (1 + 0.10*heatCapacityLevel)
+ */
+export function getHeatCapacity(heatCapacityLevel: number): number {
+    return HEAT_BASE_CAPACITY * (1 + heatCapacityLevel * 0.10);
+}
+
+/**
+ * Heat shed per second: 15 * (1 + 0.08*coolingRateLevel)
+ */
+export function getHeatCooling(coolingRateLevel: number): number {
+    return HEAT_BASE_COOLING * (1 + coolingRateLevel * 0.08);
+}
+
+/**
+ * Damage multiplier from heat, rising to +40% at capacity. A meltdown
+ * loses the bonus until the guns recover.
+ */
+export function getHeatDamageMultiplier(heatFraction: number, overheated: boolean): number {
+    if (overheated) return 1;
+    return 1 + HEAT_DAMAGE_BONUS_MAX * Math.min(1, Math.max(0, heatFraction));
+}
+
+/**
+ * Vent cooldown: 12s / (1 + 0.08*coolingRateLevel)
+ */
+export function getVentCooldown(coolingRateLevel: number): number {
+    return VENT_BASE_COOLDOWN / (1 + coolingRateLevel * 0.08);
+}
+
+/**
+ * Interceptor ms between shot-downs: 900 / 1.06^interceptorCycling
+ */
+export function getInterceptorInterval(cyclingLevel: number): number {
+    return INTERCEPTOR_BASE_INTERVAL / Math.pow(1.06, cyclingLevel);
+}
+
+/**
+ * Interceptor reach: 120 * (1 + 0.08*interceptorRange)
+ */
+export function getInterceptorRange(rangeLevel: number): number {
+    return INTERCEPTOR_BASE_RANGE * (1 + rangeLevel * 0.08);
+}
+
+/**
+ * Repair drone healing, as a fraction of max HP per second: 0.4% * (1 + 0.10*level)
+ */
+export function getRepairDroneHealRate(outputLevel: number): number {
+    return REPAIR_DRONE_BASE_HEAL * (1 + outputLevel * 0.10);
+}
+
+/**
+ * Hits a shield drone can store: 1 + shieldDroneCapacity
+ */
+export function getShieldDroneCharges(capacityLevel: number): number {
+    return 1 + capacityLevel;
+}
+
+/**
+ * Shield drone ms to store a hit: 8000 / (1 + 0.08*shieldDroneRecharge)
+ */
+export function getShieldDroneRecharge(rechargeLevel: number): number {
+    return SHIELD_DRONE_BASE_RECHARGE / (1 + rechargeLevel * 0.08);
+}
+
+/**
+ * Scrap bonus per salvage drone: 10% + 2% per salvageDroneYield level
+ */
+export function getSalvageDroneBonus(yieldLevel: number): number {
+    return SALVAGE_DRONE_BASE_BONUS + yieldLevel * 0.02;
+}
+
+/**
+ * Heavy drone missile damage: 4 * 5 * 1.10^heavyDroneWarheads
+ */
+export function getHeavyDroneDamage(warheadLevel: number): number {
+    return DRONE_BASE_DAMAGE * HEAVY_DRONE_DAMAGE_MULT * Math.pow(1.10, warheadLevel);
+}
+
+/**
+ * Heavy drone ms between missiles: 2400 / 1.06^heavyDroneReload
+ */
+export function getHeavyDroneInterval(reloadLevel: number): number {
+    return HEAVY_DRONE_BASE_INTERVAL / Math.pow(1.06, reloadLevel);
+}
+
 /**
  * Enemy bullet speed multiplier
  * bulletSpeedMult = 1 + 0.005*(g-1)
@@ -235,6 +499,530 @@ export function getEnemyBulletSpeedMultiplier(globalWave: number): number {
     return 1 + 0.005 * (globalWave - 1);
 }
 
+// ============================================================================
+// ELITE AFFIXES
+// ============================================================================
+// Regular enemies can spawn as elites carrying one or two affixes. Each affix
+// unlocks at a sector and is picked by weight; elites are tougher, drop extra
+// scrap and can drop a core fragment.
+
+export type EliteAffixId = 'armored' | 'hasted' | 'regenerating' | 'explosive' | 'cloaked' | 'reflective';
+
+export interface EliteAffix {
+    id: EliteAffixId;
+    name: string;
+    description: string;
+    minSector: number;
+    weight: number;
+    color: number; // Marker pip colour
+}
+
+export const ELITE_AFFIXES: EliteAffix[] = [
+    {
+        id: 'armored',
+        name: 'Armored',
+        description: 'Shrugs off a flat amount of every hit',
+        minSector: 1,
+        weight: 10,
+        color: 0xbbbbbb,
+    },
+    {
+        id: 'hasted',
+        name: 'Hasted',
+        description: '+50% movement, +30% fire rate',
+        minSector: 1,
+        weight: 10,
+        color: 0xffee44,
+    },
+    {
+        id: 'regenerating',
+        name: 'Regenerating',
+        description: 'Heals 4% of max HP per second',
+        minSector: 2,
+        weight: 8,
+        color: 0x44ff88,
+    },
+    {
+        id: 'explosive',
+        name: 'Explosive',
+        description: 'Bursts into a ring of bullets on death',
+        minSector: 2,
+        weight: 8,
+        color: 0xff6622,
+    },
+    {
+        id: 'cloaked',
+        name: 'Cloaked',
+        description: 'Fades from view; autopilot can\'t lock on while cloaked',
+        minSector: 3,
+        weight: 6,
+        color: 0x9966ff,
+    },
+    {
+        id: 'reflective',
+        name: 'Reflective',
+        description: 'Hits can bounce back as bullets',
+        minSector: 4,
+        weight: 6,
+        color: 0x66ddff,
+    },
+];
+
+export const ELITE_MIN_SECTOR = 1;
+export const ELITE_EXTRA_AFFIX_SECTOR = 4; // Elites can roll a second affix from here
+export const ELITE_EXTRA_AFFIX_CHANCE = 0.25;
+export const ELITE_HP_MULTIPLIER = 1.5;
+export const ELITE_SCRAP_PER_AFFIX = 1.0; // +100% scrap per affix
+export const ELITE_CORE_FRAGMENT_CHANCE = 0.08;
+export const CORE_FRAGMENTS_PER_CORE = 5;
+
+export const ELITE_ARMOR_MIN_FRACTION = 0.25; // Armor never blocks more than 75% of a hit
+export const ELITE_HASTE_SPEED = 1.5;
+export const ELITE_HASTE_FIRE_RATE = 1.3;
+export const ELITE_REGEN_RATE = 0.04; // Fraction of max HP per second
+export const ELITE_EXPLOSION_BULLETS = 8;
+export const ELITE_CLOAK_CYCLE = 4000; // ms per visible/cloaked cycle
+export const ELITE_CLOAK_FRACTION = 0.6; // Share of the cycle spent cloaked
+export const ELITE_CLOAK_ALPHA = 0.15;
+export const ELITE_REFLECT_CHANCE = 0.2;
+
+/**
+ * Chance that a regular enemy spawns as an elite
+ */
+export function getEliteChance(sector: number, globalWave: number): number {
+    if (sector < ELITE_MIN_SECTOR) return 0;
+    return Math.min(0.2, 0.04 + 0.003 * (globalWave - WAVES_PER_SECTOR));
+}
+
+/**
+ * Flat damage an Armored elite ignores per hit
+ */
+export function getEliteArmor(globalWave: number): number {
+    return 2 + globalWave * 0.3;
+}
+
+export function getEliteAffix(id: EliteAffixId): EliteAffix {
+    return ELITE_AFFIXES.find(affix => affix.id === id)!;
+}
+
+// ============================================================================
+// WAVE SCRIPTS
+// ============================================================================
+// Hand-authored waves keyed by sector and wave. Scripted groups spawn first in
+// their own formations, the guaranteed mix always spawns, and the weighted
+// random mix fills the rest of the wave's spawn budget. Waves without a script (and
+// endless sectors with nothing scripted) are entirely weighted random.
+// Groups with `march: true` move as one Space Invaders style grid (see MarchFormation).
+
+export type FormationShape = 'row' | 'column' | 'v' | 'grid' | 'scatter';
+
+export interface WaveGroup {
+    at: number; // ms after the wave starts
+    enemy: string; // ENEMY_TYPES key, or 'random' for one pick from the weighted mix
+    count: number;
+    formation?: FormationShape; // Default 'scatter'
+    x?: number; // Formation centre (default: random position that fits on screen)
+    spacing?: number; // px between members (default FORMATION_SPACING)
+    interval?: number; // ms between members entering (default per formation)
+    columns?: number; // Grid width (default GRID_COLUMNS)
+    march?: boolean; // Move as one marching grid instead of drifting individually
+}
+
+export interface WaveScript {
+    sector: number;
+    wave: number;
+    groups: WaveGroup[];
+    guaranteed?: Record<string, number>; // Extra spawns of each type, on top of the groups
+    fill?: boolean; // Top up to the wave's spawn count with the random mix (default true)
+}
+
+export const FORMATION_SHAPES: FormationShape[] = ['row', 'column', 'v', 'grid', 'scatter'];
+export const FORMATION_SPACING = 60;
+export const FORMATION_SPAWN_Y = -40;
+export const FORMATION_INTERVALS: Record<FormationShape, number> = {
+    row: 0, // Whole row enters together
+    column: 450, // Single file down one lane
+    v: 250, // Leader first, then each pair of wings
+    grid: 0,
+    scatter: 300,
+};
+
+export const GRID_COLUMNS = 8;
+
+// March formations step sideways on a timer, drop a row and turn at the screen
+// edges, and step faster as members die
+export const MARCH_ENTRY_Y = 110; // Lowest row glides in to here before marching
+export const MARCH_ENTRY_SPEED = 120; // px/s while gliding in
+export const MARCH_STEP_X = 14;
+export const MARCH_DROP_Y = 28;
+export const MARCH_EDGE_MARGIN = 30;
+export const MARCH_STEP_INTERVAL_MAX = 650; // ms per step at full strength
+export const MARCH_STEP_INTERVAL_MIN = 70; // ms per step for the last survivor
+export const MARCH_DIVER_BREAKOUT: [number, number] = [4000, 12000]; // ms before a diver leaves the grid
+
+export const WAVE_SCRIPTS: WaveScript[] = [
+    // Boot Sequence: introduce formations with grunts only
+    { sector: 0, wave: 1, groups: [{ at: 0, enemy: 'grunt', count: 5, formation: 'row' }] },
+    {
+        sector: 0, wave: 5, groups: [
+            { at: 0, enemy: 'grunt', count: 5, formation: 'v' },
+            { at: 6000, enemy: 'grunt', count: 6, formation: 'row' },
+        ],
+    },
+    { sector: 0, wave: 8, groups: [{ at: 0, enemy: 'grunt', count: 12, formation: 'grid', columns: 6, march: true }] },
+    {
+        sector: 0, wave: 10, groups: [
+            { at: 0, enemy: 'grunt', count: 4, formation: 'column', x: 160 },
+            { at: 0, enemy: 'grunt', count: 4, formation: 'column', x: GAME_WIDTH - 160 },
+            { at: 5000, enemy: 'grunt', count: 7, formation: 'v' },
+        ],
+    },
+    // Scrapfield Lanes: swarmer packs
+    { sector: 1, wave: 3, groups: [{ at: 2000, enemy: 'swarmer', count: 7, formation: 'v' }] },
+    {
+        sector: 1, wave: 8, groups: [
+            { at: 0, enemy: 'swarmer', count: 6, formation: 'row' },
+            { at: 4000, enemy: 'swarmer', count: 6, formation: 'row' },
+        ],
+        guaranteed: { grunt: 4 },
+    },
+    // Signal Noise: jammers escorted down the middle
+    {
+        sector: 2, wave: 4, groups: [
+            { at: 0, enemy: 'jammer', count: 1, formation: 'column', x: GAME_WIDTH / 2 },
+            { at: 300, enemy: 'grunt', count: 6, formation: 'v', x: GAME_WIDTH / 2 },
+        ],
+    },
+    { sector: 2, wave: 9, groups: [{ at: 3000, enemy: 'random', count: 8, formation: 'row' }], guaranteed: { jammer: 2 } },
+    // Armor Doctrine: shield walls
+    {
+        sector: 3, wave: 2, groups: [
+            { at: 0, enemy: 'tank', count: 3, formation: 'row', spacing: 120 },
+            { at: 1500, enemy: 'shielded', count: 4, formation: 'row' },
+        ],
+    },
+    { sector: 3, wave: 7, groups: [{ at: 0, enemy: 'splitter', count: 5, formation: 'v', spacing: 70 }], guaranteed: { shielded: 3, tank: 2 } },
+    { sector: 3, wave: 9, groups: [{ at: 0, enemy: 'shielded', count: 12, formation: 'grid', columns: 6, march: true }] },
+    // Rowfall Pattern: rows and diving columns
+    {
+        sector: 4, wave: 3, groups: [
+            { at: 0, enemy: 'grunt', count: 8, formation: 'row' },
+            { at: 2500, enemy: 'grunt', count: 8, formation: 'row' },
+            { at: 5000, enemy: 'bomber', count: 6, formation: 'row', spacing: 80 },
+        ],
+    },
+    {
+        sector: 4, wave: 8, groups: [
+            { at: 0, enemy: 'diver', count: 5, formation: 'column', x: 120 },
+            { at: 0, enemy: 'diver', count: 5, formation: 'column', x: GAME_WIDTH - 120 },
+        ],
+        guaranteed: { collector: 2 },
+    },
+    // Divers break out of the march one at a time
+    { sector: 4, wave: 10, groups: [{ at: 0, enemy: 'diver', count: 16, formation: 'grid', columns: 8, march: true }] },
+    // Final Descent: everything at once
+    {
+        sector: 5, wave: 10, groups: [
+            { at: 0, enemy: 'tank', count: 5, formation: 'row', spacing: 100 },
+            { at: 2000, enemy: 'diver', count: 7, formation: 'v' },
+            { at: 6000, enemy: 'random', count: 8, formation: 'row' },
+        ],
+        guaranteed: { shielded: 4, jammer: 2, splitter: 3 },
+    },
+];
+
+// ============================================================================
+// BOSS ARCHETYPES
+// ============================================================================
+export type BossMovement = 'sweep' | 'weave' | 'orbit' | 'dash';
+export type BossAttackType = 'spread' | 'aimed' | 'summon' | 'laser';
+
+export interface BossAttack {
+    type: BossAttackType;
+    cooldown: number; // ms between uses (scaled by enemy fire multiplier)
+    count?: number; // bullets per volley (spread/aimed) or minions (summon)
+    arc?: number; // degrees covered by a spread volley
+    minionType?: string; // ENEMY_TYPES key for summon
+    duration?: number; // ms a laser spends sweeping
+}
+
+export interface BossPhase {
+    hpThreshold: number; // Phase is active at or below this fraction of max HP
+    speedMultiplier: number;
+    attacks: BossAttack[];
+}
+
+export interface BossDefinition {
+    id: string;
+    name: string;
+    color: number;
+    accentColor: number;
+    width: number;
+    height: number;
+    speed: number; // px/s for the movement script
+    hoverY: number; // Cruising altitude once the entrance is done
+    movement: BossMovement;
+    phases: BossPhase[];
+}
+
+export const BOSS_BULLET_DAMAGE = 12;
+export const BOSS_LASER_DPS = 30;
+export const BOSS_LASER_WIDTH = 18;
+export const BOSS_LASER_WARMUP = 700; // ms of telegraph before the beam goes live
+export const BOSS_ENTRANCE_SPEED = 60; // px/s while descending into position
+
+// One boss per sector, indexed like SECTOR_NAMES
+export const BOSS_TYPES: BossDefinition[] = [
+    {
+        id: 'sentinel',
+        name: 'Sentinel Prime',
+        color: 0x44aa44,
+        accentColor: 0x88ff88,
+        width: 96,
+        height: 56,
+        speed: 70,
+        hoverY: 110,
+        movement: 'sweep',
+        phases: [
+            {
+                hpThreshold: 1.0,
+                speedMultiplier: 1.0,
+                attacks: [{ type: 'aimed', cooldown: 2200, count: 1 }],
+            },
+            {
+                hpThreshold: 0.6,
+                speedMultiplier: 1.2,
+                attacks: [
+                    { type: 'aimed', cooldown: 2000, count: 2 },
+                    { type: 'spread', cooldown: 3200, count: 5, arc: 60 },
+                ],
+            },
+            {
+                hpThreshold: 0.3,
+                speedMultiplier: 1.4,
+                attacks: [
+                    { type: 'spread', cooldown: 2400, count: 7, arc: 80 },
+                    { type: 'summon', cooldown: 7000, count: 2, minionType: 'grunt' },
+                ],
+            },
+        ],
+    },
+    {
+        id: 'hauler',
+        name: 'Scrap Hauler',
+        color: 0xaaaa44,
+        accentColor: 0xffee66,
+        width: 110,
+        height: 52,
+        speed: 60,
+        hoverY: 100,
+        movement: 'weave',
+        phases: [
+            {
+                hpThreshold: 1.0,
+                speedMultiplier: 1.0,
+                attacks: [
+                    { type: 'spread', cooldown: 2600, count: 5, arc: 70 },
+                    { type: 'summon', cooldown: 6000, count: 3, minionType: 'swarmer' },
+                ],
+            },
+            {
+                hpThreshold: 0.5,
+                speedMultiplier: 1.3,
+                attacks: [
+                    { type: 'spread', cooldown: 2000, count: 7, arc: 90 },
+                    { type: 'aimed', cooldown: 2500, count: 2 },
+                    { type: 'summon', cooldown: 5000, count: 4, minionType: 'swarmer' },
+                ],
+            },
+        ],
+    },
+    {
+        id: 'oracle',
+        name: 'Static Oracle',
+        color: 0xaa44aa,
+        accentColor: 0xff66ff,
+        width: 84,
+        height: 64,
+        speed: 1.2, // rad/s around the orbit
+        hoverY: 130,
+        movement: 'orbit',
+        phases: [
+            {
+                hpThreshold: 1.0,
+                speedMultiplier: 1.0,
+                attacks: [
+                    { type: 'aimed', cooldown: 1800, count: 3 },
+                    { type: 'summon', cooldown: 9000, count: 1, minionType: 'jammer' },
+                ],
+            },
+            {
+                hpThreshold: 0.65,
+                speedMultiplier: 1.15,
+                attacks: [
+                    { type: 'aimed', cooldown: 1600, count: 3 },
+                    { type: 'laser', cooldown: 6500, duration: 1800 },
+                ],
+            },
+            {
+                hpThreshold: 0.3,
+                speedMultiplier: 1.35,
+                attacks: [
+                    { type: 'aimed', cooldown: 1400, count: 4 },
+                    { type: 'laser', cooldown: 5000, duration: 2200 },
+                    { type: 'summon', cooldown: 8000, count: 2, minionType: 'jammer' },
+                ],
+            },
+        ],
+    },
+    {
+        id: 'bastion',
+        name: 'Bastion',
+        color: 0x666666,
+        accentColor: 0x88ccff,
+        width: 120,
+        height: 64,
+        speed: 40,
+        hoverY: 110,
+        movement: 'sweep',
+        phases: [
+            {
+                hpThreshold: 1.0,
+                speedMultiplier: 1.0,
+                attacks: [
+                    { type: 'spread', cooldown: 2800, count: 9, arc: 100 },
+                    { type: 'summon', cooldown: 8000, count: 2, minionType: 'shielded' },
+                ],
+            },
+            {
+                hpThreshold: 0.5,
+                speedMultiplier: 1.2,
+                attacks: [
+                    { type: 'spread', cooldown: 2400, count: 9, arc: 120 },
+                    { type: 'laser', cooldown: 6000, duration: 2000 },
+                    { type: 'summon', cooldown: 7000, count: 2, minionType: 'tank' },
+                ],
+            },
+        ],
+    },
+    {
+        id: 'matriarch',
+        name: 'Rowfall Matriarch',
+        color: 0xff4488,
+        accentColor: 0xffaa66,
+        width: 100,
+        height: 58,
+        speed: 90,
+        hoverY: 100,
+        movement: 'dash',
+        phases: [
+            {
+                hpThreshold: 1.0,
+                speedMultiplier: 1.0,
+                attacks: [
+                    { type: 'aimed', cooldown: 1800, count: 2 },
+                    { type: 'summon', cooldown: 6000, count: 3, minionType: 'diver' },
+                ],
+            },
+            {
+                hpThreshold: 0.6,
+                speedMultiplier: 1.25,
+                attacks: [
+                    { type: 'aimed', cooldown: 1500, count: 3 },
+                    { type: 'spread', cooldown: 2800, count: 7, arc: 90 },
+                    { type: 'summon', cooldown: 6000, count: 2, minionType: 'bomber' },
+                ],
+            },
+            {
+                hpThreshold: 0.25,
+                speedMultiplier: 1.5,
+                attacks: [
+                    { type: 'spread', cooldown: 2000, count: 9, arc: 110 },
+                    { type: 'laser', cooldown: 5500, duration: 1600 },
+                    { type: 'summon', cooldown: 5000, count: 3, minionType: 'diver' },
+                ],
+            },
+        ],
+    },
+    {
+        id: 'descentCore',
+        name: 'Descent Core',
+        color: 0xff6644,
+        accentColor: 0xffdd44,
+        width: 128,
+        height: 72,
+        speed: 55,
+        hoverY: 120,
+        movement: 'weave',
+        phases: [
+            {
+                hpThreshold: 1.0,
+                speedMultiplier: 1.0,
+                attacks: [
+                    { type: 'spread', cooldown: 2400, count: 7, arc: 90 },
+                    { type: 'aimed', cooldown: 1800, count: 2 },
+                ],
+            },
+            {
+                hpThreshold: 0.7,
+                speedMultiplier: 1.15,
+                attacks: [
+                    { type: 'spread', cooldown: 2200, count: 9, arc: 110 },
+                    { type: 'laser', cooldown: 6000, duration: 2000 },
+                    { type: 'summon', cooldown: 7000, count: 2, minionType: 'splitter' },
+                ],
+            },
+            {
+                hpThreshold: 0.35,
+                speedMultiplier: 1.35,
+                attacks: [
+                    { type: 'spread', cooldown: 1800, count: 11, arc: 130 },
+                    { type: 'aimed', cooldown: 1400, count: 3 },
+                    { type: 'laser', cooldown: 5000, duration: 2400 },
+                    { type: 'summon', cooldown: 6000, count: 2, minionType: 'collector' },
+                ],
+            },
+        ],
+    },
+];
+
+/**
+ * Boss archetype for a sector (endless sectors cycle through the roster)
+ */
+export function getBossDefinition(sector: number): BossDefinition {
+    const index = Math.max(0, sector) % BOSS_TYPES.length;
+    return BOSS_TYPES[index];
+}
+
+/**
+ * Phase for the boss's current HP fraction (phases are ordered by descending threshold)
+ */
+export function getBossPhaseIndex(boss: BossDefinition, hpFraction: number): number {
+    let index = 0;
+    boss.phases.forEach((phase, i) => {
+        if (hpFraction <= phase.hpThreshold) {
+            index = i;
+        }
+    });
+    return index;
+}
+
+// ============================================================================
+// JAMMER DISRUPTION
+// ============================================================================
+export const JAMMER_FIELD_RADIUS = 450; // px - disruption fades out linearly to this distance
+export const JAMMER_MAX_SPREAD = 80; // px of aim jitter at full disruption
+export const JAMMER_AUTOPILOT_NOISE = 120; // px of autopilot target noise at full disruption
+export const JAMMER_NOISE_INTERVAL = 250; // ms between autopilot noise re-rolls
+
+/**
+ * Fraction of the jammer penalty that gets through the Stability Matrix
+ * penalty = 1 / (1 + 0.07*level)
+ */
+export function getJammerPenaltyMultiplier(stabilityLevel: number): number {
+    return 1 / (1 + 0.07 * stabilityLevel);
+}
+
 // ============================================================================
 // UPGRADE SYSTEM
 // ============================================================================
@@ -447,6 +1235,20 @@ export const UPGRADES: UpgradeDefinition[] = [
         effectPerLevel: 0,
         effectDescription: 'Optimal positioning AI',
     },
+    {
+        id: 'autopilotV4',
+        name: 'Autopilot v4: Precognition',
+        description: 'Autopilot simulates the next second of fire and picks the safest firing line.',
+        category: 'autopilot',
+        baseCost: 0,
+        maxLevel: 1,
+        isUnlock: true,
+        coresCost: 3,
+        prerequisite: 'autopilotV3',
+        sectorRequired: 6,
+        effectPerLevel: 0,
+        effectDescription: 'Predictive dodging AI',
+    },
 
     // Drones
     {
@@ -475,6 +1277,34 @@ export const UPGRADES: UpgradeDefinition[] = [
         effectPerLevel: 0,
         effectDescription: 'Second drone slot',
     },
+    {
+        id: 'droneSlot3',
+        name: 'Drone Bay III',
+        description: 'Deploys a third drone.',
+        category: 'drones',
+        baseCost: 0,
+        maxLevel: 1,
+        isUnlock: true,
+        coresCost: 4,
+        prerequisite: 'droneSlot2',
+        sectorRequired: 5,
+        effectPerLevel: 0,
+        effectDescription: 'Third drone slot',
+    },
+    {
+        id: 'droneSlot4',
+        name: 'Drone Bay IV',
+        description: 'Deploys a fourth drone.',
+        category: 'drones',
+        baseCost: 0,
+        maxLevel: 1,
+        isUnlock: true,
+        coresCost: 6,
+        prerequisite: 'droneSlot3',
+        sectorRequired: 6,
+        effectPerLevel: 0,
+        effectDescription: 'Fourth drone slot',
+    },
     {
         id: 'droneDamage',
         name: 'Drone Weapons',
@@ -499,6 +1329,110 @@ export const UPGRADES: UpgradeDefinition[] = [
         effectPerLevel: 0.06,
         effectDescription: '+6% drone fire rate per level',
     },
+    {
+        id: 'interceptorCycling',
+        name: 'Point Defense Cycling',
+        description: 'Interceptor drones shoot down enemy bullets more often.',
+        category: 'drones',
+        baseCost: 50,
+        maxLevel: REPEATABLE_MAX_LEVEL,
+        isUnlock: false,
+        prerequisite: 'droneSlot1',
+        sectorRequired: 3,
+        effectPerLevel: 0.06,
+        effectDescription: '+6% interception rate per level',
+    },
+    {
+        id: 'interceptorRange',
+        name: 'Point Defense Tracking',
+        description: 'Interceptor drones reach bullets further away.',
+        category: 'drones',
+        baseCost: 45,
+        maxLevel: REPEATABLE_MAX_LEVEL,
+        isUnlock: false,
+        prerequisite: 'droneSlot1',
+        sectorRequired: 3,
+        effectPerLevel: 0.08,
+        effectDescription: '+8% interception range per level',
+    },
+    {
+        id: 'repairDroneOutput',
+        name: 'Repair Drone Output',
+        description: 'Repair drones patch the hull faster.',
+        category: 'drones',
+        baseCost: 55,
+        maxLevel: REPEATABLE_MAX_LEVEL,
+        isUnlock: false,
+        prerequisite: 'droneSlot1',
+        sectorRequired: 2,
+        effectPerLevel: 0.10,
+        effectDescription: '+10% drone healing per level',
+    },
+    {
+        id: 'shieldDroneCapacity',
+        name: 'Shield Drone Cells',
+        description: 'Shield drones store an extra hit.',
+        category: 'drones',
+        baseCost: 150,
+        maxLevel: 4,
+        isUnlock: false,
+        prerequisite: 'droneSlot1',
+        sectorRequired: 4,
+        effectPerLevel: 1,
+        effectDescription: '+1 stored hit per level',
+    },
+    {
+        id: 'shieldDroneRecharge',
+        name: 'Shield Drone Recharge',
+        description: 'Shield drones store hits faster.',
+        category: 'drones',
+        baseCost: 50,
+        maxLevel: REPEATABLE_MAX_LEVEL,
+        isUnlock: false,
+        prerequisite: 'droneSlot1',
+        sectorRequired: 4,
+        effectPerLevel: 0.08,
+        effectDescription: '+8% shield recharge per level',
+    },
+    {
+        id: 'salvageDroneYield',
+        name: 'Salvage Drone Scanners',
+        description: 'Salvage drones recover more scrap.',
+        category: 'drones',
+        baseCost: 60,
+        maxLevel: REPEATABLE_MAX_LEVEL,
+        isUnlock: false,
+        prerequisite: 'droneSlot1',
+        sectorRequired: 1,
+        effectPerLevel: 0.02,
+        effectDescription: '+2% scrap per salvage drone per level',
+    },
+    {
+        id: 'heavyDroneWarheads',
+        name: 'Heavy Drone Warheads',
+        description: 'Heavy drone missiles hit harder.',
+        category: 'drones',
+        baseCost: 60,
+        maxLevel: REPEATABLE_MAX_LEVEL,
+        isUnlock: false,
+        prerequisite: 'droneSlot1',
+        sectorRequired: 5,
+        effectPerLevel: 0.10,
+        effectDescription: '+10% missile damage per level',
+    },
+    {
+        id: 'heavyDroneReload',
+        name: 'Heavy Drone Loaders',
+        description: 'Heavy drones reload missiles faster.',
+        category: 'drones',
+        baseCost: 60,
+        maxLevel: REPEATABLE_MAX_LEVEL,
+        isUnlock: false,
+        prerequisite: 'droneSlot1',
+        sectorRequired: 5,
+        effectPerLevel: 0.06,
+        effectDescription: '+6% missile reload per level',
+    },
 
     // Economy
     {
@@ -523,6 +1457,18 @@ export const UPGRADES: UpgradeDefinition[] = [
         effectPerLevel: 0,
         effectDescription: 'Auto-collect scrap',
     },
+    {
+        id: 'offlineCapacity',
+        name: 'Idle Protocols',
+        description: 'The ship keeps fighting longer while you are away.',
+        category: 'economy',
+        baseCost: 500,
+        maxLevel: 4,
+        isUnlock: false,
+        sectorRequired: 2,
+        effectPerLevel: 2,
+        effectDescription: '+2h offline progress cap per level',
+    },
 
     // Survival
     {
@@ -562,7 +1508,7 @@ export const UPGRADES: UpgradeDefinition[] = [
     {
         id: 'heatCapacity',
         name: 'Heat Capacity',
-        description: 'Increases heat capacity before overheat.',
+        description: 'Increases heat capacity before a meltdown. Fuller vents hit harder.',
         category: 'survival',
         baseCost: 60,
         maxLevel: REPEATABLE_MAX_LEVEL,
@@ -574,7 +1520,7 @@ export const UPGRADES: UpgradeDefinition[] = [
     {
         id: 'coolingRate',
         name: 'Cooling Systems',
-        description: 'Increases heat dissipation rate.',
+        description: 'Increases heat dissipation rate and recharges the vent faster.',
         category: 'survival',
         baseCost: 60,
         maxLevel: REPEATABLE_MAX_LEVEL,
@@ -588,34 +1534,304 @@ export const UPGRADES: UpgradeDefinition[] = [
 // ============================================================================
 // WEAPON MODS
 // ============================================================================
+/**
+ * How a mod's shots behave. The numbers on each mod tune its behavior;
+ * GameScene fires and resolves hits from them.
+ *
+ * - straight: one bullet per trigger pull (spread/pierce/ricochet/chain add to it)
+ * - homing: bullets steer toward the nearest enemy
+ * - beam: an instant hitscan beam through every enemy in the ship's column
+ * - railgun: trigger pulls charge a single heavy, piercing slug
+ */
+export type ProjectileBehavior = 'straight' | 'homing' | 'beam' | 'railgun';
+
 export interface WeaponMod {
     id: string;
     name: string;
     description: string;
     damageMultiplier: number;
+    behavior: ProjectileBehavior;
+    dpsMultiplier: number; // Estimated damage per trigger pull vs. Standard (boss HP and shop estimates)
+    minSector?: number; // Sector the mod unlocks in (default: with the mod slot)
+    projectiles?: number; // Bullets per trigger pull (default 1)
+    spread?: number; // px of sideways drift between neighbouring pellets
+    speedMultiplier?: number;
+    pierce?: number; // Extra enemies a bullet passes through
+    ricochets?: number; // Times a bullet bounces on to the nearest unhit enemy
+    chainJumps?: number; // Arcs from the struck enemy to nearby unhit enemies
+    chainRange?: number; // px an arc can jump
+    chainFalloff?: number; // Damage multiplier per arc
+    turnRate?: number; // deg/s a homing bullet can turn
+    beamWidth?: number; // px either side of the beam's centre line
+    chargeShots?: number; // Trigger pulls per railgun slug
+    heatMultiplier?: number; // Heat per trigger pull vs. Standard (default 1)
+    shieldBreakBonus?: number; // Extra hull damage, as a fraction of the hit, when a hit breaks a shield
 }
 
+export const RICOCHET_RANGE = 220; // px a ricochet looks for its next target
+export const HOMING_LIFETIME = 2000; // ms a homing bullet keeps steering
+
 export const WEAPON_MODS: WeaponMod[] = [
     {
         id: 'standard',
         name: 'Standard',
         description: 'Standard single-shot bullets.',
         damageMultiplier: 1.0,
+        behavior: 'straight',
+        dpsMultiplier: 1.0,
     },
     {
         id: 'pierce',
         name: 'Pierce',
-        description: 'Bullets pierce through enemies. -10% damage.',
+        description: 'Bullets pierce through enemies. -10% damage. Breaking a shield deals +50% damage.',
         damageMultiplier: 0.9,
+        behavior: 'straight',
+        dpsMultiplier: 0.9,
+        pierce: 3,
+        shieldBreakBonus: 0.5,
+        heatMultiplier: 1.2,
     },
     {
         id: 'scatter',
         name: 'Scatter',
         description: 'Fires 3 bullets in a cone. -40% damage per bullet.',
         damageMultiplier: 0.6,
+        behavior: 'straight',
+        dpsMultiplier: 1.8,
+        projectiles: 3,
+        spread: 50,
+        heatMultiplier: 1.5,
+    },
+    {
+        id: 'homing',
+        name: 'Homing Missiles',
+        description: 'Slower missiles that steer into the nearest enemy. -15% damage.',
+        damageMultiplier: 0.85,
+        behavior: 'homing',
+        dpsMultiplier: 0.95, // Rarely miss
+        minSector: 4,
+        speedMultiplier: 0.7,
+        turnRate: 270,
+        heatMultiplier: 1.3,
+    },
+    {
+        id: 'chain',
+        name: 'Chain Lightning',
+        description: 'Hits arc to 2 nearby enemies for 60% of the previous arc. -30% damage.',
+        damageMultiplier: 0.7,
+        behavior: 'straight',
+        dpsMultiplier: 1.1, // Arcs often find nothing in range
+        minSector: 4,
+        chainJumps: 2,
+        chainRange: 130,
+        chainFalloff: 0.6,
+        heatMultiplier: 1.4,
+    },
+    {
+        id: 'ricochet',
+        name: 'Ricochet',
+        description: 'Bullets bounce on to the 2 nearest enemies they have not hit. -20% damage.',
+        damageMultiplier: 0.8,
+        behavior: 'straight',
+        dpsMultiplier: 1.2,
+        minSector: 5,
+        ricochets: 2,
+        heatMultiplier: 1.2,
+    },
+    {
+        id: 'beam',
+        name: 'Laser Beam',
+        description: 'Instant beam that hits every enemy above the ship. -45% damage.',
+        damageMultiplier: 0.55,
+        behavior: 'beam',
+        dpsMultiplier: 1.0, // Never misses, usually finds more than one enemy
+        minSector: 5,
+        beamWidth: 18,
+        heatMultiplier: 1.6,
+    },
+    {
+        id: 'railgun',
+        name: 'Railgun',
+        description: 'Every 3rd trigger pull fires a fast slug for 360% damage that pierces everything.',
+        damageMultiplier: 3.6,
+        behavior: 'railgun',
+        dpsMultiplier: 1.3, // 3.6 / 3, plus piercing
+        minSector: 6,
+        chargeShots: 3,
+        speedMultiplier: 2.2,
+        pierce: 99,
+        shieldBreakBonus: 0.25,
+        heatMultiplier: 1.2,
+    },
+];
+
+/**
+ * Look up a weapon mod by id (falls back to Standard)
+ */
+export function getWeaponMod(id: string | undefined): WeaponMod {
+    return WEAPON_MODS.find(m => m.id === id) || WEAPON_MODS[0];
+}
+
+// ============================================================================
+// DRONE CLASSES
+// ============================================================================
+/**
+ * What a drone does. Each drone bay flies one class, picked in the Drones
+ * tab; Drone switches on the id. Classes unlock by sector like weapon mods.
+ */
+export type DroneClassId = 'combat' | 'interceptor' | 'repair' | 'shield' | 'salvage' | 'heavy';
+
+export interface DroneClass {
+    id: DroneClassId;
+    name: string;
+    description: string;
+    color: number; // Hull colour
+    minSector?: number; // Sector the class unlocks in (default: with Drone Bay I)
+    upgradeIds: string[]; // The class's upgrade tracks (also drive its visual tier)
+}
+
+export const DRONE_CLASSES: DroneClass[] = [
+    {
+        id: 'combat',
+        name: 'Combat',
+        description: 'Fires at enemies.',
+        color: 0x66ddff,
+        upgradeIds: ['droneDamage', 'droneFireRate'],
+    },
+    {
+        id: 'salvage',
+        name: 'Salvage',
+        description: 'Doesn\'t shoot. +10% scrap from kills.',
+        color: 0xffdd44,
+        minSector: 1,
+        upgradeIds: ['salvageDroneYield'],
+    },
+    {
+        id: 'repair',
+        name: 'Repair',
+        description: 'Doesn\'t shoot. Patches the hull over time.',
+        color: 0x44ff88,
+        minSector: 2,
+        upgradeIds: ['repairDroneOutput'],
+    },
+    {
+        id: 'interceptor',
+        name: 'Interceptor',
+        description: 'Shoots down enemy bullets near the ship.',
+        color: 0xff8844,
+        minSector: 3,
+        upgradeIds: ['interceptorCycling', 'interceptorRange'],
+    },
+    {
+        id: 'shield',
+        name: 'Shield',
+        description: 'Stores hits and absorbs enemy bullets aimed at the ship.',
+        color: 0x88aaff,
+        minSector: 4,
+        upgradeIds: ['shieldDroneCapacity', 'shieldDroneRecharge'],
+    },
+    {
+        id: 'heavy',
+        name: 'Heavy',
+        description: 'Slowly fires homing missiles for 4x drone damage.',
+        color: 0xff4466,
+        minSector: 5,
+        upgradeIds: ['heavyDroneWarheads', 'heavyDroneReload'],
+    },
+];
+
+/**
+ * Look up a drone class by id (falls back to Combat)
+ */
+export function getDroneClass(id: string | undefined): DroneClass {
+    return DRONE_CLASSES.find(c => c.id === id) || DRONE_CLASSES[0];
+}
+
+// ============================================================================
+// DRONE FORMATIONS
+// ============================================================================
+/**
+ * Where the drones fly around the ship, picked in the Drones tab. The
+ * formation also limits which enemies a drone will pick as a target.
+ */
+export type DroneFormationId = 'orbit' | 'wing' | 'screen' | 'escort';
+
+export interface DroneFormation {
+    id: DroneFormationId;
+    name: string;
+    description: string;
+    targetRange?: number; // px from the drone it picks targets within (default: anywhere)
+    targetColumn?: number; // Only targets within this many px sideways of the drone
+}
+
+export const DRONE_ORBIT_RADIUS = 60; // Squashed to half height
+export const DRONE_ORBIT_SPEED = 2; // rad/s
+
+export const DRONE_FORMATIONS: DroneFormation[] = [
+    {
+        id: 'orbit',
+        name: 'Orbit',
+        description: 'Drones circle the ship and engage anything on screen.',
+    },
+    {
+        id: 'wing',
+        name: 'Wing Line',
+        description: 'Drones fly abreast of the ship, each covering its own lane.',
+        targetColumn: 80,
+    },
+    {
+        id: 'screen',
+        name: 'Forward Screen',
+        description: 'Drones hold a line ahead of the ship and engage close threats first.',
+        targetRange: 260,
+    },
+    {
+        id: 'escort',
+        name: 'Trailing Escort',
+        description: 'Drones tuck in behind the ship and only engage enemies closing in.',
+        targetRange: 340,
     },
 ];
 
+/**
+ * Look up a drone formation by id (falls back to Orbit)
+ */
+export function getDroneFormation(id: string | undefined): DroneFormation {
+    return DRONE_FORMATIONS.find(f => f.id === id) || DRONE_FORMATIONS[0];
+}
+
+/**
+ * Where a bay's drone sits relative to the ship. Orbit circles at the
+ * drone's orbitAngle; the other formations hold a fixed slot per bay.
+ */
+export function getDroneFormationOffset(
+    formation: DroneFormationId,
+    bay: number,
+    bayCount: number,
+    orbitAngle: number
+): { x: number; y: number } {
+    const side = bay % 2 === 0 ? -1 : 1;
+    const rank = Math.floor(bay / 2);
+    switch (formation) {
+        case 'wing':
+            // Left, right, then further out and slightly back
+            return { x: side * (50 + rank * 40), y: 6 + rank * 8 };
+        case 'screen': {
+            // A shallow chevron centred over the ship
+            const x = (bay - (bayCount - 1) / 2) * 36;
+            return { x, y: -80 + Math.abs(x) * 0.15 };
+        }
+        case 'escort':
+            // A V trailing behind the ship
+            return { x: side * (24 + rank * 24), y: 28 + rank * 10 };
+        default:
+            return {
+                x: Math.cos(orbitAngle) * DRONE_ORBIT_RADIUS,
+                y: Math.sin(orbitAngle) * DRONE_ORBIT_RADIUS * 0.5,
+            };
+    }
+}
+
 // ============================================================================
 // BEHAVIOR SCRIPTS
 // ============================================================================
@@ -627,8 +1843,11 @@ export interface BehaviorScript {
     damageModifier: number;
     salvageModifier: number;
     evasionModifier: number;
+    extraShotChance: number; // Chance per trigger pull for a bonus shot at a random target
 }
 
+export const RANDOM_RETARGET_INTERVAL = 1200; // ms a 'random' targeting bias keeps its lock
+
 export const BEHAVIOR_SCRIPTS: BehaviorScript[] = [
     {
         id: 'balanced',
@@ -638,6 +1857,7 @@ export const BEHAVIOR_SCRIPTS: BehaviorScript[] = [
         damageModifier: 1.0,
         salvageModifier: 1.0,
         evasionModifier: 1.0,
+        extraShotChance: 0,
     },
     {
         id: 'guardian',
@@ -647,6 +1867,7 @@ export const BEHAVIOR_SCRIPTS: BehaviorScript[] = [
         damageModifier: 0.9,
         salvageModifier: 1.0,
         evasionModifier: 1.2,
+        extraShotChance: 0,
     },
     {
         id: 'assassin',
@@ -656,6 +1877,7 @@ export const BEHAVIOR_SCRIPTS: BehaviorScript[] = [
         damageModifier: 1.15,
         salvageModifier: 1.0,
         evasionModifier: 0.9,
+        extraShotChance: 0,
     },
     {
         id: 'farmer',
@@ -665,31 +1887,263 @@ export const BEHAVIOR_SCRIPTS: BehaviorScript[] = [
         damageModifier: 0.85,
         salvageModifier: 1.15,
         evasionModifier: 1.0,
+        extraShotChance: 0,
     },
     {
         id: 'chaos',
         name: 'Chaos',
-        description: 'Unpredictable multi-targeting. Chance for extra shots.',
+        description: 'Unpredictable multi-targeting. 25% chance for extra shots.',
         targetingBias: 'random',
         damageModifier: 1.0,
         salvageModifier: 1.0,
         evasionModifier: 1.0,
+        extraShotChance: 0.25,
+    },
+];
+
+/**
+ * Look up a behavior script by id (falls back to Balanced)
+ */
+export function getBehaviorScript(id: string | undefined): BehaviorScript {
+    return BEHAVIOR_SCRIPTS.find(s => s.id === id) || BEHAVIOR_SCRIPTS[0];
+}
+
+/**
+ * Damage per trigger pull vs. one Standard bullet. The bonus shot is a
+ * single bullet, not a volley:
+ * damageModifier * (dpsMultiplier + extraShotChance * damageMultiplier)
+ */
+export function getLoadoutDamageMultiplier(mod: WeaponMod, script: BehaviorScript): number {
+    return script.damageModifier * (mod.dpsMultiplier + script.extraShotChance * mod.damageMultiplier);
+}
+
+// ============================================================================
+// AUTOPILOT DODGING (V3)
+// ============================================================================
+export const DODGE_LOOKAHEAD = 220; // px above the ship that enemy bullets are dodged
+export const DODGE_RADIUS = 70; // px a bullet must pass within to be dodged
+export const DODGE_MAX_OFFSET = 90; // px the autopilot sidesteps at evasion 1
+
+// ============================================================================
+// AUTOPILOT V4 (trajectory planner)
+// ============================================================================
+export const AUTOPILOT_V4_HORIZON = 1000; // ms of bullet and enemy motion simulated
+export const AUTOPILOT_V4_TIME_STEP = 50; // ms between simulated samples
+export const AUTOPILOT_V4_REPLAN_INTERVAL = 150; // ms a plan is kept before re-planning
+export const AUTOPILOT_V4_CANDIDATE_SPACING = 20; // px between candidate positions
+export const AUTOPILOT_V4_SCAN_RADIUS = 360; // px around the ship that bullets are simulated in
+export const AUTOPILOT_V4_HIT_MARGIN = 8; // px of clearance kept around the hull
+export const AUTOPILOT_V4_AIM_TOLERANCE = 20; // px a shot may miss by and still count as lined up
+export const AUTOPILOT_V4_HIT_PENALTY = 6; // Score lost per predicted hit (a lined-up target scores 1-3)
+export const AUTOPILOT_V4_TRAVEL_PENALTY = 0.002; // Score lost per px moved, so ties hold position
+
+// ============================================================================
+// PRESTIGE (META PROGRESSION)
+// ============================================================================
+
+export interface MetaUpgradeDefinition {
+    id: string;
+    name: string;
+    description: string;
+    baseCost: number; // Echoes
+    costGrowth: number; // Cost multiplier per level owned
+    maxLevel: number;
+    effectPerLevel: number;
+    effectDescription: string;
+}
+
+export const META_UPGRADES: MetaUpgradeDefinition[] = [
+    {
+        id: 'startingScrap',
+        name: 'Salvage Cache',
+        description: 'Start each run with a stockpile of scrap.',
+        baseCost: 2,
+        costGrowth: 1.5,
+        maxLevel: 10,
+        effectPerLevel: 250,
+        effectDescription: '+250 starting scrap per level',
+    },
+    {
+        id: 'costDiscount',
+        name: 'Efficient Fabrication',
+        description: 'All scrap upgrade costs are reduced.',
+        baseCost: 3,
+        costGrowth: 1.6,
+        maxLevel: 10,
+        effectPerLevel: 0.03,
+        effectDescription: '-3% scrap costs per level',
+    },
+    {
+        id: 'extraDroneSlot',
+        name: 'Reserve Drone Bay',
+        description: 'An extra drone bay joins once Drone Bay I is installed.',
+        baseCost: 25,
+        costGrowth: 1,
+        maxLevel: 1,
+        effectPerLevel: 1,
+        effectDescription: '+1 drone',
+    },
+    {
+        id: 'startingAutoFire',
+        name: 'Trigger Memory',
+        description: 'Start each run with Auto-Fire already installed.',
+        baseCost: 5,
+        costGrowth: 1,
+        maxLevel: 1,
+        effectPerLevel: 1,
+        effectDescription: 'Auto-Fire from wave 1',
+    },
+];
+
+/**
+ * Echo cost of the next meta upgrade level: cost(L) = C0 * growth^L
+ */
+export function getMetaUpgradeCost(definition: MetaUpgradeDefinition, level: number): number {
+    return Math.round(definition.baseCost * Math.pow(definition.costGrowth, level));
+}
+
+/**
+ * Echoes earned by prestiging, from the run's stats
+ * echoes = sqrt(scrap / 5000) + 2 * bosses + kills / 400
+ */
+export function getPrestigeReward(kills: number, scrapEarned: number, bossesDefeated: number): number {
+    return Math.floor(Math.sqrt(Math.max(0, scrapEarned) / 5000) + bossesDefeated * 2 + Math.max(0, kills) / 400);
+}
+
+// ============================================================================
+// ENDLESS MODE
+// ============================================================================
+export const ENDLESS_SPAWN_CAP = 80;
+export const ENDLESS_HISTORY_LENGTH = 10; // Finished runs kept in the save
+export const ENDLESS_MAX_AFFIXES = 3;
+
+export const ENDLESS_SECTOR_PREFIXES = ["Outer", "Hollow", "Shattered", "Silent", "Burning", "Frozen", "Null"];
+export const ENDLESS_SECTOR_SUFFIXES = ["Expanse", "Rift", "Verge", "Drift", "Reach"];
+
+// Sector-wide modifiers rolled onto endless sectors. Omitted multipliers are 1.
+export interface SectorAffix {
+    id: string;
+    name: string;
+    description: string;
+    hpMultiplier?: number;
+    speedMultiplier?: number;
+    fireRateMultiplier?: number;
+    spawnMultiplier?: number;
+    scrapMultiplier?: number;
+}
+
+export const ENDLESS_AFFIXES: SectorAffix[] = [
+    {
+        id: 'armored',
+        name: 'Armored',
+        description: '+40% enemy HP',
+        hpMultiplier: 1.4,
+        scrapMultiplier: 1.15,
+    },
+    {
+        id: 'overclocked',
+        name: 'Overclocked',
+        description: '+35% enemy speed',
+        speedMultiplier: 1.35,
+    },
+    {
+        id: 'volatile',
+        name: 'Volatile',
+        description: '+50% enemy fire rate',
+        fireRateMultiplier: 1.5,
+    },
+    {
+        id: 'swarming',
+        name: 'Swarming',
+        description: '+30% enemies per wave, -15% enemy HP',
+        spawnMultiplier: 1.3,
+        hpMultiplier: 0.85,
+    },
+    {
+        id: 'bountiful',
+        name: 'Bountiful',
+        description: '+30% scrap, +15% enemy HP',
+        scrapMultiplier: 1.3,
+        hpMultiplier: 1.15,
+    },
+    {
+        id: 'relentless',
+        name: 'Relentless',
+        description: '+20% enemy fire rate and +15% speed',
+        fireRateMultiplier: 1.2,
+        speedMultiplier: 1.15,
     },
 ];
 
+/**
+ * Affixes active in a sector. Campaign sectors have none; endless sectors roll
+ * 1 affix, gaining another every 2 sectors (max 3). The roll is deterministic
+ * per sector so a reload lands on the same modifiers.
+ */
+export function getEndlessAffixes(sector: number): SectorAffix[] {
+    if (sector < SECTOR_COUNT) return [];
+
+    const depth = sector - SECTOR_COUNT;
+    const count = Math.min(ENDLESS_MAX_AFFIXES, 1 + Math.floor(depth / 2));
+    const start = (depth * 7 + 3) % ENDLESS_AFFIXES.length;
+
+    // Stride 5 is coprime with the pool size, so picks never repeat
+    const affixes: SectorAffix[] = [];
+    for (let i = 0; i < count; i++) {
+        affixes.push(ENDLESS_AFFIXES[(start + i * 5) % ENDLESS_AFFIXES.length]);
+    }
+    return affixes;
+}
+
+/**
+ * Combined multiplier of one affix stat across a sector's affixes
+ */
+export function getAffixMultiplier(
+    affixes: SectorAffix[],
+    key: 'hpMultiplier' | 'speedMultiplier' | 'fireRateMultiplier' | 'spawnMultiplier' | 'scrapMultiplier'
+): number {
+    return affixes.reduce((total, affix) => total * (affix[key] ?? 1), 1);
+}
+
 // ============================================================================
 // GAME LIMITS (Performance)
 // ============================================================================
 export const MAX_PLAYER_BULLETS = 100;
 export const MAX_ENEMY_BULLETS = 150;
 export const MAX_ENEMIES = 60;
+export const MAX_POPUPS = 60; // Floating damage/scrap/heal numbers
+export const MAX_PARTICLES = 240; // Sparks, orbs, flashes and puffs
+export const DEBUG_OVERLAY_INTERVAL = 250; // ms between debug overlay refreshes
+export const SPATIAL_CELL_SIZE = 64; // px per side of an AI query grid cell
 
 // ============================================================================
 // SAVE SYSTEM
 // ============================================================================
-export const SAVE_KEY = 'autoInvaders_save';
+export const SAVE_KEY = 'autoInvaders_save'; // Slot 0 (later slots append _<n>)
+export const SAVE_SLOT_COUNT = 3;
 export const AUTOSAVE_INTERVAL = 15000; // 15 seconds
-export const MAX_OFFLINE_HOURS = 8;
+
+// Offline progress: time away, capped, is played out by the headless
+// simulation at OFFLINE_EFFICIENCY speed (see OfflineProgress)
+export const MAX_OFFLINE_HOURS = 8; // Base cap; Idle Protocols extends it
+export const OFFLINE_CAP_HOURS_PER_LEVEL = 2;
+export const OFFLINE_EFFICIENCY = 0.5;
+export const OFFLINE_MIN_SECONDS = 60; // Shorter absences earn nothing
+export const OFFLINE_MAX_SIMULATED_WAVES = 20; // Time left after these farms the last wave cleared
+
+/**
+ * Hours away that count for offline progress: 8 + 2*offlineCapacity
+ */
+export function getOfflineCapHours(capacityLevel: number): number {
+    return MAX_OFFLINE_HOURS + capacityLevel * OFFLINE_CAP_HOURS_PER_LEVEL;
+}
+
+// ============================================================================
+// REPLAYS
+// ============================================================================
+export const REPLAY_MAX_FRAMES = 60 * 60 * 120; // Recording stops after ~2 hours at 60 FPS
+export const REPLAY_SPEEDS = [1, 2, 4, 8];
+export const REPLAY_SEEK_BUDGET_MS = 12; // Simulation time per rendered frame while scrubbing
 
 // ============================================================================
 // CLICK ABILITIES
@@ -702,3 +2156,9 @@ export const OVERDRIVE_COOLDOWN = 30000;
 export const OVERDRIVE_DURATION = 10000;
 export const OVERDRIVE_DAMAGE_MULT = 1.5;
 export const OVERDRIVE_FIRE_RATE_MULT = 1.5;
+
+// Vent (E key, S5+): dump all heat as a pulse around the ship
+export const VENT_BASE_COOLDOWN = 12000;
+export const VENT_RADIUS = 200;
+export const VENT_MIN_HEAT = 10; // Nothing to vent below this
+export const VENT_DAMAGE_PER_HEAT = 0.06; // Pulse damage per heat vented, as a fraction of shot damage
@@ -1,22 +1,59 @@
 /**
  * Bullet - Projectile for both player and enemies
+ *
+ * Bullets live in the scene's pooled groups: take one with group.get(), launch
+ * it with fire() or fireEnemy(), and hand it back with recycle() instead of
+ * destroying it. Sprites come from the textures baked by TextureBaker.
  */
 import Phaser from 'phaser';
+import type { EnemyBulletShape } from '../config/GameConfig';
+import { getPlayerBulletTexture, getEnemyBulletTexture, PlayerBulletVariant } from '../systems/TextureBaker';
+
+// Pooled targets bump their generation on reuse (see Enemy.generation)
+interface TrackedTarget {
+    generation?: number;
+}
+
+interface HomingTarget extends TrackedTarget {
+    x: number;
+    y: number;
+    active: boolean;
+}
 
 export class Bullet extends Phaser.GameObjects.Container {
-    public damage: number;
-    public speed: number;
-    public isPlayerBullet: boolean;
+    public damage: number = 0;
+    public speed: number = 0;
+    public isPlayerBullet: boolean = true;
     public pierce: boolean = false;
     public pierceCount: number = 0;
     public isCrit: boolean = false;
+    public ricochets: number = 0; // Bounces left (Ricochet mod)
+
+    private sprite: Phaser.GameObjects.Image;
+    private variant: PlayerBulletVariant = 'standard';
+    private homingTarget: HomingTarget | null = null;
+    private homingTurnRate: number = 0; // rad/s
+    private homingTime: number = 0; // ms of steering left
+    private homingGeneration: number | undefined; // Target's generation when homing started
+    private hitRegistry = new Map<TrackedTarget, number | undefined>(); // Enemies this shot has already hit, by generation
 
-    private graphics!: Phaser.GameObjects.Graphics;
-    private variant: 'standard' | 'pierce' | 'scatter' | 'drone' = 'standard';
-    private powerScale: number = 1;
+    constructor(scene: Phaser.Scene, x: number = 0, y: number = 0) {
+        super(scene, x, y);
+
+        this.sprite = scene.add.image(0, 0, getPlayerBulletTexture('standard'));
+        this.add(this.sprite);
+
+        // Add to scene
+        scene.add.existing(this);
 
-    constructor(
-        scene: Phaser.Scene,
+        // Enable physics
+        scene.physics.add.existing(this);
+        const body = this.body as Phaser.Physics.Arcade.Body;
+        body.setSize(8, 16);
+        body.setOffset(-4, -8);
+    }
+
+    public fire(
         x: number,
         y: number,
         damage: number,
@@ -25,151 +62,164 @@ export class Bullet extends Phaser.GameObjects.Container {
         isPlayerBullet: boolean = true,
         pierce: boolean = false,
         pierceCount: number = 0,
-        variant: 'standard' | 'pierce' | 'scatter' | 'drone' = 'standard'
-    ) {
-        super(scene, x, y);
-
-        this.damage = damage;
-        this.speed = speed;
-        this.isPlayerBullet = isPlayerBullet;
+        variant: PlayerBulletVariant = 'standard',
+        isCrit: boolean = false
+    ): void {
+        this.launch(x, y, damage, speed, isPlayerBullet);
         this.pierce = pierce;
         this.pierceCount = pierceCount;
         this.variant = variant;
-        this.updatePowerScale();
-
-        // Create graphics
-        this.createGraphics();
-
-        // Add to scene
-        scene.add.existing(this);
+        this.isCrit = isCrit;
 
-        // Enable physics
-        scene.physics.add.existing(this);
         const body = this.body as Phaser.Physics.Arcade.Body;
-        body.setSize(8, 16);
-        body.setOffset(-4, -8);
-
-        // Calculate velocity
         if (isPlayerBullet) {
-            // Player bullets go straight up
-            // If targetX differs from x (scatter mode), add slight horizontal velocity
+            // Scatter shots drift toward their targetX
             const horizontalDiff = targetX - x;
             const velocityX = Math.abs(horizontalDiff) > 5 ? horizontalDiff * 0.5 : 0;
-            const velocityY = -speed;
-            body.setVelocity(velocityX, velocityY);
+            body.setVelocity(velocityX, -speed);
+
+            // Harder hitting shots look bigger
+            this.sprite.setTexture(getPlayerBulletTexture(variant));
+            this.sprite.setScale(Phaser.Math.Clamp(damage / 10, 0.7, 2.0));
         } else {
-            // Enemy bullets go down
             body.setVelocity(0, speed);
+            this.sprite.setTexture(getEnemyBulletTexture('bolt'));
+            this.sprite.setScale(1);
         }
     }
 
-    public fire(
+    /**
+     * Launch an enemy bullet along an angle (radians, 0 = right, PI/2 = down)
+     */
+    public fireEnemy(
         x: number,
         y: number,
         damage: number,
         speed: number,
-        targetX: number = x,
-        isPlayerBullet: boolean = true,
-        pierce: boolean = false,
-        pierceCount: number = 0,
-        variant: 'standard' | 'pierce' | 'scatter' | 'drone' = 'standard',
-        isCrit: boolean = false
+        angle: number,
+        shape: EnemyBulletShape = 'bolt'
     ): void {
+        this.launch(x, y, damage, speed, false);
+        this.pierce = false;
+        this.pierceCount = 0;
+        this.variant = 'standard';
+        this.isCrit = false;
+
+        this.sprite.setTexture(getEnemyBulletTexture(shape));
+        this.sprite.setScale(1);
+        this.setVelocityVector(Math.cos(angle) * speed, Math.sin(angle) * speed);
+    }
+
+    /**
+     * Return the bullet to its pool
+     */
+    public recycle(): void {
+        this.setActive(false);
+        this.setVisible(false);
+        this.homingTarget = null;
+        this.hitRegistry.clear(); // Don't keep dead enemies alive
+
+        const body = this.body as Phaser.Physics.Arcade.Body | null;
+        if (body) {
+            body.stop();
+            body.enable = false;
+        }
+    }
+
+    /**
+     * Override the launch direction (used by boss volleys, aimed shots,
+     * homing and ricochets). The bullet turns to face where it's going.
+     */
+    public setVelocityVector(vx: number, vy: number): void {
+        if (!this.body) return;
+        const body = this.body as Phaser.Physics.Arcade.Body;
+        body.setVelocity(vx, vy);
+
+        // Enemy bullets are drawn pointing down, player bullets up
+        this.rotation = Math.atan2(vy, vx) + (this.isPlayerBullet ? Math.PI / 2 : -Math.PI / 2);
+    }
+
+    public hasHit(target: TrackedTarget): boolean {
+        return this.hitRegistry.has(target) && this.hitRegistry.get(target) === target.generation;
+    }
+
+    /**
+     * Remember a target so pierce, ricochet and chain hits skip it
+     */
+    public registerHit(target: TrackedTarget): void {
+        this.hitRegistry.set(target, target.generation);
+    }
+
+    /**
+     * Steer toward a target for a while, turning at most turnRate degrees/s
+     */
+    public setHoming(target: HomingTarget, turnRate: number, lifetime: number): void {
+        this.homingTarget = target;
+        this.homingGeneration = target.generation;
+        this.homingTurnRate = Phaser.Math.DegToRad(turnRate);
+        this.homingTime = lifetime;
+    }
+
+    public getVelocity(): { x: number; y: number } {
+        const body = this.body as Phaser.Physics.Arcade.Body | null;
+        return body ? body.velocity : { x: 0, y: 0 };
+    }
+
+    /**
+     * Weapon mod (or drone) that fired this bullet
+     */
+    public getVariant(): PlayerBulletVariant {
+        return this.variant;
+    }
+
+    private launch(x: number, y: number, damage: number, speed: number, isPlayerBullet: boolean): void {
         this.setPosition(x, y);
         this.damage = damage;
         this.speed = speed;
         this.isPlayerBullet = isPlayerBullet;
-        this.pierce = pierce;
-        this.pierceCount = pierceCount;
-        this.variant = variant;
-        this.isCrit = isCrit;
-        this.updatePowerScale();
+        this.homingTarget = null;
+        this.rotation = 0;
+        this.ricochets = 0;
+        this.hitRegistry.clear();
 
         this.setActive(true);
         this.setVisible(true);
 
-        // Re-create graphics if type changed or first run
-        this.createGraphics();
-
-        // Physics body reset
-        if (this.body) {
-            const body = this.body as Phaser.Physics.Arcade.Body;
-            // Center the body on the spawn point (width 8, height 16 -> offset -4, -8)
-            body.reset(x - 4, y - 8);
-
-            if (isPlayerBullet) {
-                const horizontalDiff = targetX - x;
-                const velocityX = Math.abs(horizontalDiff) > 5 ? horizontalDiff * 0.5 : 0;
-                const velocityY = -speed;
-                body.setVelocity(velocityX, velocityY);
-            } else {
-                body.setVelocity(0, speed);
-            }
-        }
+        // Center the body on the spawn point (width 8, height 16 -> offset -4, -8)
+        const body = this.body as Phaser.Physics.Arcade.Body;
+        body.enable = true;
+        body.reset(x - 4, y - 8);
     }
 
-    private createGraphics(): void {
-        if (this.graphics) {
-            this.graphics.clear();
-        } else {
-            this.graphics = this.scene.add.graphics();
-            this.add(this.graphics);
+    private steer(target: HomingTarget, delta: number): void {
+        this.homingTime -= delta;
+        // Give up once the target dies, even if the pool has already reused it
+        if (this.homingTime <= 0 || !target.active || target.generation !== this.homingGeneration) {
+            this.homingTarget = null;
+            return;
         }
 
-        if (this.isPlayerBullet) {
-            let coreColor = 0x44ddff;
-            let glowColor = 0x44ddff;
-            let width = 4;
-            let height = 16;
-
-            if (this.variant === 'pierce') {
-                coreColor = 0x88ccff;
-                glowColor = 0x88ccff;
-                width = 3;
-                height = 20;
-            } else if (this.variant === 'scatter') {
-                coreColor = 0xffdd44;
-                glowColor = 0xffdd44;
-                width = 5;
-                height = 12;
-            } else if (this.variant === 'drone') {
-                coreColor = 0xff8844;
-                glowColor = 0xffaa66;
-                width = 3;
-                height = 12;
-            }
-
-            const scaledHeight = height * this.powerScale;
-            const scaledWidth = width * this.powerScale;
-
-            // Player bullet
-            this.graphics.fillStyle(coreColor, 1);
-            this.graphics.fillRect(-scaledWidth / 2, -scaledHeight / 2, scaledWidth, scaledHeight);
-
-            // Glow effect
-            this.graphics.fillStyle(glowColor, 0.35);
-            this.graphics.fillRect(-scaledWidth, -scaledHeight / 2 - 3, scaledWidth * 2, scaledHeight + 6);
-        } else {
-            // Enemy bullet - red/orange
-            this.graphics.fillStyle(0xff6644, 1);
-            this.graphics.fillRect(-2, -6, 4, 12);
+        const body = this.body as Phaser.Physics.Arcade.Body;
+        const heading = Math.atan2(body.velocity.y, body.velocity.x);
+        const wanted = Phaser.Math.Angle.Between(this.x, this.y, target.x, target.y);
+        const maxTurn = this.homingTurnRate * (delta / 1000);
+        const turn = Phaser.Math.Clamp(Phaser.Math.Angle.Wrap(wanted - heading), -maxTurn, maxTurn);
+        const speed = body.velocity.length();
 
-            // Glow effect
-            this.graphics.fillStyle(0xff6644, 0.3);
-            this.graphics.fillRect(-3, -8, 6, 16);
-        }
+        this.setVelocityVector(Math.cos(heading + turn) * speed, Math.sin(heading + turn) * speed);
     }
 
-    private updatePowerScale(): void {
-        this.powerScale = Phaser.Math.Clamp(this.damage / 10, 0.7, 2.0);
-    }
+    preUpdate(_time: number, delta: number): void {
+        if (!this.active) return;
 
-    preUpdate(): void {
         // Update position based on physics body
         if (this.body) {
             const body = this.body as Phaser.Physics.Arcade.Body;
             this.x = body.x + 4;
             this.y = body.y + 8;
+
+            const target = this.homingTarget;
+            if (target) this.steer(target, delta);
         }
     }
 }
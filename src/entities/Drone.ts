@@ -1,33 +1,78 @@
 /**
- * Drone - Autonomous combat drone entity
+ * Drone - Autonomous drone entity, flying one of the DRONE_CLASSES
+ *
+ * Combat and heavy drones shoot enemies, interceptors shoot down enemy
+ * bullets, repair drones heal the ship, shield drones store hits for the
+ * scene to absorb, and salvage drones boost scrap (UpgradeManager).
  */
 import Phaser from 'phaser';
+import {
+    DroneClass,
+    DroneFormation,
+    DRONE_ORBIT_SPEED,
+    GAME_WIDTH,
+    getDroneFormation,
+    getDroneFormationOffset,
+    HEAVY_DRONE_MISSILE_SPEED,
+    HEAVY_DRONE_TURN_RATE,
+    HOMING_LIFETIME,
+    REPAIR_DRONE_PULSE,
+    BehaviorScript,
+    getDroneDamage,
+    getDroneFireInterval,
+    getHeavyDroneDamage,
+    getHeavyDroneInterval,
+    getInterceptorInterval,
+    getInterceptorRange,
+    getRepairDroneHealRate,
+    getShieldDroneCharges,
+    getShieldDroneRecharge,
+} from '../config/GameConfig';
 import { SaveManager } from '../systems/SaveManager';
 import { Bullet } from './Bullet';
+import { selectTargetByBias } from '../systems/BehaviorScripts';
+import type { SeededRandom } from '../systems/SeededRandom';
+import type { EffectPool } from '../systems/EffectPool';
+import type { SpatialIndex, TargetEntity } from '../systems/SpatialIndex';
 
 // Forward reference interface
 interface GameSceneInterface {
     playerBullets: Phaser.GameObjects.Group;
-    enemies: Phaser.GameObjects.Group;
-    player: { x: number; y: number };
+    spatialIndex: SpatialIndex;
+    player: { x: number; y: number; currentHP: number; maxHP: number; heal(amount: number): void };
+    rng: SeededRandom;
+    effects: EffectPool;
+    upgradeManager: { getActiveBehaviorScript(): BehaviorScript };
 }
 
+const DRONE_ORBIT_OFFSETS = [0, Math.PI, Math.PI / 2, Math.PI * 1.5, Math.PI / 4];
+
 export class Drone extends Phaser.GameObjects.Container {
     private graphics!: Phaser.GameObjects.Graphics;
     private orbitAngle: number = 0;
-    private orbitRadius: number = 60;
-    private orbitSpeed: number = 2;
-    private fireTimer: number = 0;
+    private bay: number;
+    private bayCount: number; // Drones in the formation
+    private fireTimer: number = 0; // Counts down to the next shot, intercept or heal
     private gameScene: GameSceneInterface;
+    private droneClass: DroneClass;
     private lastVisualTier: number = -1;
+    private lastShieldCharges: number = -1;
+    private target: TargetEntity | null = null; // Last enemy fired at
+    private shieldCharges: number = 0; // Hits stored (shield class)
 
-    constructor(scene: Phaser.Scene, gameScene: GameSceneInterface, slotIndex: number) {
+    constructor(scene: Phaser.Scene, gameScene: GameSceneInterface, bay: number, bayCount: number, droneClass: DroneClass) {
         super(scene, 0, 0);
 
         this.gameScene = gameScene;
+        this.bay = bay;
+        this.bayCount = bayCount;
+        this.droneClass = droneClass;
+        if (droneClass.id === 'shield') {
+            this.shieldCharges = getShieldDroneCharges(SaveManager.getUpgradeLevel('shieldDroneCapacity'));
+        }
 
-        // Offset orbit based on slot
-        this.orbitAngle = slotIndex * Math.PI;
+        // Offset orbit based on bay (third drone fills the gap between the first two)
+        this.orbitAngle = DRONE_ORBIT_OFFSETS[bay % DRONE_ORBIT_OFFSETS.length];
 
         this.createGraphics();
 
@@ -42,17 +87,18 @@ export class Drone extends Phaser.GameObjects.Container {
 
     private refreshGraphicsIfNeeded(): void {
         const tier = this.getVisualTier();
-        if (tier === this.lastVisualTier) return;
+        if (tier === this.lastVisualTier && this.shieldCharges === this.lastShieldCharges) return;
         this.refreshGraphics();
     }
 
     private refreshGraphics(): void {
         const tier = this.getVisualTier();
         this.lastVisualTier = tier;
+        this.lastShieldCharges = this.shieldCharges;
         this.graphics.clear();
 
-        const size = 6 + tier;
-        this.graphics.fillStyle(0x66ddff, 1);
+        const size = (this.droneClass.id === 'heavy' ? 8 : 6) + tier;
+        this.graphics.fillStyle(this.droneClass.color, 1);
         this.graphics.fillTriangle(0, -size, -size, size, size, size);
 
         if (tier >= 1) {
@@ -66,34 +112,180 @@ export class Drone extends Phaser.GameObjects.Container {
             this.graphics.fillRect(-2, -size - 6, 4, 6);
         }
 
+        this.drawClassMarkings(size);
+
         // Engine glow
         this.graphics.fillStyle(0xff8844, 0.8);
         this.graphics.fillCircle(0, size - 2, 3 + tier * 0.4);
     }
 
+    private drawClassMarkings(size: number): void {
+        const g = this.graphics;
+        switch (this.droneClass.id) {
+            case 'interceptor':
+                // Twin point-defense barrels
+                g.fillStyle(0xffffff, 0.9);
+                g.fillRect(-3, -size - 4, 1.5, 5);
+                g.fillRect(1.5, -size - 4, 1.5, 5);
+                break;
+            case 'repair':
+                g.fillStyle(0xffffff, 0.9);
+                g.fillRect(-1, -2, 2, 6);
+                g.fillRect(-3, 0, 6, 2);
+                break;
+            case 'shield':
+                // One pip per stored hit
+                g.lineStyle(1, this.droneClass.color, 0.6);
+                g.strokeCircle(0, 1, size + 4);
+                g.fillStyle(0xffffff, 0.9);
+                for (let i = 0; i < this.shieldCharges; i++) {
+                    g.fillCircle(-((this.shieldCharges - 1) * 2) + i * 4, size + 3, 1.2);
+                }
+                break;
+            case 'salvage':
+                // Grabber claws
+                g.lineStyle(1.5, 0xffffff, 0.8);
+                g.lineBetween(-3, size, -4, size + 4);
+                g.lineBetween(3, size, 4, size + 4);
+                break;
+            case 'heavy':
+                // Missile pods
+                g.fillStyle(0xdddddd, 1);
+                g.fillRect(-size - 3, 0, 3, 6);
+                g.fillRect(size, 0, 3, 6);
+                break;
+        }
+    }
+
+    /**
+     * 0-3 from the class's own upgrade tracks
+     */
     private getVisualTier(): number {
-        const damage = SaveManager.getUpgradeLevel('droneDamage');
-        const fireRate = SaveManager.getUpgradeLevel('droneFireRate');
-        return Math.min(3, Math.floor((damage + fireRate) / 5));
+        const levels = this.droneClass.upgradeIds.reduce((sum, id) => sum + SaveManager.getUpgradeLevel(id), 0);
+        return Math.min(3, Math.floor(levels / 5));
     }
 
     preUpdate(_time: number, delta: number): void {
         this.refreshGraphicsIfNeeded();
 
-        // Orbit around player
-        this.orbitAngle += this.orbitSpeed * (delta / 1000);
+        // Keep the orbit turning so switching back to Orbit picks up smoothly
+        this.orbitAngle += DRONE_ORBIT_SPEED * (delta / 1000);
+
+        const formation = getDroneFormation(SaveManager.getCurrent().activeDroneFormation);
+        const offset = getDroneFormationOffset(formation.id, this.bay, this.bayCount, this.orbitAngle);
+
+        // Wide formations would leave the screen when the ship hugs an edge
+        this.x = Phaser.Math.Clamp(this.gameScene.player.x + offset.x, 10, GAME_WIDTH - 10);
+        this.y = this.gameScene.player.y + offset.y;
+
+        // Orbiting drones face along the orbit, the rest face forward
+        this.rotation = formation.id === 'orbit' ? this.orbitAngle + Math.PI / 2 : 0;
+
+        switch (this.droneClass.id) {
+            case 'interceptor':
+                this.handleInterception(delta);
+                break;
+            case 'repair':
+                this.handleRepair(delta);
+                break;
+            case 'shield':
+                this.handleShieldRecharge(delta);
+                break;
+            case 'salvage':
+                break; // Passive: UpgradeManager.getSalvageMultiplier
+            case 'heavy':
+                this.handleMissiles(delta);
+                break;
+            default:
+                this.handleShooting(delta);
+        }
+    }
+
+    public getDroneClass(): DroneClass {
+        return this.droneClass;
+    }
+
+    /**
+     * Spend a stored hit to block an enemy bullet (shield class)
+     */
+    public absorbHit(): boolean {
+        if (this.shieldCharges <= 0) return false;
+        this.shieldCharges--;
+
+        // fx-dot has radius 8
+        this.gameScene.effects.particle('fx-dot', this.gameScene.player.x, this.gameScene.player.y, {
+            tint: this.droneClass.color,
+            alpha: 0.5,
+            scale: 24 / 8,
+            toScale: 32 / 8,
+            duration: 200,
+        });
+        return true;
+    }
+
+    /**
+     * Shoot down the nearest enemy bullet in range. Waits, ready, until one
+     * comes close.
+     */
+    private handleInterception(delta: number): void {
+        this.fireTimer = Math.max(0, this.fireTimer - delta);
+        if (this.fireTimer > 0) return;
+
+        const range = getInterceptorRange(SaveManager.getUpgradeLevel('interceptorRange'));
+        const threat = this.gameScene.spatialIndex.enemyBullets.nearest(this.x, this.y, undefined, range);
+        if (!threat) return;
+
+        this.fireTimer = getInterceptorInterval(SaveManager.getUpgradeLevel('interceptorCycling'));
+        this.gameScene.effects.line(this.x, this.y, threat.x, threat.y, this.droneClass.color, 2, 120);
+        this.gameScene.effects.particle('fx-spark', threat.x, threat.y, {
+            tint: this.droneClass.color,
+            toScale: 1.4,
+            duration: 120,
+        });
+        threat.recycle();
+    }
+
+    private handleRepair(delta: number): void {
+        this.fireTimer -= delta;
+        if (this.fireTimer > 0) return;
+        this.fireTimer = REPAIR_DRONE_PULSE;
+
+        const player = this.gameScene.player;
+        if (player.currentHP <= 0 || player.currentHP >= player.maxHP) return;
+
+        const rate = getRepairDroneHealRate(SaveManager.getUpgradeLevel('repairDroneOutput'));
+        player.heal(player.maxHP * rate * (REPAIR_DRONE_PULSE / 1000));
+        this.gameScene.effects.line(this.x, this.y, player.x, player.y, this.droneClass.color, 1, 200);
+    }
+
+    private handleShieldRecharge(delta: number): void {
+        const maxCharges = getShieldDroneCharges(SaveManager.getUpgradeLevel('shieldDroneCapacity'));
+        if (this.shieldCharges >= maxCharges) {
+            this.fireTimer = 0;
+            return;
+        }
 
-        const playerX = this.gameScene.player.x;
-        const playerY = this.gameScene.player.y;
+        this.fireTimer += delta;
+        const recharge = getShieldDroneRecharge(SaveManager.getUpgradeLevel('shieldDroneRecharge'));
+        if (this.fireTimer >= recharge) {
+            this.fireTimer -= recharge;
+            this.shieldCharges++;
+        }
+    }
 
-        this.x = playerX + Math.cos(this.orbitAngle) * this.orbitRadius;
-        this.y = playerY + Math.sin(this.orbitAngle) * this.orbitRadius * 0.5;
+    private handleMissiles(delta: number): void {
+        this.fireTimer -= delta;
+        if (this.fireTimer > 0) return;
 
-        // Rotate to face movement direction
-        this.rotation = this.orbitAngle + Math.PI / 2;
+        this.target = this.findTarget();
+        if (!this.target) return;
+        this.fireTimer = getHeavyDroneInterval(SaveManager.getUpgradeLevel('heavyDroneReload'));
 
-        // Handle shooting
-        this.handleShooting(delta);
+        const damage = getHeavyDroneDamage(SaveManager.getUpgradeLevel('heavyDroneWarheads'));
+        const bullet = this.gameScene.playerBullets.get(this.x, this.y - 8) as Bullet | null;
+        if (!bullet) return;
+        bullet.fire(this.x, this.y - 8, damage, HEAVY_DRONE_MISSILE_SPEED, this.x, true, false, 0, 'missile');
+        bullet.setHoming(this.target, HEAVY_DRONE_TURN_RATE, HOMING_LIFETIME);
     }
 
     private handleShooting(delta: number): void {
@@ -101,68 +293,59 @@ export class Drone extends Phaser.GameObjects.Container {
 
         if (this.fireTimer <= 0) {
             // Get fire rate from upgrades
-            const droneFireRateLevel = SaveManager.getUpgradeLevel('droneFireRate');
-            const baseInterval = 800; // ms between shots
-            const fireRateMultiplier = Math.pow(1.06, droneFireRateLevel);
-            const interval = baseInterval / fireRateMultiplier;
+            this.fireTimer = getDroneFireInterval(SaveManager.getUpgradeLevel('droneFireRate'));
 
-            this.fireTimer = interval;
-
-            // Find closest enemy
-            const target = this.findClosestEnemy();
-            if (target) {
-                this.fireBullet(target.x);
+            // Pick a target according to the active behavior script
+            this.target = this.findTarget();
+            if (this.target) {
+                this.fireBullet(this.target.x);
             }
         }
     }
 
-    private findClosestEnemy(): { x: number; y: number } | null {
-        let closest: { x: number; y: number } | null = null;
-        let closestDist = Infinity;
-
-        this.gameScene.enemies.getChildren().forEach((e) => {
-            const enemy = e as unknown as { x: number; y: number; active: boolean };
-            if (!enemy.active) return;
+    /**
+     * Enemy this drone last fired at, while it is alive
+     */
+    public getTarget(): { x: number; y: number } | null {
+        return this.target?.active ? this.target : null;
+    }
 
-            const dist = Phaser.Math.Distance.Between(this.x, this.y, enemy.x, enemy.y);
-            if (dist < closestDist) {
-                closestDist = dist;
-                closest = enemy;
-            }
-        });
+    private findTarget(): TargetEntity | null {
+        const save = SaveManager.getCurrent();
+        const script = this.gameScene.upgradeManager.getActiveBehaviorScript();
+        const reach = this.getReachFilter(getDroneFormation(save.activeDroneFormation));
+        const candidates = this.gameScene.spatialIndex.enemies.getAll(reach);
+        return selectTargetByBias(script.targetingBias, candidates, this.x, this.y, this.gameScene.rng);
+    }
 
-        return closest;
+    /**
+     * Enemies the formation lets this drone engage (undefined: any of them)
+     */
+    private getReachFilter(formation: DroneFormation): ((enemy: TargetEntity) => boolean) | undefined {
+        const { targetRange, targetColumn } = formation;
+        if (targetRange === undefined && targetColumn === undefined) return undefined;
+
+        return (enemy) => {
+            if (targetColumn !== undefined && Math.abs(enemy.x - this.x) > targetColumn) return false;
+            return targetRange === undefined || Phaser.Math.Distance.Between(this.x, this.y, enemy.x, enemy.y) <= targetRange;
+        };
     }
 
     private fireBullet(targetX: number): void {
         // Calculate drone damage
-        const droneDamageLevel = SaveManager.getUpgradeLevel('droneDamage');
-        const baseDamage = 5;
-        const damageMultiplier = Math.pow(1.08, droneDamageLevel);
-        const damage = baseDamage * damageMultiplier;
-
-        const bullet = new Bullet(
-            this.scene,
-            this.x,
-            this.y - 8,
-            damage,
-            350,
-            targetX,
-            true,
-            false,
-            0,
-            'drone'
-        );
-        this.gameScene.playerBullets.add(bullet);
-
-        const shield = this.scene.add.circle(this.x, this.y, 10, 0x44ddff, 0.2);
-        this.scene.tweens.add({
-            targets: shield,
-            scale: 1.6,
-            alpha: 0,
+        const damage = getDroneDamage(SaveManager.getUpgradeLevel('droneDamage'));
+
+        const bullet = this.gameScene.playerBullets.get(this.x, this.y - 8) as Bullet | null;
+        if (!bullet) return;
+        bullet.fire(this.x, this.y - 8, damage, 350, targetX, true, false, 0, 'drone');
+
+        // fx-dot has radius 8; the shield flash starts at 10
+        this.gameScene.effects.particle('fx-dot', this.x, this.y, {
+            tint: 0x44ddff,
+            alpha: 0.2,
+            scale: 10 / 8,
+            toScale: (10 / 8) * 1.6,
             duration: 180,
-            ease: 'Quad.easeOut',
-            onComplete: () => shield.destroy(),
         });
     }
 }
@@ -5,6 +5,9 @@ import Phaser from 'phaser';
 import {
     ENEMY_TYPES,
     EnemyStats,
+    BossDefinition,
+    SectorAffix,
+    getAffixMultiplier,
     getEnemyHP,
     getScrapDrop,
     getEnemyFireMultiplier,
@@ -12,9 +15,39 @@ import {
     GAME_WIDTH,
     GAME_HEIGHT,
     MAX_ENEMY_BULLETS,
+    ENEMY_BULLET_DAMAGE,
+    MARCH_DIVER_BREAKOUT,
+    SHIELD_FRACTION,
+    SHIELD_REGEN_DELAY,
+    getShieldRegenRate,
+    EliteAffixId,
+    ELITE_HP_MULTIPLIER,
+    ELITE_ARMOR_MIN_FRACTION,
+    ELITE_HASTE_SPEED,
+    ELITE_HASTE_FIRE_RATE,
+    ELITE_REGEN_RATE,
+    ELITE_EXPLOSION_BULLETS,
+    ELITE_CLOAK_CYCLE,
+    ELITE_CLOAK_FRACTION,
+    ELITE_CLOAK_ALPHA,
+    ELITE_REFLECT_CHANCE,
+    getEliteAffix,
+    getEliteArmor,
+    ENEMY_BULLET_SPEED,
+    DESCENT_FACTOR,
+    EnemyBulletShape,
+    EnemyFireProfile,
+    getEnemyFireProfile,
 } from '../config/GameConfig';
 import { Bullet } from './Bullet';
+import { SeededRandom } from '../systems/SeededRandom';
+import type { MarchFormation } from '../systems/MarchFormation';
+import { rollEliteAffixes, getEliteScrapMultiplier } from '../systems/EliteAffixes';
 
+// Forward reference to avoid circular imports with GameScene
+interface EnemySceneInterface {
+    player?: { x: number; y: number; active: boolean };
+}
 
 export class Enemy extends Phaser.GameObjects.Container {
     public enemyType: string;
@@ -22,18 +55,38 @@ export class Enemy extends Phaser.GameObjects.Container {
     public maxHP: number;
     public scrapValue: number;
     public isBoss: boolean = false;
+    public bossDefinition: BossDefinition | null = null;
+    public marchFormation: MarchFormation | null = null; // Set while marching in a grid
+    public eliteAffixes: EliteAffixId[] = []; // Empty for regular enemies
+    public generation: number = 0; // Bumped on every spawn, so a pooled reuse isn't the enemy it replaced
 
     private stats: EnemyStats;
     private graphics!: Phaser.GameObjects.Graphics;
     private accentGraphics!: Phaser.GameObjects.Graphics;
     private glowGraphics!: Phaser.GameObjects.Graphics;
     private hpBar!: Phaser.GameObjects.Graphics;
+    private eliteGraphics!: Phaser.GameObjects.Graphics;
     private shieldHP: number = 0;
+    private maxShieldHP: number = 0;
     private hasShield: boolean = false;
+    private shieldRegenDelay: number = 0; // ms until the shield starts recharging
+    private shieldRegenRate: number = 0; // Fraction of the full shield per second
 
     private moveDirection: number = 1;
     private moveTimer: number = 0;
     private fireTimer: number = 0;
+    private fireProfile: EnemyFireProfile;
+    private burstShotsLeft: number = 0; // Shots still to fire in the current burst
+    private burstTimer: number = 0; // ms until the next burst shot (the first waits for the windup)
+    private aliveTime: number = 0; // ms since spawn, drives swarmer weave
+    private breakoutTimer: number = 0; // ms until a marching diver leaves its grid
+    private cloakTimer: number = 0; // ms into the cloak cycle
+    private lastX: number = 0; // Position at the previous preUpdate
+    private lastY: number = 0;
+    private observedVelocity = { x: 0, y: 0 }; // px/s, for movement driven from outside (bosses)
+    private rng: SeededRandom = new SeededRandom(); // Replaced by the scene's RNG on spawn
+    private speedMultiplier: number = 1;
+    private fireRateMultiplier: number = 1;
     private globalWave: number;
     private pulseOffset: number = Phaser.Math.FloatBetween(0, Math.PI * 2);
     private pulseSpeed: number = Phaser.Math.FloatBetween(140, 220);
@@ -55,6 +108,7 @@ export class Enemy extends Phaser.GameObjects.Container {
         this.enemyType = type;
         this.globalWave = globalWave;
         this.stats = ENEMY_TYPES[type] || ENEMY_TYPES.grunt;
+        this.fireProfile = getEnemyFireProfile(type);
         this.enemyBulletsGroup = enemyBulletsGroup;
 
         // Calculate scaled stats
@@ -65,7 +119,9 @@ export class Enemy extends Phaser.GameObjects.Container {
         // Shield for shielded type
         if (type === 'shielded') {
             this.hasShield = true;
-            this.shieldHP = this.maxHP * 0.5;
+            this.maxShieldHP = this.maxHP * SHIELD_FRACTION;
+            this.shieldHP = this.maxShieldHP;
+            this.shieldRegenRate = getShieldRegenRate(globalWave);
         }
 
         // Create graphics
@@ -84,6 +140,8 @@ export class Enemy extends Phaser.GameObjects.Container {
         // Initialize timers with randomization
         this.fireTimer = Phaser.Math.Between(1000, 3000);
         this.moveTimer = 0;
+        this.lastX = x;
+        this.lastY = y;
     }
 
     public spawn(
@@ -92,34 +150,50 @@ export class Enemy extends Phaser.GameObjects.Container {
         type: string,
         sector: number,
         globalWave: number,
-        enemyBulletsGroup?: Phaser.GameObjects.Group
+        enemyBulletsGroup?: Phaser.GameObjects.Group,
+        rng?: SeededRandom
     ): void {
         this.setPosition(x, y);
         this.enemyType = type;
         this.globalWave = globalWave;
         this.stats = ENEMY_TYPES[type] || ENEMY_TYPES.grunt;
+        this.fireProfile = getEnemyFireProfile(type);
         if (enemyBulletsGroup) this.enemyBulletsGroup = enemyBulletsGroup;
+        if (rng) this.rng = rng;
 
         // Reset state
+        this.generation++;
         this.setActive(true);
         this.setVisible(true);
         this.setScale(1); // Reset scale (boss might have changed it)
         this.alpha = 1;
         this.isBoss = false;
+        this.bossDefinition = null;
+        this.marchFormation = null;
 
         // Calculate scaled stats
         this.maxHP = getEnemyHP(type, sector, globalWave);
         this.currentHP = this.maxHP;
         this.scrapValue = getScrapDrop(type, globalWave);
+        this.speedMultiplier = 1;
+        this.fireRateMultiplier = 1;
 
         // Shield for shielded type
         this.hasShield = false;
         this.shieldHP = 0;
+        this.maxShieldHP = 0;
+        this.shieldRegenDelay = 0;
         if (type === 'shielded') {
             this.hasShield = true;
-            this.shieldHP = this.maxHP * 0.5;
+            this.maxShieldHP = this.maxHP * SHIELD_FRACTION;
+            this.shieldHP = this.maxShieldHP;
+            this.shieldRegenRate = getShieldRegenRate(globalWave);
         }
 
+        // Elites roll their affixes on spawn (split-off minis never do)
+        this.eliteAffixes = type === 'splitter_mini' ? [] : rollEliteAffixes(sector, globalWave, this.rng);
+        this.applyEliteAffixes();
+
         // Re-create graphics
         this.createGraphics();
         this.createHPBar(); // Clears and redraws
@@ -132,17 +206,119 @@ export class Enemy extends Phaser.GameObjects.Container {
             body.setOffset(-this.stats.width / 2, -this.stats.height / 2);
         }
 
+        this.lastX = x;
+        this.lastY = y;
+        this.observedVelocity = { x: 0, y: 0 };
+
         // Reset timers
-        this.fireTimer = Phaser.Math.Between(1000, 3000);
+        this.fireTimer = this.rng.between(1000, 3000);
+        this.burstShotsLeft = 0;
+        this.aliveTime = 0;
         this.moveTimer = 0;
         this.moveDirection = 1;
         this.pulseOffset = Phaser.Math.FloatBetween(0, Math.PI * 2);
         this.pulseSpeed = Phaser.Math.FloatBetween(140, 220);
     }
 
+    /**
+     * Apply endless-sector affixes to a freshly spawned enemy
+     */
+    public applySectorAffixes(affixes: SectorAffix[]): void {
+        const hpMult = getAffixMultiplier(affixes, 'hpMultiplier');
+        this.maxHP = Math.round(this.maxHP * hpMult);
+        this.currentHP = this.maxHP;
+        this.shieldHP *= hpMult;
+        this.maxShieldHP *= hpMult;
+        this.scrapValue *= getAffixMultiplier(affixes, 'scrapMultiplier');
+        this.speedMultiplier *= getAffixMultiplier(affixes, 'speedMultiplier');
+        this.fireRateMultiplier *= getAffixMultiplier(affixes, 'fireRateMultiplier');
+    }
+
+    public isElite(): boolean {
+        return this.eliteAffixes.length > 0;
+    }
+
+    public hasEliteAffix(id: EliteAffixId): boolean {
+        return this.eliteAffixes.includes(id);
+    }
+
+    /**
+     * Cloaked elites are faint and can't be locked on to by the autopilot
+     */
+    public isCloaked(): boolean {
+        if (!this.hasEliteAffix('cloaked')) return false;
+        return this.cloakTimer % ELITE_CLOAK_CYCLE >= ELITE_CLOAK_CYCLE * (1 - ELITE_CLOAK_FRACTION);
+    }
+
+    private applyEliteAffixes(): void {
+        if (!this.isElite()) return;
+
+        this.maxHP = Math.round(this.maxHP * ELITE_HP_MULTIPLIER);
+        this.currentHP = this.maxHP;
+        this.maxShieldHP *= ELITE_HP_MULTIPLIER;
+        this.shieldHP = this.maxShieldHP;
+        this.scrapValue *= getEliteScrapMultiplier(this.eliteAffixes);
+
+        if (this.hasEliteAffix('hasted')) {
+            this.speedMultiplier *= ELITE_HASTE_SPEED;
+            this.fireRateMultiplier *= ELITE_HASTE_FIRE_RATE;
+        }
+        if (this.hasEliteAffix('cloaked')) {
+            this.cloakTimer = this.rng.between(0, ELITE_CLOAK_CYCLE);
+        }
+    }
+
+    /**
+     * Hand this enemy's movement to a marching grid
+     */
+    public joinFormation(formation: MarchFormation): void {
+        formation.join(this);
+        if (this.enemyType === 'diver') {
+            this.breakoutTimer = this.rng.between(MARCH_DIVER_BREAKOUT[0], MARCH_DIVER_BREAKOUT[1]);
+        }
+    }
+
+    /**
+     * Turn a freshly spawned enemy into a sector boss (movement and attacks are
+     * driven by BossController instead of handleMovement/handleShooting)
+     */
+    public configureAsBoss(definition: BossDefinition, hp: number, scrap: number): void {
+        this.isBoss = true;
+        this.bossDefinition = definition;
+        this.enemyType = 'boss';
+        this.eliteAffixes = [];
+        this.alpha = 1;
+        this.stats = {
+            baseHP: hp,
+            baseScrap: scrap,
+            speed: definition.speed,
+            color: definition.color,
+            width: definition.width,
+            height: definition.height,
+            canShoot: false,
+        };
+
+        this.maxHP = hp;
+        this.currentHP = hp;
+        this.scrapValue = scrap;
+        this.hasShield = false;
+        this.shieldHP = 0;
+        this.maxShieldHP = 0;
+
+        this.createGraphics();
+        this.updateHPBar();
+
+        if (this.body) {
+            const body = this.body as Phaser.Physics.Arcade.Body;
+            body.setSize(definition.width, definition.height);
+            body.setOffset(-definition.width / 2, -definition.height / 2);
+        }
+    }
+
     private createGraphics(): void {
         if (this.glowGraphics) {
             this.glowGraphics.clear();
+            this.glowGraphics.setScale(1);
         } else {
             this.glowGraphics = this.scene.add.graphics();
             this.add(this.glowGraphics);
@@ -162,6 +338,18 @@ export class Enemy extends Phaser.GameObjects.Container {
             this.add(this.accentGraphics);
         }
 
+        if (this.eliteGraphics) {
+            this.eliteGraphics.clear();
+        } else {
+            this.eliteGraphics = this.scene.add.graphics();
+            this.add(this.eliteGraphics);
+        }
+
+        if (this.bossDefinition) {
+            this.drawBoss(this.bossDefinition);
+            return;
+        }
+
         const w = this.stats.width;
         const h = this.stats.height;
 
@@ -239,6 +427,111 @@ export class Enemy extends Phaser.GameObjects.Container {
         }
 
         this.drawAccents();
+        this.drawEliteMarker();
+    }
+
+    /**
+     * Elites get a frame in their first affix's colour and one pip per affix
+     */
+    private drawEliteMarker(): void {
+        if (!this.isElite()) return;
+
+        const w = this.stats.width;
+        const h = this.stats.height;
+        const colors = this.eliteAffixes.map(id => getEliteAffix(id).color);
+
+        this.eliteGraphics.lineStyle(2, colors[0], 0.9);
+        this.eliteGraphics.strokeRect(-w / 2 - 5, -h / 2 - 5, w + 10, h + 10);
+
+        colors.forEach((color, i) => {
+            const x = (i - (colors.length - 1) / 2) * 9;
+            const y = -h / 2 - 13;
+            this.eliteGraphics.fillStyle(color, 1);
+            this.eliteGraphics.fillTriangle(x, y - 3, x - 3, y, x, y + 3);
+            this.eliteGraphics.fillTriangle(x, y - 3, x + 3, y, x, y + 3);
+        });
+    }
+
+    private drawBoss(boss: BossDefinition): void {
+        const w = boss.width;
+        const h = boss.height;
+        const accent = boss.accentColor;
+
+        this.accentGraphics.clear();
+        this.glowGraphics.clear();
+        this.graphics.fillStyle(boss.color, 1);
+
+        switch (boss.id) {
+            case 'sentinel':
+                // Oversized invader with claws
+                this.graphics.fillRect(-w / 2 + 12, -h / 2, w - 24, h * 0.7);
+                this.graphics.fillRect(-w / 2, -h / 6, 14, h * 0.6);
+                this.graphics.fillRect(w / 2 - 14, -h / 6, 14, h * 0.6);
+                this.graphics.fillStyle(0x000000, 0.5);
+                this.graphics.fillRect(-w / 4, -h / 4, w / 8, h / 5);
+                this.graphics.fillRect(w / 8, -h / 4, w / 8, h / 5);
+                this.accentGraphics.fillStyle(accent, 0.9);
+                this.accentGraphics.fillRect(-w / 4, h / 6, w / 2, 4);
+                break;
+
+            case 'hauler':
+                // Wide cargo hull with scoops
+                this.graphics.fillRect(-w / 2, -h / 4, w, h / 2);
+                this.graphics.fillTriangle(-w / 2, h / 4, -w / 3, h / 2, -w / 6, h / 4);
+                this.graphics.fillTriangle(w / 2, h / 4, w / 3, h / 2, w / 6, h / 4);
+                this.graphics.fillRect(-w / 6, -h / 2, w / 3, h / 4);
+                this.accentGraphics.lineStyle(3, accent, 0.9);
+                this.accentGraphics.lineBetween(-w / 2 + 8, 0, w / 2 - 8, 0);
+                break;
+
+            case 'oracle':
+                // Eye with antenna crown
+                this.graphics.fillCircle(0, 0, h / 2);
+                this.graphics.fillRect(-4, -h / 2 - 12, 8, 16);
+                this.graphics.fillStyle(0x000000, 0.6);
+                this.graphics.fillCircle(0, 0, h / 4);
+                this.accentGraphics.fillStyle(accent, 1);
+                this.accentGraphics.fillCircle(0, 0, h / 8);
+                this.accentGraphics.lineStyle(2, accent, 0.8);
+                this.accentGraphics.lineBetween(-w / 2, -h / 2, -w / 4, -h / 4);
+                this.accentGraphics.lineBetween(w / 2, -h / 2, w / 4, -h / 4);
+                break;
+
+            case 'bastion':
+                // Fortress block with armor plates
+                this.graphics.fillRect(-w / 2, -h / 2, w, h);
+                this.graphics.fillStyle(0x444444, 1);
+                for (let i = 0; i < 4; i++) {
+                    this.graphics.fillRect(-w / 2 + 8 + i * (w - 16) / 4, -h / 2 + 6, (w - 16) / 4 - 6, h - 12);
+                }
+                this.accentGraphics.lineStyle(3, accent, 0.9);
+                this.accentGraphics.strokeRect(-w / 2 - 4, -h / 2 - 4, w + 8, h + 8);
+                break;
+
+            case 'matriarch':
+                // Swept delta wing
+                this.graphics.fillTriangle(0, h / 2, -w / 2, -h / 2, w / 2, -h / 2);
+                this.graphics.fillTriangle(-w / 2, -h / 2, -w / 2 - 10, h / 4, -w / 4, -h / 4);
+                this.graphics.fillTriangle(w / 2, -h / 2, w / 2 + 10, h / 4, w / 4, -h / 4);
+                this.accentGraphics.fillStyle(accent, 0.9);
+                this.accentGraphics.fillTriangle(0, h / 4, -w / 8, -h / 4, w / 8, -h / 4);
+                break;
+
+            case 'descentCore':
+            default:
+                // Layered core with rotating ring
+                this.graphics.fillRect(-w / 2, -h / 6, w, h / 3);
+                this.graphics.fillCircle(0, 0, h / 2);
+                this.graphics.fillStyle(0x000000, 0.5);
+                this.graphics.fillCircle(0, 0, h / 3);
+                this.accentGraphics.fillStyle(accent, 1);
+                this.accentGraphics.fillCircle(0, 0, h / 6);
+                break;
+        }
+
+        // Every boss gets a pulsing aura
+        this.glowGraphics.lineStyle(3, accent, 0.6);
+        this.glowGraphics.strokeEllipse(0, 0, w + 24, h + 24);
     }
 
     private drawAccents(): void {
@@ -282,6 +575,10 @@ export class Enemy extends Phaser.GameObjects.Container {
                 this.accentGraphics.lineStyle(2, accent, 0.8);
                 this.accentGraphics.lineBetween(-w / 2, 0, w / 2, 0);
                 this.accentGraphics.lineBetween(0, -h / 2, 0, h / 2);
+                // Disruption field rings
+                this.glowGraphics.lineStyle(1, glow, 0.5);
+                this.glowGraphics.strokeCircle(0, 0, w);
+                this.glowGraphics.strokeCircle(0, 0, w * 1.5);
                 break;
 
             case 'splitter':
@@ -315,8 +612,8 @@ export class Enemy extends Phaser.GameObjects.Container {
         this.hpBar.clear();
 
         const barWidth = this.stats.width;
-        const barHeight = 3;
-        const barY = -this.stats.height / 2 - 6;
+        const barHeight = this.isBoss ? 6 : 3;
+        const barY = -this.stats.height / 2 - (this.isBoss ? 12 : 6);
 
         // Background
         this.hpBar.fillStyle(0x333333, 0.8);
@@ -330,7 +627,7 @@ export class Enemy extends Phaser.GameObjects.Container {
         // Shield bar (if applicable)
         if (this.hasShield && this.shieldHP > 0) {
             this.hpBar.fillStyle(0x4488ff, 0.8);
-            const shieldPercent = this.shieldHP / (this.maxHP * 0.5);
+            const shieldPercent = this.shieldHP / this.maxShieldHP;
             this.hpBar.fillRect(-barWidth / 2, barY - 4, barWidth * shieldPercent, 2);
         }
     }
@@ -338,14 +635,31 @@ export class Enemy extends Phaser.GameObjects.Container {
     preUpdate(time: number, delta: number): void {
         if (!this.active) return;
 
-        // Movement
-        this.handleMovement(delta);
+        this.aliveTime += delta;
+
+        if (delta > 0) {
+            this.observedVelocity = {
+                x: ((this.x - this.lastX) / delta) * 1000,
+                y: ((this.y - this.lastY) / delta) * 1000,
+            };
+        }
+        this.lastX = this.x;
+        this.lastY = this.y;
+
+        // Bosses are driven by BossController
+        if (!this.isBoss) {
+            // Movement
+            this.handleMovement(delta);
 
-        // Shooting
-        if (this.stats.canShoot) {
-            this.handleShooting(delta);
+            // Shooting
+            if (this.stats.canShoot) {
+                this.handleShooting(delta);
+            }
         }
 
+        this.updateShield(delta);
+        this.updateElite(delta);
+
         // Update HP bar
         this.updateHPBar();
 
@@ -369,9 +683,23 @@ export class Enemy extends Phaser.GameObjects.Container {
 
         if (this.enemyType === 'bomber') {
             this.glowGraphics.alpha = 0.3 + Math.abs(Math.sin(time / 120)) * 0.6;
+        } else if (this.enemyType === 'jammer') {
+            this.glowGraphics.alpha = 0.15 + pulse * 0.45;
+            this.glowGraphics.setScale(0.9 + pulse * 0.2);
+        } else if (this.isWindingUp()) {
+            // Warning flicker before a burst
+            this.glowGraphics.alpha = 0.4 + Math.abs(Math.sin(time / 40)) * 0.6;
+            this.glowGraphics.setScale(1.15);
         } else if (this.enemyType === 'shielded' && this.hasShield) {
-            const shieldRatio = this.shieldHP / (this.maxHP * 0.5);
-            this.glowGraphics.alpha = 0.2 + shieldRatio * 0.7;
+            const shieldRatio = this.shieldHP / this.maxShieldHP;
+            if (this.isShieldRecharging()) {
+                // Ring flickers and swells back to size as it charges
+                this.glowGraphics.alpha = 0.3 + Math.abs(Math.sin(time / 60)) * 0.5;
+                this.glowGraphics.setScale(0.6 + shieldRatio * 0.4);
+            } else {
+                this.glowGraphics.alpha = 0.2 + shieldRatio * 0.7;
+                this.glowGraphics.setScale(1);
+            }
         } else {
             this.glowGraphics.alpha = 0.25 + pulse * 0.35;
         }
@@ -387,11 +715,61 @@ export class Enemy extends Phaser.GameObjects.Container {
 
 
 
+    /**
+     * Where this enemy will be after ms more of its movement pattern (ignores
+     * breakouts). Bosses carry on at their last observed velocity.
+     */
+    public predictPosition(ms: number): { x: number; y: number } {
+        const seconds = ms / 1000;
+        if (this.isBoss) {
+            return {
+                x: Phaser.Math.Clamp(this.x + this.observedVelocity.x * seconds, 0, GAME_WIDTH),
+                y: this.y + this.observedVelocity.y * seconds,
+            };
+        }
+        if (this.marchFormation) {
+            return { x: this.marchFormation.predictX(this.x, ms), y: this.y };
+        }
+
+        const speed = this.stats.speed * this.speedMultiplier;
+        const y = this.y + speed * DESCENT_FACTOR * seconds;
+
+        // Swarmer weave averages out; everyone else sweeps and turns on a timer
+        if (this.enemyType === 'swarmer') return { x: this.x, y };
+        const period = this.enemyType === 'diver' ? 500 : 2000;
+        const sweepSpeed = speed * (this.enemyType === 'diver' ? 2 : 0.5);
+
+        let x = this.x;
+        let direction = this.moveDirection;
+        let timer = this.moveTimer;
+        let left = ms;
+        while (left > 0) {
+            const step = Math.min(left, Math.max(1, period - timer));
+            x = Phaser.Math.Clamp(x + direction * sweepSpeed * (step / 1000), 30, GAME_WIDTH - 30);
+            left -= step;
+            timer += step;
+            if (timer >= period) {
+                direction *= -1;
+                timer = 0;
+            }
+        }
+
+        return { x, y };
+    }
+
     private handleMovement(delta: number): void {
-        const speed = this.stats.speed;
+        if (this.marchFormation) {
+            // The grid moves us; divers eventually break out and sweep on their own
+            if (this.enemyType !== 'diver') return;
+            this.breakoutTimer -= delta;
+            if (this.breakoutTimer > 0) return;
+            this.marchFormation.release(this);
+        }
+
+        const speed = this.stats.speed * this.speedMultiplier;
 
         // Descend slowly
-        this.y += speed * 0.3 * (delta / 1000);
+        this.y += speed * DESCENT_FACTOR * (delta / 1000);
 
         // Horizontal movement varies by type
         switch (this.enemyType) {
@@ -407,7 +785,7 @@ export class Enemy extends Phaser.GameObjects.Container {
 
             case 'swarmer':
                 // Erratic movement
-                this.x += Math.sin(performance.now() / 200 + this.x) * speed * 0.5 * (delta / 1000);
+                this.x += Math.sin(this.aliveTime / 200 + this.x) * speed * 0.5 * (delta / 1000);
                 break;
 
             default:
@@ -427,40 +805,137 @@ export class Enemy extends Phaser.GameObjects.Container {
     private handleShooting(delta: number): void {
         if (!this.enemyBulletsGroup) return;
 
+        // The fire timer waits while a burst is under way
+        if (this.burstShotsLeft > 0) {
+            this.updateBurst(delta);
+            return;
+        }
+
         this.fireTimer -= delta;
 
-        if (this.fireTimer <= 0 && this.enemyBulletsGroup.getLength() < MAX_ENEMY_BULLETS) {
+        if (this.fireTimer <= 0 && this.enemyBulletsGroup.countActive(true) < MAX_ENEMY_BULLETS) {
             const interval = this.stats.shootInterval || 3000;
-            const fireMult = getEnemyFireMultiplier(this.globalWave);
-            this.fireTimer = interval / fireMult + Phaser.Math.Between(-500, 500);
+            const fireMult = getEnemyFireMultiplier(this.globalWave) * this.fireRateMultiplier;
+            this.fireTimer = interval / fireMult + this.rng.between(-500, 500);
 
-            // Fire bullet
-            const bulletSpeed = 150 * getEnemyBulletSpeedMultiplier(this.globalWave);
-            const damage = 10;
+            this.fireVolley();
+        }
+    }
 
-            const bullet = new Bullet(
-                this.scene,
-                this.x,
-                this.y + this.stats.height / 2,
-                damage,
-                bulletSpeed,
-                this.x,
-                false
-            );
-            this.enemyBulletsGroup.add(bullet);
+    /**
+     * Fire one volley of this type's pattern (see ENEMY_FIRE_PROFILES)
+     */
+    private fireVolley(): void {
+        const profile = this.fireProfile;
+        const speed = this.getBulletSpeed() * profile.speed;
+
+        switch (profile.pattern) {
+            case 'aimed': {
+                const error = Phaser.Math.DegToRad(this.rng.floatBetween(-1, 1) * (profile.aimError ?? 0));
+                this.fireBullet(this.getAimAngle() + error, speed, profile.damage, profile.shape);
+                break;
+            }
+            case 'spread': {
+                const count = profile.count ?? 3;
+                const arc = Phaser.Math.DegToRad(profile.arc ?? 30);
+                for (let i = 0; i < count; i++) {
+                    const offset = count > 1 ? -arc / 2 + (arc * i) / (count - 1) : 0;
+                    this.fireBullet(Math.PI / 2 + offset, speed, profile.damage, profile.shape);
+                }
+                break;
+            }
+            case 'homing': {
+                const missile = this.fireBullet(Math.PI / 2, speed, profile.damage, profile.shape);
+                const player = this.getPlayer();
+                if (missile && player) missile.setHoming(player, profile.turnRate ?? 90, profile.lifetime ?? 2000);
+                break;
+            }
+            case 'burst':
+                this.burstShotsLeft = profile.count ?? 3;
+                this.burstTimer = profile.windup ?? 0;
+                break;
+            default:
+                this.fireBullet(Math.PI / 2, speed, profile.damage, profile.shape);
         }
     }
 
-    public takeDamage(amount: number): void {
+    /**
+     * Delayed burst: after the windup, aimed shots every burstInterval ms
+     */
+    private updateBurst(delta: number): void {
+        const profile = this.fireProfile;
+        this.burstTimer -= delta;
+
+        while (this.burstTimer <= 0 && this.burstShotsLeft > 0) {
+            this.fireBullet(this.getAimAngle(), this.getBulletSpeed() * profile.speed, profile.damage, profile.shape);
+            this.burstShotsLeft--;
+            this.burstTimer += profile.burstInterval ?? 150;
+        }
+    }
+
+    private isWindingUp(): boolean {
+        return this.burstShotsLeft > 0 && this.burstShotsLeft === (this.fireProfile.count ?? 3);
+    }
+
+    private getPlayer(): { x: number; y: number; active: boolean } | null {
+        const player = (this.scene as unknown as EnemySceneInterface).player;
+        return player && player.active ? player : null;
+    }
+
+    /**
+     * Angle from the muzzle to the player (straight down if there is none)
+     */
+    private getAimAngle(): number {
+        const player = this.getPlayer();
+        if (!player) return Math.PI / 2;
+        return Phaser.Math.Angle.Between(this.x, this.y + this.stats.height / 2, player.x, player.y);
+    }
+
+    private getBulletSpeed(): number {
+        return ENEMY_BULLET_SPEED * getEnemyBulletSpeedMultiplier(this.globalWave);
+    }
+
+    private fireBullet(
+        angle: number,
+        speed: number,
+        damage: number = ENEMY_BULLET_DAMAGE,
+        shape: EnemyBulletShape = 'bolt'
+    ): Bullet | null {
+        if (!this.enemyBulletsGroup || this.enemyBulletsGroup.countActive(true) >= MAX_ENEMY_BULLETS) return null;
+
+        const y = this.y + this.stats.height / 2;
+        const bullet = this.enemyBulletsGroup.get(this.x, y) as Bullet | null;
+        bullet?.fireEnemy(this.x, y, damage, speed, angle, shape);
+        return bullet;
+    }
+
+    /**
+     * Apply a hit. Returns true when the hit broke this enemy's shield, so
+     * the caller can trigger shield-break effects.
+     */
+    public takeDamage(amount: number): boolean {
+        let shieldBroken = false;
+
+        if (this.hasEliteAffix('armored')) {
+            amount = Math.max(amount * ELITE_ARMOR_MIN_FRACTION, amount - getEliteArmor(this.globalWave));
+        }
+        if (this.hasEliteAffix('reflective') && this.rng.chance(ELITE_REFLECT_CHANCE)) {
+            this.fireBullet(this.getAimAngle(), this.getBulletSpeed());
+        }
+
         // Shield absorbs damage first
+        if (this.hasShield) {
+            this.shieldRegenDelay = SHIELD_REGEN_DELAY;
+        }
         if (this.hasShield && this.shieldHP > 0) {
             const shieldDamage = Math.min(this.shieldHP, amount);
             this.shieldHP -= shieldDamage;
             amount -= shieldDamage;
+            shieldBroken = this.shieldHP <= 0;
 
             if (amount <= 0) {
-                this.flashEffect(0x4488ff);
-                return;
+                this.flashEffect(shieldBroken ? 0xffffff : 0x4488ff);
+                return shieldBroken;
             }
         }
 
@@ -473,9 +948,45 @@ export class Enemy extends Phaser.GameObjects.Container {
         if (this.currentHP <= 0) {
             this.onDeath();
         }
+        return shieldBroken;
     }
 
-    private flashEffect(color: number): void {
+    /**
+     * Recharge the shield after SHIELD_REGEN_DELAY ms without being hit
+     */
+    private updateShield(delta: number): void {
+        if (!this.hasShield || this.shieldHP >= this.maxShieldHP) return;
+
+        if (this.shieldRegenDelay > 0) {
+            this.shieldRegenDelay -= delta;
+            return;
+        }
+
+        this.shieldHP = Math.min(this.maxShieldHP, this.shieldHP + this.maxShieldHP * this.shieldRegenRate * (delta / 1000));
+        if (this.shieldHP >= this.maxShieldHP) {
+            this.flashEffect(0x88ccff);
+        }
+    }
+
+    private updateElite(delta: number): void {
+        if (!this.isElite()) return;
+
+        if (this.hasEliteAffix('regenerating') && this.currentHP < this.maxHP) {
+            this.currentHP = Math.min(this.maxHP, this.currentHP + this.maxHP * ELITE_REGEN_RATE * (delta / 1000));
+        }
+
+        if (this.hasEliteAffix('cloaked')) {
+            this.cloakTimer += delta;
+            const target = this.isCloaked() ? ELITE_CLOAK_ALPHA : 1;
+            this.alpha += (target - this.alpha) * Math.min(1, delta / 150);
+        }
+    }
+
+    private isShieldRecharging(): boolean {
+        return this.hasShield && this.shieldRegenDelay <= 0 && this.shieldHP < this.maxShieldHP;
+    }
+
+    public flashEffect(color: number): void {
         const flash = this.scene.add.graphics();
         flash.fillStyle(color, 0.5);
         flash.fillRect(-this.stats.width / 2, -this.stats.height / 2, this.stats.width, this.stats.height);
@@ -487,6 +998,12 @@ export class Enemy extends Phaser.GameObjects.Container {
     }
 
     private onDeath(): void {
+        if (this.hasEliteAffix('explosive')) {
+            for (let i = 0; i < ELITE_EXPLOSION_BULLETS; i++) {
+                this.fireBullet((i / ELITE_EXPLOSION_BULLETS) * Math.PI * 2, this.getBulletSpeed(), ENEMY_BULLET_DAMAGE, 'orb');
+            }
+        }
+
         // Splitter spawns mini enemies - handled by GameScene
         // Mark as inactive and disable for pooling
         this.setActive(false);
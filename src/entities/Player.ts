@@ -4,10 +4,63 @@
 import Phaser from 'phaser';
 import {
     GAME_WIDTH,
+    GAME_HEIGHT,
     PLAYER_BASE_HP,
     PLAYER_BASE_MOVE_SPEED,
+    PLAYER_BASE_BULLET_SPEED,
+    RANDOM_RETARGET_INTERVAL,
+    DODGE_LOOKAHEAD,
+    DODGE_RADIUS,
+    DODGE_MAX_OFFSET,
+    AUTOPILOT_V4_REPLAN_INTERVAL,
+    AUTOPILOT_V4_SCAN_RADIUS,
+    OVERHEAT_FIRE_RATE_MULT,
+    OVERHEAT_RECOVERY_FRACTION,
+    BehaviorScript,
+    getBehaviorScript,
+    getHeatCapacity,
+    getHeatCooling,
+    getHeatDamageMultiplier,
 } from '../config/GameConfig';
 import { SaveManager } from '../systems/SaveManager';
+import { SeededRandom } from '../systems/SeededRandom';
+import type { MarchFormation } from '../systems/MarchFormation';
+import type { EffectPool } from '../systems/EffectPool';
+import { PLAYER_BULLET_COLORS, PlayerBulletVariant } from '../systems/TextureBaker';
+import type { SpatialIndex, TargetEntity } from '../systems/SpatialIndex';
+import { planTrajectory, PlannedEnemy } from '../systems/TrajectoryPlanner';
+import { getEvasionOffset } from '../systems/BehaviorScripts';
+import { JammerNoise } from '../systems/JammerField';
+import { BulletThreat, getBulletThreat, getEnemyValueScore } from '../systems/AutopilotScoring';
+
+// Forward reference interface
+interface PlayerSceneInterface {
+    spatialIndex?: SpatialIndex;
+    upgradeManager?: { getActiveBehaviorScript(): BehaviorScript };
+    waveManager?: { getMarchFormations(): MarchFormation[] };
+    effects?: EffectPool;
+}
+
+// Autopilot target; formation is set when the enemy marches in a grid
+interface AutopilotTarget {
+    x: number;
+    y: number;
+    formation?: MarchFormation | null;
+}
+
+// What the autopilot is thinking, for the AI debug overlay
+export interface AutopilotDebugInfo {
+    tier: number; // 0 = manual, 1-4 = autopilot version
+    targetX: number;
+    target: { x: number; y: number } | null;
+    patrolLeft: number;
+    patrolRight: number;
+    dodgeRadius: number;
+    dodgeLookahead: number;
+    threats: BulletThreat[];
+}
+
+const isVisible = (enemy: TargetEntity): boolean => !enemy.isCloaked();
 
 export class Player extends Phaser.GameObjects.Container {
     public currentHP: number;
@@ -28,6 +81,7 @@ export class Player extends Phaser.GameObjects.Container {
     private hpBar!: Phaser.GameObjects.Graphics;
     private heatBar!: Phaser.GameObjects.Graphics;
     private autopilotEnabled: boolean = false;
+    private moveAxis: number = 0; // -1 left, 1 right (set by GameScene from keys or a replay)
     private targetX: number;
     private lastSector: number = -1;
     private lastHullLevel: number = -1;
@@ -38,9 +92,28 @@ export class Player extends Phaser.GameObjects.Container {
     private lastCoreUnlocks: { weaponModSlot: boolean; behaviorScripts: boolean } | null = null;
     private steamTimer: number = 0;
 
-    constructor(scene: Phaser.Scene, x: number, y: number) {
+    // Jammer interference (set by GameScene each frame)
+    private jammerDisruption: number = 0;
+    private jammerNoise: JammerNoise = new JammerNoise();
+
+    // Behavior script 'random' bias keeps a target locked for a while
+    private randomTarget: { x: number; y: number; active: boolean } | null = null;
+    private randomTargetTimer: number = 0;
+
+    private autopilotTarget: AutopilotTarget | null = null; // Last V2/V3 lock, for the debug overlay
+
+    // Autopilot v4 keeps each plan for a short while
+    private plannedX: number | null = null;
+    private planTimer: number = 0;
+
+    // Shared gameplay RNG (owned by GameScene)
+    private rng: SeededRandom;
+
+    constructor(scene: Phaser.Scene, x: number, y: number, rng: SeededRandom) {
         super(scene, x, y);
 
+        this.rng = rng;
+
         // Initialize HP
         const save = SaveManager.getCurrent();
         const hullBonus = 1 + (SaveManager.getUpgradeLevel('hull') * 0.10);
@@ -48,8 +121,7 @@ export class Player extends Phaser.GameObjects.Container {
         this.currentHP = save.playerHP > 0 ? Math.min(save.playerHP, this.maxHP) : this.maxHP;
 
         // Initialize heat capacity (S5 upgrades)
-        const heatCapacityBonus = 1 + (SaveManager.getUpgradeLevel('heatCapacity') * 0.10);
-        this.maxHeat = 100 * heatCapacityBonus;
+        this.maxHeat = getHeatCapacity(SaveManager.getUpgradeLevel('heatCapacity'));
 
         this.targetX = x;
 
@@ -274,21 +346,22 @@ export class Player extends Phaser.GameObjects.Container {
         if (this.currentHeat < this.maxHeat * 0.5 || this.steamTimer > 0) return;
 
         this.steamTimer = 180;
-        const puff = this.scene.add.circle(this.x, this.y + 22, 2, 0x88ccff, 0.6);
-        this.scene.tweens.add({
-            targets: puff,
-            y: puff.y + 10,
-            alpha: 0,
+        // fx-dot has radius 8
+        this.getEffects()?.particle('fx-dot', this.x, this.y + 22, {
+            tint: 0x88ccff,
+            alpha: 0.6,
+            scale: 2 / 8,
+            toY: this.y + 32,
             duration: 400,
             ease: 'Sine.easeOut',
-            onComplete: () => puff.destroy(),
         });
     }
 
     private getSectorColor(): number {
         const sectorColors = [0x44aaff, 0x44ddff, 0x66ffaa, 0x88ccff, 0xffaa44, 0xff6644];
         const save = SaveManager.getCurrent();
-        return sectorColors[save.currentSector] || 0x44aaff;
+        // Endless sectors cycle back through the palette
+        return sectorColors[save.currentSector % sectorColors.length] || 0x44aaff;
     }
 
     private getWeaponTier(): number {
@@ -365,7 +438,8 @@ export class Player extends Phaser.GameObjects.Container {
         // Heat fill
         const heatPercent = this.currentHeat / this.maxHeat;
         let color = 0x4488ff; // Cool
-        if (heatPercent > 0.8) color = 0xff4444; // Overheating
+        if (this.isOverheated) color = 0xff2266; // Meltdown
+        else if (heatPercent > 0.8) color = 0xff4444; // Overheating
         else if (heatPercent > 0.5) color = 0xff8844; // Warm
 
         this.heatBar.fillStyle(color, 1);
@@ -379,7 +453,7 @@ export class Player extends Phaser.GameObjects.Container {
         }
 
         // Keyboard manual movement (always available)
-        this.handleKeyboardMovement(delta);
+        this.handleManualMovement(delta);
 
         // Handle heat cooling
         this.handleCooling(delta);
@@ -401,32 +475,52 @@ export class Player extends Phaser.GameObjects.Container {
     }
 
     private handleCooling(delta: number): void {
+        // Capacity upgrades apply straight away
+        this.maxHeat = getHeatCapacity(SaveManager.getUpgradeLevel('heatCapacity'));
+
         if (this.currentHeat > 0) {
-            const coolingRateBonus = 1 + (SaveManager.getUpgradeLevel('coolingRate') * 0.08);
-            const baseCooling = 15; // Per second
-            const cooling = baseCooling * coolingRateBonus * (delta / 1000);
+            const cooling = getHeatCooling(SaveManager.getUpgradeLevel('coolingRate')) * (delta / 1000);
             this.currentHeat = Math.max(0, this.currentHeat - cooling);
 
             // Exit overheat when cooled below 50%
-            if (this.isOverheated && this.currentHeat < this.maxHeat * 0.5) {
+            if (this.isOverheated && this.currentHeat < this.maxHeat * OVERHEAT_RECOVERY_FRACTION) {
                 this.isOverheated = false;
             }
         }
     }
 
-    public addHeat(amount: number): void {
+    /**
+     * Returns true when this heat tipped the guns into a meltdown
+     */
+    public addHeat(amount: number): boolean {
         this.currentHeat = Math.min(this.maxHeat, this.currentHeat + amount);
 
         // Trigger overheat at 100%
-        if (this.currentHeat >= this.maxHeat) {
+        if (this.currentHeat >= this.maxHeat && !this.isOverheated) {
             this.isOverheated = true;
+            return true;
         }
+        return false;
+    }
+
+    /**
+     * Dump all heat (ending a meltdown) and return how much was vented
+     */
+    public vent(): number {
+        const vented = this.currentHeat;
+        this.currentHeat = 0;
+        this.isOverheated = false;
+        return vented;
+    }
+
+    public getHeatDamageMultiplier(): number {
+        return getHeatDamageMultiplier(this.currentHeat / this.maxHeat, this.isOverheated);
     }
 
     public getHeatPenalty(): number {
         // Return fire rate multiplier (1.0 = normal, 0.3 = overheated)
         if (this.isOverheated) {
-            return 0.3;
+            return OVERHEAT_FIRE_RATE_MULT;
         }
         return 1.0;
     }
@@ -434,44 +528,67 @@ export class Player extends Phaser.GameObjects.Container {
     private handleAutopilot(time: number, delta: number): void {
         const autopilotV2 = SaveManager.hasUpgrade('autopilotV2');
         const autopilotV3 = SaveManager.hasUpgrade('autopilotV3');
+        const autopilotV4 = SaveManager.hasUpgrade('autopilotV4');
 
         // Calculate target position based on AI level
-        if (autopilotV3) {
+        this.autopilotTarget = null;
+        if (autopilotV4) {
+            // V4: Simulate incoming fire and pick the safest firing line
+            this.targetX = this.calculatePlannedPosition(time, delta);
+        } else if (autopilotV3) {
             // V3: Dodge bullets + prioritize valuable targets
-            this.targetX = this.calculateDodgeAndTargetPosition(time);
+            this.targetX = this.calculateDodgeAndTargetPosition(time, delta);
         } else if (autopilotV2) {
             // V2: Position under most dangerous enemy
-            this.targetX = this.calculateDangerousEnemyPosition(time);
+            this.targetX = this.calculateDangerousEnemyPosition(time, delta);
         } else {
             // V1: Patrol across the screen (range grows with thruster upgrades)
             this.targetX = this.calculatePatrolPosition(time);
         }
 
+        // Jammers scramble the target lock
+        this.targetX = Phaser.Math.Clamp(this.targetX + this.jammerNoise.update(delta, this.jammerDisruption, this.rng), 30, GAME_WIDTH - 30);
+
         // Move towards target
         this.moveTowardsTarget(delta);
     }
 
+    public setJammerDisruption(amount: number): void {
+        this.jammerDisruption = amount;
+    }
+
     private calculatePatrolPosition(time: number): number {
+        const rangeLevel = SaveManager.getUpgradeLevel('autopilotRange');
+        const period = Math.max(1400, 3200 - rangeLevel * 120);
+        return GAME_WIDTH / 2 + Math.sin(time / period) * this.getPatrolRange();
+    }
+
+    /**
+     * Half-width of the V1 patrol sweep
+     */
+    private getPatrolRange(): number {
         const rangeLevel = SaveManager.getUpgradeLevel('autopilotRange');
         const maxRange = GAME_WIDTH / 2 - 30;
         const baseRange = 90;
-        const range = Math.min(maxRange, baseRange + rangeLevel * 24);
-        const period = Math.max(1400, 3200 - rangeLevel * 120);
-        return GAME_WIDTH / 2 + Math.sin(time / period) * range;
+        return Math.min(maxRange, baseRange + rangeLevel * 24);
     }
 
-    private calculateDangerousEnemyPosition(time: number): number {
-        const enemy = this.findMostDangerousEnemy();
+    private calculateDangerousEnemyPosition(time: number, delta: number): number {
+        const enemy = this.findScriptTarget(delta) ?? this.findMostDangerousEnemy();
+        this.autopilotTarget = enemy;
         if (enemy) {
-            return enemy.x;
+            return this.leadTarget(enemy);
         }
 
         return this.calculatePatrolPosition(time);
     }
 
-    private calculateDodgeAndTargetPosition(time: number): number {
-        const target = this.findMostValuableEnemy() || this.findMostDangerousEnemy();
-        let desiredX = target ? target.x : this.calculatePatrolPosition(time);
+    private calculateDodgeAndTargetPosition(time: number, delta: number): number {
+        const target = this.findScriptTarget(delta)
+            ?? this.findFormationEdgeTarget()
+            ?? (this.findMostValuableEnemy() || this.findMostDangerousEnemy());
+        this.autopilotTarget = target;
+        let desiredX = target ? this.leadTarget(target) : this.calculatePatrolPosition(time);
 
         const dodgeOffset = this.getBulletAvoidanceOffset();
         desiredX += dodgeOffset;
@@ -479,91 +596,223 @@ export class Player extends Phaser.GameObjects.Container {
         return Phaser.Math.Clamp(desiredX, 30, GAME_WIDTH - 30);
     }
 
-    private findMostDangerousEnemy(): { x: number; y: number } | null {
-        const enemies = this.getEnemyGroup();
-        if (!enemies) return null;
+    private calculatePlannedPosition(time: number, delta: number): number {
+        this.planTimer -= delta;
+        if (this.planTimer <= 0 || this.plannedX === null) {
+            this.planTimer = AUTOPILOT_V4_REPLAN_INTERVAL;
+            this.plannedX = this.planTrajectory();
+        }
+
+        return this.plannedX ?? this.calculatePatrolPosition(time);
+    }
 
-        let best: { x: number; y: number } | null = null;
-        let bestScore = -Infinity;
+    /**
+     * Best X to head for over the next second, or null with nothing on screen
+     */
+    private planTrajectory(): number | null {
+        const index = this.getSpatialIndex();
+        if (!index) return null;
 
-        enemies.getChildren().forEach((enemy) => {
-            const e = enemy as unknown as { x: number; y: number; active: boolean };
-            if (!e.active) return;
-            if (e.y > bestScore) {
-                bestScore = e.y;
-                best = { x: e.x, y: e.y };
-            }
+        const bullets = index.enemyBullets.withinRadius(this.x, this.y, AUTOPILOT_V4_SCAN_RADIUS).map((b) => {
+            const velocity = b.getVelocity();
+            return { x: b.x, y: b.y, vx: velocity.x, vy: velocity.y };
         });
+        const enemies = this.getPlannedEnemies(index.enemies.getAll(isVisible));
+        if (bullets.length === 0 && enemies.length === 0) return null;
+
+        const script = this.getActiveBehaviorScript();
+        return planTrajectory({
+            shipX: this.x,
+            shipY: this.y,
+            moveSpeed: this.getMoveSpeed(),
+            bulletSpeed: this.getBulletSpeed(),
+            evasion: script.evasionModifier,
+            bullets,
+            enemies,
+        }).x;
+    }
+
+    /**
+     * Enemies weighted by the active script's targeting bias: lower enemies
+     * are more urgent, and 'valuable' also weighs their scrap
+     */
+    private getPlannedEnemies(enemies: TargetEntity[]): PlannedEnemy[] {
+        const bias = this.getActiveBehaviorScript().targetingBias;
+        const maxScrap = Math.max(1, ...enemies.map(e => e.scrapValue));
+
+        return enemies.map((e) => ({
+            x: e.x,
+            y: e.y,
+            value: 1 + 2 * Phaser.Math.Clamp(e.y / GAME_HEIGHT, 0, 1) + (bias === 'valuable' ? 2 * (e.scrapValue / maxScrap) : 0),
+            predict: (ms: number) => e.predictPosition(ms),
+        }));
+    }
+
+    /**
+     * Once Behavior Scripts are installed, the active script's targeting bias
+     * overrides the autopilot tier's default pick. Returns null to use the default.
+     */
+    private findScriptTarget(delta: number): AutopilotTarget | null {
+        if (!SaveManager.hasUpgrade('behaviorScripts')) return null;
+
+        switch (this.getActiveBehaviorScript().targetingBias) {
+            case 'valuable':
+                return this.findMostValuableEnemy();
+            case 'random':
+                return this.findRandomEnemy(delta);
+            default:
+                return this.findMostDangerousEnemy();
+        }
+    }
 
-        return best;
+    private findRandomEnemy(delta: number): { x: number; y: number } | null {
+        this.randomTargetTimer -= delta;
+        if (this.randomTarget && this.randomTarget.active && this.randomTargetTimer > 0) {
+            return { x: this.randomTarget.x, y: this.randomTarget.y };
+        }
+
+        const candidates = this.getSpatialIndex()?.enemies.getAll(isVisible) ?? [];
+        if (candidates.length === 0) {
+            this.randomTarget = null;
+            return null;
+        }
+
+        this.randomTarget = this.rng.pick(candidates)!;
+        this.randomTargetTimer = RANDOM_RETARGET_INTERVAL;
+        return { x: this.randomTarget.x, y: this.randomTarget.y };
     }
 
-    private findMostValuableEnemy(): { x: number; y: number } | null {
-        const enemies = this.getEnemyGroup();
-        if (!enemies) return null;
+    private findMostDangerousEnemy(): AutopilotTarget | null {
+        // Closest to the bottom of the screen
+        const enemy = this.getSpatialIndex()?.enemies.lowest(isVisible);
+        return enemy ? { x: enemy.x, y: enemy.y, formation: enemy.marchFormation } : null;
+    }
 
-        let best: { x: number; y: number; scrapValue?: number } | null = null;
+    private findMostValuableEnemy(): AutopilotTarget | null {
+        const enemies = this.getSpatialIndex()?.enemies.getAll(isVisible) ?? [];
+
+        let best: AutopilotTarget | null = null;
         let bestScore = -Infinity;
 
-        enemies.getChildren().forEach((enemy) => {
-            const e = enemy as unknown as { x: number; y: number; active: boolean; scrapValue?: number };
-            if (!e.active) return;
-            const scrap = e.scrapValue ?? 0;
-            const score = scrap * 2 + e.y * 0.01;
+        enemies.forEach((e) => {
+            const score = getEnemyValueScore(e);
             if (score > bestScore) {
                 bestScore = score;
-                best = { x: e.x, y: e.y, scrapValue: scrap };
+                best = { x: e.x, y: e.y, formation: e.marchFormation };
             }
         });
 
         return best;
     }
 
-    private getBulletAvoidanceOffset(): number {
-        const bullets = this.getEnemyBulletsGroup();
-        if (!bullets) return 0;
+    /**
+     * V3 works a marching grid from its leading edge: the lowest enemy in the
+     * column it is stepping towards, so the grid drops less often
+     */
+    private findFormationEdgeTarget(): AutopilotTarget | null {
+        const formations = this.getGameScene().waveManager?.getMarchFormations() ?? [];
+
+        let best: AutopilotTarget | null = null;
+        formations.forEach((formation) => {
+            const edge = formation.isEntering() ? null : formation.getEdgeMember();
+            if (edge && (!best || edge.y > best.y)) {
+                best = { x: edge.x, y: edge.y, formation };
+            }
+        });
+
+        return best;
+    }
+
+    /**
+     * Aim where a marching target will be when the shot arrives
+     */
+    private leadTarget(target: AutopilotTarget): number {
+        if (!target.formation) return target.x;
+
+        const travelMs = (Math.max(0, this.y - target.y) / this.getBulletSpeed()) * 1000;
+        return target.formation.predictX(target.x, travelMs);
+    }
 
+    private getBulletAvoidanceOffset(): number {
         let offset = 0;
-        bullets.getChildren().forEach((bullet) => {
-            const b = bullet as unknown as { x: number; y: number; active: boolean };
-            if (!b.active) return;
+        this.getBulletThreats().forEach((threat) => {
+            offset += Math.sign(this.x - threat.crossX || 1) * threat.strength * DODGE_MAX_OFFSET;
+        });
+
+        // Scripts trade dodging for aggression (or vice versa)
+        return getEvasionOffset(offset, this.getActiveBehaviorScript().evasionModifier);
+    }
 
-            const dy = this.y - b.y;
-            if (dy < 0 || dy > 220) return;
+    /**
+     * Enemy bullets that will pass close to the ship soon
+     */
+    private getBulletThreats(): BulletThreat[] {
+        const index = this.getSpatialIndex();
+        if (!index) return [];
 
-            const dx = this.x - b.x;
-            const distance = Math.abs(dx);
-            if (distance > 70) return;
+        // Column threats: the band is wide enough to catch shots angled up to 45 degrees
+        const bullets = index.enemyBullets.inColumn(this.x, DODGE_RADIUS + DODGE_LOOKAHEAD, this.y - DODGE_LOOKAHEAD, this.y);
 
-            const strength = (1 - distance / 70) * (1 - dy / 220);
-            offset += Math.sign(dx || 1) * strength * 90;
+        const threats: BulletThreat[] = [];
+        bullets.forEach((b) => {
+            const velocity = b.getVelocity();
+            const threat = getBulletThreat({ x: b.x, y: b.y, vx: velocity.x, vy: velocity.y }, this.x, this.y);
+            if (threat) threats.push(threat);
         });
 
-        return Phaser.Math.Clamp(offset, -90, 90);
+        return threats;
     }
 
-    private getEnemyGroup(): Phaser.GameObjects.Group | null {
-        const sceneAny = this.scene as unknown as { enemies?: Phaser.GameObjects.Group };
-        return sceneAny.enemies ?? null;
+    public getAutopilotDebugInfo(): AutopilotDebugInfo {
+        let tier = 0;
+        if (this.autopilotEnabled) {
+            tier = 1;
+            if (SaveManager.hasUpgrade('autopilotV2')) tier = 2;
+            if (SaveManager.hasUpgrade('autopilotV3')) tier = 3;
+            if (SaveManager.hasUpgrade('autopilotV4')) tier = 4;
+        }
+
+        const patrolRange = this.getPatrolRange();
+        return {
+            tier,
+            targetX: this.targetX,
+            target: this.autopilotTarget ? { x: this.autopilotTarget.x, y: this.autopilotTarget.y } : null,
+            patrolLeft: GAME_WIDTH / 2 - patrolRange,
+            patrolRight: GAME_WIDTH / 2 + patrolRange,
+            dodgeRadius: DODGE_RADIUS,
+            dodgeLookahead: DODGE_LOOKAHEAD,
+            threats: tier === 3 ? this.getBulletThreats() : [],
+        };
     }
 
-    private getEnemyBulletsGroup(): Phaser.GameObjects.Group | null {
-        const sceneAny = this.scene as unknown as { enemyBullets?: Phaser.GameObjects.Group };
-        return sceneAny.enemyBullets ?? null;
+    /**
+     * Same gate as the scene's guns and drones (Balanced until scripts are installed)
+     */
+    private getActiveBehaviorScript(): BehaviorScript {
+        return this.getGameScene().upgradeManager?.getActiveBehaviorScript() ?? getBehaviorScript('balanced');
     }
 
-    private handleKeyboardMovement(delta: number): void {
-        const keyboard = this.scene.input.keyboard;
-        if (!keyboard) return;
+    private getGameScene(): PlayerSceneInterface {
+        return this.scene as unknown as PlayerSceneInterface;
+    }
+
+    private getSpatialIndex(): SpatialIndex | null {
+        return this.getGameScene().spatialIndex ?? null;
+    }
+
+    private getEffects(): EffectPool | null {
+        return this.getGameScene().effects ?? null;
+    }
+
+    private handleManualMovement(delta: number): void {
+        if (this.moveAxis === 0) return;
 
         const speed = this.getMoveSpeed() * (delta / 1000);
+        this.x = Phaser.Math.Clamp(this.x + this.moveAxis * speed, 30, GAME_WIDTH - 30);
+    }
 
-        if (keyboard.addKey('A').isDown || keyboard.addKey('LEFT').isDown) {
-            this.x = Math.max(30, this.x - speed);
-        }
-        if (keyboard.addKey('D').isDown || keyboard.addKey('RIGHT').isDown) {
-            this.x = Math.min(GAME_WIDTH - 30, this.x + speed);
-        }
+    public setMoveAxis(axis: number): void {
+        this.moveAxis = axis;
     }
 
     private moveTowardsTarget(delta: number): void {
@@ -576,6 +825,10 @@ export class Player extends Phaser.GameObjects.Container {
         }
     }
 
+    private getBulletSpeed(): number {
+        return PLAYER_BASE_BULLET_SPEED * Math.pow(1.05, SaveManager.getUpgradeLevel('projectileSpeed'));
+    }
+
     private getMoveSpeed(): number {
         const thrusterBonus = 1 + (SaveManager.getUpgradeLevel('thrusterSpeed') * 0.05);
         return PLAYER_BASE_MOVE_SPEED * thrusterBonus;
@@ -600,21 +853,17 @@ export class Player extends Phaser.GameObjects.Container {
         return this.autopilotEnabled;
     }
 
-    public playMuzzleFlash(power: number, variant: 'standard' | 'pierce' | 'scatter' | 'drone' = 'standard'): void {
+    public playMuzzleFlash(power: number, variant: PlayerBulletVariant = 'standard'): void {
         const intensity = Phaser.Math.Clamp(power / 10, 0.8, 2.0);
-        let color = 0x44ddff;
-        if (variant === 'pierce') color = 0x88ccff;
-        if (variant === 'scatter') color = 0xffdd44;
-        if (variant === 'drone') color = 0xff8844;
-
-        const flash = this.scene.add.circle(this.x, this.y - 26, 4 * intensity, color, 0.8);
-        this.scene.tweens.add({
-            targets: flash,
-            alpha: 0,
-            scale: 1.6,
+        const color = PLAYER_BULLET_COLORS[variant];
+
+        const scale = (4 * intensity) / 8; // fx-dot has radius 8
+        this.getEffects()?.particle('fx-dot', this.x, this.y - 26, {
+            tint: color,
+            alpha: 0.8,
+            scale,
+            toScale: scale * 1.6,
             duration: 120,
-            ease: 'Quad.easeOut',
-            onComplete: () => flash.destroy(),
         });
     }
 
@@ -9,35 +9,80 @@ import {
     PLAYER_MANUAL_FIRE_COOLDOWN,
     AUTOSAVE_INTERVAL,
     MAX_PLAYER_BULLETS,
+    MAX_ENEMY_BULLETS,
     MAX_ENEMIES,
+    DEBUG_OVERLAY_INTERVAL,
     WAVES_PER_SECTOR,
+    SECTOR_COUNT,
+    getSectorName,
+    getEndlessAffixes,
     OVERLOAD_COOLDOWN,
     OVERLOAD_DURATION,
     OVERLOAD_FIRE_RATE_MULT,
     OVERDRIVE_COOLDOWN,
     OVERDRIVE_DURATION,
-    BEHAVIOR_SCRIPTS,
-    BehaviorScript,
+    JAMMER_FIELD_RADIUS,
+    HEAT_PER_SHOT,
+    MELTDOWN_HULL_DAMAGE,
+    VENT_RADIUS,
+    VENT_MIN_HEAT,
+    VENT_DAMAGE_PER_HEAT,
+    getVentCooldown,
+    ENEMY_COLLISION_DAMAGE,
+    ENEMY_ESCAPE_DAMAGE,
+    getWeaponMod,
+    getDroneClass,
+    getDroneFormation,
+    WeaponMod,
+    RICOCHET_RANGE,
+    HOMING_LIFETIME,
+    ELITE_CORE_FRAGMENT_CHANCE,
+    CORE_FRAGMENTS_PER_CORE,
+    WAVE_DELAY,
+    SECTOR_DELAY,
 } from '../config/GameConfig';
 import { SaveManager } from '../systems/SaveManager';
+import { SeededRandom } from '../systems/SeededRandom';
+import { ReplayRecorder } from '../systems/ReplayRecorder';
+import { ReplayPlayer } from '../systems/ReplayPlayer';
+import { ReplayInput, encodeReplayFile } from '../systems/ReplayCodec';
 import { Player } from '../entities/Player';
 import { Enemy } from '../entities/Enemy';
 import { Bullet } from '../entities/Bullet';
 import { Drone } from '../entities/Drone';
 import { WaveManager } from '../systems/WaveManager';
 import { UpgradeManager } from '../systems/UpgradeManager';
+import { EndlessManager } from '../systems/EndlessManager';
 import { SoundManager } from '../systems/SoundManager';
+import { EffectPool } from '../systems/EffectPool';
+import { SpatialIndex } from '../systems/SpatialIndex';
+import { AIDebugOverlay } from '../systems/AIDebugOverlay';
+import { rollExtraShot } from '../systems/BehaviorScripts';
+import { getJammerDisruption, rollAimJitter } from '../systems/JammerField';
+import {
+    bakeTextures,
+    getPlayerBulletVariant,
+    PlayerBulletVariant,
+    PLAYER_BULLET_COLORS,
+} from '../systems/TextureBaker';
 import { ShopUI } from '../ui/ShopUI';
 import { HUD } from '../ui/HUD';
+import { SaveTransferUI } from '../ui/SaveTransferUI';
+import { DebugOverlayUI } from '../ui/DebugOverlayUI';
+import { OfflineReportUI } from '../ui/OfflineReportUI';
+import type { OfflineReport } from '../sim/OfflineProgress';
 import { AdManager } from '../services/AdManager';
 
 interface GameSceneData {
-    offlineScrap?: number;
+    offlineReport?: OfflineReport | null; // Progress banked while the player was away
+    seed?: number; // Reuse a run seed to reproduce its waves
+    replayPlayer?: ReplayPlayer; // Play a recorded session instead of live input
 }
 
 export class GameScene extends Phaser.Scene {
     // Entities
     public player!: Player;
+    public rng!: SeededRandom; // All gameplay randomness goes through this
     public playerBullets!: Phaser.GameObjects.Group;
     public enemyBullets!: Phaser.GameObjects.Group;
     public enemies!: Phaser.GameObjects.Group;
@@ -47,25 +92,46 @@ export class GameScene extends Phaser.Scene {
     public waveManager!: WaveManager;
     public upgradeManager!: UpgradeManager;
     public soundManager!: SoundManager;
+    public effects!: EffectPool;
+    public spatialIndex!: SpatialIndex<Enemy, Bullet>; // Rebuilt each frame for AI queries
 
     // UI
     public shopUI!: ShopUI;
     private hud!: HUD;
+    private debugOverlay: DebugOverlayUI = new DebugOverlayUI();
+    private debugOverlayTimer: number = 0;
+    private aiDebugOverlay!: AIDebugOverlay;
 
     // State
     private isPaused: boolean = false;
     private lastManualFireTime: number = 0;
+    private railgunCharge: number = 0; // Trigger pulls stored towards the next railgun slug
     private lastAutoFireTime: number = 0;
     private autosaveTimer!: Phaser.Time.TimerEvent;
     private playTimeTimer!: Phaser.Time.TimerEvent;
     private autoContinueTimeoutId?: number;
     private autoContinueIntervalId?: number;
+    private awaitingContinue: boolean = false;
+
+    // Replays: every gameplay input goes through pendingInputs and is applied
+    // at the start of a frame, so a recording can replay it on the same frame
+    private recorder: ReplayRecorder | null = null;
+    private replayPlayer: ReplayPlayer | null = null;
+    private pendingInputs: ReplayInput[] = [];
+    private replayFrame: number = 0; // Updates run this session
+    private elapsed: number = 0; // Sum of frame deltas, used instead of wall-clock time
+    private moveKeys: Phaser.Input.Keyboard.Key[][] = []; // [left keys, right keys]
+    private moveAxis: -1 | 0 | 1 = 0;
 
     // Abilities
     private overloadActive: boolean = false;
     private overloadCooldownEnd: number = 0;
     private overdriveCooldownEnd: number = 0;
     private overdriveActive: boolean = false;
+    private ventCooldownEnd: number = 0;
+
+    // Jammer disruption (0 = clear, 1 = fully jammed, after Stability Matrix)
+    private jammerDisruption: number = 0;
 
     // Stats tracking
     private sessionDPS: number = 0;
@@ -83,19 +149,26 @@ export class GameScene extends Phaser.Scene {
     }
 
     init(data: GameSceneData): void {
-        if (data.offlineScrap && data.offlineScrap > 0) {
-            // Show offline progress notification
-            this.time.delayedCall(500, () => {
-                this.showToast(`Welcome back! Earned ${Math.floor(data.offlineScrap!).toLocaleString()} scrap while away.`, 'success');
-            });
+        this.replayPlayer = data.replayPlayer ?? null;
+        this.rng = new SeededRandom(this.replayPlayer?.replay.seed ?? data.seed ?? SeededRandom.createSeed());
+
+        // Even a run that earned nothing gets its report (deaths, stalls, time credited)
+        const offlineReport = data.offlineReport;
+        if (offlineReport) {
+            this.time.delayedCall(500, () => this.showOfflineReport(offlineReport));
         }
     }
 
     create(): void {
         this.resetSessionState();
 
-        // Load save
-        SaveManager.load();
+        // Load save (replays play on a sandboxed copy of their snapshot)
+        if (this.replayPlayer) {
+            SaveManager.enterSandbox(this.replayPlayer.replay.save);
+        } else {
+            SaveManager.load();
+            this.recorder = new ReplayRecorder(this.rng.getSeed(), SaveManager.getCurrent());
+        }
 
         // Get settings
         const settings = SaveManager.getSettings();
@@ -103,9 +176,9 @@ export class GameScene extends Phaser.Scene {
 
         // Create background
         this.createBackground();
+        bakeTextures(this);
 
-        // Create groups
-        // Create groups
+        // Create pools (bullets are recycled, never destroyed)
         this.playerBullets = this.add.group({
             classType: Bullet,
             runChildUpdate: true,
@@ -114,8 +187,11 @@ export class GameScene extends Phaser.Scene {
         this.enemyBullets = this.add.group({
             classType: Bullet,
             runChildUpdate: true,
-            maxSize: MAX_PLAYER_BULLETS * 4 // More capacity for enemies
+            maxSize: MAX_ENEMY_BULLETS
         });
+        this.effects = new EffectPool(this);
+        this.spatialIndex = new SpatialIndex<Enemy, Bullet>();
+        this.aiDebugOverlay = new AIDebugOverlay(this);
         this.enemies = this.add.group({
             classType: Enemy,
             runChildUpdate: true,
@@ -123,7 +199,7 @@ export class GameScene extends Phaser.Scene {
         });
 
         // Create player
-        this.player = new Player(this, GAME_WIDTH / 2, PLAYER_Y);
+        this.player = new Player(this, GAME_WIDTH / 2, PLAYER_Y, this.rng);
 
         // Create managers
         this.waveManager = new WaveManager(this);
@@ -204,19 +280,11 @@ export class GameScene extends Phaser.Scene {
         this.drones.forEach(d => d.destroy());
         this.drones = [];
 
-        // Check which drone slots are unlocked
-        const hasDrone1 = SaveManager.hasUpgrade('droneSlot1');
-        const hasDrone2 = SaveManager.hasUpgrade('droneSlot2');
-
-        if (hasDrone1) {
-            const drone1 = new Drone(this, this, 0);
-            this.drones.push(drone1);
-        }
-
-        if (hasDrone2) {
-            const drone2 = new Drone(this, this, 1);
-            this.drones.push(drone2);
-        }
+        // One drone per unlocked bay, flying the class picked for it
+        const loadout = this.upgradeManager.getDroneLoadout();
+        loadout.forEach((droneClass, bay) => {
+            this.drones.push(new Drone(this, this, bay, loadout.length, droneClass));
+        });
     }
 
     private setupCollisions(): void {
@@ -249,32 +317,28 @@ export class GameScene extends Phaser.Scene {
     }
 
     private setupInput(): void {
-        // Click to fire / use ability
+        // Debug overlays aren't gameplay input, so they work in replays too
+        this.input.keyboard?.addCapture('F3');
+        this.input.keyboard?.on('keydown-F3', () => this.cycleDebugOverlays());
+
+        // Replays take their input from the recording (controls live in ReplayControlsUI)
+        if (this.replayPlayer) return;
+
+        // Click to fire, or Overload once auto-fire is owned
         this.input.on('pointerdown', () => {
-            // Manual fire or Overload
-            if (SaveManager.hasUpgrade('autoFire')) {
-                // Auto-fire enabled: click triggers Overload
-                this.tryOverload();
-            } else {
-                // No auto-fire: click to shoot
-                this.tryManualFire();
-            }
+            this.sendInput({ type: 'primary' });
         });
 
         // Hold to rapid-fire (before auto-fire)
         this.input.on('pointermove', () => {
             if (!SaveManager.hasUpgrade('autoFire') && this.input.activePointer.isDown) {
-                this.tryManualFire();
+                this.sendInput({ type: 'primary' });
             }
         });
 
         // Keyboard shortcuts
         this.input.keyboard?.on('keydown-SPACE', () => {
-            if (!SaveManager.hasUpgrade('autoFire')) {
-                this.tryManualFire();
-            } else {
-                this.tryOverload();
-            }
+            this.sendInput({ type: 'primary' });
         });
 
         this.input.keyboard?.on('keydown-ESC', () => {
@@ -283,30 +347,156 @@ export class GameScene extends Phaser.Scene {
 
         // Toggle autopilot (if unlocked)
         this.input.keyboard?.on('keydown-T', () => {
-            if (!SaveManager.hasUpgrade('autopilot')) return;
-            const enabled = this.player.toggleAutopilot();
-            this.showToast(enabled ? 'AUTOPILOT ENGAGED' : 'AUTOPILOT DISENGAGED', 'warning');
+            this.toggleAutopilot();
         });
 
         // Overdrive (Q key, unlocked in S5)
         this.input.keyboard?.on('keydown-Q', () => {
-            this.tryOverdrive();
+            this.sendInput({ type: 'overdrive' });
         });
+
+        // Heat vent (E key, unlocked in S5)
+        this.input.keyboard?.on('keydown-E', () => {
+            this.sendInput({ type: 'vent' });
+        });
+
+        // Movement keys are polled once per frame
+        const keyboard = this.input.keyboard;
+        if (keyboard) {
+            this.moveKeys = [
+                [keyboard.addKey('A'), keyboard.addKey('LEFT')],
+                [keyboard.addKey('D'), keyboard.addKey('RIGHT')],
+            ];
+        }
+    }
+
+    /**
+     * Queue a live input for the start of the next frame. Ignored during replays.
+     */
+    private sendInput(input: ReplayInput): void {
+        if (this.replayPlayer) return;
+
+        if (input.type === 'continue') {
+            // The scene is paused, so this can't wait for the next frame
+            this.recorder?.recordInput(this.replayFrame, input);
+            this.continueAfterDeath();
+            return;
+        }
+
+        // Drag-firing fires pointermove many times per frame; one shot is enough
+        if (input.type === 'primary' && this.pendingInputs.some(pending => pending.type === 'primary')) return;
+        this.pendingInputs.push(input);
     }
 
-    update(time: number, delta: number): void {
+    /**
+     * Apply this frame's inputs: the queue when live, the recording when replaying
+     */
+    private processInputs(frame: number): void {
+        if (this.replayPlayer) {
+            this.replayPlayer.takeInputs(frame).forEach(input => this.applyInput(input));
+            return;
+        }
+
+        const held = (keys: Phaser.Input.Keyboard.Key[] = []) => keys.some(key => key.isDown);
+        const axis = ((held(this.moveKeys[1]) ? 1 : 0) - (held(this.moveKeys[0]) ? 1 : 0)) as -1 | 0 | 1;
+        if (axis !== this.moveAxis) {
+            this.pendingInputs.unshift({ type: 'move', axis });
+        }
+
+        const inputs = this.pendingInputs;
+        this.pendingInputs = [];
+        inputs.forEach(input => {
+            this.recorder?.recordInput(frame, input);
+            this.applyInput(input);
+        });
+    }
+
+    private applyInput(input: ReplayInput): void {
+        switch (input.type) {
+            case 'move':
+                this.moveAxis = input.axis;
+                this.player.setMoveAxis(input.axis);
+                break;
+            case 'primary':
+                if (SaveManager.hasUpgrade('autoFire')) {
+                    this.tryOverload();
+                } else {
+                    this.tryManualFire();
+                }
+                break;
+            case 'overdrive':
+                this.tryOverdrive();
+                break;
+            case 'vent':
+                this.tryVent();
+                break;
+            case 'autopilot':
+                if (!SaveManager.hasUpgrade('autopilot')) return;
+                this.showToast(this.player.toggleAutopilot() ? 'AUTOPILOT ENGAGED' : 'AUTOPILOT DISENGAGED', 'warning');
+                break;
+            case 'purchase':
+                this.applyPurchase(input.id);
+                break;
+            case 'weaponMod':
+                if (!this.upgradeManager.isWeaponModUnlocked(getWeaponMod(input.id))) break;
+                SaveManager.update({ activeWeaponMod: input.id });
+                this.shopUI.refresh();
+                break;
+            case 'behaviorScript':
+                SaveManager.update({ activeBehaviorScript: input.id });
+                this.shopUI.refresh();
+                break;
+            case 'droneClass':
+                this.applyDroneClass(input.bay, input.id);
+                break;
+            case 'droneFormation':
+                if (getDroneFormation(input.id).id !== input.id) break;
+                SaveManager.update({ activeDroneFormation: input.id });
+                this.shopUI.refresh();
+                break;
+            case 'continue':
+                this.continueAfterDeath();
+                break;
+        }
+    }
+
+    public getReplayFrame(): number {
+        return this.replayFrame;
+    }
+
+    public isAwaitingContinue(): boolean {
+        return this.awaitingContinue;
+    }
+
+    update(_time: number, delta: number): void {
+        // Physics and timers already advanced by this delta, so every update is a replay frame
+        const frame = this.replayFrame++;
+        this.recorder?.recordFrame(delta);
         if (this.isPaused) return;
 
+        this.elapsed += delta;
+
+        // Snapshot enemy and bullet positions for this frame's AI queries
+        this.spatialIndex.rebuild(
+            this.enemies.getChildren() as Enemy[],
+            this.enemyBullets.getChildren() as Bullet[]
+        );
+
+        this.processInputs(frame);
+
+        // Jammer field strength feeds autopilot, aim and HUD
+        this.updateJammerDisruption();
+
         // Update player
-        this.player.update(time, delta);
+        this.player.update(this.elapsed, delta);
 
         // Auto-fire if enabled
         if (SaveManager.hasUpgrade('autoFire')) {
-            this.handleAutoFire(time);
+            this.handleAutoFire(this.elapsed);
         }
 
         // Update wave manager
-        this.waveManager.update(time, delta);
+        this.waveManager.update(this.elapsed, delta);
 
         // Clean up off-screen bullets
         this.cleanupBullets();
@@ -316,6 +506,48 @@ export class GameScene extends Phaser.Scene {
 
         // Update HUD
         this.hud.update();
+        this.updateDebugOverlay(delta);
+        this.aiDebugOverlay.draw({
+            player: this.player,
+            drones: this.drones,
+            spatialIndex: this.spatialIndex,
+            bodyGroups: [this.enemies, this.playerBullets, this.enemyBullets],
+        });
+    }
+
+    /**
+     * F3 cycles: off, object counts, object counts plus the AI view
+     */
+    private cycleDebugOverlays(): void {
+        if (!this.debugOverlay.isOpen()) {
+            this.debugOverlay.open();
+            this.debugOverlayTimer = DEBUG_OVERLAY_INTERVAL;
+        } else if (!this.aiDebugOverlay.isVisible()) {
+            this.aiDebugOverlay.setVisible(true);
+        } else {
+            this.debugOverlay.close();
+            this.aiDebugOverlay.setVisible(false);
+        }
+    }
+
+    private updateDebugOverlay(delta: number): void {
+        if (!this.debugOverlay.isOpen()) return;
+
+        this.debugOverlayTimer += delta;
+        if (this.debugOverlayTimer < DEBUG_OVERLAY_INTERVAL) return;
+        this.debugOverlayTimer = 0;
+
+        this.debugOverlay.update({
+            fps: this.game.loop.actualFps,
+            playerBullets: this.playerBullets.countActive(true),
+            playerBulletPool: this.playerBullets.getLength(),
+            enemyBullets: this.enemyBullets.countActive(true),
+            enemyBulletPool: this.enemyBullets.getLength(),
+            enemies: this.enemies.countActive(true),
+            popups: this.effects.getActivePopups(),
+            particles: this.effects.getActiveParticles(),
+            tweens: this.tweens.getTweens().length,
+        });
     }
 
     private handleAutoFire(time: number): void {
@@ -331,7 +563,7 @@ export class GameScene extends Phaser.Scene {
             fireRate *= 1.5;
         }
 
-        // Heat penalty (S5+) - reduces fire rate when overheated
+        // Heat penalty (S5+) - reduces fire rate during a meltdown
         const save = SaveManager.getCurrent();
         if (save.highestSector >= 5) {
             fireRate *= this.player.getHeatPenalty();
@@ -343,43 +575,84 @@ export class GameScene extends Phaser.Scene {
             this.firePlayerBullet();
             this.lastAutoFireTime = time;
 
-            // Add heat when firing (S5+)
+            // Add heat when firing (S5+); hungrier mods run hotter
             if (save.highestSector >= 5) {
-                this.player.addHeat(3); // 3 heat per shot
+                const heat = HEAT_PER_SHOT * (this.upgradeManager.getActiveWeaponMod().heatMultiplier ?? 1);
+                if (this.player.addHeat(heat)) {
+                    this.onMeltdown();
+                }
             }
         }
     }
 
+    /**
+     * The guns hit capacity: burn the hull. The fire rate stays throttled
+     * until they cool (or are vented).
+     */
+    private onMeltdown(): void {
+        this.showToast('MELTDOWN! Vent heat with E', 'error');
+        if (!this.reducedMotion) {
+            this.cameras.main.shake(200, 0.015);
+        }
+        this.damagePlayer(this.player.maxHP * MELTDOWN_HULL_DAMAGE);
+    }
+
+    private updateJammerDisruption(): void {
+        const jammers = this.spatialIndex.enemies.withinRadius(
+            this.player.x,
+            this.player.y,
+            JAMMER_FIELD_RADIUS,
+            enemy => enemy.enemyType === 'jammer'
+        );
+        const stabilityLevel = SaveManager.getUpgradeLevel('stability');
+        this.jammerDisruption = getJammerDisruption(jammers, this.player.x, this.player.y, stabilityLevel);
+        this.player.setJammerDisruption(this.jammerDisruption);
+    }
+
+    public getJammerDisruption(): number {
+        return this.jammerDisruption;
+    }
+
     private tryManualFire(): void {
-        const now = performance.now();
-        if (now - this.lastManualFireTime >= PLAYER_MANUAL_FIRE_COOLDOWN) {
+        if (this.elapsed - this.lastManualFireTime >= PLAYER_MANUAL_FIRE_COOLDOWN) {
             this.firePlayerBullet();
-            this.lastManualFireTime = now;
+            this.lastManualFireTime = this.elapsed;
         }
     }
 
     public firePlayerBullet(): void {
-        const save = SaveManager.getCurrent();
-        const weaponMod = save.activeWeaponMod || 'standard';
-        const hasWeaponMods = SaveManager.hasUpgrade('weaponModSlot');
+        const mod = this.upgradeManager.getActiveWeaponMod();
+        const variant = getPlayerBulletVariant(mod.id);
+
+        // Railgun: trigger pulls charge the next slug
+        if (mod.behavior === 'railgun') {
+            this.railgunCharge++;
+            if (this.railgunCharge < (mod.chargeShots ?? 1)) {
+                this.showRailgunCharge(this.railgunCharge / (mod.chargeShots ?? 1));
+                return;
+            }
+            this.railgunCharge = 0;
+        }
 
         let baseDamage = this.upgradeManager.getDamage();
-        const speed = this.upgradeManager.getBulletSpeed();
-        let variant: 'standard' | 'pierce' | 'scatter' = 'standard';
+        const speed = this.upgradeManager.getBulletSpeed() * (mod.speedMultiplier ?? 1);
         let flashPower = baseDamage;
 
         // Sound
         this.soundManager.playShoot();
 
         // Apply behavior script damage modifier (Assassin +15%, Farmer -15%, Guardian -10%)
-        const script = this.getActiveBehaviorScript();
-        baseDamage *= script.damageModifier;
+        const script = this.upgradeManager.getActiveBehaviorScript();
+        baseDamage *= script.damageModifier * mod.damageMultiplier;
+
+        // Hot guns hit harder (S5+)
+        baseDamage *= this.player.getHeatDamageMultiplier();
 
         const rollCrit = (damage: number): { damage: number; isCrit: boolean } => {
             const critChance = SaveManager.getUpgradeLevel('critChance') * 0.02;
             if (critChance <= 0) return { damage, isCrit: false };
             const critMult = 1.5 + SaveManager.getUpgradeLevel('critMultiplier') * 0.15;
-            if (Math.random() < critChance) {
+            if (this.rng.chance(critChance)) {
                 const critDamage = damage * critMult;
                 flashPower = Math.max(flashPower, critDamage);
                 return { damage: critDamage, isCrit: true };
@@ -387,80 +660,89 @@ export class GameScene extends Phaser.Scene {
             return { damage, isCrit: false };
         };
 
-        // Apply weapon mod effects
-        if (hasWeaponMods && weaponMod === 'pierce') {
-            // Pierce: -10% damage, bullets go through enemies (straight up)
-            variant = 'pierce';
-            baseDamage *= 0.9;
-            const shot = rollCrit(baseDamage);
-            const bullet = this.playerBullets.get(this.player.x, this.player.y - 26) as Bullet;
-            if (bullet) {
-                bullet.fire(
-                    this.player.x,
-                    this.player.y - 26,
-                    shot.damage,
-                    speed,
-                    this.player.x,
-                    true,
-                    true,
-                    3,
-                    variant,
-                    shot.isCrit
-                );
-            }
-        } else if (hasWeaponMods && weaponMod === 'scatter') {
-            // Scatter: 3 bullets in a cone, -40% damage each
-            variant = 'scatter';
-            baseDamage *= 0.6;
-            const spreadOffsets = [-50, 0, 50]; // horizontal spread
-
-            spreadOffsets.forEach(offsetX => {
-                const shot = rollCrit(baseDamage);
-                const bullet = this.playerBullets.get(this.player.x, this.player.y - 26) as Bullet;
-                if (bullet) {
-                    bullet.fire(
-                        this.player.x,
-                        this.player.y - 26,
-                        shot.damage,
-                        speed,
-                        this.player.x + offsetX,
-                        true,
-                        false,
-                        0,
-                        variant,
-                        shot.isCrit
-                    );
-                }
-            });
+        // Jammers throw off the aim of every bullet
+        const jitter = (): number => rollAimJitter(this.jammerDisruption, this.rng);
+
+        if (mod.behavior === 'beam') {
+            this.fireBeam(rollCrit(baseDamage), mod, jitter());
         } else {
-            // Standard single bullet - straight up
-            const shot = rollCrit(baseDamage);
-            const bullet = this.playerBullets.get(this.player.x, this.player.y - 26) as Bullet;
-            if (bullet) {
-                bullet.fire(
-                    this.player.x,
-                    this.player.y - 26,
-                    shot.damage,
-                    speed,
-                    this.player.x,
-                    true,
-                    false,
-                    0,
-                    variant,
-                    shot.isCrit
-                );
+            // Pellets fan out evenly around the ship's line (Scatter)
+            const count = mod.projectiles ?? 1;
+            for (let i = 0; i < count; i++) {
+                const offsetX = (i - (count - 1) / 2) * (mod.spread ?? 0);
+                this.fireModBullet(rollCrit(baseDamage), speed, mod, variant, offsetX + jitter());
             }
         }
 
+        // Chaos: chance for a bonus shot at a random target
+        if (rollExtraShot(script, this.rng)) {
+            this.fireChaosShot(rollCrit(baseDamage), speed, variant, jitter());
+        }
+
         this.player.playMuzzleFlash(flashPower, variant);
     }
 
+    /**
+     * One bullet of the active mod, drifting sideways by offsetX
+     */
+    private fireModBullet(
+        shot: { damage: number; isCrit: boolean },
+        speed: number,
+        mod: WeaponMod,
+        variant: PlayerBulletVariant,
+        offsetX: number
+    ): void {
+        const originY = this.player.y - 26;
+        const bullet = this.playerBullets.get(this.player.x, originY) as Bullet | null;
+        if (!bullet) return;
+
+        const pierce = mod.pierce ?? 0;
+        bullet.fire(this.player.x, originY, shot.damage, speed, this.player.x + offsetX, true, pierce > 0, pierce, variant, shot.isCrit);
+        bullet.ricochets = mod.ricochets ?? 0;
+
+        if (mod.behavior === 'homing') {
+            const target = this.spatialIndex.enemies.nearest(this.player.x, originY, enemy => !enemy.isCloaked());
+            if (target) bullet.setHoming(target, mod.turnRate ?? 180, HOMING_LIFETIME);
+        }
+    }
+
+    /**
+     * Hitscan: every enemy in the ship's column takes the hit at once
+     */
+    private fireBeam(shot: { damage: number; isCrit: boolean }, mod: WeaponMod, offsetX: number): void {
+        const x = this.player.x + offsetX;
+        const originY = this.player.y - 26;
+        const targets = this.spatialIndex.enemies.inColumn(x, mod.beamWidth ?? 18, -GAME_HEIGHT, originY);
+
+        this.effects.line(x, originY, x, 0, PLAYER_BULLET_COLORS.beam, 6, 160);
+        targets.forEach(enemy => this.damageEnemy(enemy, shot.damage, shot.isCrit, mod));
+    }
+
+    private fireChaosShot(
+        shot: { damage: number; isCrit: boolean },
+        speed: number,
+        variant: PlayerBulletVariant,
+        jitterX: number
+    ): void {
+        const targets = this.spatialIndex.enemies.getAll();
+        if (targets.length === 0) return;
+
+        const target = this.rng.pick(targets)!;
+        const originY = this.player.y - 26;
+        const bullet = this.playerBullets.get(this.player.x, originY) as Bullet;
+        if (!bullet) return;
+
+        bullet.fire(this.player.x, originY, shot.damage, speed, this.player.x, true, false, 0, variant, shot.isCrit);
+        const angle = Phaser.Math.Angle.Between(this.player.x, originY, target.x + jitterX, target.y);
+        bullet.setVelocityVector(Math.cos(angle) * speed, Math.sin(angle) * speed);
+    }
+
     private tryOverload(): void {
-        if (Date.now() < this.overloadCooldownEnd) return;
+        if (this.elapsed < this.overloadCooldownEnd) return;
         if (!SaveManager.hasUpgrade('autoFire')) return;
 
         this.overloadActive = true;
-        this.overloadCooldownEnd = Date.now() + OVERLOAD_COOLDOWN;
+        this.overloadCooldownEnd = this.elapsed + OVERLOAD_COOLDOWN;
 
         // Visual feedback
         if (!this.reducedMotion) {
@@ -474,11 +756,11 @@ export class GameScene extends Phaser.Scene {
     }
 
     private tryOverdrive(): void {
-        if (Date.now() < this.overdriveCooldownEnd) return;
+        if (this.elapsed < this.overdriveCooldownEnd) return;
         if (SaveManager.getCurrent().highestSector < 5) return;
 
         this.overdriveActive = true;
-        this.overdriveCooldownEnd = Date.now() + OVERDRIVE_COOLDOWN;
+        this.overdriveCooldownEnd = this.elapsed + OVERDRIVE_COOLDOWN;
 
         // Visual feedback
         if (!this.reducedMotion) {
@@ -493,27 +775,67 @@ export class GameScene extends Phaser.Scene {
         });
     }
 
+    /**
+     * Dump all heat as a pulse that damages every enemy near the ship.
+     * Fuller vents hit harder, and venting ends a meltdown.
+     */
+    private tryVent(): void {
+        if (this.elapsed < this.ventCooldownEnd) return;
+        if (SaveManager.getCurrent().highestSector < 5) return;
+        if (this.player.currentHeat < VENT_MIN_HEAT) return;
+
+        const vented = this.player.vent();
+        this.ventCooldownEnd = this.elapsed + getVentCooldown(SaveManager.getUpgradeLevel('coolingRate'));
+
+        // fx-ring has radius 32
+        this.effects.particle('fx-ring', this.player.x, this.player.y, {
+            tint: 0xff8844,
+            alpha: 0.9,
+            scale: 0.3,
+            toScale: VENT_RADIUS / 32,
+            duration: 300,
+        });
+        if (!this.reducedMotion) {
+            this.cameras.main.shake(120, 0.008);
+        }
+
+        const damage = this.upgradeManager.getDamage() * VENT_DAMAGE_PER_HEAT * vented;
+        const standard = getWeaponMod('standard');
+        this.spatialIndex.enemies
+            .withinRadius(this.player.x, this.player.y, VENT_RADIUS)
+            .forEach(enemy => this.damageEnemy(enemy, damage, false, standard));
+    }
+
     private updateAbilities(): void {
         // Update HUD cooldown displays
         this.hud.updateAbilityCooldowns(
-            this.overloadCooldownEnd - Date.now(),
-            this.overdriveCooldownEnd - Date.now()
+            this.overloadCooldownEnd - this.elapsed,
+            this.overdriveCooldownEnd - this.elapsed,
+            this.ventCooldownEnd - this.elapsed,
+            getVentCooldown(SaveManager.getUpgradeLevel('coolingRate'))
         );
     }
 
     private cleanupBullets(): void {
-        this.playerBullets.getChildren().forEach((bullet) => {
-            const b = bullet as unknown as Bullet;
-            if (b.y < -50 || b.y > GAME_HEIGHT + 50) {
-                b.destroy();
-            }
+        // Angled, homing and ricocheting shots can also leave through the sides
+        [this.playerBullets, this.enemyBullets].forEach(group => {
+            group.getChildren().forEach((bullet) => {
+                const b = bullet as unknown as Bullet;
+                if (b.active && (b.y < -50 || b.y > GAME_HEIGHT + 50 || b.x < -50 || b.x > GAME_WIDTH + 50)) {
+                    b.recycle();
+                }
+            });
         });
+    }
 
-        this.enemyBullets.getChildren().forEach((bullet) => {
-            const b = bullet as unknown as Bullet;
-            if (b.y < -50 || b.y > GAME_HEIGHT + 50) {
-                b.destroy();
-            }
+    /**
+     * Return every bullet in flight to its pool
+     */
+    public clearProjectiles(): void {
+        [this.playerBullets, this.enemyBullets].forEach(group => {
+            group.getChildren().forEach((bullet) => {
+                if (bullet.active) (bullet as unknown as Bullet).recycle();
+            });
         });
     }
 
@@ -526,22 +848,44 @@ export class GameScene extends Phaser.Scene {
 
         if (!bullet.active || !enemy.active) return;
 
-        // Apply damage
-        const damage = bullet.damage;
+        // A bullet hits each enemy once, however many frames they overlap
+        if (bullet.hasHit(enemy)) return;
+        bullet.registerHit(enemy);
+
+        // Drone bullets fall back to Standard
+        const mod = getWeaponMod(bullet.getVariant());
+        this.damageEnemy(enemy, bullet.damage, bullet.isCrit, mod);
+        if (mod.chainJumps) {
+            this.chainLightning(enemy, bullet, mod);
+        }
+
+        // Ricochet on, then pierce through, then stop
+        if (bullet.ricochets > 0 && this.ricochet(bullet, enemy)) {
+            bullet.ricochets--;
+        } else if (bullet.pierce && bullet.pierceCount > 0) {
+            bullet.pierceCount--;
+        } else {
+            bullet.recycle();
+        }
+    }
+
+    /**
+     * Apply one hit from the player's weapons: damage, feedback, shield
+     * break bonus and the kill
+     */
+    private damageEnemy(enemy: Enemy, damage: number, isCrit: boolean, mod: WeaponMod): void {
+        if (!enemy.active) return;
+
         this.damageDealtThisSecond += damage;
 
         // Overdrive damage bonus
         const actualDamage = this.overdriveActive ? damage * 1.5 : damage;
 
-        enemy.takeDamage(actualDamage);
+        const shieldBroken = enemy.takeDamage(actualDamage);
         this.showHitSpark(enemy.x, enemy.y, actualDamage);
-        this.showDamagePopup(enemy.x, enemy.y, actualDamage, bullet.isCrit);
-
-        // Destroy bullet (unless pierce)
-        if (!bullet.pierce || bullet.pierceCount <= 0) {
-            bullet.destroy();
-        } else {
-            bullet.pierceCount--;
+        this.showDamagePopup(enemy.x, enemy.y, actualDamage, isCrit);
+        if (shieldBroken) {
+            this.onShieldBroken(enemy, mod, actualDamage);
         }
 
         // Check if enemy died
@@ -550,6 +894,65 @@ export class GameScene extends Phaser.Scene {
         }
     }
 
+    /**
+     * Arc from the struck enemy to nearby enemies the bullet hasn't hit,
+     * losing damage with every jump. The index is built once a frame, so
+     * enemies killed since (by this chain, too) are filtered out.
+     */
+    private chainLightning(from: Enemy, bullet: Bullet, mod: WeaponMod): void {
+        let source = { x: from.x, y: from.y };
+        let damage = bullet.damage;
+
+        for (let i = 0; i < (mod.chainJumps ?? 0); i++) {
+            const next = this.spatialIndex.enemies.nearest(
+                source.x,
+                source.y,
+                enemy => enemy.active && !bullet.hasHit(enemy),
+                mod.chainRange ?? 120
+            );
+            if (!next) return;
+
+            damage *= mod.chainFalloff ?? 1;
+            bullet.registerHit(next);
+            this.effects.line(source.x, source.y, next.x, next.y, PLAYER_BULLET_COLORS.chain, 3, 200);
+            source = { x: next.x, y: next.y };
+            this.damageEnemy(next, damage, false, mod);
+        }
+    }
+
+    /**
+     * Turn a bullet towards the nearest enemy it hasn't hit. Returns false if
+     * none is in range.
+     */
+    private ricochet(bullet: Bullet, from: Enemy): boolean {
+        const next = this.spatialIndex.enemies.nearest(
+            from.x,
+            from.y,
+            enemy => enemy.active && !bullet.hasHit(enemy) && !enemy.isCloaked(),
+            RICOCHET_RANGE
+        );
+        if (!next) return false;
+
+        const angle = Phaser.Math.Angle.Between(bullet.x, bullet.y, next.x, next.y);
+        bullet.setVelocityVector(Math.cos(angle) * bullet.speed, Math.sin(angle) * bullet.speed);
+        return true;
+    }
+
+    /**
+     * A hit knocked out an enemy's shield: burst effect, plus the firing
+     * weapon mod's shield-break bonus (e.g. Pierce)
+     */
+    private onShieldBroken(enemy: Enemy, mod: WeaponMod, damage: number): void {
+        this.showShieldBreak(enemy.x, enemy.y);
+
+        const bonus = damage * (mod.shieldBreakBonus ?? 0);
+        if (bonus > 0 && enemy.currentHP > 0) {
+            enemy.takeDamage(bonus);
+            this.damageDealtThisSecond += bonus;
+            this.showDamagePopup(enemy.x, enemy.y - 14, bonus, false);
+        }
+    }
+
     private handleEnemyBulletHitPlayer(
         bulletObj: Phaser.GameObjects.GameObject,
         _playerObj: Phaser.GameObjects.GameObject
@@ -557,7 +960,11 @@ export class GameScene extends Phaser.Scene {
         const bullet = bulletObj as unknown as Bullet;
         if (!bullet.active) return;
 
-        bullet.destroy();
+        bullet.recycle();
+
+        // Shield drones soak the hit if they have charge
+        if (this.drones.some(drone => drone.absorbHit())) return;
+
         this.player.takeDamage(bullet.damage);
         this.soundManager.playHit();
 
@@ -572,13 +979,27 @@ export class GameScene extends Phaser.Scene {
         }
     }
 
+    /**
+     * Continuous damage from non-projectile sources (boss lasers)
+     */
+    public damagePlayer(amount: number): void {
+        if (this.isPaused || this.player.currentHP <= 0) return;
+
+        this.player.takeDamage(amount);
+
+        if (this.player.currentHP <= 0) {
+            this.soundManager.playHit();
+            this.gameOver();
+        }
+    }
+
     public handleEnemyReachedBottom(enemy: Enemy): void {
         if (!enemy.active) return;
 
         const wasBoss = enemy.isBoss;
 
         // Heavy damage for letting enemies through
-        this.player.takeDamage(20);
+        this.player.takeDamage(ENEMY_ESCAPE_DAMAGE);
         this.soundManager.playHit();
 
         if (!this.reducedMotion) {
@@ -615,7 +1036,7 @@ export class GameScene extends Phaser.Scene {
         const wasBoss = enemy.isBoss;
 
         // Enemy collision damage
-        this.player.takeDamage(15);
+        this.player.takeDamage(ENEMY_COLLISION_DAMAGE);
         this.soundManager.playHit();
         enemy.destroy();
 
@@ -646,7 +1067,7 @@ export class GameScene extends Phaser.Scene {
         }
 
         // Behavior script salvage modifier (Farmer gives +15%)
-        const script = this.getActiveBehaviorScript();
+        const script = this.upgradeManager.getActiveBehaviorScript();
         scrap *= script.salvageModifier;
 
         // Repair nanites (heal on kill)
@@ -668,6 +1089,10 @@ export class GameScene extends Phaser.Scene {
         this.showScrapPopup(enemy.x, enemy.y, scrap);
         this.spawnScrapMagnetEffect(enemy.x, enemy.y, scrap);
 
+        if (enemy.isElite()) {
+            this.rollCoreFragment();
+        }
+
         // Sound
         this.soundManager.playExplosion(enemy.isBoss ? 2.0 : 1.0);
 
@@ -678,6 +1103,17 @@ export class GameScene extends Phaser.Scene {
         this.waveManager.onEnemyKilled(enemy);
     }
 
+    private rollCoreFragment(): void {
+        if (!this.rng.chance(ELITE_CORE_FRAGMENT_CHANCE)) return;
+
+        if (SaveManager.addCoreFragments(1) > 0) {
+            this.showToast('CORE ASSEMBLED FROM FRAGMENTS', 'success');
+        } else {
+            const fragments = SaveManager.getCurrent().coreFragments;
+            this.showToast(`CORE FRAGMENT ${fragments}/${CORE_FRAGMENTS_PER_CORE}`, 'success');
+        }
+    }
+
     private spawnScrapMagnetEffect(x: number, y: number, scrap: number): void {
         if (!SaveManager.hasUpgrade('scrapMagnet')) return;
 
@@ -685,144 +1121,75 @@ export class GameScene extends Phaser.Scene {
         const color = 0xffdd44;
 
         for (let i = 0; i < count; i++) {
-            const orb = this.add.circle(
-                x + Phaser.Math.Between(-10, 10),
-                y + Phaser.Math.Between(-6, 6),
-                Phaser.Math.Between(1, 3),
-                color,
-                0.9
-            );
-            const targetX = this.player.x + Phaser.Math.Between(-6, 6);
-            const targetY = this.player.y + Phaser.Math.Between(-8, 8);
-
-            this.tweens.add({
-                targets: orb,
-                x: targetX,
-                y: targetY,
-                alpha: 0,
-                scale: 0.4,
+            // fx-dot has radius 8
+            const scale = Phaser.Math.Between(1, 3) / 8;
+            this.effects.particle('fx-dot', x + Phaser.Math.Between(-10, 10), y + Phaser.Math.Between(-6, 6), {
+                tint: color,
+                alpha: 0.9,
+                scale,
+                toX: this.player.x + Phaser.Math.Between(-6, 6),
+                toY: this.player.y + Phaser.Math.Between(-8, 8),
+                toScale: scale * 0.4,
                 duration: Phaser.Math.Between(350, 550),
                 ease: 'Quad.easeIn',
-                onComplete: () => orb.destroy(),
             });
         }
     }
 
-    private getActiveBehaviorScript(): BehaviorScript {
-        const save = SaveManager.getCurrent();
-        const scriptId = save.activeBehaviorScript || 'balanced';
-        return BEHAVIOR_SCRIPTS.find(s => s.id === scriptId) || BEHAVIOR_SCRIPTS[0];
-    }
-
     public getEstimatedDps(): number {
-        const weaponMod = SaveManager.getCurrent().activeWeaponMod || 'standard';
-        const hasWeaponMods = SaveManager.hasUpgrade('weaponModSlot');
-        const baseDps = this.upgradeManager.getEstimatedDPS();
-        let modMultiplier = 1;
-
-        if (hasWeaponMods && weaponMod === 'pierce') {
-            modMultiplier = 0.9;
-        } else if (hasWeaponMods && weaponMod === 'scatter') {
-            modMultiplier = 0.6 * 3;
-        }
-
-        const script = this.getActiveBehaviorScript();
-        return baseDps * modMultiplier * script.damageModifier;
+        return this.upgradeManager.getLoadoutDPS();
     }
 
     private showScrapPopup(x: number, y: number, amount: number): void {
-        const text = this.add.text(x, y, `+${Math.floor(amount)}`, {
-            fontSize: '14px',
-            color: '#ffdd44',
-            fontFamily: 'Segoe UI, Roboto, sans-serif',
-            stroke: '#000000',
-            strokeThickness: 2,
-        });
-        text.setOrigin(0.5);
-
-        this.tweens.add({
-            targets: text,
-            y: y - 30,
-            alpha: 0,
-            duration: 800,
-            ease: 'Power2',
-            onComplete: () => text.destroy(),
-        });
+        this.effects.popup(x, y, `+${Math.floor(amount)}`, '#ffdd44', 14, 30, 800);
     }
 
     private showDamagePopup(x: number, y: number, amount: number, isCrit: boolean = false): void {
-        const text = this.add.text(x, y, `-${Math.round(amount)}`, {
-            fontSize: isCrit ? '13px' : '12px',
-            color: isCrit ? '#ffcc66' : '#ff6688',
-            fontFamily: 'Segoe UI, Roboto, sans-serif',
-            stroke: '#000000',
-            strokeThickness: 2,
-        });
-        text.setOrigin(0.5);
-
-        this.tweens.add({
-            targets: text,
-            y: y - 20,
-            alpha: 0,
-            duration: isCrit ? 650 : 500,
-            ease: 'Power2',
-            onComplete: () => text.destroy(),
-        });
+        this.effects.popup(x, y, `-${Math.round(amount)}`, isCrit ? '#ffcc66' : '#ff6688', isCrit ? 13 : 12, 20, isCrit ? 650 : 500);
     }
 
     private showHealPopup(amount: number): void {
-        const text = this.add.text(this.player.x, this.player.y - 30, `+${Math.ceil(amount)} HP`, {
-            fontSize: '12px',
-            color: '#44ff88',
-            fontFamily: 'Segoe UI, Roboto, sans-serif',
-            stroke: '#000000',
-            strokeThickness: 2,
-        });
-        text.setOrigin(0.5);
-
-        this.tweens.add({
-            targets: text,
-            y: text.y - 20,
-            alpha: 0,
-            duration: 700,
-            ease: 'Power2',
-            onComplete: () => text.destroy(),
-        });
+        this.effects.popup(this.player.x, this.player.y - 30, `+${Math.ceil(amount)} HP`, '#44ff88', 12, 20, 700);
     }
 
     private showHealPulse(): void {
-        const pulse = this.add.circle(this.player.x, this.player.y, 18, 0x44ff88, 0.25);
-        this.tweens.add({
-            targets: pulse,
-            scale: 1.8,
-            alpha: 0,
+        // fx-dot has radius 8; the pulse starts at 18
+        this.effects.particle('fx-dot', this.player.x, this.player.y, {
+            tint: 0x44ff88,
+            alpha: 0.25,
+            scale: 18 / 8,
+            toScale: (18 / 8) * 1.8,
             duration: 300,
-            ease: 'Quad.easeOut',
-            onComplete: () => pulse.destroy(),
+        });
+    }
+
+    /**
+     * Railgun charge glow at the muzzle, brighter as the slug fills
+     */
+    private showRailgunCharge(charge: number): void {
+        this.effects.particle('fx-dot', this.player.x, this.player.y - 26, {
+            tint: PLAYER_BULLET_COLORS.railgun,
+            alpha: 0.3 + charge * 0.5,
+            scale: 0.4 + charge * 0.6,
+            toScale: 0.2,
+            duration: 180,
         });
     }
 
     private showHitSpark(x: number, y: number, damage: number): void {
         if (damage < 14) return;
 
-        const color = damage > 30 ? 0xff8844 : 0x88ccff;
-        const spark = this.add.graphics();
-        spark.fillStyle(color, 0.8);
-        spark.fillCircle(x, y, 3);
-        spark.lineStyle(1, color, 0.6);
-        spark.lineBetween(x - 6, y, x + 6, y);
-        spark.lineBetween(x, y - 6, x, y + 6);
-
-        this.tweens.add({
-            targets: spark,
-            alpha: 0,
-            scale: 1.4,
+        this.effects.particle('fx-spark', x, y, {
+            tint: damage > 30 ? 0xff8844 : 0x88ccff,
+            toScale: 1.4,
             duration: 120,
-            ease: 'Quad.easeOut',
-            onComplete: () => spark.destroy(),
         });
     }
 
+    private showShieldBreak(x: number, y: number): void {
+        this.effects.particle('fx-burst', x, y, { tint: 0x88ccff, duration: 250 });
+    }
+
     private updateDPSTracking(): void {
         this.sessionDPS = this.damageDealtThisSecond;
 
@@ -838,7 +1205,7 @@ export class GameScene extends Phaser.Scene {
             ? totalScrap / this.scrapHistory.length
             : 0;
 
-        // Update save with current scrap/sec for offline calculation
+        // Keep the recent scrap/sec in the save
         SaveManager.update({ scrapPerSecond: this.sessionSPS });
 
         // Reset counters
@@ -859,6 +1226,41 @@ export class GameScene extends Phaser.Scene {
     }
 
     public purchaseUpgrade(upgradeId: string): void {
+        this.sendInput({ type: 'purchase', id: upgradeId });
+    }
+
+    public selectWeaponMod(modId: string): void {
+        this.sendInput({ type: 'weaponMod', id: modId });
+    }
+
+    public selectBehaviorScript(scriptId: string): void {
+        this.sendInput({ type: 'behaviorScript', id: scriptId });
+    }
+
+    public selectDroneFormation(formationId: string): void {
+        this.sendInput({ type: 'droneFormation', id: formationId });
+    }
+
+    public selectDroneClass(bay: number, classId: string): void {
+        this.sendInput({ type: 'droneClass', bay, id: classId });
+    }
+
+    private applyDroneClass(bay: number, classId: string): void {
+        const droneClass = getDroneClass(classId);
+        if (droneClass.id !== classId || !this.upgradeManager.isDroneClassUnlocked(droneClass)) return;
+        if (bay < 0 || bay >= this.upgradeManager.getDroneBayCount()) return;
+
+        // Bays nobody has picked for yet fly combat drones
+        const loadout = SaveManager.getCurrent().droneLoadout.slice();
+        while (loadout.length <= bay) loadout.push('combat');
+        loadout[bay] = classId;
+
+        SaveManager.update({ droneLoadout: loadout });
+        this.spawnDrones();
+        this.shopUI.refresh();
+    }
+
+    private applyPurchase(upgradeId: string): void {
         if (this.upgradeManager.canAfford(upgradeId)) {
             this.upgradeManager.purchase(upgradeId);
             this.soundManager.playPurchase();
@@ -874,16 +1276,14 @@ export class GameScene extends Phaser.Scene {
             } else if (upgradeId === 'hull') {
                 this.player.applyHullUpgrade();
                 this.showToast('HULL INTEGRITY BOOSTED', 'success');
-            } else if (upgradeId === 'droneSlot1' || upgradeId === 'droneSlot2') {
+            } else if (upgradeId.startsWith('droneSlot')) {
                 this.spawnDrones();
             }
         }
     }
 
     public toggleAutopilot(): void {
-        if (!SaveManager.hasUpgrade('autopilot')) return;
-        const enabled = this.player.toggleAutopilot();
-        this.showToast(enabled ? 'AUTOPILOT ENGAGED' : 'AUTOPILOT DISENGAGED', 'warning');
+        this.sendInput({ type: 'autopilot' });
     }
 
     public showToast(message: string, type: 'success' | 'error' | 'warning' = 'success'): void {
@@ -915,10 +1315,11 @@ export class GameScene extends Phaser.Scene {
         }
 
         SaveManager.update(save);
+        EndlessManager.recordProgress();
         this.autoSave();
 
-        // Check for victory
-        if (save.currentSector >= 6) {
+        // Check for victory (endless runs keep going)
+        if (save.currentSector >= SECTOR_COUNT && !EndlessManager.isActive()) {
             this.victory();
             return;
         }
@@ -926,8 +1327,15 @@ export class GameScene extends Phaser.Scene {
         // Show sector complete message
         this.showToast(`SECTOR ${save.currentSector - 1} COMPLETE - +1 CORE`, 'success');
 
+        const affixes = getEndlessAffixes(save.currentSector);
+        if (affixes.length > 0) {
+            this.time.delayedCall(1000, () => {
+                this.showToast(`${getSectorName(save.currentSector).toUpperCase()}: ${affixes.map(a => a.name).join(', ')}`, 'warning');
+            });
+        }
+
         // Start next sector after delay
-        this.time.delayedCall(2000, () => {
+        this.time.delayedCall(SECTOR_DELAY, () => {
             this.waveManager.startNextWave();
         });
     }
@@ -936,12 +1344,28 @@ export class GameScene extends Phaser.Scene {
         const save = SaveManager.getCurrent();
         save.currentWave++;
         SaveManager.update(save);
+        EndlessManager.recordProgress();
 
-        this.time.delayedCall(1500, () => {
+        this.time.delayedCall(WAVE_DELAY, () => {
             this.waveManager.startNextWave();
         });
     }
 
+    /**
+     * "While you were away" summary; the run waits until it's collected
+     */
+    private showOfflineReport(report: OfflineReport): void {
+        this.isPaused = true;
+        this.physics.pause();
+        this.scene.pause();
+
+        new OfflineReportUI().open(report, () => {
+            this.isPaused = false;
+            this.scene.resume();
+            this.physics.resume();
+        });
+    }
+
     private showPauseMenu(): void {
         this.isPaused = true;
         this.physics.pause();
@@ -955,6 +1379,8 @@ export class GameScene extends Phaser.Scene {
         <h3 class="modal-title">Paused</h3>
         <div class="menu-buttons">
           <button id="btn-resume" class="menu-btn">Resume</button>
+          <button id="btn-pause-transfer" class="menu-btn secondary">Export / Import</button>
+          <button id="btn-pause-replay" class="menu-btn secondary">Download Replay</button>
           <button id="btn-quit" class="menu-btn secondary">Quit to Menu</button>
         </div>
       </div>
@@ -968,6 +1394,24 @@ export class GameScene extends Phaser.Scene {
             this.physics.resume();
         });
 
+        document.getElementById('btn-pause-transfer')?.addEventListener('click', () => {
+            // Save first so the exported code matches the current run
+            this.autoSave();
+            new SaveTransferUI({
+                slot: SaveManager.getActiveSlot(),
+                onImported: () => {
+                    // Restart the run from the imported save
+                    overlay.remove();
+                    this.shutdown();
+                    this.scene.restart();
+                },
+            }).open();
+        });
+
+        document.getElementById('btn-pause-replay')?.addEventListener('click', () => {
+            this.downloadReplay();
+        });
+
         document.getElementById('btn-quit')?.addEventListener('click', () => {
             overlay.remove();
             this.autoSave();
@@ -976,11 +1420,36 @@ export class GameScene extends Phaser.Scene {
         });
     }
 
+    /**
+     * Save this session's recording as a .json replay file
+     */
+    private downloadReplay(): void {
+        if (!this.recorder) return;
+
+        const replay = this.recorder.getData();
+        const blob = new Blob([encodeReplayFile(replay)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        const stamp = new Date(replay.recordedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+        link.href = url;
+        link.download = `auto-invaders-replay-${stamp}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+
+        if (replay.truncated) {
+            this.showToast('Session too long - replay only covers its start', 'warning');
+        }
+    }
+
     private gameOver(): void {
         this.isPaused = true;
+        this.awaitingContinue = true;
         this.physics.pause();
         this.scene.pause();
 
+        // The replay player reboots (or stops) on its own
+        if (this.replayPlayer) return;
+
         // Save progress (player keeps upgrades but may lose wave progress)
         this.autoSave();
 
@@ -1017,12 +1486,7 @@ export class GameScene extends Phaser.Scene {
                 resolved = true;
                 this.clearAutoContinueTimers();
                 overlay.remove();
-                // Restore player HP and continue
-                this.player.restoreHP();
-                this.isPaused = false;
-                this.scene.resume();
-                this.physics.resume();
-                this.waveManager.restartCurrentWave();
+                this.sendInput({ type: 'continue' });
             };
 
             const returnToMenu = () => {
@@ -1059,16 +1523,75 @@ export class GameScene extends Phaser.Scene {
             }
         };
 
+        // Dying ends an endless run instead of rebooting from a checkpoint
+        const showUI = EndlessManager.isActive() ? () => this.showEndlessRunOver() : showGameOverUI;
+
         // Show ad every 5th death, then show game over UI
         if (adManager.shouldShowAd()) {
-            adManager.showInterstitialAd().then(showGameOverUI);
+            adManager.showInterstitialAd().then(showUI);
         } else {
-            showGameOverUI();
+            showUI();
         }
     }
 
+    /**
+     * Reboot from the last checkpoint after a death
+     */
+    public continueAfterDeath(): void {
+        if (!this.awaitingContinue) return;
+        this.awaitingContinue = false;
+
+        // Restore player HP and continue with cold guns
+        this.player.restoreHP();
+        this.player.vent();
+        this.isPaused = false;
+        this.scene.resume();
+        this.physics.resume();
+        this.waveManager.restartCurrentWave();
+    }
+
+    private showEndlessRunOver(): void {
+        const run = EndlessManager.endRun();
+        if (!run) return;
+
+        const isHighScore = EndlessManager.getBestRun()?.startedAt === run.startedAt;
+        const waveInSector = run.highestWave - run.highestSector * WAVES_PER_SECTOR;
+
+        const overlay = document.createElement('div');
+        overlay.id = 'gameover-overlay';
+        overlay.className = 'modal-backdrop';
+        overlay.innerHTML = `
+      <div class="modal" style="text-align: center;">
+        <h3 class="modal-title" style="color: #ff4466;">ENDLESS RUN OVER</h3>
+        ${isHighScore ? '<p class="endless-high-score">NEW HIGH SCORE</p>' : ''}
+        <p style="color: #8899bb; margin-bottom: 24px;">
+          Reached Sector ${run.highestSector}: ${getSectorName(run.highestSector)} - Wave ${waveInSector}<br>
+          ${run.kills.toLocaleString()} enemies destroyed
+        </p>
+        <div class="menu-buttons">
+          <button id="btn-endless-continue" class="menu-btn">Continue</button>
+          <button id="btn-quit-menu" class="menu-btn secondary">Return to Menu</button>
+        </div>
+      </div>
+    `;
+        document.getElementById('ui-overlay')?.appendChild(overlay);
+
+        document.getElementById('btn-endless-continue')?.addEventListener('click', () => {
+            overlay.remove();
+            this.victory();
+        });
+        document.getElementById('btn-quit-menu')?.addEventListener('click', () => {
+            overlay.remove();
+            this.shutdown();
+            this.scene.start('MenuScene');
+        });
+    }
+
     private victory(): void {
         this.isPaused = true;
+        // A replay simply ends here (its recording stopped when the scene changed)
+        if (this.replayPlayer) return;
+
         this.autoSave();
         this.shutdown();
         this.scene.start('VictoryScene');
@@ -1091,7 +1614,8 @@ export class GameScene extends Phaser.Scene {
                     'splitter_mini',
                     save.currentSector,
                     globalWave,
-                    this.enemyBullets
+                    this.enemyBullets,
+                    this.rng
                 );
             }
         });
@@ -1103,18 +1627,30 @@ export class GameScene extends Phaser.Scene {
         this.clearAutoContinueTimers();
         this.shopUI?.destroy();
         this.hud?.destroy();
+        this.debugOverlay.close();
         document.getElementById('pause-overlay')?.remove();
+        document.getElementById('save-transfer-overlay')?.remove();
         document.getElementById('gameover-overlay')?.remove();
     }
 
     private resetSessionState(): void {
         this.isPaused = false;
+        this.awaitingContinue = false;
+        this.recorder = null;
+        this.pendingInputs = [];
+        this.replayFrame = 0;
+        this.elapsed = 0;
+        this.moveAxis = 0;
+        this.moveKeys = [];
         this.lastManualFireTime = 0;
         this.lastAutoFireTime = 0;
         this.overloadActive = false;
         this.overloadCooldownEnd = 0;
         this.overdriveCooldownEnd = 0;
         this.overdriveActive = false;
+        this.ventCooldownEnd = 0;
+        this.railgunCharge = 0;
+        this.jammerDisruption = 0;
         this.sessionDPS = 0;
         this.sessionSPS = 0;
         this.damageDealtThisSecond = 0;
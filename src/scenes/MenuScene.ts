@@ -1,21 +1,31 @@
 /**
- * MenuScene - Main menu with Start/Continue, Settings, Export/Import
+ * MenuScene - Main menu with save slots, Start/Continue, Settings, Export/Import
  */
 import Phaser from 'phaser';
-import { SaveManager } from '../systems/SaveManager';
+import { SaveManager, SaveSlotInfo } from '../systems/SaveManager';
+import { EndlessManager } from '../systems/EndlessManager';
+import { PrestigeManager } from '../systems/PrestigeManager';
+import { SaveTransferUI } from '../ui/SaveTransferUI';
+import { MetaUpgradeUI } from '../ui/MetaUpgradeUI';
+import { ReplayPlayer } from '../systems/ReplayPlayer';
+import { decodeReplayFile } from '../systems/ReplayCodec';
+import { calculateOfflineProgress } from '../sim/OfflineProgress';
 
 export class MenuScene extends Phaser.Scene {
   private menuOverlay!: HTMLElement;
   private settingsOverlay!: HTMLElement;
   private hasSave: boolean = false;
+  private selectedSlot: number = 0;
+  private simulating: boolean = false; // Offline progress is being played out
 
   constructor() {
     super({ key: 'MenuScene' });
   }
 
   create(): void {
-    // Refresh save check each time scene is created
-    this.hasSave = SaveManager.hasSave();
+    // Refresh slot selection each time scene is created
+    this.selectedSlot = SaveManager.getActiveSlot();
+    this.simulating = false;
 
     // Create starfield background
     this.createStarfield();
@@ -49,6 +59,10 @@ export class MenuScene extends Phaser.Scene {
     this.menuOverlay.innerHTML = '';
     this.settingsOverlay.innerHTML = '';
 
+    const slots = SaveManager.listSlots();
+    this.hasSave = SaveManager.hasSave(this.selectedSlot);
+    const hasPrestiged = slots[this.selectedSlot].prestigeCount > 0;
+
     // Build menu HTML
     this.menuOverlay.innerHTML = `
       <h1 class="menu-title">AUTO INVADERS</h1>
@@ -73,11 +87,19 @@ export class MenuScene extends Phaser.Scene {
           </div>
         </div>
       </div>
+      <div class="save-slots">
+        ${slots.map(info => this.renderSlotCard(info, slots)).join('')}
+      </div>
       <div class="menu-buttons">
         <button id="btn-start" class="menu-btn">New Game</button>
         <button id="btn-continue" class="menu-btn" ${!this.hasSave ? 'disabled' : ''}>Continue</button>
+        ${hasPrestiged ? '<button id="btn-meta" class="menu-btn secondary">Meta Upgrades</button>' : ''}
+        <button id="btn-transfer" class="menu-btn secondary">Export / Import</button>
+        <button id="btn-replay" class="menu-btn secondary">Watch Replay</button>
         <button id="btn-settings" class="menu-btn secondary">Settings</button>
       </div>
+      <p id="menu-status" class="menu-status hidden">Simulating time away…</p>
+      <input type="file" id="input-replay-file" accept=".json,application/json" hidden>
     `;
     this.menuOverlay.classList.remove('hidden');
     this.settingsOverlay.classList.add('hidden'); // Ensure hidden by default
@@ -121,6 +143,59 @@ export class MenuScene extends Phaser.Scene {
     this.bindMenuEvents();
   }
 
+  private renderSlotCard(info: SaveSlotInfo, slots: SaveSlotInfo[]): string {
+    const selected = info.slot === this.selectedSlot;
+    const hasEmptySlot = slots.some(s => !s.exists);
+    let details = '<p class="save-slot-meta">Empty slot</p>';
+
+    if (info.corrupt) {
+      details = '<p class="save-slot-meta corrupt">Unreadable save - will be quarantined on load</p>';
+    } else if (info.exists) {
+      details = `
+        <p class="save-slot-meta">Sector ${info.sector} · Wave ${info.wave}${info.prestigeCount > 0 ? ` · ◈ P${info.prestigeCount}` : ''}</p>
+        <p class="save-slot-meta">Played ${this.formatPlayTime(info.playTime)} · Saved ${this.formatLastSaved(info.lastSaveTime)}</p>
+      `;
+    }
+
+    return `
+      <div class="save-slot ${selected ? 'selected' : ''} ${info.exists ? '' : 'empty'}" data-slot="${info.slot}">
+        <div class="save-slot-header">
+          <span class="save-slot-name">${this.escapeHtml(info.name)}</span>
+          ${selected ? '<span class="save-slot-tag">SELECTED</span>' : ''}
+        </div>
+        ${details}
+        <div class="save-slot-actions">
+          <button class="save-slot-btn" data-action="rename">Rename</button>
+          <button class="save-slot-btn" data-action="copy" ${!info.exists || !hasEmptySlot ? 'disabled' : ''}>Copy</button>
+          <button class="save-slot-btn danger" data-action="delete" ${!info.exists ? 'disabled' : ''}>Delete</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private formatPlayTime(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) {
+      return `${hours}h ${minutes}m`;
+    }
+    return `${minutes}m`;
+  }
+
+  private formatLastSaved(timestamp: number): string {
+    const minutes = Math.floor((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+    return new Date(timestamp).toLocaleDateString();
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
   private applyMenuLayout(): void {
     document.getElementById('game-container')?.classList.add('full-width');
     document.getElementById('ui-overlay')?.classList.add('full-width');
@@ -134,19 +209,68 @@ export class MenuScene extends Phaser.Scene {
         // Show confirmation dialog if there's existing progress
         this.showNewGameConfirmation();
       } else {
-        SaveManager.reset();
-        this.startGame();
+        this.startNewGame();
       }
     });
 
     // Continue
     document.getElementById('btn-continue')?.addEventListener('click', () => {
       if (this.hasSave) {
-        SaveManager.load(); // Ensure we load the save
+        SaveManager.load(this.selectedSlot); // Ensure we load the save
+        if (EndlessManager.isCampaignComplete()) {
+          // Cleared saves pick prestige or endless on the victory screen
+          this.menuOverlay.classList.add('hidden');
+          this.scene.start('VictoryScene');
+          return;
+        }
         this.startGame();
       }
     });
 
+    // Save slots
+    this.menuOverlay.querySelectorAll<HTMLElement>('.save-slot').forEach(card => {
+      const slot = Number(card.dataset.slot);
+
+      card.addEventListener('click', () => {
+        if (this.simulating) return;
+        this.selectedSlot = slot;
+        this.setupMenuUI();
+      });
+
+      card.querySelectorAll<HTMLButtonElement>('.save-slot-btn').forEach(btn => {
+        btn.addEventListener('click', (e) => {
+          e.stopPropagation();
+          this.handleSlotAction(slot, btn.dataset.action ?? '');
+        });
+      });
+    });
+
+    // Prestige meta-upgrade tree for the selected slot
+    document.getElementById('btn-meta')?.addEventListener('click', () => {
+      SaveManager.load(this.selectedSlot);
+      new MetaUpgradeUI({ onClose: () => this.setupMenuUI() }).open();
+    });
+
+    // Export / Import for the selected slot
+    document.getElementById('btn-transfer')?.addEventListener('click', () => {
+      new SaveTransferUI({
+        slot: this.selectedSlot,
+        onImported: () => this.setupMenuUI(),
+      }).open();
+    });
+
+    // Replay files downloaded from the pause menu
+    const replayInput = document.getElementById('input-replay-file') as HTMLInputElement;
+    document.getElementById('btn-replay')?.addEventListener('click', () => replayInput.click());
+    replayInput.addEventListener('change', () => {
+      const file = replayInput.files?.[0];
+      if (!file) return;
+      file.text()
+        .then(text => this.startReplay(text))
+        .catch(() => this.showReplayError('Could not read that file.'));
+      replayInput.value = '';
+    });
+
     // Settings
     document.getElementById('btn-settings')?.addEventListener('click', () => {
       this.loadSettings();
@@ -169,6 +293,89 @@ export class MenuScene extends Phaser.Scene {
     });
   }
 
+  private handleSlotAction(slot: number, action: string): void {
+    switch (action) {
+      case 'rename':
+        this.showRenameDialog(slot);
+        break;
+      case 'copy': {
+        const target = SaveManager.listSlots().find(s => !s.exists);
+        if (target && SaveManager.copySlot(slot, target.slot)) {
+          this.selectedSlot = target.slot;
+          this.setupMenuUI();
+        }
+        break;
+      }
+      case 'delete':
+        this.showDeleteConfirmation(slot);
+        break;
+    }
+  }
+
+  private showRenameDialog(slot: number): void {
+    const overlay = document.createElement('div');
+    overlay.className = 'modal-backdrop';
+    overlay.innerHTML = `
+      <div class="modal" style="max-width: 400px;">
+        <h3 class="modal-title">Rename Slot</h3>
+        <input type="text" id="input-slot-name" maxlength="24" placeholder="Slot ${slot + 1}">
+        <div class="modal-buttons">
+          <button id="btn-cancel-rename" class="settings-btn">Cancel</button>
+          <button id="btn-confirm-rename" class="settings-btn primary">Save</button>
+        </div>
+      </div>
+    `;
+    document.getElementById('ui-overlay')?.appendChild(overlay);
+
+    const input = document.getElementById('input-slot-name') as HTMLInputElement;
+    input.value = SaveManager.getSlotName(slot);
+    input.focus();
+    input.select();
+
+    const confirm = () => {
+      SaveManager.renameSlot(slot, input.value);
+      overlay.remove();
+      this.setupMenuUI();
+    };
+
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') confirm();
+      if (e.key === 'Escape') overlay.remove();
+    });
+    document.getElementById('btn-confirm-rename')?.addEventListener('click', confirm);
+    document.getElementById('btn-cancel-rename')?.addEventListener('click', () => overlay.remove());
+  }
+
+  private showDeleteConfirmation(slot: number): void {
+    const info = SaveManager.getSlotInfo(slot);
+
+    const overlay = document.createElement('div');
+    overlay.className = 'modal-backdrop';
+    overlay.innerHTML = `
+      <div class="modal" style="text-align: center; max-width: 400px;">
+        <h3 class="modal-title" style="color: #ffdd44;">⚠️ Delete ${this.escapeHtml(info.name)}?</h3>
+        <p style="color: #8899bb; font-size: 12px; margin-bottom: 20px;">
+          This save will be lost forever.
+        </p>
+        <div class="menu-buttons">
+          <button id="btn-confirm-delete" class="menu-btn" style="background: linear-gradient(135deg, #ff4466, #ff6644);">Delete</button>
+          <button id="btn-cancel-delete" class="menu-btn secondary">Cancel</button>
+        </div>
+      </div>
+    `;
+    document.getElementById('ui-overlay')?.appendChild(overlay);
+
+    document.getElementById('btn-confirm-delete')?.addEventListener('click', () => {
+      overlay.remove();
+      SaveManager.deleteSlot(slot);
+      this.setupMenuUI();
+    });
+
+    document.getElementById('btn-cancel-delete')?.addEventListener('click', () => {
+      overlay.remove();
+    });
+  }
+
   private loadSettings(): void {
     const settings = SaveManager.getSettings();
     const soundEl = document.getElementById('setting-sound') as HTMLInputElement;
@@ -195,10 +402,10 @@ export class MenuScene extends Phaser.Scene {
   }
 
   private showNewGameConfirmation(): void {
-    const save = SaveManager.getCurrent();
-    const sectorText = save.currentSector > 0
-      ? `Sector ${save.currentSector}, Wave ${save.currentWave}`
-      : `Wave ${save.currentWave}`;
+    const save = SaveManager.getSlotInfo(this.selectedSlot);
+    const sectorText = save.sector > 0
+      ? `Sector ${save.sector}, Wave ${save.wave}`
+      : `Wave ${save.wave}`;
     const scrapText = Math.floor(save.scrap).toLocaleString();
 
     const overlay = document.createElement('div');
@@ -208,7 +415,7 @@ export class MenuScene extends Phaser.Scene {
       <div class="modal" style="text-align: center; max-width: 400px;">
         <h3 class="modal-title" style="color: #ffdd44;">⚠️ Warning</h3>
         <p style="color: #e0e8ff; margin-bottom: 12px;">
-          Starting a new game will <strong style="color: #ff4466;">erase all your progress</strong>:
+          Starting a new game will <strong style="color: #ff4466;">erase all progress in ${this.escapeHtml(save.name)}</strong>:
         </p>
         <div style="background: rgba(0,0,0,0.3); border-radius: 8px; padding: 12px; margin: 12px 0;">
           <p style="color: #44ddff; margin: 0;">Progress: ${sectorText}</p>
@@ -216,7 +423,7 @@ export class MenuScene extends Phaser.Scene {
           <p style="color: #aa66ff; margin: 4px 0 0 0;">Cores: ${save.cores}</p>
         </div>
         <p style="color: #8899bb; font-size: 12px; margin-bottom: 20px;">
-          All upgrades, scrap, and cores will be lost forever.
+          All upgrades, scrap, and cores in this slot will be lost forever.${save.prestigeCount > 0 ? '<br>Prestige progress (echoes and meta upgrades) is kept.' : ''}
         </p>
         <div class="menu-buttons">
           <button id="btn-confirm-newgame" class="menu-btn" style="background: linear-gradient(135deg, #ff4466, #ff6644);">Reset & Start New</button>
@@ -228,8 +435,7 @@ export class MenuScene extends Phaser.Scene {
 
     document.getElementById('btn-confirm-newgame')?.addEventListener('click', () => {
       overlay.remove();
-      SaveManager.reset();
-      this.startGame();
+      this.startNewGame();
     });
 
     document.getElementById('btn-cancel-newgame')?.addEventListener('click', () => {
@@ -237,9 +443,18 @@ export class MenuScene extends Phaser.Scene {
     });
   }
 
-  private startGame(): void {
-    // Calculate offline progress if applicable
-    const offlineScrap = SaveManager.calculateOfflineProgress();
+  private startNewGame(): void {
+    // Prestige progress carries over, so the meta tree's bonuses apply
+    SaveManager.reset(this.selectedSlot);
+    PrestigeManager.applyStartingBonuses();
+    this.startGame();
+  }
+
+  private async startGame(): Promise<void> {
+    // Play out the time away before the session starts. It yields between
+    // waves, so the menu stays responsive while it runs.
+    this.setSimulating();
+    const offlineReport = await calculateOfflineProgress();
 
     this.menuOverlay.classList.add('hidden');
     this.settingsOverlay.classList.add('hidden');
@@ -247,7 +462,53 @@ export class MenuScene extends Phaser.Scene {
     // Show shop when game starts
     document.getElementById('shop-container')?.classList.remove('hidden');
 
-    this.scene.start('GameScene', { offlineScrap });
+    this.scene.start('GameScene', { offlineReport });
+  }
+
+  /**
+   * Lock the menu while offline progress is simulated
+   */
+  private setSimulating(): void {
+    this.simulating = true;
+    this.menuOverlay.querySelectorAll<HTMLButtonElement>('button').forEach(btn => {
+      btn.disabled = true;
+    });
+    document.getElementById('menu-status')?.classList.remove('hidden');
+  }
+
+  private startReplay(text: string): void {
+    let player: ReplayPlayer;
+    try {
+      player = new ReplayPlayer(this.game, decodeReplayFile(text));
+    } catch (e) {
+      this.showReplayError(e instanceof Error ? e.message : 'Replay could not be loaded.');
+      return;
+    }
+
+    this.menuOverlay.classList.add('hidden');
+    this.settingsOverlay.classList.add('hidden');
+    document.getElementById('shop-container')?.classList.remove('hidden');
+
+    player.start(this);
+  }
+
+  private showReplayError(message: string): void {
+    const overlay = document.createElement('div');
+    overlay.className = 'modal-backdrop';
+    overlay.innerHTML = `
+      <div class="modal" style="text-align: center; max-width: 400px;">
+        <h3 class="modal-title" style="color: #ff4466;">Replay Failed</h3>
+        <p style="color: #8899bb; margin-bottom: 20px;">${this.escapeHtml(message)}</p>
+        <div class="menu-buttons">
+          <button id="btn-replay-error-close" class="menu-btn secondary">Close</button>
+        </div>
+      </div>
+    `;
+    document.getElementById('ui-overlay')?.appendChild(overlay);
+
+    document.getElementById('btn-replay-error-close')?.addEventListener('click', () => {
+      overlay.remove();
+    });
   }
 
   shutdown(): void {
@@ -1,8 +1,12 @@
 /**
- * VictoryScene - Displayed after completing all sectors
+ * VictoryScene - Displayed after completing all sectors, offers prestige or endless mode
  */
 import Phaser from 'phaser';
+import { WAVES_PER_SECTOR, getSectorName } from '../config/GameConfig';
 import { SaveManager, GameSave } from '../systems/SaveManager';
+import { PrestigeManager } from '../systems/PrestigeManager';
+import { EndlessManager } from '../systems/EndlessManager';
+import { MetaUpgradeUI } from '../ui/MetaUpgradeUI';
 
 export class VictoryScene extends Phaser.Scene {
     constructor() {
@@ -48,6 +52,9 @@ export class VictoryScene extends Phaser.Scene {
         const totalScrap = save.stats?.totalScrapEarned || 0;
         const playTime = this.formatTime(save.stats?.playTime || 0);
         const bossesDefeated = save.stats?.bossesDefeated || 0;
+        const canPrestige = PrestigeManager.canPrestige();
+        const reward = PrestigeManager.getPendingReward();
+        const bestRun = EndlessManager.getBestRun();
 
         overlay.innerHTML = `
       <div class="victory-screen">
@@ -73,13 +80,50 @@ export class VictoryScene extends Phaser.Scene {
           </div>
         </div>
         
+        ${canPrestige ? `
+        <div class="prestige-panel">
+          <p class="prestige-reward">Prestige for <strong>◈ ${reward} Echoes</strong></p>
+          <p class="prestige-note">Resets scrap, cores, upgrades and sector. Keeps stats, echoes and meta upgrades.</p>
+        </div>
+        ` : ''}
+
+        ${bestRun ? `
+        <p class="endless-best">
+          Endless best: Sector ${bestRun.highestSector} (${getSectorName(bestRun.highestSector)}),
+          Wave ${bestRun.highestWave - bestRun.highestSector * WAVES_PER_SECTOR} - ${bestRun.kills.toLocaleString()} kills
+        </p>
+        ` : ''}
+
         <div class="menu-buttons" style="margin-top: 32px;">
-          <button id="btn-menu" class="menu-btn">Return to Menu</button>
+          ${canPrestige ? '<button id="btn-prestige" class="menu-btn">Prestige & Rebuild</button>' : ''}
+          ${canPrestige ? '<button id="btn-endless" class="menu-btn secondary">Endless Mode</button>' : ''}
+          <button id="btn-menu" class="menu-btn ${canPrestige ? 'secondary' : ''}">Return to Menu</button>
         </div>
       </div>
     `;
         overlay.classList.remove('hidden');
 
+        document.getElementById('btn-prestige')?.addEventListener('click', () => {
+            PrestigeManager.prestige();
+            overlay.classList.add('hidden');
+
+            // Spend echoes before the new run starts
+            new MetaUpgradeUI({
+                closeLabel: 'Start New Run',
+                onClose: () => {
+                    document.getElementById('shop-container')?.classList.remove('hidden');
+                    this.scene.start('GameScene', {});
+                },
+            }).open();
+        });
+
+        document.getElementById('btn-endless')?.addEventListener('click', () => {
+            EndlessManager.start();
+            overlay.classList.add('hidden');
+            document.getElementById('shop-container')?.classList.remove('hidden');
+            this.scene.start('GameScene', {});
+        });
+
         document.getElementById('btn-menu')?.addEventListener('click', () => {
             overlay.classList.add('hidden');
             this.scene.start('MenuScene');
@@ -0,0 +1,83 @@
+/**
+ * OfflineProgress - "While you were away" progress from the headless simulation
+ *
+ * Time away, up to the Idle Protocols cap, is scaled by OFFLINE_EFFICIENCY
+ * and played out by the SimulationEngine on the player's current build (see
+ * SimulationEngine.runOffline). Deaths stop the advance, so a build that
+ * can't clear its wave only farms what it can.
+ */
+import {
+    OFFLINE_EFFICIENCY,
+    OFFLINE_MAX_SIMULATED_WAVES,
+    OFFLINE_MIN_SECONDS,
+    getOfflineCapHours,
+} from '../config/GameConfig';
+import { SaveManager } from '../systems/SaveManager';
+import { SimulationEngine } from './SimulationEngine';
+import { PURCHASE_POLICIES } from './PurchasePolicies';
+
+export interface OfflineReport {
+    awaySeconds: number;
+    capHours: number;
+    capped: boolean; // Away longer than the cap
+    efficiency: number;
+    creditedSeconds: number; // Game time played out: capped time away * efficiency
+    farmedSeconds: number; // Part of it spent repeating a wave
+    scrap: number;
+    kills: number;
+    cores: number; // From bosses and elite core fragments
+    wavesCleared: number;
+    bossesDefeated: number;
+    start: { sector: number; wave: number };
+    end: { sector: number; wave: number };
+    stalledAt: { sector: number; wave: number } | null;
+}
+
+/**
+ * Simulate the active slot's time away and bank the result. Resolves to null
+ * when the player wasn't away long enough to earn anything.
+ */
+export async function calculateOfflineProgress(now: number = Date.now(), seed?: number): Promise<OfflineReport | null> {
+    const save = SaveManager.load();
+    const awaySeconds = Math.max(0, (now - save.lastSaveTime) / 1000);
+    if (awaySeconds < OFFLINE_MIN_SECONDS) return null;
+
+    const capHours = getOfflineCapHours(SaveManager.getUpgradeLevel('offlineCapacity'));
+    const creditedSeconds = Math.min(awaySeconds, capHours * 3600) * OFFLINE_EFFICIENCY;
+    const before = {
+        scrap: save.stats.totalScrapEarned,
+        cores: save.cores,
+        sector: save.currentSector,
+        wave: save.currentWave,
+        playTime: save.stats.playTime,
+    };
+
+    // Without Auto-Fire nobody is clicking, so only the drones shoot
+    const engine = new SimulationEngine(save, {
+        seed,
+        policy: PURCHASE_POLICIES.none,
+        manualShotsPerSecond: 0,
+    });
+    const result = await engine.runOffline(creditedSeconds, OFFLINE_MAX_SIMULATED_WAVES);
+
+    const after = engine.getSave();
+    after.stats.playTime = before.playTime; // Time away isn't play time
+    SaveManager.save(after);
+
+    return {
+        awaySeconds,
+        capHours,
+        capped: awaySeconds > capHours * 3600,
+        efficiency: OFFLINE_EFFICIENCY,
+        creditedSeconds,
+        farmedSeconds: result.farmedSeconds,
+        scrap: after.stats.totalScrapEarned - before.scrap,
+        kills: result.kills,
+        cores: after.cores - before.cores,
+        wavesCleared: result.wavesCleared,
+        bossesDefeated: result.bossesDefeated,
+        start: { sector: before.sector, wave: before.wave },
+        end: { sector: after.currentSector, wave: after.currentWave },
+        stalledAt: result.stalledAt,
+    };
+}
@@ -0,0 +1,77 @@
+/**
+ * PurchasePolicies - Shopping strategies for the headless simulation
+ */
+import { UPGRADES } from '../config/GameConfig';
+import type { UpgradeManager } from '../systems/UpgradeManager';
+
+export interface PurchasePolicy {
+    name: string;
+    description: string;
+    /** Next upgrade to buy, or null to stop shopping until the next wave */
+    choose(upgrades: UpgradeManager): string | null;
+}
+
+// Damage-first priority list for the offense policy
+const OFFENSE_PRIORITIES = [
+    'autoFire',
+    'autopilot',
+    'damage',
+    'fireRate',
+    'critChance',
+    'critMultiplier',
+    'droneSlot1',
+    'droneSlot2',
+    'droneSlot3',
+    'droneSlot4',
+    'droneDamage',
+    'droneFireRate',
+];
+
+function canBuy(upgrades: UpgradeManager, id: string): boolean {
+    return upgrades.isAvailable(id).available && upgrades.canAfford(id);
+}
+
+/**
+ * Cheapest affordable upgrade by scrap (core-only unlocks count as free)
+ */
+function findCheapest(upgrades: UpgradeManager): string | null {
+    let cheapest: string | null = null;
+    let cheapestCost = Infinity;
+
+    UPGRADES.forEach(upgrade => {
+        if (!canBuy(upgrades, upgrade.id)) return;
+        const cost = upgrades.getCost(upgrade.id).scrap;
+        if (cost < cheapestCost) {
+            cheapestCost = cost;
+            cheapest = upgrade.id;
+        }
+    });
+
+    return cheapest;
+}
+
+export const PURCHASE_POLICIES: Record<string, PurchasePolicy> = {
+    recommended: {
+        name: 'recommended',
+        description: "Follows the shop's recommended upgrade",
+        choose: (upgrades) => {
+            const id = upgrades.getRecommended();
+            return id && canBuy(upgrades, id) ? id : null;
+        },
+    },
+    cheapest: {
+        name: 'cheapest',
+        description: 'Always buys the cheapest affordable upgrade',
+        choose: findCheapest,
+    },
+    offense: {
+        name: 'offense',
+        description: 'Damage and fire rate first, then the cheapest upgrade',
+        choose: (upgrades) => OFFENSE_PRIORITIES.find(id => canBuy(upgrades, id)) ?? findCheapest(upgrades),
+    },
+    none: {
+        name: 'none',
+        description: 'Never buys anything (baseline)',
+        choose: () => null,
+    },
+};
@@ -0,0 +1,992 @@
+/**
+ * SimulationEngine - Headless combat simulation for balance testing
+ *
+ * Runs waves at accelerated fixed-step time with the same formulas the game
+ * uses (GameConfig scaling, UpgradeManager damage/fire rate/costs, sector
+ * affixes, boss attack tables). Space is reduced to a single lane: enemies
+ * descend toward the ship and are focused front-first, and enemy fire lands
+ * with a dodge chance set by the autopilot tier and behavior script.
+ *
+ * The engine plays on its own copy of the save it's given. While it steps,
+ * that copy is swapped into a SaveManager sandbox so the shared game code
+ * sees it, and nothing reaches a slot: read the result back with getSave().
+ * Don't step it alongside a live GameScene.
+ */
+import {
+    ENEMY_TYPES,
+    ENEMY_BULLET_DAMAGE,
+    ENEMY_ESCAPE_DAMAGE,
+    BOSS_BULLET_DAMAGE,
+    BOSS_LASER_DPS,
+    BOSS_ENTRANCE_SPEED,
+    BOSS_DELAY,
+    SECTOR_DELAY,
+    WAVE_DELAY,
+    SPAWN_Y,
+    DESCENT_FACTOR,
+    BossDefinition,
+    PLAYER_BASE_HP,
+    PLAYER_Y,
+    HEAT_PER_SHOT,
+    OVERHEAT_FIRE_RATE_MULT,
+    OVERHEAT_RECOVERY_FRACTION,
+    MELTDOWN_HULL_DAMAGE,
+    VENT_RADIUS,
+    VENT_DAMAGE_PER_HEAT,
+    getHeatCapacity,
+    getHeatCooling,
+    getHeatDamageMultiplier,
+    getVentCooldown,
+    MAX_ENEMIES,
+    SECTOR_COUNT,
+    SHIELD_FRACTION,
+    SHIELD_REGEN_DELAY,
+    WAVES_PER_SECTOR,
+    SectorAffix,
+    getAffixMultiplier,
+    getBossDefinition,
+    getBossScrap,
+    getDroneDamage,
+    getDroneFireInterval,
+    DroneClassId,
+    REPAIR_DRONE_PULSE,
+    getHeavyDroneDamage,
+    getHeavyDroneInterval,
+    getInterceptorInterval,
+    getRepairDroneHealRate,
+    getShieldDroneCharges,
+    getShieldDroneRecharge,
+    getEndlessAffixes,
+    getEnemyFireMultiplier,
+    getEnemyHP,
+    getScaledBossHP,
+    getScrapDrop,
+    getSectorName,
+    getShieldRegenRate,
+    getWeaponMod,
+    WeaponMod,
+    EliteAffixId,
+    ELITE_HP_MULTIPLIER,
+    ELITE_ARMOR_MIN_FRACTION,
+    ELITE_HASTE_SPEED,
+    ELITE_HASTE_FIRE_RATE,
+    ELITE_REGEN_RATE,
+    ELITE_REFLECT_CHANCE,
+    ELITE_CORE_FRAGMENT_CHANCE,
+    getEliteArmor,
+    getEnemyFireProfile,
+} from '../config/GameConfig';
+import { SaveManager, GameSave } from '../systems/SaveManager';
+import { UpgradeManager } from '../systems/UpgradeManager';
+import { SeededRandom } from '../systems/SeededRandom';
+import { buildSpawnPlan } from '../systems/WaveScripts';
+import { rollEliteAffixes, getEliteScrapMultiplier } from '../systems/EliteAffixes';
+import { rollExtraShot } from '../systems/BehaviorScripts';
+import { BossAttackSchedule } from '../systems/BossPatterns';
+import { PurchasePolicy, PURCHASE_POLICIES } from './PurchasePolicies';
+
+export interface SimulationOptions {
+    seed?: number;
+    policy?: PurchasePolicy;
+    tickMs?: number; // Fixed step (default 50ms)
+    maxSimSeconds?: number; // Give up after this much game time (default 6h)
+    maxAttemptsPerWave?: number; // Deaths on one wave before the run counts as stalled
+    sampleIntervalSeconds?: number; // Scrap curve resolution (default 60s)
+    manualShotsPerSecond?: number; // Click rate assumed before Auto-Fire (default 6)
+    accuracy?: number; // Fraction of player shots that connect (default 0.85)
+}
+
+export interface WaveResult {
+    sector: number;
+    wave: number; // WAVES_PER_SECTOR + 1 is the boss wave
+    cleared: boolean; // false = the ship was destroyed
+    timeSeconds: number;
+    kills: number;
+    scrapEarned: number;
+}
+
+export interface SectorReport {
+    sector: number;
+    name: string;
+    timeSeconds: number;
+    deaths: number;
+    kills: number;
+    scrapEarned: number;
+    purchases: number;
+}
+
+export interface ScrapSample {
+    timeSeconds: number;
+    scrap: number; // Banked scrap
+    totalScrapEarned: number;
+    sector: number;
+    wave: number;
+}
+
+export interface OfflineSimulation {
+    simulatedSeconds: number; // Game time played out wave by wave
+    farmedSeconds: number; // Time left over, spent repeating a wave
+    wavesCleared: number;
+    bossesDefeated: number;
+    kills: number;
+    scrapEarned: number;
+    stalledAt: { sector: number; wave: number } | null; // First wave the ship lost
+}
+
+export interface SimulationReport {
+    seed: number;
+    policy: string;
+    completed: boolean; // Every campaign sector cleared
+    stalledAt: { sector: number; wave: number } | null;
+    timeSeconds: number;
+    deaths: number;
+    sectors: SectorReport[];
+    scrapCurve: ScrapSample[];
+    upgrades: Record<string, number>;
+}
+
+interface SimEnemy {
+    type: string;
+    hp: number;
+    maxHp: number;
+    armor: number; // Flat damage blocked per hit (armored elites)
+    eliteAffixes: EliteAffixId[];
+    shield: number;
+    maxShield: number;
+    shieldRegenDelay: number; // ms until the shield recharges
+    shieldRegenRate: number; // Fraction of the full shield per second
+    y: number;
+    speed: number; // Descent speed in px/s
+    fireInterval: number; // 0 = doesn't shoot
+    fireTimer: number;
+    shotDamage: number;
+    shotsPerVolley: number; // Shots per volley that can land (a spread only ever lands one)
+    scrap: number;
+}
+
+interface SimBoss {
+    definition: BossDefinition;
+    hp: number;
+    maxHp: number;
+    scrap: number;
+    schedule: BossAttackSchedule;
+    entranceTimer: number; // ms before the boss starts attacking
+}
+
+interface SimDrone {
+    classId: DroneClassId;
+    timer: number; // ms until the next shot, heal or stored hit
+    charges: number; // Stored hits (shield class)
+}
+
+const MAX_WAVE_SECONDS = 900; // A wave this long counts as a failure
+
+// Chance an enemy bullet connects, by autopilot tier (manual, v1, v2, v3, v4).
+// Manual flying is assumed to dodge about as well as the basic autopilot.
+const HIT_CHANCE_BY_TIER = [0.3, 0.3, 0.22, 0.15, 0.1];
+const SPREAD_HIT_FRACTION = 0.3; // Share of a spread volley that can reach the ship
+const LASER_HIT_FRACTION = 0.35; // Share of a laser sweep spent over the ship
+const LANE_DEPTH = 2; // Enemies a piercing shot or beam finds lined up in its column
+const VENT_AT_HEAT = 0.8; // The simulated player vents once this full (or on a meltdown)
+
+// Let the browser handle input and paint between offline waves
+const nextTask = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+export class SimulationEngine {
+    private save: GameSave;
+    private rng: SeededRandom;
+    private policy: PurchasePolicy;
+    private upgrades: UpgradeManager;
+    private tickMs: number;
+    private maxSimSeconds: number;
+    private maxAttemptsPerWave: number;
+    private sampleIntervalSeconds: number;
+    private manualShotsPerSecond: number;
+    private accuracy: number;
+
+    private time: number = 0; // Simulated seconds
+    private nextSampleTime: number = 0;
+    private scrapCurve: ScrapSample[] = [];
+    private playerHP: number = PLAYER_BASE_HP;
+    private playerMaxHP: number = PLAYER_BASE_HP;
+    private heat: number = 0;
+    private overheated: boolean = false;
+    private railgunCharge: number = 0;
+    private ventCooldown: number = 0; // ms
+
+    // Per-wave state
+    private enemies: SimEnemy[] = [];
+    private boss: SimBoss | null = null;
+    private affixes: SectorAffix[] = [];
+    private shotProgress: number = 0;
+    private drones: SimDrone[] = [];
+    private waveKills: number = 0;
+    private waveScrap: number = 0;
+
+    constructor(save: GameSave, options: SimulationOptions = {}) {
+        this.save = JSON.parse(JSON.stringify(save)) as GameSave;
+        this.rng = new SeededRandom(options.seed ?? SeededRandom.createSeed());
+        this.policy = options.policy ?? PURCHASE_POLICIES.recommended;
+        this.tickMs = options.tickMs ?? 50;
+        this.maxSimSeconds = options.maxSimSeconds ?? 6 * 3600;
+        this.maxAttemptsPerWave = options.maxAttemptsPerWave ?? 25;
+        this.sampleIntervalSeconds = options.sampleIntervalSeconds ?? 60;
+        this.manualShotsPerSecond = options.manualShotsPerSecond ?? 6;
+        this.accuracy = options.accuracy ?? 0.85;
+        this.upgrades = new UpgradeManager();
+
+        this.withSave(() => {
+            this.playerMaxHP = this.getMaxHP();
+            const savedHP = SaveManager.getCurrent().playerHP;
+            this.playerHP = savedHP > 0 ? Math.min(savedHP, this.playerMaxHP) : this.playerMaxHP;
+        });
+    }
+
+    /**
+     * A copy of the save as the simulation has left it
+     */
+    public getSave(): GameSave {
+        return JSON.parse(JSON.stringify(this.save)) as GameSave;
+    }
+
+    /**
+     * Run fn with the engine's save in a SaveManager sandbox and keep what it
+     * did to the save
+     */
+    private withSave<T>(fn: () => T): T {
+        const { result, save } = SaveManager.runInSandbox(this.save, fn);
+        this.save = save;
+        return result;
+    }
+
+    /**
+     * Play the campaign until it's cleared, stalls on one wave, or runs out of time
+     */
+    public run(): SimulationReport {
+        return this.withSave(() => this.playCampaign());
+    }
+
+    private playCampaign(): SimulationReport {
+        const sectors: SectorReport[] = [];
+        let deaths = 0;
+        let attempts = 0;
+        let stalledAt: { sector: number; wave: number } | null = null;
+        let sectorReport = this.createSectorReport(SaveManager.getCurrent().currentSector);
+
+        this.sample();
+        while (SaveManager.getCurrent().currentSector < SECTOR_COUNT && this.time < this.maxSimSeconds) {
+            sectorReport.purchases += this.shop();
+
+            const save = SaveManager.getCurrent();
+            const result = this.playWave(attempts);
+            sectorReport.timeSeconds += result.timeSeconds;
+            sectorReport.kills += result.kills;
+            sectorReport.scrapEarned += result.scrapEarned;
+
+            if (!result.cleared) {
+                deaths++;
+                attempts++;
+                sectorReport.deaths++;
+                this.playerHP = this.playerMaxHP;
+                if (attempts >= this.maxAttemptsPerWave) {
+                    stalledAt = { sector: save.currentSector, wave: save.currentWave };
+                    break;
+                }
+                continue;
+            }
+
+            attempts = 0;
+            const sector = save.currentSector;
+            sectorReport.timeSeconds += this.advanceWave();
+            if (save.currentSector !== sector) {
+                sectors.push(sectorReport);
+                sectorReport = this.createSectorReport(save.currentSector);
+            }
+        }
+
+        this.sample();
+        const save = SaveManager.getCurrent();
+        return {
+            seed: this.rng.getSeed(),
+            policy: this.policy.name,
+            completed: save.currentSector >= SECTOR_COUNT,
+            stalledAt,
+            timeSeconds: this.time,
+            deaths,
+            sectors,
+            scrapCurve: this.scrapCurve,
+            upgrades: { ...save.upgrades },
+        };
+    }
+
+    /**
+     * Idle play for offline progress. Fights waves in order without shopping
+     * until the time or wave budget runs out, stopping at the first wave it
+     * loses. The final campaign boss and endless runs are left for live play.
+     * Time left over farms the last regular wave at its clear rate.
+     *
+     * Yields between waves, so a long absence doesn't freeze the page.
+     */
+    public async runOffline(seconds: number, maxWaves: number): Promise<OfflineSimulation> {
+        const startTime = this.time;
+        const result: OfflineSimulation = {
+            simulatedSeconds: 0,
+            farmedSeconds: 0,
+            wavesCleared: 0,
+            bossesDefeated: 0,
+            kills: 0,
+            scrapEarned: 0,
+            stalledAt: null,
+        };
+        let farmWave: WaveResult | null = null;
+
+        while (this.time - startTime < seconds && result.wavesCleared < maxWaves) {
+            const wave = this.withSave(() => this.playOfflineWave(result));
+            if (!wave) break;
+            if (!wave.cleared) {
+                farmWave = farmWave ?? wave;
+                break;
+            }
+            if (wave.wave <= WAVES_PER_SECTOR) farmWave = wave;
+            await nextTask();
+        }
+
+        this.withSave(() => this.farmOffline(result, farmWave, seconds, startTime));
+        return result;
+    }
+
+    /**
+     * One offline wave, advancing past it when cleared. Returns null when the
+     * next wave is left for live play.
+     */
+    private playOfflineWave(result: OfflineSimulation): WaveResult | null {
+        const save = SaveManager.getCurrent();
+        const isBossWave = save.currentWave > WAVES_PER_SECTOR;
+        if (save.endless.active || (isBossWave && save.currentSector >= SECTOR_COUNT - 1)) return null;
+
+        const wave = this.playWave(0);
+        result.kills += wave.kills;
+        result.scrapEarned += wave.scrapEarned;
+
+        if (!wave.cleared) {
+            // Rebooted at full HP, as after a live death
+            result.stalledAt = { sector: save.currentSector, wave: save.currentWave };
+            this.playerHP = this.playerMaxHP;
+            save.playerHP = this.playerHP;
+            return wave;
+        }
+
+        result.wavesCleared++;
+        const sector = save.currentSector;
+        this.advanceWave();
+        if (save.currentSector !== sector) result.bossesDefeated++;
+        return wave;
+    }
+
+    /**
+     * Spend the time left over repeating farmWave at its clear rate
+     */
+    private farmOffline(result: OfflineSimulation, farmWave: WaveResult | null, seconds: number, startTime: number): void {
+        // Nothing to farm yet (stopped at a boss or in endless): sample the sector's last regular wave
+        if (!farmWave && this.time - startTime < seconds) {
+            const save = SaveManager.getCurrent();
+            const wave = save.currentWave;
+            save.currentWave = Math.min(wave, WAVES_PER_SECTOR);
+            farmWave = this.playWave(0);
+            save.currentWave = wave;
+            result.kills += farmWave.kills;
+            result.scrapEarned += farmWave.scrapEarned;
+            if (!farmWave.cleared) {
+                this.playerHP = this.playerMaxHP;
+                save.playerHP = this.playerHP;
+            }
+        }
+
+        result.simulatedSeconds = this.time - startTime;
+        result.farmedSeconds = Math.max(0, seconds - result.simulatedSeconds);
+        if (farmWave && result.farmedSeconds > 0) {
+            const repeats = result.farmedSeconds / (farmWave.timeSeconds + WAVE_DELAY / 1000);
+            const scrap = farmWave.scrapEarned * repeats;
+            const kills = Math.floor(farmWave.kills * repeats);
+            SaveManager.addScrap(scrap);
+            SaveManager.getCurrent().stats.totalKills += kills;
+            result.scrapEarned += scrap;
+            result.kills += kills;
+        }
+    }
+
+    /**
+     * Move the save past a cleared wave (or boss) and wait out the gap
+     * before the next one. Returns the seconds waited.
+     */
+    private advanceWave(): number {
+        const save = SaveManager.getCurrent();
+        if (save.currentWave > WAVES_PER_SECTOR) {
+            SaveManager.recordBossDefeat();
+            SaveManager.addCores(1);
+            save.currentWave = 1;
+            save.currentSector++;
+            save.highestSector = Math.max(save.highestSector, save.currentSector);
+            this.wait(SECTOR_DELAY / 1000);
+            return SECTOR_DELAY / 1000;
+        }
+
+        const delay = (save.currentWave >= WAVES_PER_SECTOR ? BOSS_DELAY : WAVE_DELAY) / 1000;
+        save.currentWave++;
+        this.wait(delay);
+        return delay;
+    }
+
+    /**
+     * Simulate the save's current wave once. The RNG stream is keyed by
+     * sector, wave and attempt so retries play out differently.
+     */
+    public simulateWave(attempt: number = 0): WaveResult {
+        return this.withSave(() => this.playWave(attempt));
+    }
+
+    private playWave(attempt: number): WaveResult {
+        const save = SaveManager.getCurrent();
+        const sector = save.currentSector;
+        const wave = save.currentWave;
+        const isBossWave = wave > WAVES_PER_SECTOR;
+        const globalWave = isBossWave ? (sector + 1) * WAVES_PER_SECTOR : sector * WAVES_PER_SECTOR + wave;
+
+        this.rng.reset(sector, wave, attempt);
+        this.enemies = [];
+        this.boss = null;
+        this.affixes = getEndlessAffixes(sector);
+        this.shotProgress = 0;
+        this.drones = this.upgrades.getDroneLoadout().map(droneClass => ({
+            classId: droneClass.id,
+            timer: 0,
+            charges: droneClass.id === 'shield' ? this.getShieldCharges() : 0,
+        }));
+        this.waveKills = 0;
+        this.waveScrap = 0;
+        this.refreshMaxHP();
+
+        const spawnPlan = isBossWave
+            ? []
+            : buildSpawnPlan(sector, wave, this.rng, getAffixMultiplier(this.affixes, 'spawnMultiplier'));
+        let spawned = 0;
+        let planTime = 0;
+
+        if (isBossWave) {
+            this.spawnBoss(sector, globalWave);
+        }
+
+        const startTime = this.time;
+        const dtMs = this.tickMs;
+        while (true) {
+            this.time += dtMs / 1000;
+            if (this.time >= this.nextSampleTime) this.sample();
+
+            // Spawning (same plan and cap as WaveManager)
+            if (this.enemies.length < MAX_ENEMIES) planTime += dtMs;
+            while (spawned < spawnPlan.length && spawnPlan[spawned].time <= planTime && this.enemies.length < MAX_ENEMIES) {
+                this.spawnEnemy(spawnPlan[spawned].type, sector, globalWave, SPAWN_Y, true);
+                spawned++;
+            }
+
+            this.updatePlayerFire(dtMs);
+            this.updateDrones(dtMs);
+            this.updateEnemies(dtMs, globalWave);
+            if (this.boss) this.updateBoss(dtMs, sector, globalWave);
+
+            const elapsed = this.time - startTime;
+            if (this.playerHP <= 0 || elapsed >= MAX_WAVE_SECONDS) {
+                SaveManager.addPlayTime(elapsed);
+                return this.waveResult(sector, wave, false, elapsed);
+            }
+
+            const cleared = isBossWave ? this.boss === null : spawned >= spawnPlan.length && this.enemies.length === 0;
+            if (cleared) {
+                save.playerHP = this.playerHP;
+                SaveManager.addPlayTime(elapsed);
+                return this.waveResult(sector, wave, true, elapsed);
+            }
+        }
+    }
+
+    private waveResult(sector: number, wave: number, cleared: boolean, timeSeconds: number): WaveResult {
+        return { sector, wave, cleared, timeSeconds, kills: this.waveKills, scrapEarned: this.waveScrap };
+    }
+
+    /**
+     * Let the purchase policy spend until it passes. Returns purchases made.
+     */
+    private shop(): number {
+        let purchases = 0;
+        for (let i = 0; i < 500; i++) {
+            const id = this.policy.choose(this.upgrades);
+            if (!id || !this.upgrades.purchase(id)) break;
+            purchases++;
+        }
+
+        this.refreshMaxHP();
+        return purchases;
+    }
+
+    // ========================================================================
+    // PLAYER
+    // ========================================================================
+
+    private updatePlayerFire(dtMs: number): void {
+        const heatActive = SaveManager.getCurrent().highestSector >= 5;
+        const autoFire = SaveManager.hasUpgrade('autoFire');
+
+        if (heatActive) {
+            const cooling = getHeatCooling(SaveManager.getUpgradeLevel('coolingRate'));
+            this.heat = Math.max(0, this.heat - cooling * (dtMs / 1000));
+            if (this.overheated && this.heat < this.getMaxHeat() * OVERHEAT_RECOVERY_FRACTION) {
+                this.overheated = false;
+            }
+            this.updateVent(dtMs);
+        }
+
+        let shotsPerSecond = this.manualShotsPerSecond;
+        if (autoFire) {
+            shotsPerSecond = this.upgrades.getFireRate() * (heatActive && this.overheated ? OVERHEAT_FIRE_RATE_MULT : 1);
+        }
+
+        this.shotProgress += shotsPerSecond * (dtMs / 1000);
+        while (this.shotProgress >= 1) {
+            this.shotProgress -= 1;
+            this.firePlayerShot();
+
+            if (autoFire && heatActive) {
+                const heatPerShot = HEAT_PER_SHOT * (this.upgrades.getActiveWeaponMod().heatMultiplier ?? 1);
+                this.heat = Math.min(this.getMaxHeat(), this.heat + heatPerShot);
+                if (this.heat >= this.getMaxHeat() && !this.overheated) {
+                    // Meltdown (GameScene.onMeltdown)
+                    this.overheated = true;
+                    this.damagePlayer(this.playerMaxHP * MELTDOWN_HULL_DAMAGE);
+                }
+            }
+        }
+    }
+
+    /**
+     * Vent near capacity: the pulse hits everything within reach of the ship
+     */
+    private updateVent(dtMs: number): void {
+        this.ventCooldown = Math.max(0, this.ventCooldown - dtMs);
+        if (this.ventCooldown > 0) return;
+        if (!this.overheated && this.heat < this.getMaxHeat() * VENT_AT_HEAT) return;
+
+        const damage = this.upgrades.getDamage() * VENT_DAMAGE_PER_HEAT * this.heat;
+        this.heat = 0;
+        this.overheated = false;
+        this.ventCooldown = getVentCooldown(SaveManager.getUpgradeLevel('coolingRate'));
+
+        this.enemies
+            .filter(enemy => enemy.y >= PLAYER_Y - VENT_RADIUS)
+            .forEach(enemy => {
+                const index = this.enemies.indexOf(enemy);
+                if (index >= 0) this.damageTarget(index, damage);
+            });
+    }
+
+    private firePlayerShot(): void {
+        const script = this.upgrades.getActiveBehaviorScript();
+        const mod = this.upgrades.getActiveWeaponMod();
+        const heatBonus = getHeatDamageMultiplier(this.heat / this.getMaxHeat(), this.overheated);
+        const damage = this.upgrades.getDamage() * script.damageModifier * heatBonus;
+
+        if (mod.behavior === 'railgun') {
+            // Trigger pulls only charge the slug (GameScene.firePlayerBullet)
+            this.railgunCharge++;
+            if (this.railgunCharge < (mod.chargeShots ?? 1)) return;
+            this.railgunCharge = 0;
+        }
+
+        // Scatter pellets fan out over the front of the formation
+        for (let i = 0; i < (mod.projectiles ?? 1); i++) {
+            this.playerBulletHit(damage * mod.damageMultiplier, i, mod);
+        }
+
+        if (rollExtraShot(script, this.rng)) {
+            const targets = this.getTargetCount();
+            if (targets > 0) this.playerBulletHit(damage, this.rng.between(0, targets - 1));
+        }
+    }
+
+    private playerBulletHit(damage: number, targetIndex: number, mod: WeaponMod = getWeaponMod('standard')): void {
+        if (!this.rng.chance(this.getShotAccuracy(mod))) return;
+
+        const critChance = SaveManager.getUpgradeLevel('critChance') * 0.02;
+        if (critChance > 0 && this.rng.chance(critChance)) {
+            damage *= 1.5 + SaveManager.getUpgradeLevel('critMultiplier') * 0.15;
+        }
+
+        // Pierce and beams run down the column, ricochets and arcs jump to the next targets
+        let targets = 1;
+        let falloff = 1;
+        if (mod.behavior === 'beam') targets = LANE_DEPTH;
+        if (mod.pierce) targets += Math.min(mod.pierce, LANE_DEPTH - 1);
+        if (mod.ricochets) targets += mod.ricochets;
+        if (mod.chainJumps) {
+            targets += mod.chainJumps;
+            falloff = mod.chainFalloff ?? 1;
+        }
+
+        for (let i = 0; i < targets; i++) {
+            this.damageTarget(targetIndex + i, damage * Math.pow(falloff, i), mod.shieldBreakBonus);
+        }
+    }
+
+    /**
+     * Beams can't miss, and homing shots only miss a target that dies first
+     */
+    private getShotAccuracy(mod: WeaponMod): number {
+        if (mod.behavior === 'beam') return 1;
+        if (mod.behavior === 'homing') return (1 + this.accuracy) / 2;
+        return this.accuracy;
+    }
+
+    private updateDrones(dtMs: number): void {
+        this.drones.forEach(drone => {
+            drone.timer -= dtMs;
+            switch (drone.classId) {
+                case 'combat':
+                    if (drone.timer <= 0) {
+                        drone.timer += getDroneFireInterval(SaveManager.getUpgradeLevel('droneFireRate'));
+                        const damage = getDroneDamage(SaveManager.getUpgradeLevel('droneDamage'));
+                        if (this.rng.chance(this.accuracy)) this.damageTarget(0, damage);
+                    }
+                    break;
+                case 'heavy':
+                    // Missiles wait for a target and home in like the Homing mod
+                    if (drone.timer <= 0 && this.getTargetCount() > 0) {
+                        drone.timer = getHeavyDroneInterval(SaveManager.getUpgradeLevel('heavyDroneReload'));
+                        const damage = getHeavyDroneDamage(SaveManager.getUpgradeLevel('heavyDroneWarheads'));
+                        if (this.rng.chance((1 + this.accuracy) / 2)) this.damageTarget(0, damage);
+                    }
+                    break;
+                case 'repair':
+                    if (drone.timer <= 0) {
+                        drone.timer += REPAIR_DRONE_PULSE;
+                        const rate = getRepairDroneHealRate(SaveManager.getUpgradeLevel('repairDroneOutput'));
+                        this.playerHP = Math.min(this.playerMaxHP, this.playerHP + this.playerMaxHP * rate * (REPAIR_DRONE_PULSE / 1000));
+                    }
+                    break;
+                case 'shield':
+                    if (drone.charges >= this.getShieldCharges()) {
+                        drone.timer = getShieldDroneRecharge(SaveManager.getUpgradeLevel('shieldDroneRecharge'));
+                    } else if (drone.timer <= 0) {
+                        drone.charges++;
+                        drone.timer += getShieldDroneRecharge(SaveManager.getUpgradeLevel('shieldDroneRecharge'));
+                    }
+                    break;
+                case 'interceptor':
+                    drone.timer = Math.max(0, drone.timer); // Ready until a shot comes in
+                    break;
+            }
+        });
+    }
+
+    private getShieldCharges(): number {
+        return getShieldDroneCharges(SaveManager.getUpgradeLevel('shieldDroneCapacity'));
+    }
+
+    private damagePlayer(amount: number): void {
+        this.playerHP = Math.max(0, this.playerHP - amount);
+    }
+
+    /**
+     * An enemy bullet on course for the ship: a ready interceptor shoots it
+     * down, then a shield drone soaks it, otherwise it lands
+     */
+    private bulletHitPlayer(damage: number): void {
+        const interceptor = this.drones.find(d => d.classId === 'interceptor' && d.timer <= 0);
+        if (interceptor) {
+            interceptor.timer = getInterceptorInterval(SaveManager.getUpgradeLevel('interceptorCycling'));
+            return;
+        }
+        const shield = this.drones.find(d => d.classId === 'shield' && d.charges > 0);
+        if (shield) {
+            shield.charges--;
+            return;
+        }
+        this.damagePlayer(damage);
+    }
+
+    /**
+     * Chance an enemy shot lands, from the autopilot tier and the script's evasion
+     */
+    private getHitChance(): number {
+        let tier = 0;
+        if (SaveManager.hasUpgrade('autopilot')) tier = 1;
+        if (SaveManager.hasUpgrade('autopilotV2')) tier = 2;
+        if (SaveManager.hasUpgrade('autopilotV3')) tier = 3;
+        if (SaveManager.hasUpgrade('autopilotV4')) tier = 4;
+
+        const evasion = this.upgrades.getActiveBehaviorScript().evasionModifier;
+        return Math.min(1, HIT_CHANCE_BY_TIER[tier] / Math.max(0.1, evasion));
+    }
+
+    private getMaxHP(): number {
+        return Math.round(PLAYER_BASE_HP * (1 + SaveManager.getUpgradeLevel('hull') * 0.10));
+    }
+
+    private refreshMaxHP(): void {
+        // Hull upgrades add their extra HP to the current pool (Player.applyHullUpgrade)
+        const maxHP = this.getMaxHP();
+        if (maxHP > this.playerMaxHP) {
+            this.playerHP += maxHP - this.playerMaxHP;
+        }
+        this.playerMaxHP = maxHP;
+        this.playerHP = Math.min(this.playerHP, maxHP);
+    }
+
+    private getMaxHeat(): number {
+        return getHeatCapacity(SaveManager.getUpgradeLevel('heatCapacity'));
+    }
+
+    // ========================================================================
+    // ENEMIES
+    // ========================================================================
+
+    private spawnEnemy(type: string, sector: number, globalWave: number, y: number, applyAffixes: boolean): void {
+        const stats = ENEMY_TYPES[type] || ENEMY_TYPES.grunt;
+        const affixes = applyAffixes ? this.affixes : [];
+        const baseHp = Math.round(getEnemyHP(type, sector, globalWave) * getAffixMultiplier(affixes, 'hpMultiplier'));
+        const shield = type === 'shielded' ? baseHp * SHIELD_FRACTION : 0;
+
+        // Elites as in Enemy.applyEliteAffixes; cloaking isn't modelled (targeting is front-first)
+        const eliteAffixes = type === 'splitter_mini' ? [] : rollEliteAffixes(sector, globalWave, this.rng);
+        const elite = eliteAffixes.length > 0;
+        const hasted = eliteAffixes.includes('hasted');
+        const hp = elite ? Math.round(baseHp * ELITE_HP_MULTIPLIER) : baseHp;
+        const fireProfile = getEnemyFireProfile(type);
+
+        this.enemies.push({
+            type,
+            hp,
+            maxHp: hp,
+            armor: eliteAffixes.includes('armored') ? getEliteArmor(globalWave) : 0,
+            eliteAffixes,
+            shield: elite ? shield * ELITE_HP_MULTIPLIER : shield,
+            maxShield: elite ? shield * ELITE_HP_MULTIPLIER : shield,
+            shieldRegenDelay: 0,
+            shieldRegenRate: getShieldRegenRate(globalWave),
+            y,
+            speed: stats.speed * getAffixMultiplier(affixes, 'speedMultiplier') * (hasted ? ELITE_HASTE_SPEED : 1) * DESCENT_FACTOR,
+            fireInterval: stats.canShoot
+                ? (stats.shootInterval || 3000) / (getAffixMultiplier(affixes, 'fireRateMultiplier') * (hasted ? ELITE_HASTE_FIRE_RATE : 1))
+                : 0,
+            fireTimer: this.rng.between(1000, 3000),
+            shotDamage: fireProfile.damage,
+            shotsPerVolley: fireProfile.pattern === 'burst' ? fireProfile.count ?? 3 : 1,
+            scrap: getScrapDrop(type, globalWave) * getAffixMultiplier(affixes, 'scrapMultiplier') * getEliteScrapMultiplier(eliteAffixes),
+        });
+    }
+
+    private updateEnemies(dtMs: number, globalWave: number): void {
+        const fireMult = getEnemyFireMultiplier(globalWave);
+        const hitChance = this.getHitChance();
+
+        this.enemies = this.enemies.filter(enemy => {
+            enemy.y += enemy.speed * (dtMs / 1000);
+            if (enemy.y >= PLAYER_Y) {
+                // Slipped past the ship
+                this.damagePlayer(ENEMY_ESCAPE_DAMAGE);
+                if (enemy.type === 'collector') {
+                    const save = SaveManager.getCurrent();
+                    save.scrap = Math.max(0, save.scrap - enemy.scrap * 2);
+                }
+                return false;
+            }
+
+            if (enemy.shield < enemy.maxShield) {
+                enemy.shieldRegenDelay -= dtMs;
+                if (enemy.shieldRegenDelay <= 0) {
+                    enemy.shield = Math.min(enemy.maxShield, enemy.shield + enemy.maxShield * enemy.shieldRegenRate * (dtMs / 1000));
+                }
+            }
+
+            if (enemy.eliteAffixes.includes('regenerating')) {
+                enemy.hp = Math.min(enemy.maxHp, enemy.hp + enemy.maxHp * ELITE_REGEN_RATE * (dtMs / 1000));
+            }
+
+            if (enemy.fireInterval > 0) {
+                enemy.fireTimer -= dtMs;
+                if (enemy.fireTimer <= 0) {
+                    enemy.fireTimer = enemy.fireInterval / fireMult + this.rng.between(-500, 500);
+                    for (let i = 0; i < enemy.shotsPerVolley; i++) {
+                        if (this.rng.chance(hitChance)) this.bulletHitPlayer(enemy.shotDamage);
+                    }
+                }
+            }
+            return true;
+        });
+
+        // Front-most (lowest) enemies are targeted first
+        this.enemies.sort((a, b) => b.y - a.y);
+    }
+
+    /**
+     * Targets are ordered front-first: the lowest enemies, then the boss
+     */
+    private getTargetCount(): number {
+        return this.enemies.length + (this.boss ? 1 : 0);
+    }
+
+    private damageTarget(index: number, damage: number, shieldBreakBonus: number = 0): void {
+        if (index < this.enemies.length) {
+            const enemy = this.enemies[index];
+            if (enemy.armor > 0) {
+                damage = Math.max(damage * ELITE_ARMOR_MIN_FRACTION, damage - enemy.armor);
+            }
+            if (enemy.eliteAffixes.includes('reflective') && this.rng.chance(ELITE_REFLECT_CHANCE)) {
+                if (this.rng.chance(this.getHitChance())) this.bulletHitPlayer(ENEMY_BULLET_DAMAGE);
+            }
+
+            const absorbed = Math.min(enemy.shield, damage);
+            enemy.shield -= absorbed;
+            enemy.hp -= damage - absorbed;
+            if (enemy.maxShield > 0) {
+                enemy.shieldRegenDelay = SHIELD_REGEN_DELAY;
+                if (absorbed > 0 && enemy.shield <= 0) enemy.hp -= damage * shieldBreakBonus;
+            }
+            if (enemy.hp <= 0) this.killEnemy(enemy);
+            return;
+        }
+
+        if (this.boss && index === this.enemies.length) {
+            this.boss.hp -= damage;
+            if (this.boss.hp <= 0) {
+                this.collectScrap(this.boss.scrap);
+                this.boss = null;
+                this.enemies = []; // Leftover minions are dismissed with the boss
+            }
+        }
+    }
+
+    private killEnemy(enemy: SimEnemy): void {
+        this.enemies.splice(this.enemies.indexOf(enemy), 1);
+        this.collectScrap(enemy.scrap);
+
+        if (enemy.eliteAffixes.length > 0) {
+            // One bullet of the explosive ring heads for the ship
+            if (enemy.eliteAffixes.includes('explosive') && this.rng.chance(this.getHitChance())) {
+                this.bulletHitPlayer(ENEMY_BULLET_DAMAGE);
+            }
+            if (this.rng.chance(ELITE_CORE_FRAGMENT_CHANCE)) SaveManager.addCoreFragments(1);
+        }
+
+        if (enemy.type === 'splitter') {
+            const save = SaveManager.getCurrent();
+            const globalWave = save.currentSector * WAVES_PER_SECTOR + save.currentWave;
+            for (let i = 0; i < 2 && this.enemies.length < MAX_ENEMIES; i++) {
+                this.spawnEnemy('splitter_mini', save.currentSector, globalWave, enemy.y, false);
+            }
+        }
+    }
+
+    /**
+     * Kill payout and on-kill effects, as in GameScene.onEnemyKilled
+     */
+    private collectScrap(baseScrap: number): void {
+        const script = this.upgrades.getActiveBehaviorScript();
+        const scrap = baseScrap * this.upgrades.getSalvageMultiplier() * script.salvageModifier;
+
+        const repairLevel = SaveManager.getUpgradeLevel('repairNanites');
+        if (repairLevel > 0) {
+            this.playerHP = Math.min(this.playerMaxHP, this.playerHP + this.playerMaxHP * repairLevel * 0.005);
+        }
+
+        SaveManager.addScrap(scrap);
+        SaveManager.recordKill();
+        this.waveKills++;
+        this.waveScrap += scrap;
+    }
+
+    // ========================================================================
+    // BOSS
+    // ========================================================================
+
+    private spawnBoss(sector: number, globalWave: number): void {
+        const definition = getBossDefinition(sector);
+        const hp = getScaledBossHP(sector, globalWave, this.upgrades.getLoadoutDPS());
+
+        this.boss = {
+            definition,
+            hp,
+            maxHp: hp,
+            scrap: getBossScrap(globalWave),
+            schedule: new BossAttackSchedule(definition),
+            entranceTimer: ((definition.hoverY - SPAWN_Y) / BOSS_ENTRANCE_SPEED) * 1000,
+        };
+    }
+
+    private updateBoss(dtMs: number, sector: number, globalWave: number): void {
+        const boss = this.boss!;
+        if (boss.entranceTimer > 0) {
+            boss.entranceTimer -= dtMs;
+            return;
+        }
+
+        boss.schedule.updatePhase(boss.hp / boss.maxHp);
+
+        const hitChance = this.getHitChance();
+        boss.schedule.update(dtMs, getEnemyFireMultiplier(globalWave)).forEach((attack) => {
+            switch (attack.type) {
+                case 'aimed':
+                case 'spread': {
+                    const count = attack.count ?? 1;
+                    const reach = attack.type === 'spread' ? SPREAD_HIT_FRACTION : 1;
+                    for (let b = 0; b < count; b++) {
+                        if (this.rng.chance(hitChance * reach)) this.bulletHitPlayer(BOSS_BULLET_DAMAGE);
+                    }
+                    break;
+                }
+                case 'laser': {
+                    // Expected sweep damage, scaled by how well the ship dodges
+                    const exposure = LASER_HIT_FRACTION * (hitChance / HIT_CHANCE_BY_TIER[0]);
+                    this.damagePlayer(BOSS_LASER_DPS * ((attack.duration ?? 1500) / 1000) * exposure);
+                    break;
+                }
+                case 'summon':
+                    for (let m = 0; m < (attack.count ?? 1) && this.enemies.length < MAX_ENEMIES; m++) {
+                        this.spawnEnemy(attack.minionType ?? 'grunt', sector, globalWave, boss.definition.hoverY, false);
+                    }
+                    break;
+            }
+        });
+    }
+
+    // ========================================================================
+    // REPORTING
+    // ========================================================================
+
+    private wait(seconds: number): void {
+        this.time += seconds;
+        if (this.time >= this.nextSampleTime) this.sample();
+    }
+
+    private sample(): void {
+        const save = SaveManager.getCurrent();
+        this.scrapCurve.push({
+            timeSeconds: Math.round(this.time),
+            scrap: Math.floor(save.scrap),
+            totalScrapEarned: Math.floor(save.stats.totalScrapEarned),
+            sector: save.currentSector,
+            wave: save.currentWave,
+        });
+        this.nextSampleTime = this.time + this.sampleIntervalSeconds;
+    }
+
+    private createSectorReport(sector: number): SectorReport {
+        return {
+            sector,
+            name: getSectorName(sector),
+            timeSeconds: 0,
+            deaths: 0,
+            kills: 0,
+            scrapEarned: 0,
+            purchases: 0,
+        };
+    }
+}
@@ -0,0 +1,171 @@
+/**
+ * AIDebugOverlay - Draws what the autopilot and drones are thinking
+ *
+ * Shows the autopilot's target X and lock, the V1 patrol range, the V3
+ * bullet threat zone, drone target lines, each enemy's threat and value
+ * scores and the physics body bounds. Redrawn every frame while visible.
+ */
+import Phaser from 'phaser';
+import type { Player } from '../entities/Player';
+import type { Drone } from '../entities/Drone';
+import type { SpatialIndex } from './SpatialIndex';
+import { formatEnemyScores, getEnemyThreatScore, getEnemyValueScore } from './AutopilotScoring';
+
+export interface AIDebugSource {
+    player: Player;
+    drones: Drone[];
+    spatialIndex: SpatialIndex;
+    bodyGroups: Phaser.GameObjects.Group[]; // Groups whose physics bodies are outlined
+}
+
+// Above effects (1) and popups (2)
+const OVERLAY_DEPTH = 3;
+
+const COLORS = {
+    target: 0xffee44,
+    patrol: 0x44ddff,
+    threatZone: 0xff4444,
+    drone: 0xff8844,
+    body: 0x44ff88,
+};
+
+export class AIDebugOverlay {
+    private scene: Phaser.Scene;
+    private graphics: Phaser.GameObjects.Graphics;
+    private labels: Phaser.GameObjects.Text[] = [];
+    private visible: boolean = false;
+
+    constructor(scene: Phaser.Scene) {
+        this.scene = scene;
+        this.graphics = scene.add.graphics();
+        this.graphics.setDepth(OVERLAY_DEPTH);
+        this.graphics.setVisible(false);
+    }
+
+    isVisible(): boolean {
+        return this.visible;
+    }
+
+    setVisible(visible: boolean): void {
+        this.visible = visible;
+        this.graphics.setVisible(visible);
+        if (!visible) {
+            this.graphics.clear();
+            this.labels.forEach(label => label.setVisible(false));
+        }
+    }
+
+    draw(source: AIDebugSource): void {
+        if (!this.visible) return;
+
+        this.graphics.clear();
+        this.drawBodies(source.bodyGroups, source.player);
+        this.drawAutopilot(source.player);
+        this.drawDrones(source.drones);
+        this.drawEnemyScores(source);
+    }
+
+    destroy(): void {
+        this.graphics.destroy();
+        this.labels.forEach(label => label.destroy());
+        this.labels = [];
+    }
+
+    private drawAutopilot(player: Player): void {
+        const info = player.getAutopilotDebugInfo();
+        if (info.tier === 0) return;
+        const g = this.graphics;
+
+        // V1 patrol range, under the ship
+        if (info.tier === 1) {
+            const y = player.y + 28;
+            g.lineStyle(1, COLORS.patrol, 0.6);
+            g.lineBetween(info.patrolLeft, y, info.patrolRight, y);
+            g.lineBetween(info.patrolLeft, y - 5, info.patrolLeft, y + 5);
+            g.lineBetween(info.patrolRight, y - 5, info.patrolRight, y + 5);
+        }
+
+        // V3 dodge zone and the shots pushing the ship around
+        if (info.tier === 3) {
+            g.fillStyle(COLORS.threatZone, 0.06);
+            g.fillRect(player.x - info.dodgeRadius, player.y - info.dodgeLookahead, info.dodgeRadius * 2, info.dodgeLookahead);
+            g.lineStyle(1, COLORS.threatZone, 0.3);
+            g.strokeRect(player.x - info.dodgeRadius, player.y - info.dodgeLookahead, info.dodgeRadius * 2, info.dodgeLookahead);
+            info.threats.forEach(threat => {
+                g.lineStyle(1, COLORS.threatZone, 0.3 + threat.strength * 0.7);
+                g.lineBetween(threat.x, threat.y, threat.crossX, player.y);
+                g.strokeCircle(threat.crossX, player.y, 3 + threat.strength * 6);
+            });
+        }
+
+        // Where it is heading, and what it has locked on to
+        g.lineStyle(2, COLORS.target, 0.8);
+        g.lineBetween(info.targetX, player.y - 40, info.targetX, player.y + 20);
+        g.fillStyle(COLORS.target, 0.8);
+        g.fillTriangle(info.targetX - 5, player.y + 26, info.targetX + 5, player.y + 26, info.targetX, player.y + 20);
+        if (info.target) {
+            g.lineStyle(1, COLORS.target, 0.5);
+            g.lineBetween(player.x, player.y - 20, info.target.x, info.target.y);
+            g.strokeCircle(info.target.x, info.target.y, 22);
+        }
+    }
+
+    private drawDrones(drones: Drone[]): void {
+        drones.forEach(drone => {
+            const target = drone.getTarget();
+            if (!target) return;
+            this.graphics.lineStyle(1, COLORS.drone, 0.6);
+            this.graphics.lineBetween(drone.x, drone.y, target.x, target.y);
+        });
+    }
+
+    private drawBodies(groups: Phaser.GameObjects.Group[], player: Player): void {
+        const g = this.graphics;
+        g.lineStyle(1, COLORS.body, 0.5);
+
+        const outline = (obj: Phaser.GameObjects.GameObject): void => {
+            const body = obj.body as Phaser.Physics.Arcade.Body | null;
+            if (!obj.active || !body || !body.enable) return;
+            g.strokeRect(body.x, body.y, body.width, body.height);
+        };
+
+        outline(player);
+        groups.forEach(group => group.getChildren().forEach(outline));
+    }
+
+    /**
+     * Threat and value scores over each enemy (AutopilotScoring)
+     */
+    private drawEnemyScores(source: AIDebugSource): void {
+        const enemies = source.spatialIndex.enemies.getAll();
+
+        enemies.forEach((enemy, i) => {
+            const label = this.getLabel(i);
+            const threat = getEnemyThreatScore(enemy, source.player.y);
+            const { text, color } = formatEnemyScores(threat, getEnemyValueScore(enemy), enemy.isCloaked());
+            label.setText(text);
+            label.setPosition(enemy.x, enemy.y - 28);
+            label.setColor(color);
+            label.setVisible(true);
+        });
+
+        for (let i = enemies.length; i < this.labels.length; i++) {
+            this.labels[i].setVisible(false);
+        }
+    }
+
+    private getLabel(index: number): Phaser.GameObjects.Text {
+        if (!this.labels[index]) {
+            const label = this.scene.add.text(0, 0, '', {
+                fontFamily: 'monospace',
+                fontSize: '10px',
+                stroke: '#000000',
+                strokeThickness: 2,
+            });
+            label.setOrigin(0.5);
+            label.setDepth(OVERLAY_DEPTH);
+            this.labels[index] = label;
+        }
+        return this.labels[index];
+    }
+}
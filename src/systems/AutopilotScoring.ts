@@ -0,0 +1,60 @@
+/**
+ * AutopilotScoring - How the autopilot rates enemies and incoming bullets
+ *
+ * Player steers by these scores and the AI debug overlay prints them, so
+ * what the overlay shows is exactly what the ship is reacting to.
+ */
+import { DODGE_LOOKAHEAD, DODGE_RADIUS } from '../config/GameConfig';
+
+// An enemy bullet the dodge logic is reacting to
+export interface BulletThreat {
+    x: number;
+    y: number;
+    crossX: number; // Where it will cross the ship's line
+    strength: number; // 0-1 share of the full dodge push
+}
+
+/**
+ * How hard a bullet pushes the ship aside, or null if it will miss. Angled
+ * shots are dodged where they will cross the ship's line, not where they are now.
+ */
+export function getBulletThreat(
+    bullet: { x: number; y: number; vx: number; vy: number },
+    shipX: number,
+    shipY: number
+): BulletThreat | null {
+    const dy = shipY - bullet.y;
+    if (dy < 0 || dy > DODGE_LOOKAHEAD) return null;
+
+    const crossX = bullet.vy > 0 ? bullet.x + bullet.vx * (dy / bullet.vy) : bullet.x;
+    const distance = Math.abs(shipX - crossX);
+    if (distance > DODGE_RADIUS) return null;
+
+    const strength = (1 - distance / DODGE_RADIUS) * (1 - dy / DODGE_LOOKAHEAD);
+    return { x: bullet.x, y: bullet.y, crossX, strength };
+}
+
+/**
+ * How much the 'valuable' targeting wants an enemy: scrap first, lower enemies break ties
+ */
+export function getEnemyValueScore(enemy: { y: number; scrapValue: number }): number {
+    return enemy.scrapValue * 2 + enemy.y * 0.01;
+}
+
+/**
+ * How urgent an enemy is (0 at the top of the screen, 1 level with the ship).
+ * The 'dangerous' targeting picks the highest.
+ */
+export function getEnemyThreatScore(enemy: { y: number }, shipY: number): number {
+    return Math.max(0, Math.min(1, enemy.y / shipY));
+}
+
+/**
+ * Overlay label for an enemy: "T" is its threat score, "V" its value score
+ */
+export function formatEnemyScores(threat: number, value: number, cloaked: boolean): { text: string; color: string } {
+    return {
+        text: `T${threat.toFixed(2)} V${Math.round(value)}${cloaked ? ' (cloaked)' : ''}`,
+        color: threat > 0.6 ? '#ff6666' : '#dddddd',
+    };
+}
@@ -0,0 +1,59 @@
+/**
+ * BehaviorScripts - The decisions a behavior script makes for the ship and drones
+ *
+ * Callers resolve the active script through UpgradeManager.getActiveBehaviorScript,
+ * so these only see Balanced until Behavior Scripts are installed.
+ */
+import { BehaviorScript, DODGE_MAX_OFFSET } from '../config/GameConfig';
+import type { SeededRandom } from './SeededRandom';
+
+// What target selection needs to know about an enemy
+export interface ScriptTarget {
+    x: number;
+    y: number;
+    scrapValue: number;
+}
+
+/**
+ * Pick a target by the script's bias: the richest (closest breaks ties),
+ * a random one, or the closest. Returns null when there are no candidates.
+ */
+export function selectTargetByBias<T extends ScriptTarget>(
+    bias: BehaviorScript['targetingBias'],
+    candidates: T[],
+    x: number,
+    y: number,
+    rng: SeededRandom
+): T | null {
+    if (bias === 'random') return rng.pick(candidates) ?? null;
+
+    let best: T | null = null;
+    let bestScrap = -Infinity;
+    let bestDist = Infinity;
+    candidates.forEach((candidate) => {
+        const scrap = bias === 'valuable' ? candidate.scrapValue : 0;
+        const dist = Math.hypot(candidate.x - x, candidate.y - y);
+        if (scrap > bestScrap || (scrap === bestScrap && dist < bestDist)) {
+            bestScrap = scrap;
+            bestDist = dist;
+            best = candidate;
+        }
+    });
+    return best;
+}
+
+/**
+ * Scale the autopilot's dodge by the script's evasion, capped at
+ * DODGE_MAX_OFFSET * evasion either way
+ */
+export function getEvasionOffset(offset: number, evasion: number): number {
+    const max = DODGE_MAX_OFFSET * evasion;
+    return Math.max(-max, Math.min(max, offset * evasion));
+}
+
+/**
+ * Whether a trigger pull earns the script's bonus shot (Chaos)
+ */
+export function rollExtraShot(script: BehaviorScript, rng: SeededRandom): boolean {
+    return script.extraShotChance > 0 && rng.chance(script.extraShotChance);
+}
@@ -0,0 +1,313 @@
+/**
+ * BossController - Drives sector boss movement scripts, attack patterns and HP phases
+ */
+import Phaser from 'phaser';
+import {
+    BossAttack,
+    BossDefinition,
+    getEnemyFireMultiplier,
+    getEnemyBulletSpeedMultiplier,
+    BOSS_BULLET_DAMAGE,
+    BOSS_LASER_DPS,
+    BOSS_LASER_WIDTH,
+    BOSS_LASER_WARMUP,
+    BOSS_ENTRANCE_SPEED,
+    GAME_WIDTH,
+    GAME_HEIGHT,
+    MAX_ENEMIES,
+    MAX_ENEMY_BULLETS,
+} from '../config/GameConfig';
+import { Enemy } from '../entities/Enemy';
+import { Bullet } from '../entities/Bullet';
+import type { SeededRandom } from './SeededRandom';
+import { BossAttackSchedule, getAimedAngles, getLaserBeamX, getSpreadAngles } from './BossPatterns';
+
+// Forward reference to avoid circular import
+interface GameSceneInterface {
+    player: { x: number; y: number };
+    enemies: Phaser.GameObjects.Group;
+    enemyBullets: Phaser.GameObjects.Group;
+    rng: SeededRandom;
+    damagePlayer(amount: number): void;
+    showToast(message: string, type?: 'success' | 'error' | 'warning'): void;
+}
+
+interface LaserState {
+    x: number;
+    direction: number;
+    warmup: number;
+    remaining: number;
+}
+
+const BOSS_BULLET_SPEED = 160;
+const LASER_SWEEP_SPEED = 280; // px/s
+const DASH_INTERVAL = 5000; // ms between dives
+const DASH_DEPTH = 300; // y reached by a dive
+const LASER_TICK = 200; // ms between laser damage ticks
+
+export class BossController {
+    private scene: GameSceneInterface;
+    private boss: Enemy;
+    private definition: BossDefinition;
+    private sector: number;
+    private globalWave: number;
+
+    private schedule: BossAttackSchedule;
+    private elapsed: number = 0;
+    private entering: boolean = true;
+    private direction: number = 1;
+    private dashTimer: number = DASH_INTERVAL;
+    private dashState: 'cruise' | 'dive' | 'return' = 'cruise';
+    private laser: LaserState | null = null;
+    private laserTickTimer: number = 0;
+    private laserGraphics: Phaser.GameObjects.Graphics;
+
+    constructor(
+        scene: GameSceneInterface,
+        boss: Enemy,
+        definition: BossDefinition,
+        sector: number,
+        globalWave: number
+    ) {
+        this.scene = scene;
+        this.boss = boss;
+        this.definition = definition;
+        this.sector = sector;
+        this.globalWave = globalWave;
+        this.laserGraphics = boss.scene.add.graphics();
+        this.schedule = new BossAttackSchedule(definition);
+    }
+
+    public update(delta: number): void {
+        if (!this.boss.active) {
+            this.clearLaser();
+            return;
+        }
+
+        // Fly in before the fight starts
+        if (this.entering) {
+            this.boss.y += BOSS_ENTRANCE_SPEED * (delta / 1000);
+            if (this.boss.y >= this.definition.hoverY) {
+                this.boss.y = this.definition.hoverY;
+                this.entering = false;
+            }
+            return;
+        }
+
+        this.elapsed += delta;
+
+        this.updatePhase();
+        this.updateMovement(delta);
+        this.updateAttacks(delta);
+        this.updateLaser(delta);
+    }
+
+    public getPhaseIndex(): number {
+        return this.schedule.getPhaseIndex();
+    }
+
+    public destroy(): void {
+        this.laser = null;
+        this.laserGraphics.destroy();
+    }
+
+    private updatePhase(): void {
+        const hpFraction = this.boss.maxHP > 0 ? this.boss.currentHP / this.boss.maxHP : 0;
+        if (!this.schedule.updatePhase(hpFraction)) return;
+
+        this.boss.flashEffect(this.definition.accentColor);
+        this.scene.showToast(`${this.definition.name.toUpperCase()} - PHASE ${this.getPhaseIndex() + 1}`, 'warning');
+    }
+
+    private updateMovement(delta: number): void {
+        const phase = this.definition.phases[this.getPhaseIndex()];
+        const speed = this.definition.speed * phase.speedMultiplier;
+        const seconds = this.elapsed / 1000;
+        const margin = this.definition.width / 2 + 10;
+        const range = GAME_WIDTH / 2 - margin;
+
+        switch (this.definition.movement) {
+            case 'sweep':
+                this.sweep(speed, delta, margin);
+                break;
+
+            case 'weave':
+                // Figure-eight across the top of the screen
+                this.boss.x = GAME_WIDTH / 2 + Math.sin(seconds * speed / range) * range;
+                this.boss.y = this.definition.hoverY + Math.sin(seconds * speed * 2 / range) * 30;
+                break;
+
+            case 'orbit': {
+                // Elliptical orbit, speed is in rad/s
+                const angle = seconds * speed;
+                this.boss.x = GAME_WIDTH / 2 + Math.cos(angle) * range * 0.8;
+                this.boss.y = this.definition.hoverY + Math.sin(angle) * 50;
+                break;
+            }
+
+            case 'dash':
+                this.dash(speed, delta, margin);
+                break;
+        }
+
+        this.boss.x = Phaser.Math.Clamp(this.boss.x, margin, GAME_WIDTH - margin);
+    }
+
+    private sweep(speed: number, delta: number, margin: number): void {
+        this.boss.x += this.direction * speed * (delta / 1000);
+        if (this.boss.x <= margin) this.direction = 1;
+        if (this.boss.x >= GAME_WIDTH - margin) this.direction = -1;
+    }
+
+    private dash(speed: number, delta: number, margin: number): void {
+        const dt = delta / 1000;
+
+        switch (this.dashState) {
+            case 'cruise':
+                this.sweep(speed, delta, margin);
+                this.dashTimer -= delta;
+                if (this.dashTimer <= 0) {
+                    this.dashState = 'dive';
+                }
+                break;
+
+            case 'dive':
+                // Dive toward the player's column
+                this.boss.y += speed * 3 * dt;
+                this.boss.x += Math.sign(this.scene.player.x - this.boss.x) * speed * dt;
+                if (this.boss.y >= DASH_DEPTH) {
+                    this.dashState = 'return';
+                }
+                break;
+
+            case 'return':
+                this.boss.y -= speed * 2 * dt;
+                if (this.boss.y <= this.definition.hoverY) {
+                    this.boss.y = this.definition.hoverY;
+                    this.dashState = 'cruise';
+                    this.dashTimer = DASH_INTERVAL / this.definition.phases[this.getPhaseIndex()].speedMultiplier;
+                }
+                break;
+        }
+    }
+
+    private updateAttacks(delta: number): void {
+        const fireMult = getEnemyFireMultiplier(this.globalWave);
+
+        // Only one laser at a time - the schedule retries it shortly
+        const due = this.schedule.update(delta, fireMult, attack => attack.type === 'laser' && this.laser !== null);
+        due.forEach(attack => this.performAttack(attack));
+    }
+
+    private performAttack(attack: BossAttack): void {
+        switch (attack.type) {
+            case 'spread':
+                this.fireSpread(attack.count ?? 5, attack.arc ?? 60);
+                break;
+            case 'aimed':
+                this.fireAimed(attack.count ?? 1);
+                break;
+            case 'summon':
+                this.summonMinions(attack.minionType ?? 'grunt', attack.count ?? 1);
+                break;
+            case 'laser':
+                this.startLaser(attack.duration ?? 1800);
+                break;
+        }
+    }
+
+    private fireSpread(count: number, arc: number): void {
+        getSpreadAngles(count, arc).forEach(angle => this.fireBullet(angle));
+    }
+
+    private fireAimed(count: number): void {
+        const originY = this.boss.y + this.definition.height / 2;
+        const { x, y } = this.scene.player;
+        getAimedAngles(this.boss.x, originY, x, y, count).forEach(angle => this.fireBullet(angle));
+    }
+
+    private fireBullet(angle: number): void {
+        if (this.scene.enemyBullets.countActive(true) >= MAX_ENEMY_BULLETS) return;
+
+        const speed = BOSS_BULLET_SPEED * getEnemyBulletSpeedMultiplier(this.globalWave);
+        const x = this.boss.x;
+        const y = this.boss.y + this.definition.height / 2;
+
+        const bullet = this.scene.enemyBullets.get(x, y) as Bullet | null;
+        bullet?.fireEnemy(x, y, BOSS_BULLET_DAMAGE, speed, angle);
+    }
+
+    private summonMinions(type: string, count: number): void {
+        const spacing = 40;
+        const y = this.boss.y + this.definition.height / 2;
+
+        for (let i = 0; i < count; i++) {
+            if (this.scene.enemies.countActive(true) >= MAX_ENEMIES) return;
+
+            const x = Phaser.Math.Clamp(this.boss.x + (i - (count - 1) / 2) * spacing, 30, GAME_WIDTH - 30);
+            const minion = this.scene.enemies.get(x, y) as Enemy;
+            if (minion) {
+                minion.spawn(x, y, type, this.sector, this.globalWave, this.scene.enemyBullets, this.scene.rng);
+            }
+        }
+    }
+
+    private startLaser(duration: number): void {
+        this.laser = {
+            x: this.boss.x,
+            direction: this.scene.player.x >= this.boss.x ? 1 : -1,
+            warmup: BOSS_LASER_WARMUP,
+            remaining: duration,
+        };
+    }
+
+    private updateLaser(delta: number): void {
+        this.laserGraphics.clear();
+        if (!this.laser) return;
+
+        const laser = this.laser;
+        const topY = this.boss.y + this.definition.height / 2;
+
+        // Telegraph: thin flickering line where the beam will start
+        if (laser.warmup > 0) {
+            laser.warmup -= delta;
+            laser.x = this.boss.x;
+            const flicker = 0.3 + Math.abs(Math.sin(this.elapsed / 60)) * 0.5;
+            this.laserGraphics.lineStyle(1, this.definition.accentColor, flicker);
+            this.laserGraphics.lineBetween(this.boss.x, topY, laser.x, GAME_HEIGHT);
+            return;
+        }
+
+        laser.remaining -= delta;
+        if (laser.remaining <= 0) {
+            this.clearLaser();
+            return;
+        }
+
+        // Sweep the beam's ground point across the screen, bouncing at the edges
+        laser.x += laser.direction * LASER_SWEEP_SPEED * (delta / 1000);
+        if (laser.x <= 20 || laser.x >= GAME_WIDTH - 20) {
+            laser.direction *= -1;
+            laser.x = Phaser.Math.Clamp(laser.x, 20, GAME_WIDTH - 20);
+        }
+
+        this.laserGraphics.lineStyle(BOSS_LASER_WIDTH, this.definition.accentColor, 0.35);
+        this.laserGraphics.lineBetween(this.boss.x, topY, laser.x, GAME_HEIGHT);
+        this.laserGraphics.lineStyle(BOSS_LASER_WIDTH / 3, 0xffffff, 0.9);
+        this.laserGraphics.lineBetween(this.boss.x, topY, laser.x, GAME_HEIGHT);
+
+        // Beam x at the player's altitude
+        const player = this.scene.player;
+        const beamX = getLaserBeamX(this.boss.x, topY, laser.x, GAME_HEIGHT, player.y);
+        this.laserTickTimer -= delta;
+        if (this.laserTickTimer <= 0 && Math.abs(player.x - beamX) < BOSS_LASER_WIDTH / 2 + 16) {
+            this.laserTickTimer = LASER_TICK;
+            this.scene.damagePlayer(BOSS_LASER_DPS * (LASER_TICK / 1000));
+        }
+    }
+
+    private clearLaser(): void {
+        this.laser = null;
+        this.laserGraphics.clear();
+    }
+}
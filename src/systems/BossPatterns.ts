@@ -0,0 +1,100 @@
+/**
+ * BossPatterns - Phase changes, attack timing and firing geometry for sector bosses
+ *
+ * BossController plays these out on screen; SimulationEngine runs the same
+ * schedule against its single-lane model.
+ */
+import { BossAttack, BossDefinition, getBossPhaseIndex } from '../config/GameConfig';
+
+const ATTACK_RETRY_DELAY = 500; // ms before a blocked attack tries again
+const AIMED_SPREAD = (8 * Math.PI) / 180; // rad between the bullets of an aimed volley
+
+/**
+ * When each of the current phase's attacks comes off cooldown
+ */
+export class BossAttackSchedule {
+    private definition: BossDefinition;
+    private phaseIndex: number = 0;
+    private timers: number[] = [];
+
+    constructor(definition: BossDefinition) {
+        this.definition = definition;
+        this.resetTimers();
+    }
+
+    public getPhaseIndex(): number {
+        return this.phaseIndex;
+    }
+
+    /**
+     * Enter the phase for this HP fraction. Returns true on a phase change,
+     * which restarts every attack's opening delay.
+     */
+    public updatePhase(hpFraction: number): boolean {
+        const phaseIndex = getBossPhaseIndex(this.definition, hpFraction);
+        if (phaseIndex === this.phaseIndex) return false;
+
+        this.phaseIndex = phaseIndex;
+        this.resetTimers();
+        return true;
+    }
+
+    /**
+     * Attacks due this tick. Cooldowns shorten with the enemy fire multiplier;
+     * attacks isBlocked turns down retry after ATTACK_RETRY_DELAY.
+     */
+    public update(delta: number, fireMultiplier: number, isBlocked?: (attack: BossAttack) => boolean): BossAttack[] {
+        const due: BossAttack[] = [];
+        this.getAttacks().forEach((attack, i) => {
+            this.timers[i] -= delta;
+            if (this.timers[i] > 0) return;
+
+            if (isBlocked?.(attack)) {
+                this.timers[i] = ATTACK_RETRY_DELAY;
+                return;
+            }
+
+            this.timers[i] = attack.cooldown / fireMultiplier;
+            due.push(attack);
+        });
+        return due;
+    }
+
+    private getAttacks(): BossAttack[] {
+        return this.definition.phases[this.phaseIndex].attacks;
+    }
+
+    private resetTimers(): void {
+        // Stagger the first volley of each attack so they don't all land at once
+        this.timers = this.getAttacks().map((attack, i) => attack.cooldown * (0.4 + i * 0.25));
+    }
+}
+
+/**
+ * Bullet angles (rad) for a spread volley fanned evenly around straight down
+ */
+export function getSpreadAngles(count: number, arcDegrees: number): number[] {
+    if (count <= 1) return count === 1 ? [Math.PI / 2] : [];
+
+    const arc = (arcDegrees * Math.PI) / 180;
+    const step = arc / (count - 1);
+    return Array.from({ length: count }, (_, i) => Math.PI / 2 - arc / 2 + step * i);
+}
+
+/**
+ * Bullet angles (rad) for an aimed volley centred on the line to the target
+ */
+export function getAimedAngles(fromX: number, fromY: number, targetX: number, targetY: number, count: number): number[] {
+    const angle = Math.atan2(targetY - fromY, targetX - fromX);
+    const start = -AIMED_SPREAD * (count - 1) / 2;
+    return Array.from({ length: count }, (_, i) => angle + start + AIMED_SPREAD * i);
+}
+
+/**
+ * Where a laser running from (originX, originY) to groundX at the bottom
+ * of the screen crosses height y
+ */
+export function getLaserBeamX(originX: number, originY: number, groundX: number, groundY: number, y: number): number {
+    const t = Math.max(0, Math.min(1, (y - originY) / (groundY - originY)));
+    return originX + (groundX - originX) * t;
+}
@@ -0,0 +1,38 @@
+/**
+ * CappedPool - Free list that creates objects on demand up to a fixed budget
+ *
+ * take() reuses a released object if there is one, otherwise creates a new
+ * one until max objects exist. Past that it returns null and the caller
+ * skips the effect instead of allocating more.
+ */
+export class CappedPool<T> {
+    private free: T[] = [];
+    private created: number = 0;
+    private readonly max: number;
+    private readonly create: () => T;
+
+    constructor(max: number, create: () => T) {
+        this.max = max;
+        this.create = create;
+    }
+
+    take(): T | null {
+        const free = this.free.pop();
+        if (free) return free;
+        if (this.created >= this.max) return null;
+
+        this.created++;
+        return this.create();
+    }
+
+    release(item: T): void {
+        this.free.push(item);
+    }
+
+    /**
+     * Objects taken and not yet released
+     */
+    getActive(): number {
+        return this.created - this.free.length;
+    }
+}
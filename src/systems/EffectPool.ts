@@ -0,0 +1,154 @@
+/**
+ * EffectPool - Recycled floating text and particle sprites for hit feedback
+ *
+ * Popups and particles are created on demand up to MAX_POPUPS and
+ * MAX_PARTICLES, then reused. When a pool is exhausted the effect is skipped
+ * rather than allocating more, so heavy fights stay inside the budget.
+ */
+import Phaser from 'phaser';
+import { MAX_POPUPS, MAX_PARTICLES } from '../config/GameConfig';
+import type { EffectTexture } from './TextureBaker';
+import { CappedPool } from './CappedPool';
+
+export interface ParticleOptions {
+    tint: number;
+    alpha?: number; // Starting alpha (default 1)
+    scale?: number; // Starting scale (default 1)
+    toX?: number;
+    toY?: number;
+    toAlpha?: number; // Default 0 (fade out)
+    toScale?: number;
+    duration: number;
+    ease?: string;
+}
+
+// Effects draw above ships and bullets (which stay at depth 0)
+const PARTICLE_DEPTH = 1;
+const POPUP_DEPTH = 2;
+
+export class EffectPool {
+    private scene: Phaser.Scene;
+    private popups: CappedPool<Phaser.GameObjects.Text>;
+    private particles: CappedPool<Phaser.GameObjects.Image>;
+
+    constructor(scene: Phaser.Scene) {
+        this.scene = scene;
+        this.popups = new CappedPool(MAX_POPUPS, () => this.createPopup());
+        this.particles = new CappedPool(MAX_PARTICLES, () => this.createParticle());
+    }
+
+    /**
+     * Floating number that rises and fades
+     */
+    popup(x: number, y: number, text: string, color: string, fontSize: number, rise: number, duration: number): void {
+        const popup = this.popups.take();
+        if (!popup) return;
+
+        popup.setText(text);
+        popup.setColor(color);
+        popup.setFontSize(fontSize);
+        popup.setPosition(x, y);
+        popup.setAlpha(1);
+        popup.setActive(true).setVisible(true);
+
+        this.scene.tweens.add({
+            targets: popup,
+            y: y - rise,
+            alpha: 0,
+            duration,
+            ease: 'Power2',
+            onComplete: () => this.releasePopup(popup),
+        });
+    }
+
+    /**
+     * One tinted sprite tweened from its start state (fading out by default)
+     */
+    particle(texture: EffectTexture, x: number, y: number, options: ParticleOptions): void {
+        const particle = this.particles.take();
+        if (!particle) return;
+
+        particle.setTexture(texture);
+        particle.setTint(options.tint);
+        particle.setOrigin(0.5);
+        particle.setRotation(0);
+        particle.setPosition(x, y);
+        particle.setAlpha(options.alpha ?? 1);
+        particle.setScale(options.scale ?? 1);
+        particle.setActive(true).setVisible(true);
+
+        this.scene.tweens.add({
+            targets: particle,
+            x: options.toX ?? x,
+            y: options.toY ?? y,
+            alpha: options.toAlpha ?? 0,
+            scale: options.toScale ?? options.scale ?? 1,
+            duration: options.duration,
+            ease: options.ease ?? 'Quad.easeOut',
+            onComplete: () => this.releaseParticle(particle),
+        });
+    }
+
+    /**
+     * A straight beam or arc between two points that thins and fades out
+     */
+    line(x1: number, y1: number, x2: number, y2: number, tint: number, width: number, duration: number): void {
+        const line = this.particles.take();
+        if (!line) return;
+
+        // fx-line is 4px square: stretch it along the line from its left edge
+        const length = Math.hypot(x2 - x1, y2 - y1);
+        line.setTexture('fx-line');
+        line.setTint(tint);
+        line.setOrigin(0, 0.5);
+        line.setRotation(Math.atan2(y2 - y1, x2 - x1));
+        line.setPosition(x1, y1);
+        line.setAlpha(0.9);
+        line.setScale(length / 4, width / 4);
+        line.setActive(true).setVisible(true);
+
+        this.scene.tweens.add({
+            targets: line,
+            alpha: 0,
+            scaleY: width / 16,
+            duration,
+            ease: 'Quad.easeOut',
+            onComplete: () => this.releaseParticle(line),
+        });
+    }
+
+    getActivePopups(): number {
+        return this.popups.getActive();
+    }
+
+    getActiveParticles(): number {
+        return this.particles.getActive();
+    }
+
+    private createPopup(): Phaser.GameObjects.Text {
+        const popup = this.scene.add.text(0, 0, '', {
+            fontFamily: 'Segoe UI, Roboto, sans-serif',
+            stroke: '#000000',
+            strokeThickness: 2,
+        });
+        popup.setOrigin(0.5);
+        popup.setDepth(POPUP_DEPTH);
+        return popup;
+    }
+
+    private createParticle(): Phaser.GameObjects.Image {
+        const particle = this.scene.add.image(0, 0, 'fx-dot');
+        particle.setDepth(PARTICLE_DEPTH);
+        return particle;
+    }
+
+    private releasePopup(popup: Phaser.GameObjects.Text): void {
+        popup.setActive(false).setVisible(false);
+        this.popups.release(popup);
+    }
+
+    private releaseParticle(particle: Phaser.GameObjects.Image): void {
+        particle.setActive(false).setVisible(false);
+        this.particles.release(particle);
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * EliteAffixes - Rolls elite modifiers for freshly spawned enemies
+ */
+import {
+    ELITE_AFFIXES,
+    ELITE_EXTRA_AFFIX_SECTOR,
+    ELITE_EXTRA_AFFIX_CHANCE,
+    ELITE_SCRAP_PER_AFFIX,
+    EliteAffix,
+    EliteAffixId,
+    getEliteChance,
+} from '../config/GameConfig';
+import type { SeededRandom } from './SeededRandom';
+
+/**
+ * Affixes a sector has unlocked
+ */
+export function getAvailableEliteAffixes(sector: number): EliteAffix[] {
+    return ELITE_AFFIXES.filter(affix => sector >= affix.minSector);
+}
+
+/**
+ * Roll whether an enemy spawns as an elite, and with which affixes.
+ * Returns an empty list for a regular enemy.
+ */
+export function rollEliteAffixes(sector: number, globalWave: number, rng: SeededRandom): EliteAffixId[] {
+    if (!rng.chance(getEliteChance(sector, globalWave))) return [];
+
+    const pool = getAvailableEliteAffixes(sector);
+    const count = sector >= ELITE_EXTRA_AFFIX_SECTOR && rng.chance(ELITE_EXTRA_AFFIX_CHANCE) ? 2 : 1;
+
+    const affixes: EliteAffixId[] = [];
+    while (affixes.length < count && pool.length > 0) {
+        const pick = pickWeighted(pool, rng);
+        affixes.push(pick.id);
+        pool.splice(pool.indexOf(pick), 1);
+    }
+    return affixes;
+}
+
+export function getEliteScrapMultiplier(affixes: EliteAffixId[]): number {
+    return 1 + ELITE_SCRAP_PER_AFFIX * affixes.length;
+}
+
+function pickWeighted(pool: EliteAffix[], rng: SeededRandom): EliteAffix {
+    let roll = rng.next() * pool.reduce((total, affix) => total + affix.weight, 0);
+    for (const affix of pool) {
+        roll -= affix.weight;
+        if (roll <= 0) return affix;
+    }
+    return pool[pool.length - 1];
+}
@@ -0,0 +1,100 @@
+/**
+ * EndlessManager - Endless mode runs past the final sector and their high scores
+ */
+import { SECTOR_COUNT, WAVES_PER_SECTOR, ENDLESS_HISTORY_LENGTH } from '../config/GameConfig';
+import { SaveManager, EndlessRun } from './SaveManager';
+
+export class EndlessManager {
+    static isActive(): boolean {
+        return SaveManager.getCurrent().endless.active;
+    }
+
+    /**
+     * The campaign is beaten and no endless run is in progress
+     */
+    static isCampaignComplete(): boolean {
+        const save = SaveManager.getCurrent();
+        return save.currentSector >= SECTOR_COUNT && !save.endless.active;
+    }
+
+    /**
+     * Start a new endless run from the first sector past the campaign.
+     * Upgrades and resources carry over.
+     */
+    static start(): void {
+        const save = SaveManager.getCurrent();
+        if (save.currentSector < SECTOR_COUNT) return;
+
+        SaveManager.save({
+            currentSector: SECTOR_COUNT,
+            currentWave: 1,
+            endless: {
+                ...save.endless,
+                active: true,
+                currentRun: {
+                    startedAt: Date.now(),
+                    endedAt: 0,
+                    highestSector: SECTOR_COUNT,
+                    highestWave: SECTOR_COUNT * WAVES_PER_SECTOR + 1,
+                    kills: 0,
+                },
+            },
+        });
+    }
+
+    /**
+     * Push the current run's furthest sector/wave up to the save's position
+     */
+    static recordProgress(): void {
+        const save = SaveManager.getCurrent();
+        const run = save.endless.currentRun;
+        if (!save.endless.active || !run) return;
+
+        const globalWave = save.currentSector * WAVES_PER_SECTOR + Math.min(save.currentWave, WAVES_PER_SECTOR);
+        run.highestSector = Math.max(run.highestSector, save.currentSector);
+        run.highestWave = Math.max(run.highestWave, globalWave);
+    }
+
+    /**
+     * Finish the current run, file it in the history and update the high score.
+     * Returns the finished run, or null if no run was active.
+     */
+    static endRun(): EndlessRun | null {
+        const save = SaveManager.getCurrent();
+        const run = save.endless.currentRun;
+        if (!save.endless.active || !run) return null;
+
+        this.recordProgress();
+        const finished: EndlessRun = { ...run, endedAt: Date.now() };
+        const best = save.endless.bestRun;
+
+        SaveManager.save({
+            endless: {
+                active: false,
+                currentRun: null,
+                bestRun: !best || this.isBetterRun(finished, best) ? finished : best,
+                history: [finished, ...save.endless.history].slice(0, ENDLESS_HISTORY_LENGTH),
+            },
+        });
+
+        return finished;
+    }
+
+    static getBestRun(): EndlessRun | null {
+        return SaveManager.getCurrent().endless.bestRun;
+    }
+
+    static getHistory(): EndlessRun[] {
+        return SaveManager.getCurrent().endless.history;
+    }
+
+    /**
+     * Runs rank by furthest global wave, then by kills
+     */
+    static isBetterRun(run: EndlessRun, other: EndlessRun): boolean {
+        if (run.highestWave !== other.highestWave) {
+            return run.highestWave > other.highestWave;
+        }
+        return run.kills > other.kills;
+    }
+}
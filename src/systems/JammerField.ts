@@ -0,0 +1,65 @@
+/**
+ * JammerField - How strongly nearby jammers disrupt the ship
+ *
+ * Each jammer within JAMMER_FIELD_RADIUS adds a field that fades out
+ * linearly with distance. The total is capped at 1, then the Stability
+ * Matrix lets only a fraction of it through (getJammerPenaltyMultiplier).
+ * GameScene turns the result into aim jitter, the autopilot into target noise.
+ */
+import {
+    JAMMER_FIELD_RADIUS,
+    JAMMER_MAX_SPREAD,
+    JAMMER_AUTOPILOT_NOISE,
+    JAMMER_NOISE_INTERVAL,
+    getJammerPenaltyMultiplier,
+} from '../config/GameConfig';
+import type { SeededRandom } from './SeededRandom';
+
+/**
+ * Disruption at (x, y): 0 = clear, 1 = fully jammed
+ */
+export function getJammerDisruption(
+    jammers: { x: number; y: number }[],
+    x: number,
+    y: number,
+    stabilityLevel: number
+): number {
+    let field = 0;
+    jammers.forEach((jammer) => {
+        const dist = Math.hypot(jammer.x - x, jammer.y - y);
+        field += Math.max(0, 1 - dist / JAMMER_FIELD_RADIUS);
+    });
+    return Math.min(1, field) * getJammerPenaltyMultiplier(stabilityLevel);
+}
+
+/**
+ * Sideways drift for one bullet, up to JAMMER_MAX_SPREAD px at full disruption
+ */
+export function rollAimJitter(disruption: number, rng: SeededRandom): number {
+    if (disruption <= 0) return 0;
+    return rng.floatBetween(-1, 1) * JAMMER_MAX_SPREAD * disruption;
+}
+
+/**
+ * Autopilot target noise. The offset is re-rolled every JAMMER_NOISE_INTERVAL
+ * ms so the ship wanders instead of shaking, and clears once the field is gone.
+ */
+export class JammerNoise {
+    private noise: number = 0;
+    private timer: number = 0;
+
+    update(delta: number, disruption: number, rng: SeededRandom): number {
+        if (disruption <= 0) {
+            this.noise = 0;
+            this.timer = 0;
+            return 0;
+        }
+
+        this.timer -= delta;
+        if (this.timer <= 0) {
+            this.timer = JAMMER_NOISE_INTERVAL;
+            this.noise = rng.floatBetween(-1, 1) * JAMMER_AUTOPILOT_NOISE;
+        }
+        return this.noise * disruption;
+    }
+}
@@ -0,0 +1,201 @@
+/**
+ * MarchFormation - Moves a scripted group as one Space Invaders style grid
+ *
+ * The grid glides in to MARCH_ENTRY_Y, then steps sideways on a timer. When a
+ * step would cross the screen edge it drops a row and turns instead. The step
+ * timer shortens as members die, so the last few march much faster.
+ *
+ * Members keep their own shooting, shields and death handling; the formation
+ * only owns their position until they die or break out (see Enemy).
+ */
+import {
+    GAME_WIDTH,
+    MARCH_ENTRY_Y,
+    MARCH_ENTRY_SPEED,
+    MARCH_STEP_X,
+    MARCH_DROP_Y,
+    MARCH_EDGE_MARGIN,
+    MARCH_STEP_INTERVAL_MAX,
+    MARCH_STEP_INTERVAL_MIN,
+} from '../config/GameConfig';
+
+export interface MarchMember {
+    x: number;
+    y: number;
+    active: boolean;
+    marchFormation: MarchFormation | null;
+}
+
+export class MarchFormation {
+    private members: MarchMember[] = [];
+    private readonly size: number; // Members the wave plans to spawn
+    private readonly speedMultiplier: number;
+    private joined: number = 0;
+    private offsetX: number = 0; // Distance marched since the first member spawned
+    private offsetY: number = 0;
+    private direction: number = 1;
+    private stepTimer: number = 0;
+    private entering: boolean = true;
+
+    constructor(size: number, speedMultiplier: number = 1) {
+        this.size = Math.max(1, size);
+        this.speedMultiplier = speedMultiplier;
+    }
+
+    /**
+     * Add a freshly spawned member. It is moved by however far the grid has
+     * already marched, so late spawns (held back by the enemy cap) slot in.
+     */
+    join(member: MarchMember): void {
+        member.x += this.offsetX;
+        member.y += this.offsetY;
+        member.marchFormation = this;
+        this.members.push(member);
+        this.joined++;
+    }
+
+    /**
+     * Let a member leave the grid (e.g. a diver breaking out)
+     */
+    release(member: MarchMember): void {
+        if (member.marchFormation === this) member.marchFormation = null;
+        this.members = this.members.filter(m => m !== member);
+    }
+
+    update(delta: number): void {
+        this.prune();
+        if (this.members.length === 0) return;
+
+        if (this.entering) {
+            const bottom = Math.max(...this.members.map(m => m.y));
+            const dy = Math.min(MARCH_ENTRY_SPEED * (delta / 1000), MARCH_ENTRY_Y - bottom);
+            if (dy > 0) {
+                this.move(0, dy);
+                return;
+            }
+            this.entering = false;
+        }
+
+        this.stepTimer += delta;
+        const interval = this.getStepInterval();
+        while (this.stepTimer >= interval) {
+            this.stepTimer -= interval;
+            this.step();
+        }
+    }
+
+    /**
+     * ms between steps: MARCH_STEP_INTERVAL_MAX at full strength, easing down
+     * to MARCH_STEP_INTERVAL_MIN for the last survivor
+     */
+    getStepInterval(): number {
+        const survivors = this.size <= 1 ? 0 : (this.getAliveCount() - 1) / (this.size - 1);
+        const ratio = Math.min(1, Math.max(0, survivors));
+        const interval = MARCH_STEP_INTERVAL_MIN + (MARCH_STEP_INTERVAL_MAX - MARCH_STEP_INTERVAL_MIN) * ratio;
+        return interval / this.speedMultiplier;
+    }
+
+    getAliveCount(): number {
+        // Members still to spawn count as alive so the grid doesn't rush early
+        return this.members.filter(m => this.isMember(m)).length + (this.size - this.joined);
+    }
+
+    getDirection(): number {
+        return this.direction;
+    }
+
+    isEntering(): boolean {
+        return this.entering;
+    }
+
+    /**
+     * Horizontal extent of the living members, or null once the grid is empty
+     */
+    getBounds(): { left: number; right: number; bottom: number } | null {
+        const alive = this.members.filter(m => this.isMember(m));
+        if (alive.length === 0) return null;
+        return {
+            left: Math.min(...alive.map(m => m.x)),
+            right: Math.max(...alive.map(m => m.x)),
+            bottom: Math.max(...alive.map(m => m.y)),
+        };
+    }
+
+    /**
+     * Lowest member of the column the grid is marching towards. Clearing that
+     * column lets the grid travel further before its next drop.
+     */
+    getEdgeMember(): MarchMember | null {
+        const alive = this.members.filter(m => this.isMember(m));
+        if (alive.length === 0) return null;
+
+        const edgeX = this.direction > 0
+            ? Math.max(...alive.map(m => m.x))
+            : Math.min(...alive.map(m => m.x));
+        const column = alive.filter(m => Math.abs(m.x - edgeX) < MARCH_STEP_X);
+        return column.reduce((lowest, m) => (m.y > lowest.y ? m : lowest));
+    }
+
+    /**
+     * Where a member at x will be after ms more of marching (ignores deaths).
+     * Lets the autopilot lead its shots onto a moving column.
+     */
+    predictX(x: number, ms: number): number {
+        const bounds = this.getBounds();
+        if (!bounds || this.entering) return x;
+
+        let left = bounds.left;
+        let right = bounds.right;
+        let direction = this.direction;
+        let shift = 0;
+        const steps = Math.min(200, Math.floor((this.stepTimer + ms) / this.getStepInterval()));
+
+        for (let i = 0; i < steps; i++) {
+            if (this.hitsEdge(left, right, direction)) {
+                direction = -direction;
+                continue;
+            }
+            const dx = direction * MARCH_STEP_X;
+            left += dx;
+            right += dx;
+            shift += dx;
+        }
+        return x + shift;
+    }
+
+    private step(): void {
+        const bounds = this.getBounds();
+        if (!bounds) return;
+
+        if (this.hitsEdge(bounds.left, bounds.right, this.direction)) {
+            this.direction = -this.direction;
+            this.move(0, MARCH_DROP_Y);
+        } else {
+            this.move(this.direction * MARCH_STEP_X, 0);
+        }
+    }
+
+    private hitsEdge(left: number, right: number, direction: number): boolean {
+        return direction > 0
+            ? right + MARCH_STEP_X > GAME_WIDTH - MARCH_EDGE_MARGIN
+            : left - MARCH_STEP_X < MARCH_EDGE_MARGIN;
+    }
+
+    private move(dx: number, dy: number): void {
+        this.offsetX += dx;
+        this.offsetY += dy;
+        this.members.forEach(m => {
+            m.x += dx;
+            m.y += dy;
+        });
+    }
+
+    private prune(): void {
+        this.members = this.members.filter(m => this.isMember(m));
+    }
+
+    private isMember(member: MarchMember): boolean {
+        // Pooled enemies are reused, so also check the member still belongs here
+        return member.active && member.marchFormation === this;
+    }
+}
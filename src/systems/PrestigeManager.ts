@@ -0,0 +1,142 @@
+/**
+ * PrestigeManager - Prestige resets, echo rewards and the meta-upgrade tree
+ */
+import {
+    META_UPGRADES,
+    MetaUpgradeDefinition,
+    SECTOR_COUNT,
+    getMetaUpgradeCost,
+    getPrestigeReward,
+} from '../config/GameConfig';
+import { SaveManager } from './SaveManager';
+import { EndlessManager } from './EndlessManager';
+
+export class PrestigeManager {
+    /**
+     * Prestige is offered once the final sector has been cleared
+     */
+    static canPrestige(): boolean {
+        return SaveManager.getCurrent().currentSector >= SECTOR_COUNT;
+    }
+
+    /**
+     * Echoes the current run would pay out if prestiged now
+     */
+    static getPendingReward(): number {
+        const save = SaveManager.getCurrent();
+        const start = save.meta.runStartStats;
+        return getPrestigeReward(
+            save.stats.totalKills - start.totalKills,
+            save.stats.totalScrapEarned - start.totalScrapEarned,
+            save.stats.bossesDefeated - start.bossesDefeated
+        );
+    }
+
+    /**
+     * Reset the run (scrap, cores, upgrades, sector) for echoes.
+     * Lifetime stats, meta progress, endless records and selections are kept.
+     * Returns the echoes earned, or 0 if prestige isn't available.
+     */
+    static prestige(): number {
+        if (!this.canPrestige()) return 0;
+
+        const reward = this.getPendingReward();
+        EndlessManager.endRun();
+        const save = SaveManager.getCurrent();
+        const meta = {
+            ...save.meta,
+            prestigeCount: save.meta.prestigeCount + 1,
+            echoes: save.meta.echoes + reward,
+            totalEchoes: save.meta.totalEchoes + reward,
+            runStartStats: { ...save.stats },
+        };
+
+        SaveManager.reset();
+        SaveManager.save({
+            meta,
+            endless: save.endless,
+            stats: { ...save.stats },
+            activeWeaponMod: save.activeWeaponMod,
+            activeBehaviorScript: save.activeBehaviorScript,
+            droneLoadout: save.droneLoadout,
+            activeDroneFormation: save.activeDroneFormation,
+            deathCount: save.deathCount,
+        });
+        this.applyStartingBonuses();
+
+        return reward;
+    }
+
+    /**
+     * Grant the meta tree's start-of-run bonuses to a freshly reset run
+     */
+    static applyStartingBonuses(): void {
+        const startingScrap = this.getEffect('startingScrap');
+        if (startingScrap > 0) {
+            SaveManager.update({ scrap: startingScrap });
+        }
+
+        if (this.getLevel('startingAutoFire') > 0 && !SaveManager.hasUpgrade('autoFire')) {
+            SaveManager.addUpgradeLevel('autoFire');
+        }
+
+        SaveManager.save(SaveManager.getCurrent());
+    }
+
+    static getDefinition(id: string): MetaUpgradeDefinition | undefined {
+        return META_UPGRADES.find(u => u.id === id);
+    }
+
+    static getLevel(id: string): number {
+        return SaveManager.getCurrent().meta.upgrades[id] || 0;
+    }
+
+    /**
+     * Total effect of a meta upgrade (level * effectPerLevel)
+     */
+    static getEffect(id: string): number {
+        const definition = this.getDefinition(id);
+        return definition ? this.getLevel(id) * definition.effectPerLevel : 0;
+    }
+
+    /**
+     * Echo cost of the next level (0 when maxed or unknown)
+     */
+    static getCost(id: string): number {
+        const definition = this.getDefinition(id);
+        if (!definition) return 0;
+
+        const level = this.getLevel(id);
+        if (level >= definition.maxLevel) return 0;
+
+        return getMetaUpgradeCost(definition, level);
+    }
+
+    static canAfford(id: string): boolean {
+        const definition = this.getDefinition(id);
+        if (!definition || this.getLevel(id) >= definition.maxLevel) return false;
+
+        return SaveManager.getCurrent().meta.echoes >= this.getCost(id);
+    }
+
+    /**
+     * Buy the next level of a meta upgrade with echoes
+     */
+    static purchase(id: string): boolean {
+        if (!this.canAfford(id)) return false;
+
+        const meta = SaveManager.getCurrent().meta;
+        meta.echoes -= this.getCost(id);
+        meta.upgrades[id] = this.getLevel(id) + 1;
+        SaveManager.save(SaveManager.getCurrent());
+
+        return true;
+    }
+
+    /**
+     * Multiplier applied to every scrap upgrade cost
+     */
+    static getScrapCostMultiplier(): number {
+        return Math.max(0, 1 - this.getEffect('costDiscount'));
+    }
+}
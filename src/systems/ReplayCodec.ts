@@ -0,0 +1,201 @@
+/**
+ * ReplayCodec - Replay data and the downloadable replay file format
+ *
+ * A replay is the save snapshot and RNG seed a session started from, the
+ * frame delta of every GameScene update, and the inputs applied on each frame.
+ *
+ * File format (.json): { format, version, checksum, payload }
+ *   payload  = base64url(LZW(utf8(json))), same packing as save codes
+ *   checksum = FNV-1a 32-bit hash of the JSON
+ *
+ * Inside the payload, deltas are run-length encoded and inputs are packed
+ * into short codes ("P:damage") since a session records one entry per frame.
+ */
+import { GameSave, createDefaultSave } from './SaveManager';
+import { migrateSave } from './SaveMigrations';
+import { checksum, compressText, decompressText } from './SaveCodec';
+
+export const REPLAY_FILE_VERSION = 1;
+export const REPLAY_FILE_FORMAT = 'autoInvaders-replay';
+
+export type ReplayInput =
+    | { type: 'move'; axis: -1 | 0 | 1 }
+    | { type: 'primary' } // Click/Space: manual shot, or Overload once Auto-Fire is owned
+    | { type: 'overdrive' }
+    | { type: 'vent' }
+    | { type: 'autopilot' }
+    | { type: 'purchase'; id: string }
+    | { type: 'weaponMod'; id: string }
+    | { type: 'behaviorScript'; id: string }
+    | { type: 'droneClass'; bay: number; id: string }
+    | { type: 'droneFormation'; id: string }
+    | { type: 'continue' }; // Reboot after a death
+
+export interface ReplayEvent {
+    frame: number;
+    input: ReplayInput;
+}
+
+export interface ReplayData {
+    seed: number;
+    save: GameSave; // Snapshot the session started from
+    recordedAt: number;
+    deltas: number[]; // Frame delta (ms) of every GameScene update
+    events: ReplayEvent[];
+    truncated: boolean; // Recording hit REPLAY_MAX_FRAMES before the session ended
+}
+
+interface ReplayPayload {
+    seed: number;
+    save: GameSave;
+    recordedAt: number;
+    deltas: Array<number | [number, number]>; // [delta, repeat count] for runs
+    events: Array<[number, string]>;
+    truncated: boolean;
+}
+
+export class ReplayFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReplayFileError';
+    }
+}
+
+/**
+ * Build the contents of a downloadable .json replay file
+ */
+export function encodeReplayFile(replay: ReplayData): string {
+    const payload: ReplayPayload = {
+        seed: replay.seed,
+        save: replay.save,
+        recordedAt: replay.recordedAt,
+        deltas: packDeltas(replay.deltas),
+        events: replay.events.map(event => [event.frame, encodeInput(event.input)]),
+        truncated: replay.truncated,
+    };
+    const json = JSON.stringify(payload);
+
+    return JSON.stringify({
+        format: REPLAY_FILE_FORMAT,
+        version: REPLAY_FILE_VERSION,
+        checksum: checksum(json),
+        payload: compressText(json),
+    });
+}
+
+/**
+ * Read an uploaded replay file back to replay data
+ */
+export function decodeReplayFile(text: string): ReplayData {
+    let file: { format?: unknown; version?: unknown; checksum?: unknown; payload?: unknown };
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new ReplayFileError('File is not valid JSON.');
+    }
+
+    if (typeof file !== 'object' || file === null || file.format !== REPLAY_FILE_FORMAT) {
+        throw new ReplayFileError('File is not an Auto Invaders replay.');
+    }
+    if (typeof file.version !== 'number' || file.version > REPLAY_FILE_VERSION) {
+        throw new ReplayFileError('Replay was recorded by a newer version of the game.');
+    }
+    if (typeof file.payload !== 'string') {
+        throw new ReplayFileError('Replay file is incomplete.');
+    }
+
+    let json: string;
+    try {
+        json = decompressText(file.payload);
+    } catch {
+        throw new ReplayFileError('Replay is corrupted and could not be decompressed.');
+    }
+    if (checksum(json) !== file.checksum) {
+        throw new ReplayFileError('Replay failed its integrity check - it was corrupted or edited.');
+    }
+
+    try {
+        const payload = JSON.parse(json) as ReplayPayload;
+        const deltas = unpackDeltas(payload.deltas);
+        return {
+            seed: payload.seed >>> 0,
+            save: migrateSave(payload.save, createDefaultSave()),
+            recordedAt: Number(payload.recordedAt) || 0,
+            deltas,
+            events: payload.events.map(([frame, code]) => {
+                if (!Number.isInteger(frame) || frame < 0 || frame > deltas.length) {
+                    throw new ReplayFileError(`Input on invalid frame ${frame}`);
+                }
+                return { frame, input: decodeInput(code) };
+            }),
+            truncated: payload.truncated === true,
+        };
+    } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e);
+        throw new ReplayFileError(`Replay data is invalid: ${reason}`);
+    }
+}
+
+function packDeltas(deltas: number[]): Array<number | [number, number]> {
+    const packed: Array<number | [number, number]> = [];
+    let i = 0;
+    while (i < deltas.length) {
+        let run = 1;
+        while (i + run < deltas.length && deltas[i + run] === deltas[i]) run++;
+        packed.push(run > 1 ? [deltas[i], run] : deltas[i]);
+        i += run;
+    }
+    return packed;
+}
+
+function unpackDeltas(packed: Array<number | [number, number]>): number[] {
+    const deltas: number[] = [];
+    packed.forEach(entry => {
+        const [delta, run] = Array.isArray(entry) ? entry : [entry, 1];
+        if (!Number.isFinite(delta) || delta < 0 || !Number.isInteger(run) || run < 1) {
+            throw new ReplayFileError('Invalid frame delta');
+        }
+        for (let i = 0; i < run; i++) deltas.push(delta);
+    });
+    return deltas;
+}
+
+function encodeInput(input: ReplayInput): string {
+    switch (input.type) {
+        case 'move': return input.axis < 0 ? 'L' : input.axis > 0 ? 'R' : 'S';
+        case 'primary': return 'F';
+        case 'overdrive': return 'O';
+        case 'vent': return 'V';
+        case 'autopilot': return 'A';
+        case 'continue': return 'C';
+        case 'purchase': return `P:${input.id}`;
+        case 'weaponMod': return `W:${input.id}`;
+        case 'behaviorScript': return `B:${input.id}`;
+        case 'droneClass': return `D:${input.bay}:${input.id}`;
+        case 'droneFormation': return `M:${input.id}`;
+    }
+}
+
+function decodeInput(code: string): ReplayInput {
+    switch (code) {
+        case 'L': return { type: 'move', axis: -1 };
+        case 'R': return { type: 'move', axis: 1 };
+        case 'S': return { type: 'move', axis: 0 };
+        case 'F': return { type: 'primary' };
+        case 'O': return { type: 'overdrive' };
+        case 'V': return { type: 'vent' };
+        case 'A': return { type: 'autopilot' };
+        case 'C': return { type: 'continue' };
+    }
+
+    const id = code.slice(2);
+    if (id && code.startsWith('P:')) return { type: 'purchase', id };
+    if (id && code.startsWith('W:')) return { type: 'weaponMod', id };
+    if (id && code.startsWith('B:')) return { type: 'behaviorScript', id };
+    if (id && code.startsWith('M:')) return { type: 'droneFormation', id };
+    if (code.startsWith('D:')) {
+        const match = /^D:(\d+):(.+)$/.exec(code);
+        if (match) return { type: 'droneClass', bay: Number(match[1]), id: match[2] };
+    }
+    throw new ReplayFileError(`Unknown input "${code}"`);
+}
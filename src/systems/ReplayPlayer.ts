@@ -0,0 +1,224 @@
+/**
+ * ReplayPlayer - Plays a recorded session back through GameScene
+ *
+ * Takes over the game loop so every step feeds GameScene the recorded frame
+ * delta instead of the real one; with the same seed, save and inputs the
+ * session re-simulates exactly. Seeking backwards restarts from the snapshot
+ * and fast-forwards without rendering.
+ */
+import Phaser from 'phaser';
+import { REPLAY_SPEEDS, REPLAY_SEEK_BUDGET_MS } from '../config/GameConfig';
+import { SaveManager } from './SaveManager';
+import type { ReplayData, ReplayInput } from './ReplayCodec';
+import { ReplayControlsUI } from '../ui/ReplayControlsUI';
+
+// Forward reference to avoid circular imports with GameScene
+interface ReplaySceneInterface {
+    scene: Phaser.Scenes.ScenePlugin;
+    soundManager?: { setMuted(muted: boolean): void };
+    getReplayFrame(): number;
+    isAwaitingContinue(): boolean;
+    continueAfterDeath(): void;
+    shutdown(): void;
+}
+
+export class ReplayPlayer {
+    readonly replay: ReplayData;
+    private game: Phaser.Game;
+    private controls: ReplayControlsUI;
+    private loopCallback: Phaser.Types.Core.TimeStepCallback | null = null;
+    private frameStarts: Float64Array; // Replay time (ms) at the start of each frame
+
+    private time: number = 0; // Loop time fed to the stepped frames
+    private eventIndex: number = 0;
+    private restartPending: boolean = false; // GameScene is (re)created by the next step
+    private paused: boolean = false;
+    private finished: boolean = false;
+    private speedIndex: number = 0;
+    private seekTarget: number | null = null;
+
+    constructor(game: Phaser.Game, replay: ReplayData) {
+        this.game = game;
+        this.replay = replay;
+
+        this.frameStarts = new Float64Array(replay.deltas.length + 1);
+        replay.deltas.forEach((delta, i) => {
+            this.frameStarts[i + 1] = this.frameStarts[i] + delta;
+        });
+
+        this.controls = new ReplayControlsUI({
+            totalFrames: replay.deltas.length,
+            formatFrame: (frame) => this.formatFrame(frame),
+            onTogglePause: () => this.togglePause(),
+            onCycleSpeed: () => this.cycleSpeed(),
+            onSeek: (frame) => this.seek(frame),
+            onExit: () => this.exit(),
+        });
+    }
+
+    /**
+     * Take over the game loop and switch from the calling scene to the replay
+     */
+    start(from: Phaser.Scene): void {
+        this.loopCallback = this.game.loop.callback;
+        this.time = this.game.loop.time;
+        this.game.loop.callback = () => this.tick();
+
+        this.controls.open();
+        this.restartPending = true;
+        from.scene.start('GameScene', { replayPlayer: this });
+    }
+
+    /**
+     * Hand the loop back, drop the sandboxed save and return to the menu
+     */
+    exit(): void {
+        if (this.loopCallback) {
+            this.game.loop.callback = this.loopCallback;
+            this.loopCallback = null;
+        }
+        this.controls.close();
+
+        const scene = this.getScene();
+        scene.soundManager?.setMuted(false);
+        scene.shutdown();
+        SaveManager.exitSandbox();
+        scene.scene.start('MenuScene');
+    }
+
+    /**
+     * Recorded inputs for a frame, in the order they were applied.
+     * Reboots after a death are applied by the player before the step.
+     */
+    takeInputs(frame: number): ReplayInput[] {
+        const inputs: ReplayInput[] = [];
+        const events = this.replay.events;
+        while (this.eventIndex < events.length && events[this.eventIndex].frame <= frame) {
+            const { input } = events[this.eventIndex++];
+            if (input.type !== 'continue') inputs.push(input);
+        }
+        return inputs;
+    }
+
+    togglePause(): void {
+        if (this.finished) {
+            // Play again from the start
+            this.paused = false;
+            this.seek(1);
+            return;
+        }
+        this.paused = !this.paused;
+    }
+
+    cycleSpeed(): void {
+        this.speedIndex = (this.speedIndex + 1) % REPLAY_SPEEDS.length;
+    }
+
+    /**
+     * Jump to a frame. Going backwards restarts from the snapshot.
+     */
+    seek(frame: number): void {
+        const target = Phaser.Math.Clamp(Math.round(frame), 1, this.replay.deltas.length);
+        if (target <= this.getFrame() || this.finished) {
+            this.restartScene();
+        }
+        this.seekTarget = target;
+    }
+
+    private tick(): void {
+        if (this.seekTarget !== null) {
+            this.runSeek(this.seekTarget);
+        } else if (!this.paused && !this.finished) {
+            const speed = REPLAY_SPEEDS[this.speedIndex];
+            for (let i = 0; i < speed && !this.finished; i++) {
+                // Only the last frame of a batch is drawn
+                this.stepFrame(i === speed - 1);
+            }
+        }
+
+        this.controls.update({
+            frame: this.getFrame(),
+            paused: this.paused,
+            finished: this.finished,
+            speed: REPLAY_SPEEDS[this.speedIndex],
+            seeking: this.seekTarget !== null,
+        });
+    }
+
+    /**
+     * Fast-forward headlessly for a slice of this tick, then draw the target frame
+     */
+    private runSeek(target: number): void {
+        const deadline = performance.now() + REPLAY_SEEK_BUDGET_MS;
+        while (!this.finished && this.getFrame() < target - 1 && performance.now() < deadline) {
+            this.stepFrame(false);
+        }
+
+        if (this.finished || this.getFrame() >= target - 1) {
+            this.seekTarget = null;
+            if (!this.finished && this.getFrame() < target) {
+                this.stepFrame(true);
+            }
+        }
+    }
+
+    private stepFrame(render: boolean): void {
+        const scene = this.getScene();
+        const frame = this.getFrame();
+        if (frame >= this.replay.deltas.length) {
+            this.finish();
+            return;
+        }
+
+        if (!this.restartPending && scene.isAwaitingContinue()) {
+            // The recording only goes on past a death if the player rebooted
+            const next = this.replay.events[this.eventIndex];
+            if (!next || next.frame !== frame || next.input.type !== 'continue') {
+                this.finish();
+                return;
+            }
+            this.eventIndex++;
+            scene.continueAfterDeath();
+        }
+
+        this.restartPending = false;
+        const delta = this.replay.deltas[frame];
+        this.time += delta;
+        scene.soundManager?.setMuted(!render);
+
+        if (render) {
+            this.game.step(this.time, delta);
+        } else {
+            this.game.headlessStep(this.time, delta);
+        }
+    }
+
+    private restartScene(): void {
+        const scene = this.getScene();
+        scene.shutdown();
+        scene.scene.restart({ replayPlayer: this });
+
+        this.eventIndex = 0;
+        this.restartPending = true;
+        this.finished = false;
+    }
+
+    private finish(): void {
+        this.finished = true;
+        this.seekTarget = null;
+    }
+
+    private getFrame(): number {
+        return this.restartPending ? 0 : this.getScene().getReplayFrame();
+    }
+
+    private getScene(): ReplaySceneInterface {
+        return this.game.scene.getScene('GameScene') as unknown as ReplaySceneInterface;
+    }
+
+    private formatFrame(frame: number): string {
+        const seconds = Math.floor(this.frameStarts[Math.min(frame, this.replay.deltas.length)] / 1000);
+        const minutes = Math.floor(seconds / 60);
+        return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+    }
+}
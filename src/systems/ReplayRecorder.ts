@@ -0,0 +1,57 @@
+/**
+ * ReplayRecorder - Captures a GameScene session for deterministic playback
+ */
+import { REPLAY_MAX_FRAMES } from '../config/GameConfig';
+import type { GameSave } from './SaveManager';
+import type { ReplayData, ReplayEvent, ReplayInput } from './ReplayCodec';
+
+export class ReplayRecorder {
+    private readonly seed: number;
+    private readonly save: GameSave;
+    private readonly recordedAt: number;
+    private readonly maxFrames: number;
+    private deltas: number[] = [];
+    private events: ReplayEvent[] = [];
+    private truncated: boolean = false;
+
+    /**
+     * Start recording from the session's seed and its save as loaded
+     */
+    constructor(seed: number, save: GameSave, maxFrames: number = REPLAY_MAX_FRAMES) {
+        this.seed = seed;
+        this.save = JSON.parse(JSON.stringify(save)) as GameSave;
+        this.recordedAt = Date.now();
+        this.maxFrames = maxFrames;
+    }
+
+    recordFrame(delta: number): void {
+        if (this.deltas.length >= this.maxFrames) {
+            this.truncated = true;
+            return;
+        }
+        this.deltas.push(delta);
+    }
+
+    /**
+     * Log an input applied at the start of a frame (the next frame to run)
+     */
+    recordInput(frame: number, input: ReplayInput): void {
+        if (this.truncated) return;
+        this.events.push({ frame, input });
+    }
+
+    getFrameCount(): number {
+        return this.deltas.length;
+    }
+
+    getData(): ReplayData {
+        return {
+            seed: this.seed,
+            save: this.save,
+            recordedAt: this.recordedAt,
+            deltas: [...this.deltas],
+            events: [...this.events],
+            truncated: this.truncated,
+        };
+    }
+}
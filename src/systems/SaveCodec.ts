@@ -0,0 +1,271 @@
+/**
+ * SaveCodec - Versioned, checksummed and compressed save codes / export files
+ *
+ * Code format: AI<version>.<checksum>.<payload>
+ *   payload  = base64url(LZW(utf8(json)))
+ *   checksum = FNV-1a 32-bit hash of the JSON, 8 hex chars
+ *
+ * File format (.json): { format, version, checksum, save }
+ */
+
+export const SAVE_CODE_VERSION = 1;
+export const SAVE_FILE_FORMAT = 'autoInvaders-save';
+
+const CODE_PATTERN = /^AI(\d+)\.([0-9a-f]{8})\.([A-Za-z0-9_-]+)$/;
+const MAX_DICT_SIZE = 65536; // LZW codes are capped at 16 bits
+
+export class SaveCodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SaveCodeError';
+    }
+}
+
+/**
+ * Wrap save JSON in a short copy/paste code
+ */
+export function encodeSaveCode(json: string): string {
+    return `AI${SAVE_CODE_VERSION}.${checksum(json)}.${compressText(json)}`;
+}
+
+/**
+ * Unwrap a save code back to JSON. Also accepts the legacy plain-base64 format.
+ */
+export function decodeSaveCode(code: string): string {
+    const trimmed = code.replace(/\s+/g, '');
+    if (!trimmed) {
+        throw new SaveCodeError('Paste a save code first.');
+    }
+
+    const match = CODE_PATTERN.exec(trimmed);
+    if (!match) {
+        if (trimmed.startsWith('AI')) {
+            throw new SaveCodeError('Save code is incomplete or damaged - make sure you copied all of it.');
+        }
+        return decodeLegacyCode(trimmed);
+    }
+
+    const [, version, expectedChecksum, payload] = match;
+    if (Number(version) > SAVE_CODE_VERSION) {
+        throw new SaveCodeError('Save code was made by a newer version of the game.');
+    }
+
+    let json: string;
+    try {
+        json = decompressText(payload);
+    } catch {
+        throw new SaveCodeError('Save code is corrupted and could not be decompressed.');
+    }
+
+    if (checksum(json) !== expectedChecksum) {
+        throw new SaveCodeError('Save code failed its integrity check - it was corrupted or edited.');
+    }
+    return json;
+}
+
+/**
+ * Build the contents of a downloadable .json save file
+ */
+export function encodeSaveFile(json: string): string {
+    const save = JSON.parse(json) as unknown;
+    return JSON.stringify({
+        format: SAVE_FILE_FORMAT,
+        version: SAVE_CODE_VERSION,
+        checksum: checksum(JSON.stringify(save)),
+        save,
+    }, null, 2);
+}
+
+/**
+ * Read an uploaded .json save file back to save JSON
+ */
+export function decodeSaveFile(text: string): string {
+    let file: { format?: unknown; version?: unknown; checksum?: unknown; save?: unknown };
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new SaveCodeError('File is not valid JSON.');
+    }
+
+    if (typeof file !== 'object' || file === null || file.format !== SAVE_FILE_FORMAT) {
+        throw new SaveCodeError('File is not an Auto Invaders save.');
+    }
+    if (typeof file.version !== 'number' || file.version > SAVE_CODE_VERSION) {
+        throw new SaveCodeError('Save file was made by a newer version of the game.');
+    }
+
+    const json = JSON.stringify(file.save);
+    if (typeof file.save !== 'object' || file.save === null || checksum(json) !== file.checksum) {
+        throw new SaveCodeError('Save file failed its integrity check - it was corrupted or edited.');
+    }
+    return json;
+}
+
+/**
+ * Check whether text looks like a save file rather than a save code
+ */
+export function isSaveFile(text: string): boolean {
+    return text.trimStart().startsWith('{');
+}
+
+function decodeLegacyCode(code: string): string {
+    try {
+        const json = atob(code);
+        JSON.parse(json);
+        return json;
+    } catch {
+        throw new SaveCodeError('Not a valid save code.');
+    }
+}
+
+/**
+ * Compress text to a base64url payload (LZW over UTF-8)
+ */
+export function compressText(text: string): string {
+    return toBase64Url(lzwCompress(new TextEncoder().encode(text)));
+}
+
+/**
+ * Reverse compressText. Throws on a damaged payload.
+ */
+export function decompressText(payload: string): string {
+    return new TextDecoder('utf-8', { fatal: true }).decode(lzwDecompress(fromBase64Url(payload)));
+}
+
+/**
+ * FNV-1a 32-bit hash as 8 hex chars
+ */
+export function checksum(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Bit width of the k-th LZW code. Encoder and decoder derive it from the code
+ * index alone, so widths stay in sync as the dictionary grows.
+ */
+function codeWidth(index: number): number {
+    const maxCode = Math.min(255 + index, MAX_DICT_SIZE - 1);
+    return 32 - Math.clz32(maxCode);
+}
+
+function lzwCompress(bytes: Uint8Array): Uint8Array {
+    const writer = new BitWriter();
+    if (bytes.length === 0) return writer.finish();
+
+    const dict = new Map<number, number>();
+    let dictSize = 256;
+    let code = bytes[0];
+    let index = 0;
+
+    for (let i = 1; i < bytes.length; i++) {
+        const key = code * 256 + bytes[i];
+        const existing = dict.get(key);
+        if (existing !== undefined) {
+            code = existing;
+            continue;
+        }
+
+        writer.write(code, codeWidth(index++));
+        if (dictSize < MAX_DICT_SIZE) {
+            dict.set(key, dictSize++);
+        }
+        code = bytes[i];
+    }
+
+    writer.write(code, codeWidth(index));
+    return writer.finish();
+}
+
+function lzwDecompress(data: Uint8Array): Uint8Array {
+    const reader = new BitReader(data);
+    const dict: number[][] = [];
+    for (let i = 0; i < 256; i++) dict.push([i]);
+
+    const output: number[] = [];
+    let previous: number[] | null = null;
+    let index = 0;
+
+    while (reader.remaining() >= codeWidth(index)) {
+        const code = reader.read(codeWidth(index++));
+
+        let entry: number[];
+        if (code < dict.length) {
+            entry = dict[code];
+        } else if (code === dict.length && previous) {
+            entry = [...previous, previous[0]];
+        } else {
+            throw new SaveCodeError(`Invalid LZW code ${code}`);
+        }
+
+        output.push(...entry);
+        if (previous && dict.length < MAX_DICT_SIZE) {
+            dict.push([...previous, entry[0]]);
+        }
+        previous = entry;
+    }
+
+    return Uint8Array.from(output);
+}
+
+class BitWriter {
+    private bytes: number[] = [];
+    private buffer: number = 0;
+    private bits: number = 0;
+
+    write(value: number, width: number): void {
+        for (let i = width - 1; i >= 0; i--) {
+            this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+            if (++this.bits === 8) {
+                this.bytes.push(this.buffer);
+                this.buffer = 0;
+                this.bits = 0;
+            }
+        }
+    }
+
+    finish(): Uint8Array {
+        if (this.bits > 0) {
+            this.bytes.push(this.buffer << (8 - this.bits));
+        }
+        return Uint8Array.from(this.bytes);
+    }
+}
+
+class BitReader {
+    private position: number = 0;
+
+    constructor(private data: Uint8Array) {}
+
+    remaining(): number {
+        return this.data.length * 8 - this.position;
+    }
+
+    read(width: number): number {
+        let value = 0;
+        for (let i = 0; i < width; i++) {
+            const byte = this.data[this.position >> 3];
+            const bit = (byte >> (7 - (this.position & 7))) & 1;
+            value = (value << 1) | bit;
+            this.position++;
+        }
+        return value;
+    }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(b => {
+        binary += String.fromCharCode(b);
+    });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
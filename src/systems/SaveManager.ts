@@ -1,7 +1,9 @@
 /**
- * SaveManager - Handles localStorage saves, export/import, and offline progress
+ * SaveManager - Handles localStorage saves and export/import
  */
-import { SAVE_KEY, MAX_OFFLINE_HOURS } from '../config/GameConfig';
+import { SAVE_KEY, SAVE_SLOT_COUNT, CORE_FRAGMENTS_PER_CORE } from '../config/GameConfig';
+import { CURRENT_SAVE_VERSION, SaveMigrationError, migrateSave, validateMeta } from './SaveMigrations';
+import { SaveCodeError, decodeSaveCode, decodeSaveFile, encodeSaveCode, encodeSaveFile, isSaveFile } from './SaveCodec';
 
 export interface GameSettings {
     sound: boolean;
@@ -18,10 +20,44 @@ export interface GameStats {
     bossesDefeated: number;
 }
 
+/**
+ * Prestige progress - survives prestige resets and new games (unlike the
+ * per-run fields). Also stored under the slot's own meta key.
+ */
+export interface MetaProgress {
+    prestigeCount: number;
+    echoes: number; // Unspent meta currency
+    totalEchoes: number; // Lifetime echoes earned
+    upgrades: Record<string, number>; // Meta upgrade levels
+    runStartStats: GameStats; // Lifetime stats when the current run began
+}
+
+/**
+ * One endless-mode run, from leaving the final sector until death or prestige
+ */
+export interface EndlessRun {
+    startedAt: number;
+    endedAt: number; // 0 while the run is in progress
+    highestSector: number;
+    highestWave: number; // Global wave reached
+    kills: number;
+}
+
+/**
+ * Endless mode state and high scores - survives prestige resets
+ */
+export interface EndlessProgress {
+    active: boolean;
+    currentRun: EndlessRun | null;
+    bestRun: EndlessRun | null; // High score (furthest global wave, then kills)
+    history: EndlessRun[]; // Finished runs, newest first
+}
+
 export interface GameSave {
     // Progress
     scrap: number;
     cores: number;
+    coreFragments: number; // Elite drops; CORE_FRAGMENTS_PER_CORE make a core
     currentSector: number;
     currentWave: number;
     highestSector: number;
@@ -36,17 +72,44 @@ export interface GameSave {
     // Current selections
     activeWeaponMod: string;
     activeBehaviorScript: string;
+    droneLoadout: string[]; // Drone class per bay, in bay order (missing bays fly Combat)
+    activeDroneFormation: string;
 
-    // Statistics
+    // Statistics (lifetime, not reset by prestige)
     stats: GameStats;
 
+    // Prestige
+    meta: MetaProgress;
+
+    // Endless mode
+    endless: EndlessProgress;
+
     // Meta
     lastSaveTime: number;
-    scrapPerSecond: number; // For offline calculation
+    scrapPerSecond: number; // Recent scrap/sec (GameScene sliding window)
     deathCount: number; // For ad frequency tracking
     version: number;
 }
 
+export interface SaveSlotInfo {
+    slot: number;
+    name: string;
+    exists: boolean;
+    corrupt: boolean; // Stored data failed migration/validation
+    sector: number;
+    wave: number;
+    scrap: number;
+    cores: number;
+    prestigeCount: number;
+    playTime: number; // seconds
+    lastSaveTime: number;
+}
+
+export interface SaveImportResult {
+    success: boolean;
+    error?: string;
+}
+
 const DEFAULT_SETTINGS: GameSettings = {
     sound: true,
     soundVolume: 0.5,
@@ -57,6 +120,7 @@ const DEFAULT_SETTINGS: GameSettings = {
 const DEFAULT_SAVE: GameSave = {
     scrap: 0,
     cores: 0,
+    coreFragments: 0,
     currentSector: 0,
     currentWave: 1,
     highestSector: 0,
@@ -65,6 +129,8 @@ const DEFAULT_SAVE: GameSave = {
     upgrades: {},
     activeWeaponMod: 'standard',
     activeBehaviorScript: 'balanced',
+    droneLoadout: [],
+    activeDroneFormation: 'orbit',
     stats: {
         totalKills: 0,
         totalScrapEarned: 0,
@@ -72,46 +138,266 @@ const DEFAULT_SAVE: GameSave = {
         playTime: 0,
         bossesDefeated: 0,
     },
+    meta: {
+        prestigeCount: 0,
+        echoes: 0,
+        totalEchoes: 0,
+        upgrades: {},
+        runStartStats: {
+            totalKills: 0,
+            totalScrapEarned: 0,
+            totalDamageDealt: 0,
+            playTime: 0,
+            bossesDefeated: 0,
+        },
+    },
+    endless: {
+        active: false,
+        currentRun: null,
+        bestRun: null,
+        history: [],
+    },
     lastSaveTime: Date.now(),
     scrapPerSecond: 0,
     deathCount: 0,
-    version: 1,
+    version: CURRENT_SAVE_VERSION,
 };
 
+/**
+ * Fresh default save (nested objects copied so they're never shared)
+ */
+export function createDefaultSave(): GameSave {
+    return {
+        ...DEFAULT_SAVE,
+        upgrades: {},
+        stats: { ...DEFAULT_SAVE.stats },
+        meta: createDefaultMeta(),
+        endless: { ...DEFAULT_SAVE.endless, history: [] },
+        lastSaveTime: Date.now(),
+    };
+}
+
+function createDefaultMeta(): MetaProgress {
+    return {
+        ...DEFAULT_SAVE.meta,
+        upgrades: {},
+        runStartStats: { ...DEFAULT_SAVE.meta.runStartStats },
+    };
+}
+
 const SETTINGS_KEY = 'autoInvaders_settings';
+const ACTIVE_SLOT_KEY = 'autoInvaders_activeSlot';
+const SLOT_NAMES_KEY = 'autoInvaders_slotNames';
+
+/**
+ * Storage key for a slot (slot 0 keeps the original key so old saves carry over)
+ */
+function getSlotKey(slot: number): string {
+    return slot === 0 ? SAVE_KEY : `${SAVE_KEY}_${slot}`;
+}
+
+/**
+ * Storage key for a slot's prestige progress, kept apart from the run so a
+ * new game or a quarantined save doesn't take it along
+ */
+function getMetaKey(slot: number): string {
+    return `${getSlotKey(slot)}_meta`;
+}
+
+function normalizeSlot(slot: number): number {
+    return Math.max(0, Math.min(SAVE_SLOT_COUNT - 1, Math.floor(slot) || 0));
+}
 
 export class SaveManager {
-    private static currentSave: GameSave = { ...DEFAULT_SAVE };
+    private static currentSave: GameSave = createDefaultSave();
+    private static activeSlot: number | null = null;
+    private static loadedSlot: number | null = null; // Slot currentSave was read from
+    private static sandboxed: boolean = false; // Replays play on a throwaway copy
+
+    /**
+     * Get the slot that load/save/reset act on by default
+     */
+    static getActiveSlot(): number {
+        if (this.activeSlot === null) {
+            this.activeSlot = normalizeSlot(Number(localStorage.getItem(ACTIVE_SLOT_KEY) ?? 0));
+        }
+        return this.activeSlot;
+    }
+
+    private static setActiveSlot(slot: number): void {
+        this.activeSlot = slot;
+        localStorage.setItem(ACTIVE_SLOT_KEY, String(slot));
+    }
 
     /**
      * Check if a save exists
      */
-    static hasSave(): boolean {
-        return localStorage.getItem(SAVE_KEY) !== null;
+    static hasSave(slot: number = this.getActiveSlot()): boolean {
+        return localStorage.getItem(getSlotKey(normalizeSlot(slot))) !== null;
+    }
+
+    /**
+     * Load save from localStorage (makes the slot active)
+     */
+    static load(slot: number = this.getActiveSlot()): GameSave {
+        slot = normalizeSlot(slot);
+        this.setActiveSlot(slot);
+        this.loadedSlot = slot;
+
+        const data = localStorage.getItem(getSlotKey(slot));
+        if (data) {
+            try {
+                // Upgrade old schemas and validate every field
+                this.currentSave = migrateSave(JSON.parse(data), DEFAULT_SAVE);
+                return this.currentSave;
+            } catch (e) {
+                console.error('Failed to load save, quarantining it:', e);
+                this.quarantine(slot, data);
+            }
+        }
+        this.currentSave = this.createNewGame(slot);
+        return this.currentSave;
+    }
+
+    /**
+     * Keep a copy of an unreadable save so it isn't lost to the next autosave
+     */
+    private static quarantine(slot: number, raw: string): void {
+        try {
+            localStorage.setItem(`${getSlotKey(slot)}_quarantine`, raw);
+        } catch (e) {
+            console.error('Failed to quarantine save:', e);
+        }
+    }
+
+    /**
+     * Get the raw copy of the last save that failed to load (if any)
+     */
+    static getQuarantinedSave(slot: number = this.getActiveSlot()): string | null {
+        return localStorage.getItem(`${getSlotKey(normalizeSlot(slot))}_quarantine`);
+    }
+
+    /**
+     * Get metadata for every slot (for the slot picker)
+     */
+    static listSlots(): SaveSlotInfo[] {
+        const slots: SaveSlotInfo[] = [];
+        for (let slot = 0; slot < SAVE_SLOT_COUNT; slot++) {
+            slots.push(this.getSlotInfo(slot));
+        }
+        return slots;
     }
 
     /**
-     * Load save from localStorage
+     * Get metadata for one slot without loading it
      */
-    static load(): GameSave {
+    static getSlotInfo(slot: number): SaveSlotInfo {
+        slot = normalizeSlot(slot);
+        const info: SaveSlotInfo = {
+            slot,
+            name: this.getSlotName(slot),
+            exists: false,
+            corrupt: false,
+            sector: 0,
+            wave: 1,
+            scrap: 0,
+            cores: 0,
+            prestigeCount: 0,
+            playTime: 0,
+            lastSaveTime: 0,
+        };
+
+        const data = this.getSlotData(slot);
+        if (!data) return info;
+
+        info.exists = true;
         try {
-            const data = localStorage.getItem(SAVE_KEY);
+            const save = migrateSave(JSON.parse(data), DEFAULT_SAVE);
+            info.sector = save.currentSector;
+            info.wave = save.currentWave;
+            info.scrap = save.scrap;
+            info.cores = save.cores;
+            info.prestigeCount = save.meta.prestigeCount;
+            info.playTime = save.stats.playTime;
+            info.lastSaveTime = save.lastSaveTime;
+        } catch {
+            info.corrupt = true;
+        }
+        return info;
+    }
+
+    /**
+     * Rename a slot (blank names revert to the default)
+     */
+    static renameSlot(slot: number, name: string): void {
+        slot = normalizeSlot(slot);
+        const names = this.getSlotNames();
+        const trimmed = name.trim().slice(0, 24);
+        if (trimmed) {
+            names[slot] = trimmed;
+        } else {
+            delete names[slot];
+        }
+        localStorage.setItem(SLOT_NAMES_KEY, JSON.stringify(names));
+    }
+
+    /**
+     * Copy one slot's save into another (overwrites the target)
+     */
+    static copySlot(from: number, to: number): boolean {
+        from = normalizeSlot(from);
+        to = normalizeSlot(to);
+        const data = this.getSlotData(from);
+        if (from === to || !data) return false;
+
+        localStorage.setItem(getSlotKey(to), data);
+        localStorage.setItem(getMetaKey(to), JSON.stringify(this.readMeta(from)));
+        this.renameSlot(to, `${this.getSlotName(from)} (copy)`);
+        if (to === this.loadedSlot) {
+            this.load(to);
+        }
+        return true;
+    }
+
+    /**
+     * Delete a slot's save, prestige progress and name
+     */
+    static deleteSlot(slot: number): void {
+        slot = normalizeSlot(slot);
+        localStorage.removeItem(getSlotKey(slot));
+        localStorage.removeItem(getMetaKey(slot));
+        this.renameSlot(slot, '');
+        if (slot === this.loadedSlot) {
+            this.currentSave = createDefaultSave();
+            this.loadedSlot = null;
+        }
+    }
+
+    static getSlotName(slot: number): string {
+        return this.getSlotNames()[normalizeSlot(slot)] || `Slot ${normalizeSlot(slot) + 1}`;
+    }
+
+    private static getSlotNames(): Record<number, string> {
+        try {
+            const data = localStorage.getItem(SLOT_NAMES_KEY);
             if (data) {
-                const parsed = JSON.parse(data) as GameSave;
-                // Merge with defaults to handle new fields
-                this.currentSave = {
-                    ...DEFAULT_SAVE,
-                    ...parsed,
-                    upgrades: { ...DEFAULT_SAVE.upgrades, ...parsed.upgrades },
-                    stats: { ...DEFAULT_SAVE.stats, ...parsed.stats },
-                };
-                return this.currentSave;
+                return JSON.parse(data) as Record<number, string>;
             }
         } catch (e) {
-            console.error('Failed to load save:', e);
+            console.error('Failed to load slot names:', e);
         }
-        this.currentSave = { ...DEFAULT_SAVE };
-        return this.currentSave;
+        return {};
+    }
+
+    /**
+     * Raw JSON for a stored slot (the in-memory save is newer for the loaded slot)
+     */
+    private static getSlotData(slot: number): string | null {
+        const data = localStorage.getItem(getSlotKey(slot));
+        if (data && slot === this.loadedSlot) {
+            return JSON.stringify(this.currentSave);
+        }
+        return data;
     }
 
     /**
@@ -124,7 +410,10 @@ export class SaveManager {
                 ...data,
                 lastSaveTime: Date.now(),
             };
-            localStorage.setItem(SAVE_KEY, JSON.stringify(this.currentSave));
+            if (this.sandboxed) return;
+            const slot = this.getActiveSlot();
+            this.writeSlot(slot, this.currentSave);
+            this.loadedSlot = slot;
         } catch (e) {
             console.error('Failed to save:', e);
         }
@@ -137,6 +426,46 @@ export class SaveManager {
         return this.currentSave;
     }
 
+    /**
+     * Swap in a throwaway copy of a save. Until exitSandbox(), save() only
+     * updates memory, so nothing played on it reaches a slot.
+     */
+    static enterSandbox(save: GameSave): void {
+        this.sandboxed = true;
+        this.currentSave = JSON.parse(JSON.stringify(save)) as GameSave;
+    }
+
+    /**
+     * Drop the sandbox copy and reload the active slot
+     */
+    static exitSandbox(): void {
+        if (!this.sandboxed) return;
+        this.sandboxed = false;
+        this.load();
+    }
+
+    static isSandboxed(): boolean {
+        return this.sandboxed;
+    }
+
+    /**
+     * Run fn on a sandboxed copy of a save, then put back whatever was loaded
+     * before (an open sandbox included) without touching storage. Returns
+     * fn's result and the sandbox save as fn left it.
+     */
+    static runInSandbox<T>(save: GameSave, fn: () => T): { result: T; save: GameSave } {
+        const outerSave = this.currentSave;
+        const outerSandboxed = this.sandboxed;
+        this.enterSandbox(save);
+        try {
+            const result = fn();
+            return { result, save: this.currentSave };
+        } finally {
+            this.currentSave = outerSave;
+            this.sandboxed = outerSandboxed;
+        }
+    }
+
     /**
      * Update current save in memory
      */
@@ -145,20 +474,58 @@ export class SaveManager {
     }
 
     /**
-     * Reset to new game
+     * Reset a slot to a new game (makes the slot active). Prestige progress
+     * is kept; deleteSlot() is the way to wipe it.
+     */
+    static reset(slot: number = this.getActiveSlot()): void {
+        slot = normalizeSlot(slot);
+        this.setActiveSlot(slot);
+        this.loadedSlot = slot;
+        this.currentSave = this.createNewGame(slot);
+        this.writeSlot(slot, this.currentSave);
+    }
+
+    /**
+     * Default save carrying the slot's prestige progress into a fresh run
+     */
+    private static createNewGame(slot: number): GameSave {
+        const save = createDefaultSave();
+        save.meta = {
+            ...this.readMeta(slot),
+            runStartStats: { ...DEFAULT_SAVE.meta.runStartStats }, // Lifetime stats start over too
+        };
+        return save;
+    }
+
+    /**
+     * Stored prestige progress for a slot: its meta key, else the save's own
+     * meta (saves from before the key existed), else none
      */
-    static reset(): void {
-        this.currentSave = { ...DEFAULT_SAVE, lastSaveTime: Date.now() };
-        localStorage.setItem(SAVE_KEY, JSON.stringify(this.currentSave));
+    private static readMeta(slot: number): MetaProgress {
+        try {
+            const meta = localStorage.getItem(getMetaKey(slot));
+            if (meta) return validateMeta(JSON.parse(meta), DEFAULT_SAVE.meta);
+
+            const data = localStorage.getItem(getSlotKey(slot));
+            if (data) return migrateSave(JSON.parse(data), DEFAULT_SAVE).meta;
+        } catch (e) {
+            console.error('Failed to read prestige progress:', e);
+        }
+        return createDefaultMeta();
+    }
+
+    private static writeSlot(slot: number, save: GameSave): void {
+        localStorage.setItem(getSlotKey(slot), JSON.stringify(save));
+        localStorage.setItem(getMetaKey(slot), JSON.stringify(save.meta));
     }
 
     /**
-     * Export save as base64 string
+     * Export a slot's save as a checksummed, compressed code
      */
-    static exportSave(): string {
+    static exportSave(slot: number = this.getActiveSlot()): string {
         try {
-            const json = JSON.stringify(this.currentSave);
-            return btoa(json);
+            const json = this.getExportJson(normalizeSlot(slot));
+            return json ? encodeSaveCode(json) : '';
         } catch (e) {
             console.error('Failed to export:', e);
             return '';
@@ -166,52 +533,61 @@ export class SaveManager {
     }
 
     /**
-     * Import save from base64 string
+     * Export a slot's save as .json file contents
      */
-    static importSave(data: string): boolean {
+    static exportSaveFile(slot: number = this.getActiveSlot()): string {
         try {
-            const json = atob(data);
-            const parsed = JSON.parse(json) as GameSave;
-
-            // Basic validation
-            if (typeof parsed.scrap !== 'number' || typeof parsed.currentWave !== 'number') {
-                return false;
-            }
-
-            this.currentSave = {
-                ...DEFAULT_SAVE,
-                ...parsed,
-                upgrades: { ...DEFAULT_SAVE.upgrades, ...parsed.upgrades },
-                stats: { ...DEFAULT_SAVE.stats, ...parsed.stats },
-            };
-            localStorage.setItem(SAVE_KEY, JSON.stringify(this.currentSave));
-            return true;
+            const json = this.getExportJson(normalizeSlot(slot));
+            return json ? encodeSaveFile(json) : '';
         } catch (e) {
-            console.error('Failed to import:', e);
-            return false;
+            console.error('Failed to export:', e);
+            return '';
         }
     }
 
+    private static getExportJson(slot: number): string | null {
+        return slot === this.loadedSlot
+            ? JSON.stringify(this.currentSave)
+            : localStorage.getItem(getSlotKey(slot));
+    }
+
     /**
-     * Calculate offline progress
-     * Returns scrap earned while away (capped at MAX_OFFLINE_HOURS)
+     * Import a save code or .json file into a slot
      */
-    static calculateOfflineProgress(): number {
-        const save = this.load();
-        const now = Date.now();
-        const elapsed = (now - save.lastSaveTime) / 1000; // seconds
-
-        if (elapsed < 60 || save.scrapPerSecond <= 0) {
-            return 0; // Less than 1 minute or no passive income
-        }
+    static importSave(data: string, slot: number = this.getActiveSlot()): boolean {
+        return this.tryImportSave(data, slot).success;
+    }
 
-        const cappedSeconds = Math.min(elapsed, MAX_OFFLINE_HOURS * 3600);
-        const offlineScrap = save.scrapPerSecond * cappedSeconds;
+    /**
+     * Import a save code or .json file, with a player-facing error on failure
+     */
+    static tryImportSave(data: string, slot: number = this.getActiveSlot()): SaveImportResult {
+        try {
+            const json = isSaveFile(data) ? decodeSaveFile(data) : decodeSaveCode(data);
+            const parsed = JSON.parse(json) as Record<string, unknown>;
 
-        // Update save with new scrap
-        this.save({ scrap: save.scrap + offlineScrap });
+            // Reject blobs that aren't saves at all
+            if (typeof parsed.scrap !== 'number' || typeof parsed.currentWave !== 'number') {
+                return { success: false, error: 'That data is not an Auto Invaders save.' };
+            }
 
-        return offlineScrap;
+            const imported = migrateSave(parsed, DEFAULT_SAVE);
+            slot = normalizeSlot(slot);
+            this.writeSlot(slot, imported);
+            if (slot === this.loadedSlot) {
+                this.currentSave = imported;
+            }
+            return { success: true };
+        } catch (e) {
+            console.error('Failed to import:', e);
+            if (e instanceof SaveCodeError) {
+                return { success: false, error: e.message };
+            }
+            if (e instanceof SaveMigrationError) {
+                return { success: false, error: `Save data is invalid: ${e.message}` };
+            }
+            return { success: false, error: 'Save data could not be read.' };
+        }
     }
 
     /**
@@ -290,6 +666,17 @@ export class SaveManager {
         this.currentSave.cores += amount;
     }
 
+    /**
+     * Add core fragments, assembling full cores. Returns the cores assembled.
+     */
+    static addCoreFragments(amount: number): number {
+        const total = this.currentSave.coreFragments + amount;
+        const cores = Math.floor(total / CORE_FRAGMENTS_PER_CORE);
+        this.currentSave.coreFragments = total % CORE_FRAGMENTS_PER_CORE;
+        this.currentSave.cores += cores;
+        return cores;
+    }
+
     /**
      * Spend cores
      */
@@ -306,6 +693,9 @@ export class SaveManager {
      */
     static recordKill(): void {
         this.currentSave.stats.totalKills++;
+        if (this.currentSave.endless.currentRun) {
+            this.currentSave.endless.currentRun.kills++;
+        }
     }
 
     /**
@@ -0,0 +1,326 @@
+/**
+ * SaveMigrations - Versioned save schema upgrades and field validation
+ *
+ * Every persisted or imported save goes through migrateSave(): the raw JSON is
+ * upgraded one version at a time, then each field is validated against the
+ * current schema. Anything that can't be repaired throws SaveMigrationError.
+ */
+import {
+    UPGRADES,
+    META_UPGRADES,
+    WEAPON_MODS,
+    BEHAVIOR_SCRIPTS,
+    DRONE_CLASSES,
+    DRONE_FORMATIONS,
+    WAVES_PER_SECTOR,
+    ENDLESS_HISTORY_LENGTH,
+    CORE_FRAGMENTS_PER_CORE,
+    MAX_DRONE_BAYS,
+} from '../config/GameConfig';
+import type { EndlessProgress, EndlessRun, GameSave, GameStats, MetaProgress } from './SaveManager';
+
+export const CURRENT_SAVE_VERSION = 6;
+
+export type RawSave = Record<string, unknown>;
+
+export interface SaveMigration {
+    from: number; // Migrates a save at this version to from + 1
+    description: string;
+    migrate: (save: RawSave) => RawSave;
+}
+
+export class SaveMigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SaveMigrationError';
+    }
+}
+
+/**
+ * Ordered migration steps. To change the schema: bump CURRENT_SAVE_VERSION,
+ * append a step with from = previous version, and update validateSave().
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+    {
+        from: 0,
+        description: 'Stamp unversioned saves as v1',
+        migrate: (save) => ({ ...save, version: 1 }),
+    },
+    {
+        from: 1,
+        description: 'Add prestige meta progress (v1 stats all belong to the current run)',
+        migrate: (save) => ({
+            ...save,
+            meta: { prestigeCount: 0, echoes: 0, totalEchoes: 0, upgrades: {} },
+            version: 2,
+        }),
+    },
+    {
+        from: 2,
+        description: 'Add endless mode progress',
+        migrate: (save) => ({
+            ...save,
+            endless: { active: false, currentRun: null, bestRun: null, history: [] },
+            version: 3,
+        }),
+    },
+    {
+        from: 3,
+        description: 'Add core fragments from elite kills',
+        migrate: (save) => ({ ...save, coreFragments: 0, version: 4 }),
+    },
+    {
+        from: 4,
+        description: 'Add drone class loadout (existing drones stay Combat)',
+        migrate: (save) => ({ ...save, droneLoadout: [], version: 5 }),
+    },
+    {
+        from: 5,
+        description: 'Add drone formation (drones keep orbiting)',
+        migrate: (save) => ({ ...save, activeDroneFormation: 'orbit', version: 6 }),
+    },
+];
+
+/**
+ * Run every pending migration on a raw save object (does not validate)
+ */
+export function runMigrations(raw: RawSave): RawSave {
+    let save = raw;
+    let version = getSaveVersion(save);
+
+    if (version > CURRENT_SAVE_VERSION) {
+        throw new SaveMigrationError(`Save version ${version} is newer than supported version ${CURRENT_SAVE_VERSION}`);
+    }
+
+    while (version < CURRENT_SAVE_VERSION) {
+        const step = SAVE_MIGRATIONS.find(m => m.from === version);
+        if (!step) {
+            throw new SaveMigrationError(`No migration from save version ${version}`);
+        }
+
+        save = step.migrate({ ...save });
+        const next = getSaveVersion(save);
+        if (next !== version + 1) {
+            throw new SaveMigrationError(`Migration from v${version} produced v${next}`);
+        }
+        version = next;
+    }
+
+    return save;
+}
+
+/**
+ * Migrate and validate parsed save JSON into a complete GameSave
+ */
+export function migrateSave(raw: unknown, defaults: GameSave): GameSave {
+    if (!isRecord(raw)) {
+        throw new SaveMigrationError('Save data is not an object');
+    }
+
+    return validateSave(runMigrations(raw), defaults);
+}
+
+/**
+ * Validate a current-version save. Missing fields fall back to defaults and
+ * out-of-range values are clamped; wrong types are rejected.
+ * Sectors are unbounded above because endless mode keeps generating them.
+ */
+export function validateSave(save: RawSave, defaults: GameSave): GameSave {
+    const currentSector = readInt(save, 'currentSector', defaults.currentSector, 0);
+    const playerMaxHP = readNumber(save, 'playerMaxHP', defaults.playerMaxHP, 1);
+
+    return {
+        scrap: readNumber(save, 'scrap', defaults.scrap, 0),
+        cores: readInt(save, 'cores', defaults.cores, 0),
+        coreFragments: readInt(save, 'coreFragments', defaults.coreFragments, 0, CORE_FRAGMENTS_PER_CORE - 1),
+        currentSector,
+        currentWave: readInt(save, 'currentWave', defaults.currentWave, 1, WAVES_PER_SECTOR + 1), // +1 is the boss wave
+        highestSector: Math.max(currentSector, readInt(save, 'highestSector', defaults.highestSector, 0)),
+        playerHP: readNumber(save, 'playerHP', defaults.playerHP, 0, playerMaxHP),
+        playerMaxHP,
+        upgrades: validateUpgrades(save.upgrades),
+        activeWeaponMod: readChoice(save, 'activeWeaponMod', defaults.activeWeaponMod, WEAPON_MODS.map(m => m.id)),
+        activeBehaviorScript: readChoice(save, 'activeBehaviorScript', defaults.activeBehaviorScript, BEHAVIOR_SCRIPTS.map(s => s.id)),
+        droneLoadout: validateDroneLoadout(save.droneLoadout),
+        activeDroneFormation: readChoice(save, 'activeDroneFormation', defaults.activeDroneFormation, DRONE_FORMATIONS.map(f => f.id)),
+        stats: validateStats(save.stats, defaults.stats),
+        meta: validateMeta(save.meta, defaults.meta),
+        endless: validateEndless(save.endless),
+        lastSaveTime: readNumber(save, 'lastSaveTime', Date.now(), 0),
+        scrapPerSecond: readNumber(save, 'scrapPerSecond', defaults.scrapPerSecond, 0),
+        deathCount: readInt(save, 'deathCount', defaults.deathCount, 0),
+        version: CURRENT_SAVE_VERSION,
+    };
+}
+
+function validateUpgrades(
+    value: unknown,
+    definitions: { id: string; maxLevel: number }[] = UPGRADES,
+    field: string = 'upgrades'
+): Record<string, number> {
+    if (value === undefined) return {};
+    if (!isRecord(value)) {
+        throw new SaveMigrationError(`${field} must be an object`);
+    }
+
+    const upgrades: Record<string, number> = {};
+    Object.entries(value).forEach(([id, level]) => {
+        const definition = definitions.find(u => u.id === id);
+        if (!definition) {
+            console.warn(`Dropping unknown upgrade from save: ${id}`);
+            return;
+        }
+        if (typeof level !== 'number' || !Number.isFinite(level)) {
+            throw new SaveMigrationError(`Upgrade ${id} level must be a number`);
+        }
+
+        const clamped = clamp(Math.floor(level), 0, definition.maxLevel);
+        if (clamped > 0) {
+            upgrades[id] = clamped;
+        }
+    });
+
+    return upgrades;
+}
+
+function validateDroneLoadout(value: unknown): string[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+        throw new SaveMigrationError('droneLoadout must be an array');
+    }
+
+    // Unknown classes fall back to Combat, like unknown weapon mods
+    const allowed = DRONE_CLASSES.map(c => c.id as string);
+    return value.slice(0, MAX_DRONE_BAYS).map((id, i) => {
+        if (typeof id !== 'string') {
+            throw new SaveMigrationError(`droneLoadout[${i}] must be a string`);
+        }
+        return allowed.includes(id) ? id : 'combat';
+    });
+}
+
+function validateStats(value: unknown, defaults: GameStats, field: string = 'stats'): GameStats {
+    if (value === undefined) return { ...defaults };
+    if (!isRecord(value)) {
+        throw new SaveMigrationError(`${field} must be an object`);
+    }
+
+    const prefix = `${field}.`;
+    return {
+        totalKills: readInt(value, 'totalKills', defaults.totalKills, 0, Infinity, prefix),
+        totalScrapEarned: readNumber(value, 'totalScrapEarned', defaults.totalScrapEarned, 0, Infinity, prefix),
+        totalDamageDealt: readNumber(value, 'totalDamageDealt', defaults.totalDamageDealt, 0, Infinity, prefix),
+        playTime: readNumber(value, 'playTime', defaults.playTime, 0, Infinity, prefix),
+        bossesDefeated: readInt(value, 'bossesDefeated', defaults.bossesDefeated, 0, Infinity, prefix),
+    };
+}
+
+export function validateMeta(value: unknown, defaults: MetaProgress): MetaProgress {
+    if (value === undefined) {
+        return { ...defaults, upgrades: {}, runStartStats: { ...defaults.runStartStats } };
+    }
+    if (!isRecord(value)) {
+        throw new SaveMigrationError('meta must be an object');
+    }
+
+    return {
+        prestigeCount: readInt(value, 'prestigeCount', defaults.prestigeCount, 0, Infinity, 'meta.'),
+        echoes: readInt(value, 'echoes', defaults.echoes, 0, Infinity, 'meta.'),
+        totalEchoes: readInt(value, 'totalEchoes', defaults.totalEchoes, 0, Infinity, 'meta.'),
+        upgrades: validateUpgrades(value.upgrades, META_UPGRADES, 'meta.upgrades'),
+        runStartStats: validateStats(value.runStartStats, defaults.runStartStats, 'meta.runStartStats'),
+    };
+}
+
+function validateEndless(value: unknown): EndlessProgress {
+    if (value === undefined) {
+        return { active: false, currentRun: null, bestRun: null, history: [] };
+    }
+    if (!isRecord(value)) {
+        throw new SaveMigrationError('endless must be an object');
+    }
+    if (value.history !== undefined && !Array.isArray(value.history)) {
+        throw new SaveMigrationError('endless.history must be an array');
+    }
+
+    const currentRun = validateEndlessRun(value.currentRun, 'endless.currentRun');
+    const history = (value.history ?? []) as unknown[];
+    return {
+        // An active flag without a run to record into can't be resumed
+        active: value.active === true && currentRun !== null,
+        currentRun,
+        bestRun: validateEndlessRun(value.bestRun, 'endless.bestRun'),
+        history: history
+            .slice(0, ENDLESS_HISTORY_LENGTH)
+            .map((run, i) => validateEndlessRun(run, `endless.history[${i}]`))
+            .filter((run): run is EndlessRun => run !== null),
+    };
+}
+
+function validateEndlessRun(value: unknown, field: string): EndlessRun | null {
+    if (value === undefined || value === null) return null;
+    if (!isRecord(value)) {
+        throw new SaveMigrationError(`${field} must be an object`);
+    }
+
+    const prefix = `${field}.`;
+    return {
+        startedAt: readNumber(value, 'startedAt', 0, 0, Infinity, prefix),
+        endedAt: readNumber(value, 'endedAt', 0, 0, Infinity, prefix),
+        highestSector: readInt(value, 'highestSector', 0, 0, Infinity, prefix),
+        highestWave: readInt(value, 'highestWave', 0, 0, Infinity, prefix),
+        kills: readInt(value, 'kills', 0, 0, Infinity, prefix),
+    };
+}
+
+function getSaveVersion(save: RawSave): number {
+    if (save.version === undefined) return 0;
+    if (typeof save.version !== 'number' || !Number.isInteger(save.version) || save.version < 0) {
+        throw new SaveMigrationError(`Invalid save version: ${String(save.version)}`);
+    }
+    return save.version;
+}
+
+function readNumber(
+    source: RawSave,
+    key: string,
+    fallback: number,
+    min: number = -Infinity,
+    max: number = Infinity,
+    prefix: string = ''
+): number {
+    const value = source[key];
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new SaveMigrationError(`${prefix}${key} must be a finite number`);
+    }
+    return clamp(value, min, max);
+}
+
+function readInt(
+    source: RawSave,
+    key: string,
+    fallback: number,
+    min: number = -Infinity,
+    max: number = Infinity,
+    prefix: string = ''
+): number {
+    return Math.floor(readNumber(source, key, fallback, min, max, prefix));
+}
+
+function readChoice(source: RawSave, key: string, fallback: string, allowed: string[]): string {
+    const value = source[key];
+    if (value === undefined) return fallback;
+    if (typeof value !== 'string') {
+        throw new SaveMigrationError(`${key} must be a string`);
+    }
+    return allowed.includes(value) ? value : fallback;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+function isRecord(value: unknown): value is RawSave {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,103 @@
+/**
+ * SeededRandom - Deterministic RNG for gameplay randomness (spawns, crits, enemy fire)
+ *
+ * mulberry32 over a 32-bit state. The run seed plus a stream key (e.g. sector
+ * and wave) fully determines every roll, so a wave can be reproduced from its
+ * seed. Cosmetic effects (stars, particles) should keep using Phaser.Math.
+ */
+
+export class SeededRandom {
+    private seed: number;
+    private state: number;
+
+    constructor(seed: number = SeededRandom.createSeed()) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /**
+     * Fresh seed for a new run (the only non-deterministic call in here)
+     */
+    static createSeed(): number {
+        return Math.floor(Math.random() * 0x100000000) >>> 0;
+    }
+
+    getSeed(): number {
+        return this.seed;
+    }
+
+    /**
+     * Current stream position, for snapshotting and restoring mid-wave
+     */
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+
+    /**
+     * Restart the stream for a key (e.g. reset(sector, wave)). The same seed and
+     * key always give the same sequence, regardless of earlier rolls.
+     */
+    reset(...key: number[]): void {
+        this.state = deriveSeed(this.seed, ...key);
+    }
+
+    /**
+     * Float in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    }
+
+    /**
+     * Integer in [min, max] (inclusive, like Phaser.Math.Between)
+     */
+    between(min: number, max: number): number {
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+
+    /**
+     * Float in [min, max)
+     */
+    floatBetween(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * True with probability p
+     */
+    chance(p: number): boolean {
+        return this.next() < p;
+    }
+
+    /**
+     * Random element of an array (undefined if empty)
+     */
+    pick<T>(items: T[]): T | undefined {
+        if (items.length === 0) return undefined;
+        return items[Math.floor(this.next() * items.length)];
+    }
+}
+
+/**
+ * Mix a seed with a key into a new 32-bit seed (murmur3 finalizer per part)
+ */
+export function deriveSeed(seed: number, ...key: number[]): number {
+    let hash = seed >>> 0;
+    key.forEach(part => {
+        hash = Math.imul(hash ^ (part >>> 0), 0x9e3779b1);
+        hash ^= hash >>> 16;
+        hash = Math.imul(hash, 0x85ebca6b);
+        hash ^= hash >>> 13;
+        hash = Math.imul(hash, 0xc2b2ae35);
+        hash ^= hash >>> 16;
+    });
+    return hash >>> 0;
+}
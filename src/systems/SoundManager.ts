@@ -7,6 +7,7 @@ export class SoundManager {
     private ctx: AudioContext | null = null;
     private masterGain: GainNode | null = null;
     private initialized: boolean = false;
+    private muted: boolean = false; // Silenced while a replay fast-forwards
 
     constructor() {
         // Initialize on first user interaction usually, but we'll try here
@@ -34,6 +35,10 @@ export class SoundManager {
         this.masterGain.gain.value = volume > 0 ? Math.pow(volume, 2) : 0;
     }
 
+    public setMuted(muted: boolean): void {
+        this.muted = muted;
+    }
+
     public resume(): void {
         if (this.ctx && this.ctx.state === 'suspended') {
             this.ctx.resume();
@@ -41,7 +46,7 @@ export class SoundManager {
     }
 
     private getAudioNodes(): { ctx: AudioContext; masterGain: GainNode } | null {
-        if (!this.initialized || !this.ctx || !this.masterGain) return null;
+        if (!this.initialized || !this.ctx || !this.masterGain || this.muted) return null;
 
         const settings = SaveManager.getSettings();
         this.setVolume(settings.sound ? settings.soundVolume : 0);
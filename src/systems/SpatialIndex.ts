@@ -0,0 +1,180 @@
+/**
+ * SpatialIndex - Per-frame uniform grids for AI target and threat queries
+ *
+ * GameScene rebuilds the index once a frame from the enemy and enemy bullet
+ * groups. Autopilot, drones and the jammer field then query nearby cells
+ * instead of scanning every group child.
+ *
+ * Entities outside the playfield (spawning above it, or leaving it) are
+ * clamped into the edge cells, so they can still be found.
+ */
+import { GAME_WIDTH, GAME_HEIGHT, SPATIAL_CELL_SIZE } from '../config/GameConfig';
+import type { MarchFormation } from './MarchFormation';
+
+export interface SpatialEntry {
+    x: number;
+    y: number;
+    active: boolean;
+}
+
+// What the AI needs to know about an enemy
+export interface TargetEntity extends SpatialEntry {
+    enemyType: string;
+    scrapValue: number;
+    marchFormation: MarchFormation | null;
+    isCloaked(): boolean;
+    predictPosition(ms: number): { x: number; y: number };
+}
+
+// What the AI needs to know about an enemy bullet
+export interface ThreatEntity extends SpatialEntry {
+    getVelocity(): { x: number; y: number };
+    recycle(): void; // Interceptor drones shoot it down
+}
+
+type Filter<T> = (item: T) => boolean;
+
+export class SpatialGrid<T extends SpatialEntry> {
+    private readonly cellSize: number;
+    private readonly cols: number;
+    private readonly rows: number;
+    private cells: T[][];
+    private items: T[] = []; // Insertion order, so random picks stay deterministic
+
+    constructor(cellSize: number = SPATIAL_CELL_SIZE, width: number = GAME_WIDTH, height: number = GAME_HEIGHT) {
+        this.cellSize = cellSize;
+        this.cols = Math.max(1, Math.ceil(width / cellSize));
+        this.rows = Math.max(1, Math.ceil(height / cellSize));
+        this.cells = Array.from({ length: this.cols * this.rows }, () => []);
+    }
+
+    /**
+     * Replace the contents with the active items of a list
+     */
+    rebuild(items: readonly T[]): void {
+        this.cells.forEach(cell => (cell.length = 0));
+        this.items.length = 0;
+        items.forEach(item => {
+            if (!item.active) return;
+            this.items.push(item);
+            this.cells[this.getRow(item.y) * this.cols + this.getCol(item.x)].push(item);
+        });
+    }
+
+    /**
+     * Everything indexed this frame that is still active
+     */
+    getAll(filter?: Filter<T>): T[] {
+        return this.items.filter(item => item.active && (!filter || filter(item)));
+    }
+
+    /**
+     * Closest item to a point, searching outwards ring by ring
+     */
+    nearest(x: number, y: number, filter?: Filter<T>, maxDistance: number = Infinity): T | null {
+        const col = this.getCol(x);
+        const row = this.getRow(y);
+        const maxRing = Math.max(this.cols, this.rows);
+
+        let best: T | null = null;
+        let bestDistSq = maxDistance * maxDistance;
+
+        for (let ring = 0; ring <= maxRing; ring++) {
+            // Anything in this ring or beyond is at least (ring - 1) cells away
+            const minDist = (ring - 1) * this.cellSize;
+            if (minDist > 0 && minDist * minDist > bestDistSq) break;
+
+            this.forEachInRing(col, row, ring, item => {
+                if (!item.active || (filter && !filter(item))) return;
+                const distSq = (item.x - x) ** 2 + (item.y - y) ** 2;
+                if (distSq < bestDistSq) {
+                    bestDistSq = distSq;
+                    best = item;
+                }
+            });
+        }
+
+        return best;
+    }
+
+    /**
+     * Items within a radius of a point
+     */
+    withinRadius(x: number, y: number, radius: number, filter?: Filter<T>): T[] {
+        const radiusSq = radius * radius;
+        return this.inRect(x - radius, y - radius, x + radius, y + radius, item =>
+            (item.x - x) ** 2 + (item.y - y) ** 2 <= radiusSq && (!filter || filter(item))
+        );
+    }
+
+    /**
+     * Items in a vertical band around x between two heights
+     */
+    inColumn(x: number, halfWidth: number, minY: number, maxY: number, filter?: Filter<T>): T[] {
+        return this.inRect(x - halfWidth, minY, x + halfWidth, maxY, filter);
+    }
+
+    /**
+     * The item furthest down the screen, scanning rows from the bottom
+     */
+    lowest(filter?: Filter<T>): T | null {
+        for (let row = this.rows - 1; row >= 0; row--) {
+            let best: T | null = null;
+            for (let col = 0; col < this.cols; col++) {
+                this.cells[row * this.cols + col].forEach(item => {
+                    if (!item.active || (filter && !filter(item))) return;
+                    if (!best || item.y > best.y) best = item;
+                });
+            }
+            if (best) return best;
+        }
+        return null;
+    }
+
+    private inRect(left: number, top: number, right: number, bottom: number, filter?: Filter<T>): T[] {
+        const found: T[] = [];
+        for (let row = this.getRow(top); row <= this.getRow(bottom); row++) {
+            for (let col = this.getCol(left); col <= this.getCol(right); col++) {
+                this.cells[row * this.cols + col].forEach(item => {
+                    if (!item.active || item.x < left || item.x > right || item.y < top || item.y > bottom) return;
+                    if (!filter || filter(item)) found.push(item);
+                });
+            }
+        }
+        return found;
+    }
+
+    private forEachInRing(col: number, row: number, ring: number, fn: (item: T) => void): void {
+        for (let r = row - ring; r <= row + ring; r++) {
+            if (r < 0 || r >= this.rows) continue;
+            for (let c = col - ring; c <= col + ring; c++) {
+                if (c < 0 || c >= this.cols) continue;
+                // Only the ring's border; the inside was searched already
+                if (Math.abs(r - row) !== ring && Math.abs(c - col) !== ring) continue;
+                this.cells[r * this.cols + c].forEach(fn);
+            }
+        }
+    }
+
+    private getCol(x: number): number {
+        return Math.min(this.cols - 1, Math.max(0, Math.floor(x / this.cellSize)));
+    }
+
+    private getRow(y: number): number {
+        return Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+    }
+}
+
+/**
+ * The scene indexes its own Enemy and Bullet classes; AI consumers only see
+ * the TargetEntity and ThreatEntity parts
+ */
+export class SpatialIndex<E extends TargetEntity = TargetEntity, B extends ThreatEntity = ThreatEntity> {
+    readonly enemies = new SpatialGrid<E>();
+    readonly enemyBullets = new SpatialGrid<B>();
+
+    rebuild(enemies: readonly E[], enemyBullets: readonly B[]): void {
+        this.enemies.rebuild(enemies);
+        this.enemyBullets.rebuild(enemyBullets);
+    }
+}
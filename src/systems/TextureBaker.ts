@@ -0,0 +1,183 @@
+/**
+ * TextureBaker - Draws projectile and effect sprites once into textures
+ *
+ * Pooled bullets and effects only swap textures and tints, instead of
+ * redrawing a Graphics object every time they fire. Effect textures are
+ * white so they can be tinted to any colour.
+ */
+import type Phaser from 'phaser';
+import type { EnemyBulletShape } from '../config/GameConfig';
+
+// One per weapon mod (see WEAPON_MODS), plus drone shots and heavy drone missiles
+export type PlayerBulletVariant =
+    | 'standard'
+    | 'pierce'
+    | 'scatter'
+    | 'homing'
+    | 'chain'
+    | 'ricochet'
+    | 'beam'
+    | 'railgun'
+    | 'drone'
+    | 'missile';
+export type EffectTexture = 'fx-dot' | 'fx-spark' | 'fx-burst' | 'fx-line' | 'fx-ring';
+
+// Bullet, muzzle flash and hit effect colour per variant
+export const PLAYER_BULLET_COLORS: Record<PlayerBulletVariant, number> = {
+    standard: 0x44ddff,
+    pierce: 0x88ccff,
+    scatter: 0xffdd44,
+    homing: 0xffaa33,
+    chain: 0xaa88ff,
+    ricochet: 0x66ff99,
+    beam: 0xff55cc,
+    railgun: 0xddf6ff,
+    drone: 0xff8844,
+    missile: 0xff4466,
+};
+
+/**
+ * Bullet variant for a weapon mod id (unknown ids look standard)
+ */
+export function getPlayerBulletVariant(modId: string): PlayerBulletVariant {
+    return modId in PLAYER_BULLET_COLORS ? (modId as PlayerBulletVariant) : 'standard';
+}
+
+export function getPlayerBulletTexture(variant: PlayerBulletVariant): string {
+    return `bullet-${variant}`;
+}
+
+export function getEnemyBulletTexture(shape: EnemyBulletShape): string {
+    return `enemy-bullet-${shape}`;
+}
+
+/**
+ * Bake every texture the pools use. Textures belong to the game, so this
+ * only draws on the first call.
+ */
+export function bakeTextures(scene: Phaser.Scene): void {
+    if (scene.textures.exists(getPlayerBulletTexture('standard'))) return;
+
+    const g = scene.make.graphics({}, false);
+    const bake = (key: string, width: number, height: number, draw: () => void): void => {
+        // Draw around (0, 0) so the texture's centre is the sprite's origin
+        g.clear();
+        g.translateCanvas(width / 2, height / 2);
+        draw();
+        g.generateTexture(key, width, height);
+        g.translateCanvas(-width / 2, -height / 2);
+    };
+
+    // Player bullets: a core with a soft glow (scaled by damage at fire time)
+    const playerBullets: [PlayerBulletVariant, number, number, number][] = [
+        ['standard', 0x44ddff, 4, 16],
+        ['pierce', 0x88ccff, 3, 20],
+        ['scatter', 0xffdd44, 5, 12],
+        ['beam', 0xff55cc, 2, 24],
+        ['railgun', 0xffffff, 3, 30],
+        ['drone', 0xffaa66, 3, 12],
+    ];
+    playerBullets.forEach(([variant, glow, width, height]) => {
+        bake(getPlayerBulletTexture(variant), width * 2, height + 6, () => {
+            g.fillStyle(glow, 0.35);
+            g.fillRect(-width, -height / 2 - 3, width * 2, height + 6);
+            g.fillStyle(PLAYER_BULLET_COLORS[variant], 1);
+            g.fillRect(-width / 2, -height / 2, width, height);
+        });
+    });
+
+    // Player bullets point up; homing missiles are rotated to their heading
+    bake(getPlayerBulletTexture('homing'), 10, 22, () => {
+        g.fillStyle(0xff5522, 0.5);
+        g.fillTriangle(-3, 5, 3, 5, 0, 11);
+        g.fillStyle(0xeeeeee, 1);
+        g.fillRect(-2.5, -6, 5, 11);
+        g.fillStyle(PLAYER_BULLET_COLORS.homing, 1);
+        g.fillTriangle(-2.5, -6, 2.5, -6, 0, -10);
+        g.fillRect(-4.5, 2, 2, 4);
+        g.fillRect(2.5, 2, 2, 4);
+    });
+    bake(getPlayerBulletTexture('missile'), 12, 26, () => {
+        g.fillStyle(0xff8844, 0.5);
+        g.fillTriangle(-4, 6, 4, 6, 0, 13);
+        g.fillStyle(0xcccccc, 1);
+        g.fillRect(-3, -7, 6, 13);
+        g.fillStyle(PLAYER_BULLET_COLORS.missile, 1);
+        g.fillTriangle(-3, -7, 3, -7, 0, -12);
+        g.fillRect(-5.5, 2, 2.5, 5);
+        g.fillRect(3, 2, 2.5, 5);
+    });
+    bake(getPlayerBulletTexture('chain'), 16, 16, () => {
+        g.fillStyle(PLAYER_BULLET_COLORS.chain, 0.35);
+        g.fillCircle(0, 0, 8);
+        g.fillStyle(0xffffff, 1);
+        g.fillCircle(0, 0, 3);
+        g.lineStyle(1, PLAYER_BULLET_COLORS.chain, 1);
+        g.lineBetween(-6, -2, -2, 1);
+        g.lineBetween(2, -1, 6, 2);
+    });
+    bake(getPlayerBulletTexture('ricochet'), 12, 14, () => {
+        g.fillStyle(PLAYER_BULLET_COLORS.ricochet, 0.35);
+        g.fillCircle(0, 0, 6);
+        g.fillStyle(PLAYER_BULLET_COLORS.ricochet, 1);
+        g.fillTriangle(0, -6, 4, 0, -4, 0);
+        g.fillTriangle(0, 6, 4, 0, -4, 0);
+    });
+
+    // Enemy bullets point down; Bullet rotates them to their heading
+    bake(getEnemyBulletTexture('bolt'), 6, 16, () => {
+        g.fillStyle(0xff6644, 0.3);
+        g.fillRect(-3, -8, 6, 16);
+        g.fillStyle(0xff6644, 1);
+        g.fillRect(-2, -6, 4, 12);
+    });
+    bake(getEnemyBulletTexture('orb'), 14, 14, () => {
+        g.fillStyle(0xff44aa, 0.3);
+        g.fillCircle(0, 0, 7);
+        g.fillStyle(0xff66cc, 1);
+        g.fillCircle(0, 0, 4);
+    });
+    bake(getEnemyBulletTexture('missile'), 10, 28, () => {
+        // Nose points down, exhaust trails up
+        g.fillStyle(0xffaa33, 0.5);
+        g.fillTriangle(-3, -7, 3, -7, 0, -14);
+        g.fillStyle(0xdddddd, 1);
+        g.fillRect(-2.5, -7, 5, 12);
+        g.fillStyle(0xff4422, 1);
+        g.fillTriangle(-2.5, 5, 2.5, 5, 0, 9);
+        g.fillRect(-4.5, -7, 2, 4);
+        g.fillRect(2.5, -7, 2, 4);
+    });
+
+    // Effects
+    bake('fx-dot', 16, 16, () => {
+        g.fillStyle(0xffffff, 1);
+        g.fillCircle(0, 0, 8);
+    });
+    bake('fx-spark', 14, 14, () => {
+        g.fillStyle(0xffffff, 0.8);
+        g.fillCircle(0, 0, 3);
+        g.lineStyle(1, 0xffffff, 0.6);
+        g.lineBetween(-6, 0, 6, 0);
+        g.lineBetween(0, -6, 0, 6);
+    });
+    bake('fx-line', 4, 4, () => {
+        // Stretched and rotated into beams and arcs
+        g.fillStyle(0xffffff, 1);
+        g.fillRect(-2, -2, 4, 4);
+    });
+    bake('fx-burst', 44, 44, () => {
+        g.lineStyle(2, 0xffffff, 0.9);
+        for (let i = 0; i < 6; i++) {
+            const angle = (i / 6) * Math.PI * 2;
+            g.lineBetween(Math.cos(angle) * 10, Math.sin(angle) * 10, Math.cos(angle) * 20, Math.sin(angle) * 20);
+        }
+    });
+    bake('fx-ring', 68, 68, () => {
+        // Scaled up into shockwaves (heat vent)
+        g.lineStyle(3, 0xffffff, 1);
+        g.strokeCircle(0, 0, 32);
+    });
+
+    g.destroy();
+}
@@ -0,0 +1,150 @@
+/**
+ * TrajectoryPlanner - Autopilot v4's predictive dodging
+ *
+ * Simulates the next AUTOPILOT_V4_HORIZON ms of enemy bullets and enemies
+ * for a row of candidate positions along the ship's line. Each candidate
+ * scores on survival (hits the ship would take while flying there) and on
+ * damage potential (targets its shots would meet). The best one wins.
+ *
+ * Bullets fly straight at their current velocity; enemies follow their own
+ * movement prediction (see Enemy.predictPosition).
+ */
+import {
+    GAME_WIDTH,
+    AUTOPILOT_V4_HORIZON,
+    AUTOPILOT_V4_TIME_STEP,
+    AUTOPILOT_V4_CANDIDATE_SPACING,
+    AUTOPILOT_V4_HIT_MARGIN,
+    AUTOPILOT_V4_AIM_TOLERANCE,
+    AUTOPILOT_V4_HIT_PENALTY,
+    AUTOPILOT_V4_TRAVEL_PENALTY,
+} from '../config/GameConfig';
+
+export interface PlannedBullet {
+    x: number;
+    y: number;
+    vx: number; // px/s
+    vy: number;
+}
+
+export interface PlannedEnemy {
+    x: number;
+    y: number;
+    value: number; // How much the autopilot wants to shoot it
+    predict(ms: number): { x: number; y: number };
+}
+
+export interface PlanInput {
+    shipX: number;
+    shipY: number;
+    moveSpeed: number; // px/s
+    bulletSpeed: number; // px/s of the ship's own shots
+    evasion: number; // Behavior script multiplier on the hit penalty
+    bullets: PlannedBullet[];
+    enemies: PlannedEnemy[];
+}
+
+export interface TrajectoryPlan {
+    x: number;
+    hits: number; // Predicted hits, weighted towards the near future
+    potential: number;
+    score: number;
+}
+
+// Matches the bodies set up in Player and Enemy
+const HULL_HALF_WIDTH = 20;
+const HULL_HALF_HEIGHT = 15;
+const ENEMY_HALF_SIZE = 16;
+const EDGE = 30;
+
+export function planTrajectory(input: PlanInput): TrajectoryPlan {
+    const steps = Math.ceil(AUTOPILOT_V4_HORIZON / AUTOPILOT_V4_TIME_STEP);
+
+    // Enemy paths are the same for every candidate, so sample them once
+    const enemyPaths = input.enemies.map(enemy => {
+        const path: { x: number; y: number }[] = [];
+        for (let i = 1; i <= steps; i++) {
+            path.push(enemy.predict(i * AUTOPILOT_V4_TIME_STEP));
+        }
+        return path;
+    });
+
+    // Holding still is always an option
+    const candidates = [Math.min(GAME_WIDTH - EDGE, Math.max(EDGE, input.shipX))];
+    for (let x = EDGE; x <= GAME_WIDTH - EDGE; x += AUTOPILOT_V4_CANDIDATE_SPACING) {
+        candidates.push(x);
+    }
+
+    let best: TrajectoryPlan | null = null;
+    candidates.forEach(x => {
+        const plan = scoreCandidate(x, input, enemyPaths, steps);
+        if (!best || plan.score > best.score) best = plan;
+    });
+
+    return best!;
+}
+
+function scoreCandidate(
+    candidateX: number,
+    input: PlanInput,
+    enemyPaths: { x: number; y: number }[][],
+    steps: number
+): TrajectoryPlan {
+    // Where the ship is at each sample while flying to the candidate
+    const shipPath: number[] = [];
+    for (let i = 1; i <= steps; i++) {
+        const reach = input.moveSpeed * ((i * AUTOPILOT_V4_TIME_STEP) / 1000);
+        const diff = candidateX - input.shipX;
+        shipPath.push(input.shipX + Math.sign(diff) * Math.min(reach, Math.abs(diff)));
+    }
+
+    // Survival: each bullet or enemy counts once, at its first contact.
+    // Sooner hits weigh more since there is less time to correct.
+    let hits = 0;
+    const urgency = (i: number): number => 1 - 0.5 * (i / steps);
+
+    input.bullets.forEach(bullet => {
+        for (let i = 1; i <= steps; i++) {
+            const t = (i * AUTOPILOT_V4_TIME_STEP) / 1000;
+            const dx = Math.abs(bullet.x + bullet.vx * t - shipPath[i - 1]);
+            const dy = Math.abs(bullet.y + bullet.vy * t - input.shipY);
+            if (dx < HULL_HALF_WIDTH + AUTOPILOT_V4_HIT_MARGIN && dy < HULL_HALF_HEIGHT + AUTOPILOT_V4_HIT_MARGIN) {
+                hits += urgency(i);
+                return;
+            }
+        }
+    });
+
+    enemyPaths.forEach(path => {
+        for (let i = 1; i <= steps; i++) {
+            const dx = Math.abs(path[i - 1].x - shipPath[i - 1]);
+            const dy = Math.abs(path[i - 1].y - input.shipY);
+            if (dx < HULL_HALF_WIDTH + ENEMY_HALF_SIZE && dy < HULL_HALF_HEIGHT + ENEMY_HALF_SIZE) {
+                hits += urgency(i);
+                return;
+            }
+        }
+    });
+
+    // Damage potential: targets that will be over the candidate when a shot
+    // fired on arrival reaches them. Far-off candidates are discounted.
+    const travel = Math.abs(candidateX - input.shipX);
+    const arrival = (travel / input.moveSpeed) * 1000;
+    let potential = 0;
+
+    input.enemies.forEach(enemy => {
+        if (enemy.y >= input.shipY) return;
+        const flight = ((input.shipY - enemy.y) / input.bulletSpeed) * 1000;
+        const predicted = enemy.predict(Math.min(arrival, AUTOPILOT_V4_HORIZON) + flight);
+        if (Math.abs(predicted.x - candidateX) < AUTOPILOT_V4_AIM_TOLERANCE) {
+            potential += enemy.value;
+        }
+    });
+    potential /= 1 + arrival / 1000;
+
+    const score = potential
+        - hits * AUTOPILOT_V4_HIT_PENALTY * input.evasion
+        - travel * AUTOPILOT_V4_TRAVEL_PENALTY;
+
+    return { x: candidateX, hits, potential, score };
+}
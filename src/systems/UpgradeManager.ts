@@ -8,12 +8,21 @@ import {
     PLAYER_BASE_DAMAGE,
     PLAYER_BASE_FIRE_RATE,
     PLAYER_BASE_BULLET_SPEED,
+    BehaviorScript,
+    getBehaviorScript,
+    getLoadoutDamageMultiplier,
+    getWeaponMod,
+    WeaponMod,
+    getDroneClass,
+    DroneClass,
+    getSalvageDroneBonus,
 } from '../config/GameConfig';
 import { SaveManager } from './SaveManager';
+import { PrestigeManager } from './PrestigeManager';
 
 export class UpgradeManager {
-    constructor(_scene: Phaser.Scene) {
-        // Scene reference kept for potential future use
+    constructor(_scene?: Phaser.Scene) {
+        // Scene reference kept for potential future use (omitted by the headless simulation)
     }
 
     /**
@@ -56,10 +65,13 @@ export class UpgradeManager {
         const level = this.getLevel(id);
         if (level >= upgrade.maxLevel) return { scrap: 0, cores: 0 };
 
-        const scrapCost = upgrade.baseCost > 0
+        const baseScrapCost = upgrade.baseCost > 0
             ? (upgrade.isUnlock ? upgrade.baseCost : getUpgradeCost(upgrade.baseCost, level + 1))
             : 0;
 
+        // Prestige discount (Efficient Fabrication)
+        const scrapCost = Math.round(baseScrapCost * PrestigeManager.getScrapCostMultiplier());
+
         return {
             scrap: scrapCost,
             cores: upgrade.coresCost || 0,
@@ -168,7 +180,9 @@ export class UpgradeManager {
      */
     public getSalvageMultiplier(): number {
         const salvageLevel = this.getLevel('salvageYield');
-        return Math.pow(1.05, salvageLevel);
+        const salvageDrones = this.getDroneLoadout().filter(c => c.id === 'salvage').length;
+        const droneBonus = salvageDrones * getSalvageDroneBonus(this.getLevel('salvageDroneYield'));
+        return Math.pow(1.05, salvageLevel) * (1 + droneBonus);
     }
 
     /**
@@ -225,4 +239,68 @@ export class UpgradeManager {
 
         return damage * fireRate * (1 + critBonus);
     }
+
+    /**
+     * DPS estimate including the active weapon mod and behavior script
+     */
+    public getLoadoutDPS(): number {
+        return this.getEstimatedDPS() * getLoadoutDamageMultiplier(this.getActiveWeaponMod(), this.getActiveBehaviorScript());
+    }
+
+    /**
+     * Whether the player has reached the sector a weapon mod unlocks in
+     */
+    public isWeaponModUnlocked(mod: WeaponMod): boolean {
+        return SaveManager.getCurrent().highestSector >= (mod.minSector ?? 0);
+    }
+
+    /**
+     * The mod the ship is firing: Standard until the mod slot is installed,
+     * or if the selected mod is still locked (e.g. after a prestige)
+     */
+    public getActiveWeaponMod(): WeaponMod {
+        const mod = getWeaponMod(SaveManager.getCurrent().activeWeaponMod);
+        if (!SaveManager.hasUpgrade('weaponModSlot') || !this.isWeaponModUnlocked(mod)) {
+            return getWeaponMod('standard');
+        }
+        return mod;
+    }
+
+    /**
+     * The script the ship and drones run: Balanced until Behavior Scripts
+     * are installed (a prestige keeps the selection but not the upgrade)
+     */
+    public getActiveBehaviorScript(): BehaviorScript {
+        if (!SaveManager.hasUpgrade('behaviorScripts')) return getBehaviorScript('balanced');
+        return getBehaviorScript(SaveManager.getCurrent().activeBehaviorScript);
+    }
+
+    /**
+     * Drone bays installed: Bays I-IV, and the prestige Reserve Bay once Bay I is in
+     */
+    public getDroneBayCount(): number {
+        if (!SaveManager.hasUpgrade('droneSlot1')) return 0;
+        let count = 1;
+        if (SaveManager.hasUpgrade('droneSlot2')) count++;
+        if (SaveManager.hasUpgrade('droneSlot3')) count++;
+        if (SaveManager.hasUpgrade('droneSlot4')) count++;
+        if (PrestigeManager.getLevel('extraDroneSlot') > 0) count++;
+        return count;
+    }
+
+    public isDroneClassUnlocked(droneClass: DroneClass): boolean {
+        return SaveManager.getCurrent().highestSector >= (droneClass.minSector ?? 0);
+    }
+
+    /**
+     * The class each installed bay flies. Unassigned bays and classes that
+     * are still locked (e.g. after a prestige) fly Combat.
+     */
+    public getDroneLoadout(): DroneClass[] {
+        const loadout = SaveManager.getCurrent().droneLoadout;
+        return Array.from({ length: this.getDroneBayCount() }, (_, bay) => {
+            const droneClass = getDroneClass(loadout[bay]);
+            return this.isDroneClassUnlocked(droneClass) ? droneClass : getDroneClass('combat');
+        });
+    }
 }
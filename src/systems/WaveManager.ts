@@ -4,23 +4,36 @@
 import Phaser from 'phaser';
 import {
     WAVES_PER_SECTOR,
-    SECTOR_ENEMY_UNLOCKS,
-    getSpawnCount,
-    getBossHP,
+    getScaledBossHP,
     getBossScrap,
+    getBossDefinition,
+    getSectorName,
+    getEndlessAffixes,
+    getAffixMultiplier,
+    SectorAffix,
     GAME_WIDTH,
     MAX_ENEMIES,
+    SPAWN_Y,
+    BOSS_DELAY,
 } from '../config/GameConfig';
 import { Enemy } from '../entities/Enemy';
 import { SaveManager } from './SaveManager';
+import { BossController } from './BossController';
+import type { SeededRandom } from './SeededRandom';
+import { buildSpawnPlan, SpawnOrder } from './WaveScripts';
+import { MarchFormation } from './MarchFormation';
 
 // Forward reference to avoid circular import
 interface GameSceneInterface {
     enemies: Phaser.GameObjects.Group;
     enemyBullets: Phaser.GameObjects.Group;
-    playerBullets: Phaser.GameObjects.Group;
+    player: { x: number; y: number };
+    rng: SeededRandom;
+    damagePlayer(amount: number): void;
+    showToast(message: string, type?: 'success' | 'error' | 'warning'): void;
     onBossDefeated(): void;
     onWaveComplete(): void;
+    clearProjectiles(): void;
     getEstimatedDps(): number;
     time: Phaser.Time.Clock;
     add: Phaser.GameObjects.GameObjectFactory;
@@ -31,14 +44,16 @@ export class WaveManager {
     private scene: GameSceneInterface;
     private waveInProgress: boolean = false;
     private spawningComplete: boolean = false;
-    private spawnTimer: number = 0;
+    private spawnPlan: SpawnOrder[] = [];
     private spawnedCount: number = 0;
-    private totalToSpawn: number = 0;
+    private waveTime: number = 0; // ms since the wave started
+    private marchFormations: Map<number, MarchFormation> = new Map(); // By scripted group index
     private killedThisWave: number = 0;
     private isBossWave: boolean = false;
+    private bossController: BossController | null = null;
 
-    // Available enemy types for current sector
-    private availableTypes: string[] = ['grunt'];
+    // Endless sector modifiers (empty in the campaign)
+    private sectorAffixes: SectorAffix[] = [];
 
     constructor(scene: GameSceneInterface) {
         this.scene = scene;
@@ -52,39 +67,37 @@ export class WaveManager {
         // Check if this is a boss wave
         this.isBossWave = wave > WAVES_PER_SECTOR;
 
-        // Update available enemy types
-        this.updateAvailableTypes(sector);
+        // Every wave gets its own RNG stream so it replays identically from the run seed
+        this.scene.rng.reset(sector, wave);
+
+        this.sectorAffixes = getEndlessAffixes(sector);
 
         // Reset wave state
         this.waveInProgress = true;
         this.spawningComplete = false;
-        this.spawnTimer = 0;
+        this.spawnPlan = [];
         this.spawnedCount = 0;
+        this.waveTime = 0;
+        this.marchFormations.clear();
         this.killedThisWave = 0;
 
         if (this.isBossWave) {
             // Spawn boss
-            this.totalToSpawn = 1;
             this.spawnBoss(sector);
         } else {
-            // Calculate spawn count
-            const globalWave = sector * WAVES_PER_SECTOR + wave;
-            this.totalToSpawn = getSpawnCount(globalWave);
-        }
-    }
-
-    private updateAvailableTypes(sector: number): void {
-        this.availableTypes = ['grunt'];
-
-        for (let s = 0; s <= sector; s++) {
-            const unlocks = SECTOR_ENEMY_UNLOCKS[s] || [];
-            this.availableTypes.push(...unlocks);
+            // Scripted groups and the random mix, drawn from this wave's stream
+            const spawnMult = getAffixMultiplier(this.sectorAffixes, 'spawnMultiplier');
+            this.spawnPlan = buildSpawnPlan(sector, wave, this.scene.rng, spawnMult);
+            this.createMarchFormations(getAffixMultiplier(this.sectorAffixes, 'speedMultiplier'));
         }
     }
 
     public update(_time: number, delta: number): void {
         if (!this.waveInProgress) return;
 
+        this.bossController?.update(delta);
+        this.marchFormations.forEach(formation => formation.update(delta));
+
         // Check if all enemies are gone (killed or escaped) - fixes stuck wave bug
         if (this.spawningComplete && !this.isBossWave && this.scene.enemies.countActive(true) === 0) {
             this.waveInProgress = false;
@@ -93,7 +106,7 @@ export class WaveManager {
                 // Boss wave next
                 save.currentWave = WAVES_PER_SECTOR + 1;
                 SaveManager.update(save);
-                this.scene.time.delayedCall(2000, () => {
+                this.scene.time.delayedCall(BOSS_DELAY, () => {
                     this.startNextWave();
                 });
             } else {
@@ -102,162 +115,115 @@ export class WaveManager {
             return;
         }
 
-        // Don't spawn more if we hit the cap
+        // Don't spawn more if we hit the cap (the plan clock waits too)
         if (this.scene.enemies.countActive(true) >= MAX_ENEMIES) return;
 
-        // Spawn enemies over time
+        // Spawn everything the plan has due
         if (!this.spawningComplete && !this.isBossWave) {
-            this.spawnTimer -= delta;
+            this.waveTime += delta;
 
-            if (this.spawnTimer <= 0 && this.spawnedCount < this.totalToSpawn) {
-                this.spawnEnemy();
-                this.spawnTimer = this.getSpawnInterval();
+            while (this.spawnedCount < this.spawnPlan.length
+                && this.spawnPlan[this.spawnedCount].time <= this.waveTime
+                && this.scene.enemies.countActive(true) < MAX_ENEMIES) {
+                if (!this.spawnEnemy(this.spawnPlan[this.spawnedCount])) break;
             }
 
-            if (this.spawnedCount >= this.totalToSpawn) {
+            if (this.spawnedCount >= this.spawnPlan.length) {
                 this.spawningComplete = true;
             }
         }
     }
 
-    private getSpawnInterval(): number {
-        // Faster spawning in later waves
-        const save = SaveManager.getCurrent();
-        const globalWave = save.currentSector * WAVES_PER_SECTOR + save.currentWave;
-        const baseInterval = 800;
-        const minInterval = 200;
-
-        return Math.max(minInterval, baseInterval - globalWave * 8);
-    }
-
-    private spawnEnemy(): void {
+    private spawnEnemy(order: SpawnOrder): boolean {
         const save = SaveManager.getCurrent();
         const sector = save.currentSector;
         const wave = save.currentWave;
         const globalWave = sector * WAVES_PER_SECTOR + wave;
 
-        // Pick random enemy type from available
-        const type = this.pickEnemyType();
-
-        // Spawn position
-        const x = Phaser.Math.Between(50, GAME_WIDTH - 50);
-        const y = Phaser.Math.Between(-80, -30);
-
-        const enemy = this.scene.enemies.get(x, y) as Enemy;
-        if (enemy) {
-            enemy.spawn(
-                x,
-                y,
-                type,
-                sector,
-                globalWave,
-                this.scene.enemyBullets
-            );
-            this.spawnedCount++;
+        const enemy = this.scene.enemies.get(order.x, order.y) as Enemy;
+        if (!enemy) return false;
+
+        enemy.spawn(
+            order.x,
+            order.y,
+            order.type,
+            sector,
+            globalWave,
+            this.scene.enemyBullets,
+            this.scene.rng
+        );
+        if (this.sectorAffixes.length > 0) {
+            enemy.applySectorAffixes(this.sectorAffixes);
+        }
+        if (order.march !== undefined) {
+            const formation = this.marchFormations.get(order.march);
+            if (formation) enemy.joinFormation(formation);
         }
+        this.spawnedCount++;
+        return true;
     }
 
-    private pickEnemyType(): string {
-        // Weight distribution - grunts more common early
-        const weights: Record<string, number> = {};
-
-        this.availableTypes.forEach(type => {
-            switch (type) {
-                case 'grunt':
-                    weights[type] = 40;
-                    break;
-                case 'swarmer':
-                    weights[type] = 25;
-                    break;
-                case 'tank':
-                    weights[type] = 10;
-                    break;
-                case 'shielded':
-                    weights[type] = 12;
-                    break;
-                case 'bomber':
-                    weights[type] = 10;
-                    break;
-                case 'jammer':
-                    weights[type] = 8;
-                    break;
-                case 'splitter':
-                    weights[type] = 10;
-                    break;
-                case 'diver':
-                    weights[type] = 12;
-                    break;
-                case 'collector':
-                    weights[type] = 8;
-                    break;
-                default:
-                    weights[type] = 10;
-            }
+    private createMarchFormations(speedMultiplier: number): void {
+        const sizes = new Map<number, number>();
+        this.spawnPlan.forEach(order => {
+            if (order.march !== undefined) sizes.set(order.march, (sizes.get(order.march) ?? 0) + 1);
         });
+        sizes.forEach((size, group) => {
+            this.marchFormations.set(group, new MarchFormation(size, speedMultiplier));
+        });
+    }
 
-        // Weighted random selection
-        const totalWeight = Object.values(weights).reduce((a, b) => a + b, 0);
-        let random = Math.random() * totalWeight;
-
-        for (const [type, weight] of Object.entries(weights)) {
-            random -= weight;
-            if (random <= 0) {
-                return type;
-            }
-        }
-
-        return 'grunt';
+    /**
+     * Grids marching this wave, for the autopilot
+     */
+    public getMarchFormations(): MarchFormation[] {
+        return Array.from(this.marchFormations.values());
     }
 
     private spawnBoss(sector: number): void {
         const globalWave = (sector + 1) * WAVES_PER_SECTOR; // Boss is after wave 12
+        const definition = getBossDefinition(sector);
 
-        const bossHP = this.getScaledBossHP(sector, globalWave);
+        const bossHP = getScaledBossHP(sector, globalWave, this.scene.getEstimatedDps());
         const bossScrap = getBossScrap(globalWave);
 
-        // Crreate boss as a special enemy
-        // We can reuse the pool for the boss too, just ensure we reset scale in spawn() which we did
-        const boss = this.scene.enemies.get(GAME_WIDTH / 2, -50) as Enemy;
+        // Boss comes from the enemy pool, then gets its archetype applied
+        const boss = this.scene.enemies.get(GAME_WIDTH / 2, SPAWN_Y) as Enemy;
 
         if (boss) {
-            // Using 'grunt' as base type for boss visual if not overridden, 
-            // but we might want a specific boss type later. For now logic assumes grunt visuals scaled up.
             boss.spawn(
                 GAME_WIDTH / 2,
-                -50,
+                SPAWN_Y,
                 'grunt',
                 sector,
                 globalWave,
-                this.scene.enemyBullets
+                this.scene.enemyBullets,
+                this.scene.rng
             );
+            boss.configureAsBoss(definition, bossHP, bossScrap);
 
-            // Override stats for boss
-            boss.maxHP = bossHP;
-            boss.currentHP = bossHP;
-            boss.scrapValue = bossScrap;
-            boss.isBoss = true;
-
-            // Scale up boss visually
-            boss.setScale(2.5);
+            this.clearBossController();
+            this.bossController = new BossController(this.scene, boss, definition, sector, globalWave);
+            this.scene.showToast(`WARNING: ${definition.name.toUpperCase()} APPROACHING`, 'error');
 
             this.spawnedCount = 1;
             this.spawningComplete = true;
         }
     }
 
-    private getScaledBossHP(sector: number, globalWave: number): number {
-        const baseBossHP = getBossHP(sector, globalWave);
-        const estimatedDps = Math.max(20, this.scene.getEstimatedDps());
-
-        // Target time-to-kill window to keep bosses tough but fair.
-        const minTtk = 18 + sector * 2; // seconds
-        const maxTtk = 40 + sector * 3; // seconds
-        const minHp = estimatedDps * minTtk;
-        const maxHp = estimatedDps * maxTtk;
+    private clearBossController(): void {
+        this.bossController?.destroy();
+        this.bossController = null;
+    }
 
-        // Clamp boss HP into the DPS-driven window.
-        const scaledHp = Phaser.Math.Clamp(baseBossHP, minHp, maxHp);
-        return Math.round(scaledHp);
+    private dismissMinions(): void {
+        // Leftover summons shouldn't bleed into the next sector
+        this.scene.enemies.getChildren().forEach((obj) => {
+            const enemy = obj as Enemy;
+            if (!enemy.active || enemy.isBoss) return;
+            enemy.setActive(false);
+            enemy.setVisible(false);
+        });
     }
 
     public onEnemyKilled(enemy: Enemy): void {
@@ -267,6 +233,8 @@ export class WaveManager {
         if (enemy.isBoss) {
             // Boss defeated
             this.waveInProgress = false;
+            this.clearBossController();
+            this.dismissMinions();
             this.scene.onBossDefeated();
         } else if (this.spawningComplete && this.scene.enemies.countActive(true) === 0) {
             // All enemies killed
@@ -277,7 +245,7 @@ export class WaveManager {
                 // Boss wave next
                 save.currentWave = WAVES_PER_SECTOR + 1;
                 SaveManager.update(save);
-                this.scene.time.delayedCall(2000, () => {
+                this.scene.time.delayedCall(BOSS_DELAY, () => {
                     this.startNextWave();
                 });
             } else {
@@ -287,10 +255,11 @@ export class WaveManager {
     }
 
     public restartCurrentWave(): void {
-        // Clear all enemies and bullets
+        this.clearBossController();
+
+        // Clear all enemies, and return bullets to their pools
         this.scene.enemies.clear(true, true);
-        this.scene.enemyBullets.clear(true, true);
-        this.scene.playerBullets.clear(true, true);
+        this.scene.clearProjectiles();
 
         // Restart wave
         this.startNextWave();
@@ -298,22 +267,26 @@ export class WaveManager {
 
     public getCurrentWaveInfo(): { sector: number; wave: number; sectorName: string } {
         const save = SaveManager.getCurrent();
-        const sectorNames = [
-            "Boot Sequence",
-            "Scrapfield Lanes",
-            "Signal Noise",
-            "Armor Doctrine",
-            "Rowfall Pattern",
-            "Final Descent",
-        ];
         return {
             sector: save.currentSector,
             wave: Math.min(save.currentWave, WAVES_PER_SECTOR),
-            sectorName: sectorNames[save.currentSector] || 'Unknown',
+            sectorName: getSectorName(save.currentSector),
         };
     }
 
+    /**
+     * Modifiers active in the current endless sector (empty in the campaign)
+     */
+    public getSectorAffixes(): SectorAffix[] {
+        return this.sectorAffixes;
+    }
+
     public isBossActive(): boolean {
         return this.isBossWave && this.waveInProgress;
     }
+
+    public getBossName(): string | null {
+        if (!this.isBossActive()) return null;
+        return getBossDefinition(SaveManager.getCurrent().currentSector).name;
+    }
 }
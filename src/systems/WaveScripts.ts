@@ -0,0 +1,265 @@
+/**
+ * WaveScripts - Turns WAVE_SCRIPTS into timed spawn plans, and validates them
+ */
+import {
+    GAME_WIDTH,
+    WAVES_PER_SECTOR,
+    ENEMY_TYPES,
+    ENEMY_SPAWN_WEIGHTS,
+    DEFAULT_SPAWN_WEIGHT,
+    FORMATION_SHAPES,
+    FORMATION_SPACING,
+    FORMATION_SPAWN_Y,
+    SPAWN_Y,
+    SPAWN_Y_SCATTER,
+    FORMATION_INTERVALS,
+    GRID_COLUMNS,
+    WAVE_SCRIPTS,
+    WaveGroup,
+    WaveScript,
+    getAvailableEnemyTypes,
+    getSpawnCount,
+    getSpawnInterval,
+} from '../config/GameConfig';
+import type { SeededRandom } from './SeededRandom';
+
+export interface SpawnOrder {
+    time: number; // ms after the wave starts
+    type: string;
+    x: number;
+    y: number;
+    march?: number; // Index of the marching group this spawn belongs to
+}
+
+const SPAWN_MARGIN = 50; // Keep spawns clear of the screen edges
+
+// Valid scripts by "sector:wave", built on first use
+let scriptIndex: Map<string, WaveScript> | null = null;
+
+/**
+ * Script for a wave, or null to use the weighted random mix.
+ * Invalid scripts are reported once and ignored.
+ */
+export function getWaveScript(sector: number, wave: number): WaveScript | null {
+    if (!scriptIndex) {
+        scriptIndex = new Map();
+        WAVE_SCRIPTS.forEach(script => {
+            const key = `${script.sector}:${script.wave}`;
+            const errors = validateWaveScript(script);
+            if (scriptIndex!.has(key)) {
+                errors.push(`Sector ${script.sector} wave ${script.wave}: scripted more than once`);
+            }
+            if (errors.length > 0) {
+                console.error(`Ignoring wave script:\n  ${errors.join('\n  ')}`);
+                return;
+            }
+            scriptIndex!.set(key, script);
+        });
+    }
+    return scriptIndex.get(`${sector}:${wave}`) ?? null;
+}
+
+/**
+ * Check a whole script table. Returns readable errors (empty when valid).
+ */
+export function validateWaveScripts(scripts: WaveScript[]): string[] {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    scripts.forEach(script => {
+        errors.push(...validateWaveScript(script));
+
+        const key = `${script.sector}:${script.wave}`;
+        if (seen.has(key)) {
+            errors.push(`Sector ${script.sector} wave ${script.wave}: scripted more than once`);
+        }
+        seen.add(key);
+    });
+
+    return errors;
+}
+
+export function validateWaveScript(script: WaveScript): string[] {
+    const label = `Sector ${script.sector} wave ${script.wave}`;
+    const errors: string[] = [];
+
+    if (!Number.isInteger(script.sector) || script.sector < 0) {
+        errors.push(`${label}: sector must be a whole number >= 0`);
+    }
+    if (!Number.isInteger(script.wave) || script.wave < 1 || script.wave > WAVES_PER_SECTOR) {
+        errors.push(`${label}: wave must be 1-${WAVES_PER_SECTOR}`);
+    }
+    if (!Array.isArray(script.groups)) {
+        errors.push(`${label}: groups must be a list`);
+        return errors;
+    }
+
+    script.groups.forEach((group, i) => {
+        errors.push(...validateGroup(group).map(error => `${label}, group ${i + 1}: ${error}`));
+    });
+
+    Object.entries(script.guaranteed ?? {}).forEach(([type, count]) => {
+        if (!ENEMY_TYPES[type]) {
+            errors.push(`${label}: unknown guaranteed enemy type "${type}"`);
+        }
+        if (!Number.isInteger(count) || count < 0) {
+            errors.push(`${label}: guaranteed ${type} count must be a whole number >= 0`);
+        }
+    });
+
+    return errors;
+}
+
+function validateGroup(group: WaveGroup): string[] {
+    const errors: string[] = [];
+
+    if (group.enemy !== 'random' && !ENEMY_TYPES[group.enemy]) {
+        errors.push(`unknown enemy type "${group.enemy}"`);
+    }
+    if (!Number.isInteger(group.count) || group.count < 1) {
+        errors.push('count must be a whole number >= 1');
+    }
+    if (!Number.isFinite(group.at) || group.at < 0) {
+        errors.push('at must be a time in ms >= 0');
+    }
+    if (group.formation !== undefined && !FORMATION_SHAPES.includes(group.formation)) {
+        errors.push(`unknown formation "${group.formation}"`);
+    }
+    if (group.x !== undefined && !(group.x >= 0 && group.x <= GAME_WIDTH)) {
+        errors.push(`x must be within 0-${GAME_WIDTH}`);
+    }
+    if (group.spacing !== undefined && !(group.spacing > 0)) {
+        errors.push('spacing must be > 0');
+    }
+    if (group.interval !== undefined && !(group.interval >= 0)) {
+        errors.push('interval must be >= 0');
+    }
+    if (group.columns !== undefined && !(Number.isInteger(group.columns) && group.columns >= 1)) {
+        errors.push('columns must be a whole number >= 1');
+    }
+    if (group.march && (group.formation ?? 'scatter') === 'scatter') {
+        errors.push('march needs a row, column, v or grid formation');
+    }
+
+    return errors;
+}
+
+/**
+ * Weighted random pick from the types a sector has unlocked
+ */
+export function pickWeightedEnemyType(types: string[], rng: SeededRandom): string {
+    const weights = types.map(type => ENEMY_SPAWN_WEIGHTS[type] ?? DEFAULT_SPAWN_WEIGHT);
+    let roll = rng.next() * weights.reduce((a, b) => a + b, 0);
+
+    for (let i = 0; i < types.length; i++) {
+        roll -= weights[i];
+        if (roll <= 0) return types[i];
+    }
+    return 'grunt';
+}
+
+/**
+ * Every spawn of a (non-boss) wave, sorted by time. Draws all of its rolls
+ * up front, so the plan is fixed by the wave's RNG stream.
+ */
+export function buildSpawnPlan(
+    sector: number,
+    wave: number,
+    rng: SeededRandom,
+    spawnMultiplier: number = 1,
+    script: WaveScript | null = getWaveScript(sector, wave)
+): SpawnOrder[] {
+    const globalWave = sector * WAVES_PER_SECTOR + wave;
+    const types = getAvailableEnemyTypes(sector);
+    const orders: SpawnOrder[] = [];
+
+    script?.groups.forEach((group, index) => {
+        const count = Math.max(1, Math.round(group.count * spawnMultiplier));
+        const type = group.enemy === 'random' ? pickWeightedEnemyType(types, rng) : group.enemy;
+        const members = layoutGroup(group, type, count, rng);
+        if (group.march) members.forEach(order => (order.march = index));
+        orders.push(...members);
+    });
+
+    // The guaranteed types always spawn (even past the budget or with fill
+    // off); the weighted mix tops the rest up to the spawn budget
+    const fill: string[] = [];
+    Object.entries(script?.guaranteed ?? {}).forEach(([type, count]) => {
+        for (let i = 0; i < count; i++) fill.push(type);
+    });
+    const budget = Math.round(getSpawnCount(globalWave) * spawnMultiplier);
+    const randomCount = !script ? budget : script.fill === false ? 0 : Math.max(0, budget - orders.length - fill.length);
+    for (let i = 0; i < randomCount; i++) {
+        fill.push(pickWeightedEnemyType(types, rng));
+    }
+    shuffle(fill, rng);
+
+    const interval = getSpawnInterval(globalWave);
+    fill.forEach((type, i) => {
+        orders.push({ time: i * interval, ...scatterPosition(rng), type });
+    });
+
+    // Array.sort is stable, so same-time spawns keep their authored order
+    return orders.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Place a group's members. Each formation gives a horizontal offset, a rise
+ * above the spawn line and an entry step per member; steps are spaced by the
+ * group's interval.
+ */
+function layoutGroup(group: WaveGroup, type: string, count: number, rng: SeededRandom): SpawnOrder[] {
+    const formation = group.formation ?? 'scatter';
+    const spacing = group.spacing ?? FORMATION_SPACING;
+    const interval = group.interval ?? FORMATION_INTERVALS[formation];
+
+    if (formation === 'scatter') {
+        return Array.from({ length: count }, (_, i) => ({ time: group.at + i * interval, ...scatterPosition(rng), type }));
+    }
+
+    const columns = Math.min(count, group.columns ?? GRID_COLUMNS);
+    const slots = Array.from({ length: count }, (_, i) => {
+        switch (formation) {
+            case 'row':
+                return { offset: (i - (count - 1) / 2) * spacing, rise: 0, step: i };
+            case 'column':
+                return { offset: 0, rise: 0, step: i };
+            case 'v': {
+                // Leader in the middle, then alternating left/right wings
+                const rank = Math.ceil(i / 2);
+                return { offset: (i % 2 === 1 ? -rank : rank) * spacing, rise: 0, step: rank };
+            }
+            case 'grid': {
+                // Front row first, further rows stacked above it
+                const row = Math.floor(i / columns);
+                return { offset: (i % columns - (columns - 1) / 2) * spacing, rise: row * spacing, step: row };
+            }
+        }
+    });
+
+    const extent = Math.max(...slots.map(slot => Math.abs(slot.offset)));
+    const minX = Math.ceil(SPAWN_MARGIN + extent);
+    const maxX = Math.floor(GAME_WIDTH - SPAWN_MARGIN - extent);
+    const centre = group.x ?? (minX <= maxX ? rng.between(minX, maxX) : GAME_WIDTH / 2);
+
+    return slots.map(slot => ({
+        time: group.at + slot.step * interval,
+        type,
+        x: Math.min(GAME_WIDTH - SPAWN_MARGIN, Math.max(SPAWN_MARGIN, centre + slot.offset)),
+        y: FORMATION_SPAWN_Y - slot.rise,
+    }));
+}
+
+function scatterPosition(rng: SeededRandom): { x: number; y: number } {
+    return {
+        x: rng.between(SPAWN_MARGIN, GAME_WIDTH - SPAWN_MARGIN),
+        y: rng.between(SPAWN_Y - SPAWN_Y_SCATTER, SPAWN_Y + SPAWN_Y_SCATTER),
+    };
+}
+
+function shuffle<T>(items: T[], rng: SeededRandom): void {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = rng.between(0, i);
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+}
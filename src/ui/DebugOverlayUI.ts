@@ -0,0 +1,71 @@
+/**
+ * DebugOverlayUI - Live object counts against the performance budget (F3)
+ */
+import {
+  MAX_PLAYER_BULLETS,
+  MAX_ENEMY_BULLETS,
+  MAX_ENEMIES,
+  MAX_POPUPS,
+  MAX_PARTICLES,
+} from '../config/GameConfig';
+
+export interface DebugOverlayStats {
+  fps: number;
+  playerBullets: number; // Active
+  playerBulletPool: number; // Created (active + recycled)
+  enemyBullets: number;
+  enemyBulletPool: number;
+  enemies: number;
+  popups: number;
+  particles: number;
+  tweens: number;
+}
+
+export class DebugOverlayUI {
+  private panel: HTMLElement | null = null;
+
+  isOpen(): boolean {
+    return this.panel !== null;
+  }
+
+  open(): void {
+    if (this.panel) return;
+    this.panel = document.createElement('div');
+    this.panel.id = 'debug-overlay';
+    this.panel.className = 'debug-overlay';
+    document.getElementById('ui-overlay')?.appendChild(this.panel);
+  }
+
+  close(): void {
+    this.panel?.remove();
+    this.panel = null;
+  }
+
+  update(stats: DebugOverlayStats): void {
+    if (!this.panel) return;
+
+    this.panel.innerHTML = `
+      <div class="debug-row"><span>FPS</span><span>${Math.round(stats.fps)}</span></div>
+      ${this.renderBudget('Player bullets', stats.playerBullets, MAX_PLAYER_BULLETS, stats.playerBulletPool)}
+      ${this.renderBudget('Enemy bullets', stats.enemyBullets, MAX_ENEMY_BULLETS, stats.enemyBulletPool)}
+      ${this.renderBudget('Enemies', stats.enemies, MAX_ENEMIES)}
+      ${this.renderBudget('Popups', stats.popups, MAX_POPUPS)}
+      ${this.renderBudget('Particles', stats.particles, MAX_PARTICLES)}
+      <div class="debug-row"><span>Tweens</span><span>${stats.tweens}</span></div>
+    `;
+  }
+
+  private renderBudget(label: string, active: number, max: number, pooled?: number): string {
+    const usage = Math.min(1, active / max);
+    const level = usage >= 1 ? 'full' : usage >= 0.8 ? 'warn' : 'ok';
+    const pool = pooled !== undefined ? ` <span class="debug-pool">(${pooled} pooled)</span>` : '';
+
+    return `
+      <div class="debug-row ${level}">
+        <span>${label}</span>
+        <span>${active}/${max}${pool}</span>
+      </div>
+      <div class="debug-bar"><div class="debug-bar-fill ${level}" style="width: ${Math.round(usage * 100)}%"></div></div>
+    `;
+  }
+}
@@ -2,21 +2,32 @@
  * HUD - In-game heads-up display
  */
 import { SaveManager } from '../systems/SaveManager';
-import { OVERLOAD_COOLDOWN, OVERDRIVE_COOLDOWN, WAVES_PER_SECTOR } from '../config/GameConfig';
+import {
+  OVERLOAD_COOLDOWN,
+  OVERDRIVE_COOLDOWN,
+  WAVES_PER_SECTOR,
+  CORE_FRAGMENTS_PER_CORE,
+  HEAT_DAMAGE_BONUS_MAX,
+} from '../config/GameConfig';
 
 // Forward reference to avoid circular import
 interface GameSceneInterface {
   waveManager: {
     getCurrentWaveInfo(): { sector: number; wave: number; sectorName: string };
     isBossActive(): boolean;
+    getBossName?(): string | null;
   };
   player: {
     currentHP: number;
     maxHP: number;
+    currentHeat: number;
+    maxHeat: number;
+    isOverheated: boolean;
     isAutopilotEnabled?: () => boolean;
   };
   getDPS(): number;
   getSPS(): number;
+  getJammerDisruption?: () => number;
   toggleAutopilot?: () => void;
 }
 
@@ -61,6 +72,12 @@ export class HUD {
         <div class="hud-label" style="margin-top: 4px;">
           <span id="hud-hp-text">100 / 100 HP</span>
         </div>
+        <div class="hud-heat hidden" id="hud-heat">
+          <div class="heat-bar-container">
+            <div class="heat-bar" id="hud-heat-bar"></div>
+          </div>
+          <span class="hud-label" id="hud-heat-text">Heat 0%</span>
+        </div>
       </div>
       
       <div class="hud-section hud-right">
@@ -70,7 +87,7 @@ export class HUD {
           <span class="hud-autopilot-key">T</span>
         </div>
         <div style="position: relative; margin-top: 8px; text-align: right;">
-            <span style="color: var(--text-muted); font-size: 12px; cursor: help;" title="Move: WASD/Arrows | Shoot: Click/Space | Autopilot: T | Pause: ESC">Controls [?]</span>
+            <span style="color: var(--text-muted); font-size: 12px; cursor: help;" title="Move: WASD/Arrows | Shoot: Click/Space | Autopilot: T | Overdrive: Q | Vent: E | Pause: ESC">Controls [?]</span>
         </div>
         <div class="hud-abilities" id="hud-abilities"></div>
       </div>
@@ -126,6 +143,19 @@ export class HUD {
           <div class="ability-cooldown" id="ability-overdrive-cd"></div>
         </div>
       </div>
+      <div class="ability-btn locked" id="ability-vent" title="Vent: Dump heat as a damaging pulse">
+        <div class="ability-info">
+          <span class="ability-title">Vent</span>
+          <span class="ability-desc">Heat pulse</span>
+          <div class="ability-keys">
+            <span class="keycap">E</span>
+          </div>
+        </div>
+        <span class="ability-icon" aria-hidden="true">♨</span>
+        <div class="ability-graph" aria-hidden="true">
+          <div class="ability-cooldown" id="ability-vent-cd"></div>
+        </div>
+      </div>
     `;
     const abilityHost = document.getElementById('hud-abilities');
     if (abilityHost) {
@@ -141,14 +171,16 @@ export class HUD {
 
     // Update values
     document.getElementById('hud-scrap')!.textContent = Math.floor(save.scrap).toLocaleString();
-    document.getElementById('hud-cores')!.textContent = save.cores.toString();
+    document.getElementById('hud-cores')!.textContent = save.coreFragments > 0
+      ? `${save.cores} +${save.coreFragments}/${CORE_FRAGMENTS_PER_CORE}`
+      : save.cores.toString();
     document.getElementById('hud-dps')!.textContent = Math.floor(this.scene.getDPS()).toLocaleString();
     const scrapPerMinute = this.scene.getSPS() * 60;
     document.getElementById('hud-sps')!.textContent = scrapPerMinute.toFixed(0);
 
     // Wave info
     const waveText = this.scene.waveManager.isBossActive()
-      ? 'BOSS'
+      ? `BOSS: ${this.scene.waveManager.getBossName?.() ?? 'Unknown'}`
       : `Wave ${waveInfo.wave}/${WAVES_PER_SECTOR}`;
     document.getElementById('hud-wave')!.textContent = waveText;
     document.getElementById('hud-sector')!.textContent = `Sector ${waveInfo.sector}: ${waveInfo.sectorName}`;
@@ -164,9 +196,41 @@ export class HUD {
     document.getElementById('hud-hp-text')!.textContent =
       `${Math.ceil(this.scene.player.currentHP)} / ${this.scene.player.maxHP} HP`;
 
+    this.updateHeat(save.highestSector >= 5);
+
     // Update ability states
     this.updateAbilityStates();
     this.updateAutopilotToggle();
+    this.updateJammerStatic();
+  }
+
+  /**
+   * Heat gauge (S5+): fill, damage bonus, and a warning during a meltdown
+   */
+  private updateHeat(active: boolean): void {
+    const container = document.getElementById('hud-heat')!;
+    container.classList.toggle('hidden', !active);
+    if (!active) return;
+
+    const { currentHeat, maxHeat, isOverheated } = this.scene.player;
+    const heatPercent = maxHeat > 0 ? Math.min(100, (currentHeat / maxHeat) * 100) : 0;
+    const heatBar = document.getElementById('hud-heat-bar')!;
+    heatBar.style.width = `${heatPercent}%`;
+    heatBar.className = 'heat-bar';
+    if (isOverheated) heatBar.classList.add('meltdown');
+    else if (heatPercent > 80) heatBar.classList.add('hot');
+    else if (heatPercent > 50) heatBar.classList.add('warm');
+
+    const bonus = isOverheated ? 0 : Math.round(HEAT_DAMAGE_BONUS_MAX * heatPercent);
+    document.getElementById('hud-heat-text')!.textContent = isOverheated
+      ? 'MELTDOWN - Vent [E]'
+      : `Heat ${Math.round(heatPercent)}% (+${bonus}% dmg)`;
+  }
+
+  private updateJammerStatic(): void {
+    const disruption = this.scene.getJammerDisruption?.() ?? 0;
+    this.container.classList.toggle('jammed', disruption > 0.05);
+    this.container.style.setProperty('--jam-intensity', disruption.toFixed(2));
   }
 
   private bindAutopilotToggle(): void {
@@ -222,14 +286,21 @@ export class HUD {
       overloadBtn.classList.remove('locked');
     }
 
-    // Overdrive (after sector 5)
+    // Overdrive and Vent (after sector 5)
     const overdriveBtn = document.getElementById('ability-overdrive')!;
+    const ventBtn = document.getElementById('ability-vent')!;
     if (save.highestSector >= 5) {
       overdriveBtn.classList.remove('locked');
+      ventBtn.classList.remove('locked');
     }
   }
 
-  public updateAbilityCooldowns(overloadRemaining: number, overdriveRemaining: number): void {
+  public updateAbilityCooldowns(
+    overloadRemaining: number,
+    overdriveRemaining: number,
+    ventRemaining: number,
+    ventCooldown: number
+  ): void {
     // Overload cooldown bar
     const overloadCd = document.getElementById('ability-overload-cd')!;
     const overloadBtn = document.getElementById('ability-overload')!;
@@ -253,10 +324,23 @@ export class HUD {
       overdriveCd.style.transform = 'scaleX(1)';
       overdriveBtn.classList.remove('on-cooldown');
     }
+
+    // Vent cooldown bar (Cooling Systems shortens it)
+    const ventCd = document.getElementById('ability-vent-cd')!;
+    const ventBtn = document.getElementById('ability-vent')!;
+    if (ventRemaining > 0) {
+      const progress = 1 - (ventRemaining / ventCooldown);
+      ventCd.style.transform = `scaleX(${progress})`;
+      ventBtn.classList.add('on-cooldown');
+    } else {
+      ventCd.style.transform = 'scaleX(1)';
+      ventBtn.classList.remove('on-cooldown');
+    }
   }
 
   public destroy(): void {
     this.container.innerHTML = '';
+    this.container.classList.remove('jammed');
     this.abilityBar?.remove();
   }
 }
@@ -0,0 +1,80 @@
+/**
+ * MetaUpgradeUI - Prestige meta-upgrade tree modal (spends echoes)
+ */
+import { META_UPGRADES } from '../config/GameConfig';
+import { SaveManager } from '../systems/SaveManager';
+import { PrestigeManager } from '../systems/PrestigeManager';
+
+export interface MetaUpgradeUIOptions {
+  closeLabel?: string;
+  onClose?: () => void;
+}
+
+export class MetaUpgradeUI {
+  private overlay: HTMLElement | null = null;
+  private options: MetaUpgradeUIOptions;
+
+  constructor(options: MetaUpgradeUIOptions = {}) {
+    this.options = options;
+  }
+
+  open(): void {
+    this.overlay = document.createElement('div');
+    this.overlay.id = 'meta-upgrade-overlay';
+    this.overlay.className = 'modal-backdrop';
+    document.getElementById('ui-overlay')?.appendChild(this.overlay);
+    this.render();
+  }
+
+  close(): void {
+    this.overlay?.remove();
+    this.overlay = null;
+    this.options.onClose?.();
+  }
+
+  private render(): void {
+    if (!this.overlay) return;
+
+    const meta = SaveManager.getCurrent().meta;
+    const items = META_UPGRADES.map(upgrade => {
+      const level = PrestigeManager.getLevel(upgrade.id);
+      const maxed = level >= upgrade.maxLevel;
+      const cost = PrestigeManager.getCost(upgrade.id);
+      const affordable = PrestigeManager.canAfford(upgrade.id);
+
+      return `
+        <div class="upgrade-item ${maxed ? 'maxed' : affordable ? 'affordable' : 'locked'}">
+          <div class="upgrade-header">
+            <span class="upgrade-name">${upgrade.name}</span>
+            <span class="upgrade-level ${maxed ? 'max' : ''}">${maxed ? 'MAX' : `${level}/${upgrade.maxLevel}`}</span>
+          </div>
+          <p class="upgrade-description">${upgrade.description}</p>
+          <p class="upgrade-effect">${upgrade.effectDescription}</p>
+          <button class="settings-btn ${affordable ? 'primary' : ''} meta-buy-btn" data-id="${upgrade.id}" ${affordable ? '' : 'disabled'}>
+            ${maxed ? 'Owned' : `Buy - ${cost} Echoes`}
+          </button>
+        </div>
+      `;
+    }).join('');
+
+    this.overlay.innerHTML = `
+      <div class="modal meta-upgrades">
+        <h3 class="modal-title">Meta Upgrades</h3>
+        <p class="meta-echoes">◈ ${meta.echoes.toLocaleString()} Echoes <small>(Prestige ${meta.prestigeCount})</small></p>
+        <div class="meta-upgrade-list">${items}</div>
+        <div class="modal-buttons">
+          <button id="btn-meta-close" class="settings-btn primary">${this.options.closeLabel ?? 'Close'}</button>
+        </div>
+      </div>
+    `;
+
+    this.overlay.querySelectorAll<HTMLButtonElement>('.meta-buy-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (PrestigeManager.purchase(btn.dataset.id ?? '')) {
+          this.render();
+        }
+      });
+    });
+    document.getElementById('btn-meta-close')?.addEventListener('click', () => this.close());
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * OfflineReportUI - "While you were away" summary shown when a session starts
+ */
+import { WAVES_PER_SECTOR, getSectorName } from '../config/GameConfig';
+import type { OfflineReport } from '../sim/OfflineProgress';
+
+export class OfflineReportUI {
+  private overlay: HTMLElement | null = null;
+  private onClose?: () => void;
+
+  open(report: OfflineReport, onClose?: () => void): void {
+    this.onClose = onClose;
+
+    this.overlay = document.createElement('div');
+    this.overlay.id = 'offline-report-overlay';
+    this.overlay.className = 'modal-backdrop';
+    this.overlay.innerHTML = `
+      <div class="modal offline-report">
+        <h3 class="modal-title">While You Were Away</h3>
+        <p class="offline-report-away">
+          Away ${this.formatDuration(report.awaySeconds)}${report.capped ? ` <span class="offline-report-capped">(capped at ${report.capHours}h)</span>` : ''}
+          · ${Math.round(report.efficiency * 100)}% efficiency · ${this.formatDuration(report.creditedSeconds)} of combat
+        </p>
+        <div class="info-stat-grid">
+          ${this.renderStat('Scrap', Math.floor(report.scrap).toLocaleString())}
+          ${this.renderStat('Kills', report.kills.toLocaleString())}
+          ${this.renderStat('Waves cleared', report.wavesCleared.toLocaleString())}
+          ${this.renderStat('Bosses', report.bossesDefeated.toLocaleString())}
+          ${report.cores > 0 ? this.renderStat('Cores', report.cores.toLocaleString()) : ''}
+        </div>
+        <p class="offline-report-line">${this.getProgressLine(report)}</p>
+        ${this.getStallLine(report)}
+        ${report.scrap <= 0 ? '<p class="offline-report-line muted">Nothing was earned: only Auto-Fire and drones keep fighting while you are away.</p>' : ''}
+        <div class="modal-buttons">
+          <button id="btn-offline-collect" class="settings-btn primary">Collect</button>
+        </div>
+      </div>
+    `;
+    document.getElementById('ui-overlay')?.appendChild(this.overlay);
+
+    document.getElementById('btn-offline-collect')?.addEventListener('click', () => this.close());
+  }
+
+  close(): void {
+    this.overlay?.remove();
+    this.overlay = null;
+    this.onClose?.();
+  }
+
+  private renderStat(label: string, value: string): string {
+    return `
+      <div class="info-stat">
+        <span class="info-stat-label">${label}</span>
+        <span class="info-stat-value">${value}</span>
+      </div>
+    `;
+  }
+
+  private getProgressLine(report: OfflineReport): string {
+    const from = this.formatPosition(report.start.sector, report.start.wave);
+    const to = this.formatPosition(report.end.sector, report.end.wave);
+    return from === to ? `Held position at ${to}.` : `Advanced from ${from} to ${to}.`;
+  }
+
+  private getStallLine(report: OfflineReport): string {
+    if (!report.stalledAt && report.farmedSeconds <= 0) return '';
+
+    const reason = report.stalledAt
+      ? `The ship was destroyed at ${this.formatPosition(report.stalledAt.sector, report.stalledAt.wave)} and rebooted.`
+      : 'The ship held its ground.';
+    const farming = report.farmedSeconds > 0
+      ? ` It spent ${this.formatDuration(report.farmedSeconds)} farming cleared waves.`
+      : '';
+    return `<p class="offline-report-line muted">${reason}${farming}</p>`;
+  }
+
+  private formatPosition(sector: number, wave: number): string {
+    const waveLabel = wave > WAVES_PER_SECTOR ? 'Boss' : `Wave ${wave}`;
+    return `${getSectorName(sector)} ${waveLabel}`;
+  }
+
+  private formatDuration(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+}
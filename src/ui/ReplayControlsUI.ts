@@ -0,0 +1,113 @@
+/**
+ * ReplayControlsUI - Playback bar (pause, speed, scrub, exit) shown during replays
+ */
+
+export interface ReplayControlsOptions {
+  totalFrames: number;
+  formatFrame(frame: number): string;
+  onTogglePause(): void;
+  onCycleSpeed(): void;
+  onSeek(frame: number): void;
+  onExit(): void;
+}
+
+export interface ReplayControlsState {
+  frame: number;
+  paused: boolean;
+  finished: boolean;
+  speed: number;
+  seeking: boolean;
+}
+
+export class ReplayControlsUI {
+  private bar: HTMLElement | null = null;
+  private options: ReplayControlsOptions;
+  private scrubbing: boolean = false;
+  private lastState: string = '';
+
+  constructor(options: ReplayControlsOptions) {
+    this.options = options;
+  }
+
+  open(): void {
+    const total = this.options.totalFrames;
+
+    this.bar = document.createElement('div');
+    this.bar.id = 'replay-controls';
+    this.bar.className = 'replay-controls';
+    this.bar.innerHTML = `
+      <span class="replay-tag">REPLAY</span>
+      <button id="btn-replay-play" class="settings-btn replay-play">Pause</button>
+      <button id="btn-replay-speed" class="settings-btn replay-speed">1x</button>
+      <input type="range" id="replay-scrub" class="replay-scrub" min="0" max="${total}" value="0" step="1">
+      <span id="replay-time" class="replay-time">0:00 / ${this.options.formatFrame(total)}</span>
+      <button id="btn-replay-exit" class="settings-btn">Exit</button>
+    `;
+    document.getElementById('ui-overlay')?.appendChild(this.bar);
+
+    this.bindEvents();
+  }
+
+  close(): void {
+    document.removeEventListener('keydown', this.handleKeyDown);
+    this.bar?.remove();
+    this.bar = null;
+  }
+
+  update(state: ReplayControlsState): void {
+    if (!this.bar) return;
+
+    // Skip DOM writes when nothing visible changed
+    const key = `${state.frame}|${state.paused}|${state.finished}|${state.speed}|${state.seeking}`;
+    if (key === this.lastState) return;
+    this.lastState = key;
+
+    const play = document.getElementById('btn-replay-play');
+    if (play) play.textContent = state.finished ? 'Replay' : state.paused ? 'Play' : 'Pause';
+
+    const speed = document.getElementById('btn-replay-speed');
+    if (speed) speed.textContent = `${state.speed}x`;
+
+    if (!this.scrubbing) {
+      const scrub = document.getElementById('replay-scrub') as HTMLInputElement | null;
+      if (scrub) scrub.value = String(state.frame);
+      this.setTime(state.frame, state.seeking ? 'Seeking...' : '');
+    }
+  }
+
+  private bindEvents(): void {
+    document.getElementById('btn-replay-play')?.addEventListener('click', () => this.options.onTogglePause());
+    document.getElementById('btn-replay-speed')?.addEventListener('click', () => this.options.onCycleSpeed());
+    document.getElementById('btn-replay-exit')?.addEventListener('click', () => this.options.onExit());
+
+    const scrub = document.getElementById('replay-scrub') as HTMLInputElement;
+    scrub.addEventListener('input', () => {
+      // Preview the time while dragging, seek on release
+      this.scrubbing = true;
+      this.setTime(Number(scrub.value), '');
+    });
+    scrub.addEventListener('change', () => {
+      this.scrubbing = false;
+      this.options.onSeek(Number(scrub.value));
+    });
+
+    document.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.code === 'Space') {
+      event.preventDefault();
+      this.options.onTogglePause();
+    } else if (event.code === 'Escape') {
+      this.options.onExit();
+    }
+  };
+
+  private setTime(frame: number, note: string): void {
+    const time = document.getElementById('replay-time');
+    if (!time) return;
+    const current = this.options.formatFrame(frame);
+    const total = this.options.formatFrame(this.options.totalFrames);
+    time.textContent = note ? `${current} / ${total} - ${note}` : `${current} / ${total}`;
+  }
+}
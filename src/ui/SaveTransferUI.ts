@@ -0,0 +1,147 @@
+/**
+ * SaveTransferUI - Export/Import modal shared by the main menu and pause menu
+ */
+import { SaveManager } from '../systems/SaveManager';
+
+export interface SaveTransferOptions {
+  slot: number;
+  onImported?: () => void;
+  onClose?: () => void;
+}
+
+export class SaveTransferUI {
+  private overlay: HTMLElement | null = null;
+  private options: SaveTransferOptions;
+
+  constructor(options: SaveTransferOptions) {
+    this.options = options;
+  }
+
+  open(): void {
+    const slot = this.options.slot;
+    const code = SaveManager.exportSave(slot);
+    const hasSave = code.length > 0;
+
+    this.overlay = document.createElement('div');
+    this.overlay.id = 'save-transfer-overlay';
+    this.overlay.className = 'modal-backdrop';
+    this.overlay.innerHTML = `
+      <div class="modal save-transfer">
+        <h3 class="modal-title">Export / Import - ${this.escapeHtml(SaveManager.getSlotName(slot))}</h3>
+        <div class="save-transfer-section">
+          <span class="save-transfer-label">Export</span>
+          <textarea id="save-export-code" readonly placeholder="Nothing saved in this slot yet">${code}</textarea>
+          <div class="modal-buttons">
+            <button id="btn-export-copy" class="settings-btn" ${hasSave ? '' : 'disabled'}>Copy Code</button>
+            <button id="btn-export-download" class="settings-btn" ${hasSave ? '' : 'disabled'}>Download .json</button>
+          </div>
+        </div>
+        <div class="save-transfer-section">
+          <span class="save-transfer-label">Import <small>(replaces this slot)</small></span>
+          <textarea id="save-import-code" placeholder="Paste a save code here"></textarea>
+          <div class="modal-buttons">
+            <input type="file" id="input-import-file" accept=".json,application/json" hidden>
+            <button id="btn-import-upload" class="settings-btn">Upload .json</button>
+            <button id="btn-import-code" class="settings-btn primary">Import Code</button>
+          </div>
+        </div>
+        <p class="save-transfer-status" id="save-transfer-status"></p>
+        <div class="modal-buttons">
+          <button id="btn-transfer-close" class="settings-btn">Close</button>
+        </div>
+      </div>
+    `;
+    document.getElementById('ui-overlay')?.appendChild(this.overlay);
+
+    this.bindEvents(code);
+  }
+
+  close(): void {
+    this.overlay?.remove();
+    this.overlay = null;
+    this.options.onClose?.();
+  }
+
+  private bindEvents(code: string): void {
+    document.getElementById('btn-export-copy')?.addEventListener('click', () => {
+      this.copyToClipboard(code);
+    });
+
+    document.getElementById('btn-export-download')?.addEventListener('click', () => {
+      this.downloadFile();
+    });
+
+    document.getElementById('btn-import-code')?.addEventListener('click', () => {
+      const input = document.getElementById('save-import-code') as HTMLTextAreaElement;
+      this.importData(input.value);
+    });
+
+    const fileInput = document.getElementById('input-import-file') as HTMLInputElement;
+    document.getElementById('btn-import-upload')?.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      file.text()
+        .then(text => this.importData(text))
+        .catch(() => this.setStatus('Could not read that file.', 'error'));
+      fileInput.value = '';
+    });
+
+    document.getElementById('btn-transfer-close')?.addEventListener('click', () => this.close());
+  }
+
+  private importData(data: string): void {
+    const result = SaveManager.tryImportSave(data, this.options.slot);
+    if (!result.success) {
+      this.setStatus(result.error ?? 'Import failed.', 'error');
+      return;
+    }
+
+    this.overlay?.remove();
+    this.overlay = null;
+    this.options.onImported?.();
+  }
+
+  private copyToClipboard(code: string): void {
+    const textarea = document.getElementById('save-export-code') as HTMLTextAreaElement;
+    const fallback = () => {
+      // Clipboard API unavailable/blocked - leave the code selected for manual copy
+      textarea.select();
+      this.setStatus('Press Ctrl+C to copy the selected code.', 'error');
+    };
+
+    if (!navigator.clipboard) {
+      fallback();
+      return;
+    }
+    navigator.clipboard.writeText(code)
+      .then(() => this.setStatus('Save code copied to clipboard.', 'success'))
+      .catch(fallback);
+  }
+
+  private downloadFile(): void {
+    const contents = SaveManager.exportSaveFile(this.options.slot);
+    const blob = new Blob([contents], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const name = SaveManager.getSlotName(this.options.slot).replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+    link.href = url;
+    link.download = `auto-invaders-${name}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    this.setStatus('Save file downloaded.', 'success');
+  }
+
+  private setStatus(message: string, type: 'success' | 'error'): void {
+    const status = document.getElementById('save-transfer-status');
+    if (!status) return;
+    status.textContent = message;
+    status.className = `save-transfer-status ${type}`;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
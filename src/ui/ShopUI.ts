@@ -5,18 +5,53 @@ import {
   UPGRADES,
   UpgradeDefinition,
   BEHAVIOR_SCRIPTS,
+  BehaviorScript,
   WEAPON_MODS,
+  WeaponMod,
+  DRONE_CLASSES,
+  DroneClass,
+  DRONE_FORMATIONS,
+  getDroneFormation,
+  getDroneDamage,
+  getDroneFireInterval,
+  getHeavyDroneDamage,
+  getHeavyDroneInterval,
+  getInterceptorInterval,
+  getInterceptorRange,
+  getRepairDroneHealRate,
+  getShieldDroneCharges,
+  getShieldDroneRecharge,
+  getSalvageDroneBonus,
+  getLoadoutDamageMultiplier,
   ENEMY_TYPES,
   SECTOR_ENEMY_UNLOCKS,
   getEnemyHP,
   getScrapDrop,
   getEnemyFireMultiplier,
   getEnemyBulletSpeedMultiplier,
+  getShieldRegenRate,
+  SHIELD_FRACTION,
+  SHIELD_REGEN_DELAY,
   WAVES_PER_SECTOR,
+  VENT_DAMAGE_PER_HEAT,
+  getHeatCapacity,
+  getHeatCooling,
+  getVentCooldown,
   GAME_WIDTH,
   REPEATABLE_MAX_LEVEL,
+  JAMMER_MAX_SPREAD,
+  getJammerPenaltyMultiplier,
+  getEliteChance,
+  getEnemyFireProfile,
+  ENEMY_BULLET_SPEED,
+  ENEMY_BULLET_DAMAGE,
+  ELITE_HP_MULTIPLIER,
+  ELITE_SCRAP_PER_AFFIX,
+  ELITE_CORE_FRAGMENT_CHANCE,
+  CORE_FRAGMENTS_PER_CORE,
 } from '../config/GameConfig';
 import { SaveManager } from '../systems/SaveManager';
+import { getAvailableEliteAffixes } from '../systems/EliteAffixes';
 
 type CategoryKey = 'core' | 'weapons' | 'autopilot' | 'drones' | 'economy' | 'survival' | 'mods' | 'behavior';
 type ViewMode = 'upgrades' | 'info';
@@ -32,8 +67,18 @@ interface GameSceneInterface {
     getDamage(): number;
     getFireRate(): number;
     getBulletSpeed(): number;
+    isWeaponModUnlocked(mod: WeaponMod): boolean;
+    getActiveWeaponMod(): WeaponMod;
+    getActiveBehaviorScript(): BehaviorScript;
+    getDroneBayCount(): number;
+    getDroneLoadout(): DroneClass[];
+    isDroneClassUnlocked(droneClass: DroneClass): boolean;
   };
   purchaseUpgrade(id: string): void;
+  selectWeaponMod(id: string): void;
+  selectBehaviorScript(id: string): void;
+  selectDroneClass(bay: number, classId: string): void;
+  selectDroneFormation(id: string): void;
   spawnDrones?(): void;
 }
 
@@ -135,6 +180,10 @@ export class ShopUI {
       return;
     }
 
+    if (this.currentTab === 'drones') {
+      this.renderDroneLoadout(content);
+    }
+
     const recommended = this.scene.upgradeManager.getRecommended();
     const upgrades = UPGRADES.filter(u => u.category === this.currentTab);
 
@@ -158,26 +207,124 @@ export class ShopUI {
     }
 
     WEAPON_MODS.forEach(mod => {
-      const isActive = save.activeWeaponMod === mod.id;
+      const isUnlocked = this.scene.upgradeManager.isWeaponModUnlocked(mod);
+      const isActive = isUnlocked && save.activeWeaponMod === mod.id;
       const item = document.createElement('div');
-      item.className = `upgrade-item ${isActive ? 'active recommended' : 'affordable'}`;
+      item.className = `upgrade-item ${isActive ? 'active recommended' : isUnlocked ? 'affordable' : 'locked'}`;
       const iconHtml = this.getModIconHtml(mod.id);
+      const levelText = isActive ? 'ACTIVE' : isUnlocked ? 'SELECT' : 'LOCKED';
       item.innerHTML = `
                 <div class="upgrade-header">
                     <span class="upgrade-name">${iconHtml}${mod.name}</span>
-                    <span class="upgrade-level ${isActive ? 'max' : ''}">${isActive ? 'ACTIVE' : 'SELECT'}</span>
+                    <span class="upgrade-level ${isActive ? 'max' : ''}">${levelText}</span>
                 </div>
                 <p class="upgrade-description">${mod.description}</p>
-                <p class="upgrade-effect">Damage: ${Math.round(mod.damageMultiplier * 100)}%</p>
+                <p class="upgrade-effect">Damage: ${Math.round(mod.damageMultiplier * 100)}% | DPS: ${Math.round(mod.dpsMultiplier * 100)}%</p>
+                ${!isUnlocked ? `<p class="upgrade-lock-reason">Requires Sector ${mod.minSector}</p>` : ''}
             `;
-      item.addEventListener('click', () => {
-        SaveManager.update({ activeWeaponMod: mod.id });
-        this.renderContent();
-      });
+      if (isUnlocked) {
+        item.addEventListener('click', () => {
+          this.scene.selectWeaponMod(mod.id);
+        });
+      }
       content.appendChild(item);
     });
   }
 
+  /**
+   * Formation buttons, then one row of class buttons per drone bay, above the drone upgrades
+   */
+  private renderDroneLoadout(content: HTMLElement): void {
+    const loadout = this.scene.upgradeManager.getDroneLoadout();
+    if (loadout.length === 0) return;
+
+    const panel = document.createElement('div');
+    panel.className = 'drone-loadout';
+    panel.appendChild(this.createFormationPicker());
+
+    loadout.forEach((active, bay) => {
+      const row = document.createElement('div');
+      row.className = 'drone-bay';
+      row.innerHTML = `<div class="drone-bay-header"><span>Bay ${bay + 1}</span><span class="drone-bay-class">${active.name}</span></div>`;
+
+      const buttons = document.createElement('div');
+      buttons.className = 'drone-pick-buttons';
+      DRONE_CLASSES.forEach(droneClass => {
+        const isUnlocked = this.scene.upgradeManager.isDroneClassUnlocked(droneClass);
+        const btn = document.createElement('button');
+        btn.className = `drone-pick-btn${droneClass.id === active.id ? ' active' : ''}`;
+        btn.style.setProperty('--drone-color', `#${droneClass.color.toString(16).padStart(6, '0')}`);
+        btn.textContent = droneClass.name;
+        btn.title = isUnlocked ? droneClass.description : `Requires Sector ${droneClass.minSector}`;
+        btn.disabled = !isUnlocked;
+        if (isUnlocked && droneClass.id !== active.id) {
+          btn.addEventListener('click', () => {
+            this.scene.selectDroneClass(bay, droneClass.id);
+          });
+        }
+        buttons.appendChild(btn);
+      });
+      row.appendChild(buttons);
+
+      const effect = document.createElement('p');
+      effect.className = 'upgrade-effect';
+      effect.textContent = this.getDroneClassEffect(active);
+      row.appendChild(effect);
+
+      panel.appendChild(row);
+    });
+
+    content.appendChild(panel);
+  }
+
+  private createFormationPicker(): HTMLElement {
+    const active = getDroneFormation(SaveManager.getCurrent().activeDroneFormation);
+    const row = document.createElement('div');
+    row.className = 'drone-bay';
+    row.innerHTML = `<div class="drone-bay-header"><span>Formation</span><span class="drone-bay-class">${active.name}</span></div>`;
+
+    const buttons = document.createElement('div');
+    buttons.className = 'drone-pick-buttons';
+    DRONE_FORMATIONS.forEach(formation => {
+      const btn = document.createElement('button');
+      btn.className = `drone-pick-btn${formation.id === active.id ? ' active' : ''}`;
+      btn.textContent = formation.name;
+      btn.title = formation.description;
+      if (formation.id !== active.id) {
+        btn.addEventListener('click', () => {
+          this.scene.selectDroneFormation(formation.id);
+        });
+      }
+      buttons.appendChild(btn);
+    });
+    row.appendChild(buttons);
+
+    const effect = document.createElement('p');
+    effect.className = 'upgrade-effect';
+    effect.textContent = active.description;
+    row.appendChild(effect);
+
+    return row;
+  }
+
+  private getDroneClassEffect(droneClass: DroneClass): string {
+    const level = (id: string) => SaveManager.getUpgradeLevel(id);
+    switch (droneClass.id) {
+      case 'interceptor':
+        return `Shoots down a bullet within ${Math.round(getInterceptorRange(level('interceptorRange')))}px every ${(getInterceptorInterval(level('interceptorCycling')) / 1000).toFixed(2)}s.`;
+      case 'repair':
+        return `Heals ${(getRepairDroneHealRate(level('repairDroneOutput')) * 100).toFixed(2)}% max HP per second.`;
+      case 'shield':
+        return `Stores ${getShieldDroneCharges(level('shieldDroneCapacity'))} hits, one every ${(getShieldDroneRecharge(level('shieldDroneRecharge')) / 1000).toFixed(1)}s.`;
+      case 'salvage':
+        return `+${Math.round(getSalvageDroneBonus(level('salvageDroneYield')) * 100)}% scrap.`;
+      case 'heavy':
+        return `${getHeavyDroneDamage(level('heavyDroneWarheads')).toFixed(1)} damage homing missile every ${(getHeavyDroneInterval(level('heavyDroneReload')) / 1000).toFixed(1)}s.`;
+      default:
+        return `DPS ${this.getDroneDpsStats().perDrone.toFixed(1)}.`;
+    }
+  }
+
   private renderBehaviorScripts(content: HTMLElement): void {
     const save = SaveManager.getCurrent();
     const hasScripts = SaveManager.hasUpgrade('behaviorScripts');
@@ -198,16 +345,26 @@ export class ShopUI {
                     <span class="upgrade-level ${isActive ? 'max' : ''}">${isActive ? 'ACTIVE' : 'SELECT'}</span>
                 </div>
                 <p class="upgrade-description">${script.description}</p>
-                <p class="upgrade-effect">DMG: ${Math.round(script.damageModifier * 100)}% | Salvage: ${Math.round(script.salvageModifier * 100)}% | Evasion: ${Math.round(script.evasionModifier * 100)}%</p>
+                <p class="upgrade-effect">DMG: ${Math.round(script.damageModifier * 100)}% | Salvage: ${Math.round(script.salvageModifier * 100)}% | Evasion: ${Math.round(script.evasionModifier * 100)}% | Targets: ${this.getTargetingLabel(script.targetingBias)}${script.extraShotChance > 0 ? ` | Extra shot: ${Math.round(script.extraShotChance * 100)}%` : ''}</p>
             `;
       item.addEventListener('click', () => {
-        SaveManager.update({ activeBehaviorScript: script.id });
-        this.renderContent();
+        this.scene.selectBehaviorScript(script.id);
       });
       content.appendChild(item);
     });
   }
 
+  private getTargetingLabel(bias: BehaviorScript['targetingBias']): string {
+    switch (bias) {
+      case 'valuable':
+        return 'Richest';
+      case 'random':
+        return 'Random';
+      default:
+        return 'Closest';
+    }
+  }
+
   private createUpgradeItem(upgrade: UpgradeDefinition, recommended: string | null): HTMLElement {
     const level = this.scene.upgradeManager.getLevel(upgrade.id);
     const cost = this.scene.upgradeManager.getCost(upgrade.id);
@@ -276,36 +433,24 @@ export class ShopUI {
   private renderInfo(content: HTMLElement): void {
     const save = SaveManager.getCurrent();
     const hasWeaponMods = SaveManager.hasUpgrade('weaponModSlot');
-    const weaponMod = save.activeWeaponMod || 'standard';
-    const scriptId = save.activeBehaviorScript || 'balanced';
-    const script = BEHAVIOR_SCRIPTS.find(s => s.id === scriptId) || BEHAVIOR_SCRIPTS[0];
-
-    let modLabel = 'Standard';
-    let modMultiplier = 1;
-    let bulletsPerShot = 1;
-
-    if (hasWeaponMods && weaponMod === 'pierce') {
-      modLabel = 'Pierce';
-      modMultiplier = 0.9;
-    } else if (hasWeaponMods && weaponMod === 'scatter') {
-      modLabel = 'Scatter';
-      modMultiplier = 0.6;
-      bulletsPerShot = 3;
-    }
+    const mod = this.scene.upgradeManager.getActiveWeaponMod();
+    const script = this.scene.upgradeManager.getActiveBehaviorScript();
+
+    const modLabel = mod.name;
+    const bulletsPerShot = mod.projectiles ?? 1;
 
-    const weaponDamage = this.scene.upgradeManager.getDamage() * script.damageModifier * modMultiplier;
+    // dpsMultiplier already folds in pellets, pierce, charge-up and so on
+    const weaponDamage = this.scene.upgradeManager.getDamage() * script.damageModifier * mod.damageMultiplier;
     const weaponFireRate = this.scene.upgradeManager.getFireRate();
-    const weaponDps = weaponDamage * bulletsPerShot * weaponFireRate;
+    const weaponDps = this.scene.upgradeManager.getDamage() * getLoadoutDamageMultiplier(mod, script) * weaponFireRate;
     const bulletSpeed = this.scene.upgradeManager.getBulletSpeed();
 
-    const droneSlots = (SaveManager.hasUpgrade('droneSlot1') ? 1 : 0) + (SaveManager.hasUpgrade('droneSlot2') ? 1 : 0);
-    const droneDamageLevel = SaveManager.getUpgradeLevel('droneDamage');
-    const droneFireRateLevel = SaveManager.getUpgradeLevel('droneFireRate');
-    const droneDamage = 5 * Math.pow(1.08, droneDamageLevel);
-    const droneInterval = 800 / Math.pow(1.06, droneFireRateLevel);
-    const droneShotsPerSec = 1000 / droneInterval;
-    const droneDpsPer = droneDamage * droneShotsPerSec;
-    const droneDpsTotal = droneDpsPer * droneSlots;
+    const droneStats = this.getDroneDpsStats();
+    const droneSlots = droneStats.slots;
+    const droneDamage = getDroneDamage(SaveManager.getUpgradeLevel('droneDamage'));
+    const droneShotsPerSec = 1000 / getDroneFireInterval(SaveManager.getUpgradeLevel('droneFireRate'));
+    const droneDpsPer = droneStats.perDrone;
+    const droneDpsTotal = droneStats.total;
 
     const globalWave = save.currentSector * WAVES_PER_SECTOR + save.currentWave;
     const unlockedTypes = this.getUnlockedEnemyTypes(save.currentSector);
@@ -319,16 +464,30 @@ export class ShopUI {
       const fireInterval = stats.canShoot
         ? Math.round((stats.shootInterval || 3000) / getEnemyFireMultiplier(globalWave))
         : null;
+      const fireProfile = getEnemyFireProfile(id);
       const bulletSpeedValue = stats.canShoot
-        ? Math.round(150 * getEnemyBulletSpeedMultiplier(globalWave))
+        ? Math.round(ENEMY_BULLET_SPEED * fireProfile.speed * getEnemyBulletSpeedMultiplier(globalWave))
         : null;
       const name = id.replace(/_/g, ' ').replace(/\b\w/g, (match) => match.toUpperCase());
       const scrapText = scrap >= 1 ? scrap.toFixed(1) : scrap.toFixed(2);
       const preview = this.getEnemyPreviewSvg(id, stats.color);
 
-      const shotDamageValue = stats.canShoot ? '10' : 'None';
+      const volley = fireProfile.pattern === 'spread' || fireProfile.pattern === 'burst' ? ` x${fireProfile.count ?? 3}` : '';
+      const shotDamageValue = stats.canShoot ? `${fireProfile.damage}${volley}` : 'None';
       const fireIntervalValue = stats.canShoot ? `${fireInterval}ms` : 'None';
       const bulletSpeedText = stats.canShoot ? `${bulletSpeedValue}px/s` : 'None';
+      const shieldStats = id === 'shielded'
+        ? `
+            <div class="info-stat">
+              <span class="info-stat-label">Shield</span>
+              <span class="info-stat-value">${Math.round(hp * SHIELD_FRACTION)}</span>
+            </div>
+            <div class="info-stat">
+              <span class="info-stat-label">Shield regen</span>
+              <span class="info-stat-value">${Math.round(hp * SHIELD_FRACTION * getShieldRegenRate(globalWave))}/s after ${SHIELD_REGEN_DELAY / 1000}s</span>
+            </div>
+          `
+        : '';
 
       return `
         <div class="info-card enemy-card">
@@ -337,7 +496,7 @@ export class ShopUI {
               <span class="enemy-preview info-card-icon" aria-hidden="true">${preview}</span>
               <div class="info-card-heading">
                 <div class="info-card-title">${name}</div>
-                <div class="info-card-subtitle">HP ${hp} | Speed ${stats.speed}</div>
+                <div class="info-card-subtitle">HP ${hp} | Speed ${stats.speed}${stats.canShoot ? ` | ${fireProfile.pattern[0].toUpperCase()}${fireProfile.pattern.slice(1)} fire` : ''}</div>
               </div>
             </div>
             <span class="info-card-badge">Scrap ${scrapText}</span>
@@ -359,11 +518,58 @@ export class ShopUI {
               <span class="info-stat-label">Collision</span>
               <span class="info-stat-value">15</span>
             </div>
+            ${shieldStats}
           </div>
         </div>
       `;
     }).join('');
 
+    const eliteChance = getEliteChance(save.currentSector, globalWave);
+    const eliteCards = getAvailableEliteAffixes(save.currentSector).map((affix) => `
+        <div class="info-card">
+          <div class="info-card-header">
+            <div class="info-card-leading">
+              <span class="info-card-icon" aria-hidden="true" style="color: #${affix.color.toString(16).padStart(6, '0')}">&#9670;</span>
+              <div class="info-card-heading">
+                <div class="info-card-title">${affix.name}</div>
+                <div class="info-card-subtitle">${affix.description}</div>
+              </div>
+            </div>
+            <span class="info-card-badge">Sector ${affix.minSector}+</span>
+          </div>
+        </div>
+      `).join('');
+    const eliteSection = eliteCards
+      ? `
+      <div class="info-section">
+        <div class="info-section-title">Elite Affixes</div>
+        <div class="info-card">
+          <div class="info-stat-grid">
+            <div class="info-stat">
+              <span class="info-stat-label">Elite chance</span>
+              <span class="info-stat-value">${Math.round(eliteChance * 100)}%</span>
+            </div>
+            <div class="info-stat">
+              <span class="info-stat-label">Elite HP</span>
+              <span class="info-stat-value">x${ELITE_HP_MULTIPLIER}</span>
+            </div>
+            <div class="info-stat">
+              <span class="info-stat-label">Scrap/affix</span>
+              <span class="info-stat-value">+${Math.round(ELITE_SCRAP_PER_AFFIX * 100)}%</span>
+            </div>
+            <div class="info-stat">
+              <span class="info-stat-label">Core fragment</span>
+              <span class="info-stat-value">${Math.round(ELITE_CORE_FRAGMENT_CHANCE * 100)}% (${save.coreFragments}/${CORE_FRAGMENTS_PER_CORE})</span>
+            </div>
+          </div>
+        </div>
+        <div class="info-card-grid">
+          ${eliteCards}
+        </div>
+      </div>
+    `
+      : '';
+
     content.innerHTML = `
       <div class="info-section">
         <div class="info-card">
@@ -402,7 +608,7 @@ export class ShopUI {
               <span class="info-card-icon" aria-hidden="true">${this.getInfoIconSvg('drones')}</span>
               <div class="info-card-heading">
                 <div class="info-card-title">Drone Systems</div>
-                <div class="info-card-subtitle">Active drones: ${droneSlots}</div>
+                <div class="info-card-subtitle">Active drones: ${droneSlots} | ${getDroneFormation(save.activeDroneFormation).name}</div>
               </div>
             </div>
             <span class="info-card-badge">DPS ${droneDpsTotal.toFixed(1)}</span>
@@ -440,7 +646,7 @@ export class ShopUI {
           <div class="info-stat-grid">
             <div class="info-stat">
               <span class="info-stat-label">Bullet dmg</span>
-              <span class="info-stat-value">10</span>
+              <span class="info-stat-value">${ENEMY_BULLET_DAMAGE}</span>
             </div>
             <div class="info-stat">
               <span class="info-stat-label">Collision</span>
@@ -463,6 +669,7 @@ export class ShopUI {
           ${enemyCards}
         </div>
       </div>
+      ${eliteSection}
     `;
   }
 
@@ -498,6 +705,13 @@ export class ShopUI {
             <polyline points="6 4 6 9 11 9"></polyline>
           </svg>
         `;
+      case 'offlineCapacity':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <circle cx="12" cy="12" r="8"></circle>
+            <polyline points="12 7 12 12 15 14"></polyline>
+          </svg>
+        `;
       case 'weaponModSlot':
         return `
           <svg viewBox="0 0 24 24" role="img" focusable="false">
@@ -581,8 +795,18 @@ export class ShopUI {
             <circle cx="12" cy="12" r="2"></circle>
           </svg>
         `;
+      case 'autopilotV4':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <path d="M4 18c3-6 5-9 8-9s5 3 8 9"></path>
+            <path d="M8 18c1-3 2-5 4-5s3 2 4 5"></path>
+            <circle cx="12" cy="6" r="2"></circle>
+          </svg>
+        `;
       case 'droneSlot1':
       case 'droneSlot2':
+      case 'droneSlot3':
+      case 'droneSlot4':
         return `
           <svg viewBox="0 0 24 24" role="img" focusable="false">
             <circle cx="12" cy="12" r="3"></circle>
@@ -604,6 +828,49 @@ export class ShopUI {
             <path d="M16 8c2 2 3 4 3 6"></path>
           </svg>
         `;
+      case 'interceptorCycling':
+      case 'interceptorRange':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <circle cx="12" cy="12" r="6"></circle>
+            <line x1="12" y1="3" x2="12" y2="8"></line>
+            <line x1="12" y1="16" x2="12" y2="21"></line>
+            <line x1="3" y1="12" x2="8" y2="12"></line>
+            <line x1="16" y1="12" x2="21" y2="12"></line>
+          </svg>
+        `;
+      case 'repairDroneOutput':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <circle cx="12" cy="12" r="7"></circle>
+            <line x1="12" y1="8" x2="12" y2="16"></line>
+            <line x1="8" y1="12" x2="16" y2="12"></line>
+          </svg>
+        `;
+      case 'shieldDroneCapacity':
+      case 'shieldDroneRecharge':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <path d="M12 4l7 3v5c0 4-3 7-7 8-4-1-7-4-7-8V7z"></path>
+            <circle cx="12" cy="12" r="2"></circle>
+          </svg>
+        `;
+      case 'salvageDroneYield':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <circle cx="12" cy="9" r="3"></circle>
+            <path d="M9 12l-2 6"></path>
+            <path d="M15 12l2 6"></path>
+          </svg>
+        `;
+      case 'heavyDroneWarheads':
+      case 'heavyDroneReload':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <path d="M12 3l3 5v9h-6V8z"></path>
+            <line x1="9" y1="20" x2="15" y2="20"></line>
+          </svg>
+        `;
       case 'salvageYield':
         return `
           <svg viewBox="0 0 24 24" role="img" focusable="false">
@@ -723,6 +990,41 @@ export class ShopUI {
             <line x1="12" y1="6" x2="17" y2="18"></line>
           </svg>
         `;
+      case 'homing':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <path d="M8 20c0-8 8-8 8-14"></path>
+            <path d="M12 6l4 0l0 4"></path>
+          </svg>
+        `;
+      case 'chain':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <path d="M13 3l-6 10h5l-1 8l6-10h-5z"></path>
+          </svg>
+        `;
+      case 'ricochet':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <path d="M5 19l7-13l7 13"></path>
+            <line x1="4" y1="6" x2="20" y2="6"></line>
+          </svg>
+        `;
+      case 'beam':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <rect x="10" y="3" width="4" height="18" rx="1"></rect>
+            <line x1="6" y1="21" x2="18" y2="21"></line>
+          </svg>
+        `;
+      case 'railgun':
+        return `
+          <svg viewBox="0 0 24 24" role="img" focusable="false">
+            <line x1="9" y1="3" x2="9" y2="21"></line>
+            <line x1="15" y1="3" x2="15" y2="21"></line>
+            <line x1="12" y1="6" x2="12" y2="18"></line>
+          </svg>
+        `;
       default:
         return '';
     }
@@ -901,19 +1203,17 @@ export class ShopUI {
     }
 
     if (upgrade.id === 'stability') {
-      const stabilityBonus = level * 7;
-      lines.push(`Current stability: +${stabilityBonus}%`);
+      const penalty = getJammerPenaltyMultiplier(level);
+      lines.push(`Jammer penalty: ${Math.round(penalty * 100)}% (max aim drift ±${Math.round(JAMMER_MAX_SPREAD * penalty)}px)`);
     }
 
     if (upgrade.id === 'heatCapacity') {
-      const baseCapacity = 100;
-      const currentCapacity = Math.round(baseCapacity * (1 + level * 0.10));
-      lines.push(`Current capacity: ${currentCapacity}`);
+      const capacity = getHeatCapacity(level);
+      lines.push(`Current capacity: ${Math.round(capacity)} (full vent: ${(capacity * VENT_DAMAGE_PER_HEAT).toFixed(1)}x shot damage)`);
     }
 
     if (upgrade.id === 'coolingRate') {
-      const coolingBonus = level * 8;
-      lines.push(`Current cooling: +${coolingBonus}%`);
+      lines.push(`Current cooling: ${getHeatCooling(level).toFixed(1)} heat/s, vent every ${(getVentCooldown(level) / 1000).toFixed(1)}s`);
     }
 
     if (upgrade.id === 'autopilotRange') {
@@ -946,7 +1246,7 @@ export class ShopUI {
       }
     }
 
-    if (upgrade.id === 'droneSlot1' || upgrade.id === 'droneSlot2') {
+    if (upgrade.id.startsWith('droneSlot')) {
       const droneStats = this.getDroneDpsStats();
       lines.push(`Active drones: ${droneStats.slots}.`);
     }
@@ -967,15 +1267,23 @@ export class ShopUI {
     return Math.max(minDelay, baseDelay - level);
   }
 
+  /**
+   * perDrone is a combat drone; total adds up every combat and heavy drone in the loadout
+   */
   private getDroneDpsStats(): { perDrone: number; total: number; slots: number } {
-    const slots = (SaveManager.hasUpgrade('droneSlot1') ? 1 : 0) + (SaveManager.hasUpgrade('droneSlot2') ? 1 : 0);
-    const damageLevel = SaveManager.getUpgradeLevel('droneDamage');
-    const fireRateLevel = SaveManager.getUpgradeLevel('droneFireRate');
-    const damage = 5 * Math.pow(1.08, damageLevel);
-    const interval = 800 / Math.pow(1.06, fireRateLevel);
-    const shotsPerSec = 1000 / interval;
-    const perDrone = damage * shotsPerSec;
-    return { perDrone, total: perDrone * slots, slots };
+    const loadout = this.scene.upgradeManager.getDroneLoadout();
+    const damage = getDroneDamage(SaveManager.getUpgradeLevel('droneDamage'));
+    const interval = getDroneFireInterval(SaveManager.getUpgradeLevel('droneFireRate'));
+    const perDrone = damage * (1000 / interval);
+    const heavyDps = getHeavyDroneDamage(SaveManager.getUpgradeLevel('heavyDroneWarheads'))
+      * (1000 / getHeavyDroneInterval(SaveManager.getUpgradeLevel('heavyDroneReload')));
+
+    const total = loadout.reduce((sum, droneClass) => {
+      if (droneClass.id === 'combat') return sum + perDrone;
+      if (droneClass.id === 'heavy') return sum + heavyDps;
+      return sum;
+    }, 0);
+    return { perDrone, total, slots: loadout.length };
   }
 
   private switchView(view: ViewMode): void {
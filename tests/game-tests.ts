@@ -151,10 +151,1197 @@ async function testExportImport(): Promise<void> {
     assertEqual(SaveManager.getCurrent().currentWave, 5, 'Imported wave should be 5');
 }
 
+async function testSaveSlotsIsolated(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    SaveManager.reset(0);
+    SaveManager.addScrap(100);
+    SaveManager.save(SaveManager.getCurrent());
+
+    SaveManager.reset(1);
+    assertEqual(SaveManager.getActiveSlot(), 1, 'Reset should make the slot active');
+    SaveManager.addScrap(7);
+    SaveManager.save(SaveManager.getCurrent());
+
+    assertEqual(SaveManager.load(0).scrap, 100, 'Slot 0 should keep its own scrap');
+    assertEqual(SaveManager.getSlotInfo(1).scrap, 7, 'Slot 1 should keep its own scrap');
+    assert(localStorage.getItem('autoInvaders_save') !== null, 'Slot 0 should use the original save key');
+    assert(!SaveManager.hasSave(2), 'Untouched slot should be empty');
+
+    SaveManager.deleteSlot(1);
+}
+
+async function testSaveSlotCopyRenameDelete(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    SaveManager.reset(0);
+    SaveManager.update({ currentSector: 2, currentWave: 6 });
+    SaveManager.save(SaveManager.getCurrent());
+    SaveManager.renameSlot(0, 'Main Run');
+
+    assert(SaveManager.copySlot(0, 2), 'Copy should succeed');
+    const copy = SaveManager.getSlotInfo(2);
+    assertEqual(copy.sector, 2, 'Copied sector should match');
+    assertEqual(copy.wave, 6, 'Copied wave should match');
+    assertEqual(copy.name, 'Main Run (copy)', 'Copy should be named after its source');
+
+    const exported = SaveManager.exportSave(2);
+    assert(SaveManager.importSave(exported, 1), 'Import into another slot should succeed');
+    assertEqual(SaveManager.getSlotInfo(1).sector, 2, 'Imported slot should match');
+    assertEqual(SaveManager.getActiveSlot(), 0, 'Import into another slot should not switch slots');
+
+    SaveManager.deleteSlot(1);
+    SaveManager.deleteSlot(2);
+    SaveManager.renameSlot(0, '');
+    assert(!SaveManager.hasSave(2), 'Deleted slot should be empty');
+    assertEqual(SaveManager.getSlotName(0), 'Slot 1', 'Blank rename should restore the default name');
+    assert(SaveManager.hasSave(0), 'Deleting other slots should keep slot 0');
+}
+
+// ============================================================================
+// SAVE CODE TESTS
+// ============================================================================
+
+async function testSaveCodeRoundTrip(): Promise<void> {
+    const { encodeSaveCode, decodeSaveCode } = await import('../src/systems/SaveCodec');
+
+    const samples = [
+        '{}',
+        JSON.stringify({ name: 'Ünïcode ☄ run', values: [1, 2, 3] }),
+        JSON.stringify({ upgrades: Object.fromEntries(Array.from({ length: 400 }, (_, i) => [`upgrade${i}`, i])) }),
+    ];
+    samples.forEach(json => {
+        assertEqual(decodeSaveCode(encodeSaveCode(json)), json, 'Save code should round-trip');
+    });
+}
+
+async function testSaveCodeCompressed(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    SaveManager.reset();
+    const code = SaveManager.exportSave();
+    const legacyLength = btoa(JSON.stringify(SaveManager.getCurrent())).length;
+
+    assert(code.startsWith('AI1.'), 'Save code should carry its format version');
+    assert(code.length < legacyLength, `Save code (${code.length}) should be shorter than plain base64 (${legacyLength})`);
+}
+
+async function testTamperedSaveCodeRejected(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    SaveManager.reset();
+    SaveManager.addScrap(10);
+    const code = SaveManager.exportSave();
+    const [version, hash, payload] = code.split('.');
+    const flipped = payload[5] === 'A' ? 'B' : 'A';
+    const tampered = `${version}.${hash}.${payload.slice(0, 5)}${flipped}${payload.slice(6)}`;
+
+    const result = SaveManager.tryImportSave(tampered);
+    assert(!result.success, 'Tampered code should fail to import');
+    assert(/corrupted|integrity/.test(result.error ?? ''), `Error should explain the failure, got: ${result.error}`);
+
+    const truncated = SaveManager.tryImportSave(code.slice(0, 12));
+    assert(!truncated.success, 'Truncated code should fail to import');
+    assertEqual(SaveManager.getCurrent().scrap, 10, 'Failed imports should keep the current save');
+}
+
+async function testLegacyCodeAndSaveFileImport(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    SaveManager.reset();
+    SaveManager.update({ currentWave: 7 });
+    SaveManager.save(SaveManager.getCurrent());
+    const legacy = btoa(JSON.stringify(SaveManager.getCurrent()));
+    const file = SaveManager.exportSaveFile();
+
+    SaveManager.reset();
+    assert(SaveManager.importSave(legacy), 'Legacy base64 codes should still import');
+    assertEqual(SaveManager.getCurrent().currentWave, 7, 'Legacy import should restore the wave');
+
+    SaveManager.reset();
+    assert(SaveManager.importSave(file), 'Exported .json file should import');
+    assertEqual(SaveManager.getCurrent().currentWave, 7, 'File import should restore the wave');
+
+    const edited = file.replace('"currentWave": 7', '"currentWave": 9');
+    assert(!SaveManager.importSave(edited), 'Edited .json file should fail its checksum');
+}
+
+// ============================================================================
+// SAVE MIGRATION TESTS
+// ============================================================================
+
+async function testMigrationSteps(): Promise<void> {
+    const { SAVE_MIGRATIONS, CURRENT_SAVE_VERSION } = await import('../src/systems/SaveMigrations');
+
+    assertEqual(SAVE_MIGRATIONS.length, CURRENT_SAVE_VERSION, 'There should be one migration per version');
+
+    SAVE_MIGRATIONS.forEach((step, index) => {
+        assertEqual(step.from, index, 'Migrations should be ordered by version');
+        const migrated = step.migrate({ version: step.from === 0 ? undefined : step.from, scrap: 42 });
+        assertEqual(migrated.version, step.from + 1, `Migration from v${step.from} should bump the version`);
+        assertEqual(migrated.scrap, 42, `Migration from v${step.from} should keep scrap`);
+    });
+}
+
+async function testMigrateUnversionedSave(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { CURRENT_SAVE_VERSION } = await import('../src/systems/SaveMigrations');
+
+    localStorage.setItem('autoInvaders_save', JSON.stringify({ scrap: 321, currentWave: 4, upgrades: { autoFire: 1 } }));
+    const loaded = SaveManager.load();
+
+    assertEqual(loaded.version, CURRENT_SAVE_VERSION, 'Unversioned save should migrate to current version');
+    assertEqual(loaded.scrap, 321, 'Migrated scrap should be kept');
+    assertEqual(loaded.currentWave, 4, 'Migrated wave should be kept');
+    assertEqual(loaded.stats.totalKills, 0, 'Missing stats should use defaults');
+    assert(SaveManager.hasUpgrade('autoFire'), 'Migrated upgrades should be kept');
+}
+
+async function testSaveValidation(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    localStorage.setItem('autoInvaders_save', JSON.stringify({
+        version: 1,
+        scrap: -50,
+        currentWave: 99,
+        currentSector: 3,
+        highestSector: 1,
+        upgrades: { autoFire: 5, damage: 2.7, removedUpgrade: 3 },
+        activeWeaponMod: 'laser',
+    }));
+    const loaded = SaveManager.load();
+
+    assertEqual(loaded.scrap, 0, 'Negative scrap should clamp to 0');
+    assertEqual(loaded.currentWave, 11, 'Wave should clamp to the boss wave');
+    assertEqual(loaded.highestSector, 3, 'Highest sector should never trail current sector');
+    assertEqual(loaded.upgrades.autoFire, 1, 'Unlock level should clamp to max level');
+    assertEqual(loaded.upgrades.damage, 2, 'Upgrade level should be a whole number');
+    assert(!('removedUpgrade' in loaded.upgrades), 'Unknown upgrade IDs should be dropped');
+    assertEqual(loaded.activeWeaponMod, 'standard', 'Unknown weapon mod should fall back to standard');
+
+    // A save made during a boss fight keeps the boss wave
+    localStorage.setItem('autoInvaders_save', JSON.stringify({ version: 1, currentWave: 11 }));
+    assertEqual(SaveManager.load().currentWave, 11, 'Boss wave should survive validation');
+}
+
+async function testInvalidSaveQuarantined(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    const raw = JSON.stringify({ version: 1, scrap: 'lots', currentWave: 2 });
+    localStorage.setItem('autoInvaders_save', raw);
+    const loaded = SaveManager.load();
+
+    assertEqual(loaded.scrap, 0, 'Invalid save should fall back to a new game');
+    assertEqual(SaveManager.getQuarantinedSave(), raw, 'Raw invalid save should be quarantined');
+}
+
+async function testFutureSaveRejected(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { CURRENT_SAVE_VERSION } = await import('../src/systems/SaveMigrations');
+
+    SaveManager.reset();
+    const future = btoa(JSON.stringify({ version: CURRENT_SAVE_VERSION + 1, scrap: 999, currentWave: 1 }));
+
+    assert(!SaveManager.importSave(future), 'Import of a newer save version should fail');
+    assertEqual(SaveManager.getCurrent().scrap, 0, 'Failed import should leave the current save untouched');
+}
+
+async function testMigrateV1AddsMeta(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    localStorage.setItem('autoInvaders_save', JSON.stringify({
+        version: 1,
+        scrap: 50,
+        currentWave: 3,
+        stats: { totalKills: 12, totalScrapEarned: 900, totalDamageDealt: 0, playTime: 60, bossesDefeated: 0 },
+    }));
+    const loaded = SaveManager.load();
+
+    assertEqual(loaded.meta.prestigeCount, 0, 'v1 saves should start with no prestiges');
+    assertEqual(loaded.meta.echoes, 0, 'v1 saves should start with no echoes');
+    assertEqual(loaded.meta.runStartStats.totalKills, 0, 'v1 stats should all count toward the current run');
+    assertEqual(loaded.stats.totalKills, 12, 'v1 stats should be kept');
+}
+
+async function testMigrateV2AddsEndless(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    localStorage.setItem('autoInvaders_save', JSON.stringify({
+        version: 2,
+        scrap: 75,
+        currentSector: 9,
+        highestSector: 9,
+        meta: { prestigeCount: 1, echoes: 4, totalEchoes: 4, upgrades: {} },
+    }));
+    const loaded = SaveManager.load();
+
+    assert(!loaded.endless.active, 'v2 saves should not be in an endless run');
+    assertEqual(loaded.endless.bestRun, null, 'v2 saves should have no endless high score');
+    assertEqual(loaded.endless.history.length, 0, 'v2 saves should have no endless history');
+    assertEqual(loaded.currentSector, 9, 'Sectors past the campaign should not be clamped');
+    assertEqual(loaded.meta.echoes, 4, 'v2 meta progress should be kept');
+}
+
+async function testMigrateV3AddsCoreFragments(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { CORE_FRAGMENTS_PER_CORE } = await import('../src/config/GameConfig');
+
+    localStorage.setItem('autoInvaders_save', JSON.stringify({ version: 3, scrap: 40, cores: 2 }));
+    const loaded = SaveManager.load();
+    assertEqual(loaded.coreFragments, 0, 'v3 saves should start with no core fragments');
+    assertEqual(loaded.cores, 2, 'v3 cores should be kept');
+
+    assertEqual(SaveManager.addCoreFragments(CORE_FRAGMENTS_PER_CORE - 1), 0, 'Too few fragments should not make a core');
+    assertEqual(SaveManager.addCoreFragments(2), 1, 'A full set of fragments should assemble a core');
+    assertEqual(SaveManager.getCurrent().cores, 3, 'Assembled cores should be banked');
+    assertEqual(SaveManager.getCurrent().coreFragments, 1, 'Leftover fragments should carry over');
+}
+
+async function testMigrateV4AddsDroneLoadout(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    localStorage.setItem('autoInvaders_save', JSON.stringify({ version: 4, scrap: 40, upgrades: { droneSlot1: 1 } }));
+    const loaded = SaveManager.load();
+    assertEqual(loaded.droneLoadout.length, 0, 'v4 saves should start with an empty drone loadout');
+    assertEqual(loaded.upgrades.droneSlot1, 1, 'v4 upgrades should be kept');
+}
+
+async function testMigrateV5AddsDroneFormation(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    localStorage.setItem('autoInvaders_save', JSON.stringify({ version: 5, scrap: 40, droneLoadout: ['salvage'] }));
+    const loaded = SaveManager.load();
+    assertEqual(loaded.activeDroneFormation, 'orbit', 'v5 saves should keep drones orbiting');
+    assertEqual(loaded.droneLoadout.join(','), 'salvage', 'v5 drone loadouts should be kept');
+}
+
+// ============================================================================
+// ENDLESS MODE TESTS
+// ============================================================================
+
+async function testEndlessSectorScaling(): Promise<void> {
+    const {
+        SECTOR_COUNT,
+        SECTOR_HP_BOOST,
+        TOTAL_WAVES,
+        getSectorHPBoost,
+        getSectorName,
+        getSpawnCount,
+        getBossDefinition,
+        getEndlessAffixes,
+        getDifficultyMultiplier,
+    } = await import('../src/config/GameConfig');
+
+    assertEqual(getSectorHPBoost(5), SECTOR_HP_BOOST[5], 'Campaign sectors should use the HP table');
+    assert(getSectorHPBoost(8) > getSectorHPBoost(7), 'Endless HP boost should keep climbing');
+    assert(getSectorName(SECTOR_COUNT + 3).length > 0, 'Endless sectors should get a name');
+    assert(getSectorName(SECTOR_COUNT) !== getSectorName(SECTOR_COUNT + 1), 'Endless sector names should vary');
+    assertEqual(getSpawnCount(TOTAL_WAVES), 33, 'Campaign spawn formula should be unchanged');
+    assert(getSpawnCount(200) > 40, 'Endless waves should lift the spawn cap');
+    assert(getBossDefinition(SECTOR_COUNT) !== undefined, 'Endless sectors should have a boss');
+    assert(getDifficultyMultiplier(TOTAL_WAVES + 10) > getDifficultyMultiplier(TOTAL_WAVES), 'Difficulty should keep scaling');
+
+    assertEqual(getEndlessAffixes(SECTOR_COUNT - 1).length, 0, 'Campaign sectors have no affixes');
+    assertEqual(getEndlessAffixes(SECTOR_COUNT).length, 1, 'First endless sector has one affix');
+    const deep = getEndlessAffixes(SECTOR_COUNT + 10);
+    assertEqual(deep.length, 3, 'Deep endless sectors cap at three affixes');
+    assertEqual(new Set(deep.map(a => a.id)).size, 3, 'Affixes should not repeat within a sector');
+}
+
+async function testEndlessRunRecords(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { EndlessManager } = await import('../src/systems/EndlessManager');
+
+    SaveManager.reset();
+    EndlessManager.start();
+    assert(!EndlessManager.isActive(), 'Endless mode should need a cleared campaign');
+
+    SaveManager.update({ currentSector: 6, highestSector: 6 });
+    assert(EndlessManager.isCampaignComplete(), 'Cleared save should offer endless mode');
+    EndlessManager.start();
+    assert(EndlessManager.isActive(), 'Endless run should start');
+
+    SaveManager.recordKill();
+    SaveManager.recordKill();
+    SaveManager.update({ currentSector: 7, currentWave: 4 });
+    EndlessManager.recordProgress();
+    const first = EndlessManager.endRun();
+
+    assert(first !== null, 'Ending an active run should return it');
+    assertEqual(first!.highestSector, 7, 'Run should record the furthest sector');
+    assertEqual(first!.highestWave, 74, 'Run should record the furthest global wave');
+    assertEqual(first!.kills, 2, 'Run should count its kills');
+    assertEqual(EndlessManager.getBestRun()?.highestWave, 74, 'First run should set the high score');
+
+    EndlessManager.start();
+    assertEqual(SaveManager.getCurrent().currentSector, 6, 'New endless run restarts past the campaign');
+    EndlessManager.endRun();
+    assertEqual(EndlessManager.getBestRun()?.highestWave, 74, 'Shorter run should not beat the high score');
+    assertEqual(EndlessManager.getHistory().length, 2, 'Finished runs should be kept in history');
+
+    SaveManager.load();
+    assertEqual(SaveManager.getCurrent().endless.bestRun?.kills, 2, 'High score should persist');
+}
+
+// ============================================================================
+// RNG TESTS
+// ============================================================================
+
+async function testSeededRandomDeterministic(): Promise<void> {
+    const { SeededRandom } = await import('../src/systems/SeededRandom');
+
+    const a = new SeededRandom(1234);
+    const b = new SeededRandom(1234);
+    const rollsA = Array.from({ length: 20 }, () => a.between(1, 100));
+    const rollsB = Array.from({ length: 20 }, () => b.between(1, 100));
+    assertEqual(rollsA.join(','), rollsB.join(','), 'Same seed should give the same rolls');
+    assert(rollsA.every(n => n >= 1 && n <= 100 && Number.isInteger(n)), 'between() should stay in range');
+
+    const c = new SeededRandom(4321);
+    const rollsC = Array.from({ length: 20 }, () => c.between(1, 100));
+    assert(rollsA.join(',') !== rollsC.join(','), 'Different seeds should give different rolls');
+}
+
+async function testSeededRandomWaveStreams(): Promise<void> {
+    const { SeededRandom } = await import('../src/systems/SeededRandom');
+
+    const rng = new SeededRandom(99);
+    rng.reset(2, 5);
+    const first = [rng.next(), rng.next(), rng.next()];
+
+    // Burn rolls in another wave, then come back
+    rng.reset(2, 6);
+    rng.next();
+    rng.reset(2, 5);
+    const again = [rng.next(), rng.next(), rng.next()];
+    assertEqual(again.join(','), first.join(','), 'A wave stream should replay regardless of earlier rolls');
+
+    rng.reset(2, 6);
+    assert(rng.next() !== first[0], 'Different waves should get different streams');
+    assertEqual(new SeededRandom(5).pick([]), undefined, 'pick() on an empty array should be undefined');
+}
+
+// ============================================================================
+// WAVE SCRIPT TESTS
+// ============================================================================
+
+async function testWaveScriptsValid(): Promise<void> {
+    const { WAVE_SCRIPTS } = await import('../src/config/GameConfig');
+    const { validateWaveScripts } = await import('../src/systems/WaveScripts');
+
+    const errors = validateWaveScripts(WAVE_SCRIPTS);
+    assertEqual(errors.length, 0, `Shipped wave scripts should validate: ${errors.join('; ')}`);
+
+    const bad = validateWaveScripts([
+        { sector: 0, wave: 2, groups: [{ at: 0, enemy: 'gruntt', count: 3, formation: 'row' }] },
+        { sector: 0, wave: 3, groups: [], guaranteed: { dragon: 1 } },
+        { sector: 0, wave: 3, groups: [{ at: -5, enemy: 'grunt', count: 0 }] },
+    ]);
+    assert(bad.some(e => e.includes('unknown enemy type "gruntt"')), 'Unknown group enemy should be rejected');
+    assert(bad.some(e => e.includes('unknown guaranteed enemy type "dragon"')), 'Unknown guaranteed enemy should be rejected');
+    assert(bad.some(e => e.includes('count')), 'Empty group should be rejected');
+    assert(bad.some(e => e.includes('more than once')), 'Duplicate waves should be rejected');
+}
+
+async function testWaveSpawnPlan(): Promise<void> {
+    const { WAVES_PER_SECTOR, FORMATION_SPAWN_Y, getSpawnCount } = await import('../src/config/GameConfig');
+    const { SeededRandom } = await import('../src/systems/SeededRandom');
+    const { buildSpawnPlan } = await import('../src/systems/WaveScripts');
+
+    const rng = new SeededRandom(7);
+    const plan = (sector: number, wave: number) => {
+        rng.reset(sector, wave);
+        return buildSpawnPlan(sector, wave, rng);
+    };
+
+    // Scripted row of grunts enters together, level and evenly spaced
+    const opening = plan(0, 1);
+    const row = opening.filter(order => order.y === FORMATION_SPAWN_Y);
+    assertEqual(row.length, 5, 'Sector 0 wave 1 opens with a row of five');
+    assert(row.every(order => order.time === 0 && order.type === 'grunt'), 'The row should spawn at once');
+    assertEqual(row[1].x - row[0].x, row[4].x - row[3].x, 'Row members should be evenly spaced');
+    assertEqual(opening.length, Math.max(5, getSpawnCount(1)), 'Scripted waves still fill their spawn budget');
+
+    // Guaranteed mix shows up, and plans replay from the wave stream
+    const finale = plan(5, 10);
+    const count = (type: string) => finale.filter(order => order.type === type).length;
+    assert(count('shielded') >= 4 && count('jammer') >= 2 && count('splitter') >= 3, 'Guaranteed mix should be present');
+    assertEqual(JSON.stringify(plan(5, 10)), JSON.stringify(finale), 'Plans should be deterministic per wave');
+
+    // Groups that fill the budget, or fill turned off, don't crowd out the guaranteed mix
+    const crowded = { sector: 2, wave: 9, groups: [{ at: 0, enemy: 'grunt', count: 40 }], guaranteed: { jammer: 2 } };
+    const noFill = { ...crowded, groups: [{ at: 0, enemy: 'grunt', count: 3 }], fill: false };
+    for (const script of [crowded, noFill]) {
+        rng.reset(2, 9);
+        const orders = buildSpawnPlan(2, 9, rng, 1, script);
+        assertEqual(orders.filter(order => order.type === 'jammer').length, 2, 'Guaranteed enemies should always spawn');
+        assertEqual(orders.length, script.groups[0].count + 2, 'No random fill past a full budget or with fill off');
+    }
+
+    // Unscripted waves are the weighted mix, sorted by time
+    const unscripted = plan(1, 2);
+    assertEqual(unscripted.length, getSpawnCount(WAVES_PER_SECTOR + 2), 'Unscripted wave spawns its budget');
+    assert(unscripted.every((order, i) => i === 0 || order.time >= unscripted[i - 1].time), 'Plan should be time-ordered');
+}
+
+async function testMarchFormation(): Promise<void> {
+    const {
+        GAME_WIDTH, MARCH_ENTRY_Y, MARCH_STEP_X, MARCH_DROP_Y, MARCH_EDGE_MARGIN,
+        MARCH_STEP_INTERVAL_MAX, MARCH_STEP_INTERVAL_MIN,
+    } = await import('../src/config/GameConfig');
+    const { MarchFormation } = await import('../src/systems/MarchFormation');
+    type Member = import('../src/systems/MarchFormation').MarchMember;
+
+    const formation = new MarchFormation(4);
+    const members: Member[] = [0, 1, 2, 3].map(i => ({ x: 100 + i * 60, y: -40, active: true, marchFormation: null }));
+    members.forEach(m => formation.join(m));
+
+    // Glide in, then one step sideways per interval
+    for (let i = 0; i < 100 && formation.isEntering(); i++) formation.update(50);
+    assertEqual(members[0].y, MARCH_ENTRY_Y, 'Grid should glide in to the entry line');
+    formation.update(MARCH_STEP_INTERVAL_MAX);
+    assertEqual(members[0].x, 100 + MARCH_STEP_X, 'Grid should step sideways');
+    assertEqual(formation.predictX(members[0].x, MARCH_STEP_INTERVAL_MAX), members[0].x + MARCH_STEP_X, 'Autopilot lead should follow the march');
+
+    // Losing members speeds the march up
+    members[1].active = false;
+    members[2].active = false;
+    members[3].active = false;
+    assertEqual(formation.getStepInterval(), MARCH_STEP_INTERVAL_MIN, 'Last survivor should march at top speed');
+    assertEqual(formation.getEdgeMember(), members[0], 'Edge member should be a survivor');
+
+    // At the edge the grid drops a row and turns
+    const y = members[0].y;
+    for (let i = 0; i < 500 && formation.getDirection() > 0; i++) formation.update(MARCH_STEP_INTERVAL_MIN);
+    assert(members[0].x + MARCH_STEP_X > GAME_WIDTH - MARCH_EDGE_MARGIN, 'Grid should march to the edge');
+    assertEqual(members[0].y, y + MARCH_DROP_Y, 'Grid should drop a row at the edge');
+
+    // Scripted grids tag their spawns with the marching group
+    const { SeededRandom } = await import('../src/systems/SeededRandom');
+    const { buildSpawnPlan } = await import('../src/systems/WaveScripts');
+    const plan = buildSpawnPlan(0, 8, new SeededRandom(3)).filter(order => order.march !== undefined);
+    assertEqual(plan.length, 12, 'Sector 0 wave 8 marches a grid of 12');
+    assertEqual(new Set(plan.map(order => order.y)).size, 2, 'Six columns of 12 make two rows');
+}
+
+async function testJammerDisruption(): Promise<void> {
+    const { JAMMER_FIELD_RADIUS, JAMMER_MAX_SPREAD, JAMMER_AUTOPILOT_NOISE, JAMMER_NOISE_INTERVAL } = await import('../src/config/GameConfig');
+    const { SeededRandom } = await import('../src/systems/SeededRandom');
+    const { getJammerDisruption, rollAimJitter, JammerNoise } = await import('../src/systems/JammerField');
+
+    assertEqual(getJammerDisruption([], 0, 0, 0), 0, 'No jammers, no disruption');
+    assertEqual(getJammerDisruption([{ x: 0, y: JAMMER_FIELD_RADIUS }], 0, 0, 0), 0, 'The field should end at its radius');
+    assertEqual(getJammerDisruption([{ x: 0, y: JAMMER_FIELD_RADIUS / 2 }], 0, 0, 0), 0.5, 'The field should fade with distance');
+    assertEqual(getJammerDisruption([{ x: 0, y: 0 }, { x: 10, y: 0 }], 0, 0, 0), 1, 'Stacked jammers should cap at full disruption');
+
+    const shielded = getJammerDisruption([{ x: 0, y: 0 }], 0, 0, 10);
+    assert(shielded < 1 && shielded > getJammerDisruption([{ x: 0, y: 0 }], 0, 0, 20), 'Stability Matrix should cut the penalty per level');
+
+    const rng = new SeededRandom(21);
+    assertEqual(rollAimJitter(0, rng), 0, 'Clear skies should not drift the aim');
+    for (let i = 0; i < 200; i++) {
+        assert(Math.abs(rollAimJitter(0.5, rng)) <= JAMMER_MAX_SPREAD * 0.5, 'Drift should scale with disruption');
+    }
+
+    const noise = new JammerNoise();
+    const first = noise.update(16, 1, rng);
+    assert(first !== 0 && Math.abs(first) <= JAMMER_AUTOPILOT_NOISE, 'Noise should roll as soon as the ship is jammed');
+    assertEqual(noise.update(JAMMER_NOISE_INTERVAL / 2, 1, rng), first, 'Noise should hold between re-rolls');
+    assertEqual(noise.update(16, 0.5, rng), first * 0.5, 'Noise should scale with disruption');
+    assert(noise.update(JAMMER_NOISE_INTERVAL, 1, rng) !== first, 'Noise should re-roll after its interval');
+    assertEqual(noise.update(16, 0, rng), 0, 'Noise should clear with the field');
+}
+
+async function testShieldRegenScaling(): Promise<void> {
+    const { getShieldRegenRate, getWeaponMod } = await import('../src/config/GameConfig');
+
+    assert(getShieldRegenRate(30) > getShieldRegenRate(1), 'Shields should recharge faster in later waves');
+    assert(getShieldRegenRate(10000) <= 0.6, 'Shield regen should be capped');
+    assert((getWeaponMod('pierce').shieldBreakBonus ?? 0) > 0, 'Pierce should have a shield-break bonus');
+    assertEqual(getWeaponMod('missing').id, 'standard', 'Unknown weapon mods fall back to Standard');
+}
+
+async function testHeatScaling(): Promise<void> {
+    const {
+        getHeatCapacity,
+        getHeatCooling,
+        getHeatDamageMultiplier,
+        getVentCooldown,
+        HEAT_DAMAGE_BONUS_MAX,
+        WEAPON_MODS,
+    } = await import('../src/config/GameConfig');
+
+    assertEqual(getHeatCapacity(0), 100, 'Base heat capacity');
+    assert(getHeatCapacity(5) > getHeatCapacity(0), 'Heat Capacity should raise capacity');
+    assert(getHeatCooling(5) > getHeatCooling(0), 'Cooling Systems should shed heat faster');
+    assert(getVentCooldown(5) < getVentCooldown(0), 'Cooling Systems should recharge the vent faster');
+
+    assertEqual(getHeatDamageMultiplier(0, false), 1, 'Cold guns get no bonus');
+    assertEqual(getHeatDamageMultiplier(1, false), 1 + HEAT_DAMAGE_BONUS_MAX, 'Full heat gets the whole bonus');
+    assert(getHeatDamageMultiplier(0.5, false) < getHeatDamageMultiplier(0.9, false), 'The bonus should grow with heat');
+    assertEqual(getHeatDamageMultiplier(1, true), 1, 'A meltdown loses the bonus');
+
+    const scatter = WEAPON_MODS.find(mod => mod.id === 'scatter')!;
+    assert((scatter.heatMultiplier ?? 1) > 1, 'Scatter should run hotter than Standard');
+}
+
+async function testEliteAffixRolls(): Promise<void> {
+    const { WAVES_PER_SECTOR, ELITE_AFFIXES, getEliteChance } = await import('../src/config/GameConfig');
+    const { SeededRandom } = await import('../src/systems/SeededRandom');
+    const { rollEliteAffixes, getAvailableEliteAffixes } = await import('../src/systems/EliteAffixes');
+
+    assertEqual(getEliteChance(0, 5), 0, 'Sector 0 should have no elites');
+    assert(getEliteChance(3, 3 * WAVES_PER_SECTOR + 1) > getEliteChance(1, WAVES_PER_SECTOR + 1), 'Elites should get more common');
+    assertEqual(getAvailableEliteAffixes(99).length, ELITE_AFFIXES.length, 'Late sectors should unlock every affix');
+
+    const rng = new SeededRandom(11);
+    for (let i = 0; i < 200; i++) {
+        assertEqual(rollEliteAffixes(0, 5, rng).length, 0, 'Sector 0 enemies should never be elites');
+    }
+
+    const sector1 = getAvailableEliteAffixes(1).map(affix => affix.id);
+    for (let i = 0; i < 500; i++) {
+        rollEliteAffixes(1, 2 * WAVES_PER_SECTOR, rng).forEach(id => {
+            assert(sector1.includes(id), `${id} should not roll before its sector`);
+        });
+    }
+
+    const rollMany = (seed: number) => {
+        const stream = new SeededRandom(seed);
+        return Array.from({ length: 100 }, () => rollEliteAffixes(5, 60, stream).join('+')).join(',');
+    };
+    assertEqual(rollMany(7), rollMany(7), 'Elite rolls should follow the seed');
+    assert(rollMany(7).split(',').some(roll => roll.includes('+')), 'Late elites should sometimes carry two affixes');
+}
+
+async function testBossPatterns(): Promise<void> {
+    const { BOSS_TYPES, ENEMY_TYPES, SECTOR_COUNT, getBossDefinition } = await import('../src/config/GameConfig');
+    const { BossAttackSchedule, getSpreadAngles, getAimedAngles, getLaserBeamX } = await import('../src/systems/BossPatterns');
+
+    BOSS_TYPES.forEach((boss) => {
+        assertEqual(boss.phases[0].hpThreshold, 1, `${boss.id} should open in its first phase`);
+        boss.phases.forEach((phase, i) => {
+            assert(phase.attacks.length > 0, `${boss.id} phase ${i + 1} needs an attack`);
+            if (i > 0) assert(phase.hpThreshold < boss.phases[i - 1].hpThreshold, `${boss.id} phases should be ordered by HP`);
+            phase.attacks.forEach((attack) => {
+                if (attack.type === 'summon') assert(ENEMY_TYPES[attack.minionType ?? 'grunt'] !== undefined, `${boss.id} summons an unknown enemy`);
+            });
+        });
+    });
+    assertEqual(new Set(Array.from({ length: SECTOR_COUNT }, (_, s) => getBossDefinition(s).id)).size, SECTOR_COUNT, 'Each sector should have its own boss');
+
+    const boss = {
+        ...BOSS_TYPES[0],
+        phases: [
+            { hpThreshold: 1, speedMultiplier: 1, attacks: [{ type: 'aimed' as const, cooldown: 1000 }, { type: 'laser' as const, cooldown: 1000 }] },
+            { hpThreshold: 0.5, speedMultiplier: 1, attacks: [{ type: 'spread' as const, cooldown: 1000 }] },
+        ],
+    };
+    const schedule = new BossAttackSchedule(boss);
+    assertEqual(schedule.update(399, 1).length, 0, 'The first volley should wait out its opening delay');
+    assertEqual(schedule.update(1, 1).map(attack => attack.type).join(), 'aimed', 'Attacks should open staggered');
+    assertEqual(schedule.update(250, 1, attack => attack.type === 'laser').length, 0, 'A blocked attack should hold');
+    assertEqual(schedule.update(500, 1).map(attack => attack.type).join(), 'laser', 'A blocked attack should retry shortly');
+    assertEqual(schedule.update(500, 2).map(attack => attack.type).join(), 'aimed', 'Fire rate should shorten cooldowns');
+    assertEqual(schedule.update(500, 2).map(attack => attack.type).join(), 'aimed,laser', 'Cooldowns should repeat');
+
+    assert(!schedule.updatePhase(0.8), 'HP above the next threshold should keep the phase');
+    assert(schedule.updatePhase(0.5), 'Crossing a threshold should change phase');
+    assertEqual(schedule.getPhaseIndex(), 1, 'The new phase should be active');
+    assertEqual(schedule.update(399, 1).length, 0, 'A new phase should restart the opening delay');
+    assertEqual(schedule.update(1, 1).map(attack => attack.type).join(), 'spread', 'The new phase should use its own attacks');
+
+    const spread = getSpreadAngles(5, 60);
+    assertEqual(spread.length, 5, 'Spreads fire one bullet per count');
+    assert(Math.abs(spread[2] - Math.PI / 2) < 1e-9, 'Spreads should centre on straight down');
+    assert(Math.abs(spread[4] - spread[0] - Math.PI / 3) < 1e-9, 'Spreads should cover their arc');
+    assertEqual(getSpreadAngles(1, 60)[0], Math.PI / 2, 'A single bullet should fire straight down');
+
+    const aimed = getAimedAngles(100, 100, 100, 300, 3);
+    assert(Math.abs(aimed[1] - Math.PI / 2) < 1e-9, 'Aimed volleys should centre on the target');
+    assert(aimed[0] < aimed[1] && aimed[2] > aimed[1], 'Aimed volleys should fan around the target');
+
+    assertEqual(getLaserBeamX(100, 100, 300, 500, 300), 200, 'The beam should run straight to its ground point');
+    assertEqual(getLaserBeamX(100, 100, 300, 500, 50), 100, 'Above the boss the beam sits at its origin');
+}
+
+async function testEnemyFireProfiles(): Promise<void> {
+    const { ENEMY_TYPES, ENEMY_FIRE_PROFILES, ENEMY_BULLET_DAMAGE, getEnemyFireProfile } = await import('../src/config/GameConfig');
+
+    Object.entries(ENEMY_FIRE_PROFILES).forEach(([type, profile]) => {
+        assert(ENEMY_TYPES[type]?.canShoot === true, `${type} has a fire profile but can't shoot`);
+        assert(profile.damage > 0 && profile.speed > 0, `${type} bullets should deal damage and move`);
+        if (profile.pattern === 'spread' || profile.pattern === 'burst') {
+            assert((profile.count ?? 3) >= 1, `${type} volleys need at least one bullet`);
+        }
+    });
+
+    assertEqual(getEnemyFireProfile('bomber').pattern, 'spread', 'Bombers should fire spreads');
+    assertEqual(getEnemyFireProfile('tank').pattern, 'homing', 'Tanks should fire homing missiles');
+    assertEqual(getEnemyFireProfile('grunt').pattern, 'aimed', 'Grunts should aim at the player');
+    assertEqual(getEnemyFireProfile('shielded').pattern, 'burst', 'Shielded enemies should fire delayed bursts');
+    assertEqual(getEnemyFireProfile('unknown').damage, ENEMY_BULLET_DAMAGE, 'Types without a profile fire plain bullets');
+}
+
+async function testCappedPool(): Promise<void> {
+    const { CappedPool } = await import('../src/systems/CappedPool');
+
+    let created = 0;
+    const pool = new CappedPool(2, () => ({ id: created++ }));
+    const a = pool.take();
+    const b = pool.take();
+    assert(a !== null && b !== null && a !== b, 'The pool should create objects up to its budget');
+    assertEqual(pool.take(), null, 'An exhausted pool should skip instead of allocating');
+    assertEqual(pool.getActive(), 2, 'Both objects should be in use');
+
+    pool.release(a!);
+    assertEqual(pool.getActive(), 1, 'Released objects should stop counting as active');
+    assertEqual(pool.take(), a, 'Released objects should be reused');
+    assertEqual(created, 2, 'Reuse should not allocate');
+}
+
+async function testBakedTextures(): Promise<void> {
+    const { WEAPON_MODS, ENEMY_FIRE_PROFILES } = await import('../src/config/GameConfig');
+    const { bakeTextures, getPlayerBulletVariant, getPlayerBulletTexture, getEnemyBulletTexture, PLAYER_BULLET_COLORS } = await import('../src/systems/TextureBaker');
+
+    // Graphics stand-in that accepts every draw call and records the baked keys
+    const baked = new Set<string>();
+    const graphics: Record<string, unknown> = new Proxy({}, {
+        get: (_, name) => name === 'generateTexture'
+            ? (key: string) => { baked.add(key); return graphics; }
+            : () => graphics,
+    });
+    const scene = {
+        textures: { exists: (key: string) => baked.has(key) },
+        make: { graphics: () => graphics },
+    };
+    bakeTextures(scene as never);
+
+    WEAPON_MODS.forEach((mod) => {
+        assertEqual(getPlayerBulletVariant(mod.id), mod.id, `${mod.id} should have its own bullet look`);
+    });
+    assertEqual(getPlayerBulletVariant('unknown'), 'standard', 'Unknown mods should look standard');
+    Object.keys(PLAYER_BULLET_COLORS).forEach((variant) => {
+        assert(baked.has(getPlayerBulletTexture(variant as never)), `${variant} bullets should be baked`);
+    });
+    Object.values(ENEMY_FIRE_PROFILES).forEach((profile) => {
+        assert(baked.has(getEnemyBulletTexture(profile.shape)), `${profile.shape} enemy bullets should be baked`);
+    });
+    ['fx-dot', 'fx-spark', 'fx-burst', 'fx-line', 'fx-ring'].forEach((key) => {
+        assert(baked.has(key), `${key} should be baked`);
+    });
+
+    const count = baked.size;
+    let bakedAgain = false;
+    bakeTextures({ ...scene, make: { graphics: () => { bakedAgain = true; return graphics; } } } as never);
+    assert(!bakedAgain && baked.size === count, 'Textures should only be baked once');
+}
+
+async function testSpatialGridQueries(): Promise<void> {
+    const { SpatialGrid } = await import('../src/systems/SpatialIndex');
+
+    const points = [
+        { x: 100, y: 100, active: true },
+        { x: 400, y: 300, active: true },
+        { x: 420, y: 560, active: true },
+        { x: 700, y: -40, active: true }, // Still spawning above the screen
+        { x: 405, y: 305, active: false },
+    ];
+    const grid = new SpatialGrid(64, 800, 600);
+    grid.rebuild(points);
+
+    assertEqual(grid.getAll().length, 4, 'Inactive entities should not be indexed');
+    assertEqual(grid.nearest(390, 290), points[1], 'Nearest should find the closest entity');
+    assertEqual(grid.nearest(780, 0), points[3], 'Off-screen entities should be clamped into edge cells');
+    assertEqual(grid.nearest(0, 0, p => p.y > 200), points[1], 'Nearest should respect the filter');
+    assertEqual(grid.nearest(0, 0, undefined, 50), null, 'Nearest should respect the max distance');
+    assertEqual(grid.withinRadius(410, 400, 170).length, 2, 'Radius query should find both nearby entities');
+    assertEqual(grid.inColumn(410, 20, 200, 600).length, 2, 'Column query should find entities in the band');
+    assertEqual(grid.inColumn(410, 20, 400, 600)[0], points[2], 'Column query should respect its height range');
+    assertEqual(grid.lowest(), points[2], 'Lowest should find the entity furthest down');
+
+    points[2].active = false;
+    assertEqual(grid.lowest(), points[1], 'Entities deactivated since the rebuild should be skipped');
+}
+
+async function testAutopilotScoring(): Promise<void> {
+    const { DODGE_LOOKAHEAD, DODGE_RADIUS } = await import('../src/config/GameConfig');
+    const { getBulletThreat, getEnemyThreatScore, getEnemyValueScore, formatEnemyScores } = await import('../src/systems/AutopilotScoring');
+
+    const headOn = getBulletThreat({ x: 200, y: 500, vx: 0, vy: 300 }, 200, 500 + DODGE_LOOKAHEAD / 2);
+    assert(headOn !== null && headOn.crossX === 200, 'A shot straight down the column should be dodged');
+    assertEqual(headOn!.strength, 0.5, 'Threats should fade with distance above the ship');
+
+    const angled = getBulletThreat({ x: 100, y: 500, vx: 100, vy: 100 }, 200, 600);
+    assert(angled !== null && angled.crossX === 200, 'Angled shots should be dodged where they cross the ship');
+    assertEqual(getBulletThreat({ x: 200 + DODGE_RADIUS + 1, y: 550, vx: 0, vy: 300 }, 200, 600), null, 'Wide shots should be ignored');
+    assertEqual(getBulletThreat({ x: 200, y: 600 - DODGE_LOOKAHEAD - 1, vx: 0, vy: 300 }, 200, 600), null, 'Distant shots should be ignored');
+    assertEqual(getBulletThreat({ x: 200, y: 610, vx: 0, vy: 300 }, 200, 600), null, 'Shots past the ship should be ignored');
+
+    assertEqual(getEnemyThreatScore({ y: 0 }, 600), 0, 'Enemies at the top should not be urgent');
+    assertEqual(getEnemyThreatScore({ y: 300 }, 600), 0.5, 'Urgency should grow as enemies descend');
+    assertEqual(getEnemyThreatScore({ y: 700 }, 600), 1, 'Urgency should cap level with the ship');
+    assert(getEnemyValueScore({ y: 0, scrapValue: 20 }) > getEnemyValueScore({ y: 500, scrapValue: 10 }), 'Scrap should outweigh height');
+    assert(getEnemyValueScore({ y: 200, scrapValue: 10 }) > getEnemyValueScore({ y: 100, scrapValue: 10 }), 'Lower enemies should break ties');
+
+    assertEqual(formatEnemyScores(0.25, 20.4, false).text, 'T0.25 V20', 'Labels should show both scores');
+    assertEqual(formatEnemyScores(0.25, 20, true).text, 'T0.25 V20 (cloaked)', 'Labels should flag cloaked enemies');
+    assert(formatEnemyScores(0.8, 20, false).color !== formatEnemyScores(0.2, 20, false).color, 'Urgent enemies should stand out');
+}
+
+async function testTrajectoryPlanner(): Promise<void> {
+    const { planTrajectory } = await import('../src/systems/TrajectoryPlanner');
+
+    const still = (x: number, y: number) => ({ x, y, value: 1, predict: () => ({ x, y }) });
+    const base = { shipX: 400, shipY: 540, moveSpeed: 150, bulletSpeed: 400, evasion: 1 };
+
+    const idle = planTrajectory({ ...base, bullets: [], enemies: [] });
+    assertEqual(idle.x, 400, 'With nothing on screen the ship should hold position');
+
+    const lined = planTrajectory({ ...base, bullets: [], enemies: [still(460, 200)] });
+    assert(Math.abs(lined.x - 460) < 20, `Should line up under the target, went to ${lined.x}`);
+    assert(lined.potential > 0, 'A lined-up target should score damage potential');
+
+    // A wall of shots falling on the target's column
+    const wall = [440, 460, 480].map(x => ({ x, y: 380, vx: 0, vy: 200 }));
+    const dodge = planTrajectory({ ...base, bullets: wall, enemies: [still(460, 200)] });
+    assertEqual(dodge.hits, 0, 'Should find a line the shots miss');
+    assert(Math.abs(dodge.x - 460) > 40, 'Surviving should outweigh lining up a shot');
+
+    // A shot angled across the ship's line, from the side
+    const crossing = planTrajectory({ ...base, bullets: [{ x: 250, y: 390, vx: 150, vy: 150 }], enemies: [] });
+    assertEqual(crossing.hits, 0, 'Angled shots should be dodged where they will cross');
+}
+
+async function testLoadoutDamageMultiplier(): Promise<void> {
+    const { getWeaponMod, getBehaviorScript, getLoadoutDamageMultiplier } = await import('../src/config/GameConfig');
+
+    const scatter = getWeaponMod('scatter');
+    const chaos = getBehaviorScript('chaos');
+    assertEqual(getLoadoutDamageMultiplier(scatter, getBehaviorScript('balanced')), scatter.dpsMultiplier, 'Balanced adds nothing');
+    assertEqual(
+        getLoadoutDamageMultiplier(scatter, chaos),
+        scatter.dpsMultiplier + chaos.extraShotChance * scatter.damageMultiplier,
+        'Chaos adds one bonus bullet, not a bonus volley'
+    );
+}
+
+async function testBehaviorScriptDecisions(): Promise<void> {
+    const { DODGE_MAX_OFFSET, getBehaviorScript } = await import('../src/config/GameConfig');
+    const { SeededRandom } = await import('../src/systems/SeededRandom');
+    const { selectTargetByBias, getEvasionOffset, rollExtraShot } = await import('../src/systems/BehaviorScripts');
+
+    const near = { x: 100, y: 100, scrapValue: 5 };
+    const rich = { x: 300, y: 100, scrapValue: 50 };
+    const richNear = { x: 150, y: 100, scrapValue: 50 };
+    const rng = new SeededRandom(3);
+
+    assertEqual(selectTargetByBias('closest', [rich, near], 100, 150, rng), near, 'Closest should ignore scrap');
+    assertEqual(selectTargetByBias('valuable', [near, rich], 100, 150, rng), rich, 'Valuable should pick the richest');
+    assertEqual(selectTargetByBias('valuable', [rich, richNear, near], 100, 150, rng), richNear, 'Distance should break scrap ties');
+    assertEqual(selectTargetByBias('random', [], 100, 150, rng), null, 'No candidates, no target');
+
+    const picks = new Set(Array.from({ length: 50 }, () => selectTargetByBias('random', [near, rich, richNear], 100, 150, rng)));
+    assertEqual(picks.size, 3, 'Random should spread over every candidate');
+
+    assertEqual(getEvasionOffset(40, 1), 40, 'Balanced evasion should pass the dodge through');
+    assertEqual(getEvasionOffset(200, 1), DODGE_MAX_OFFSET, 'Dodges should be capped');
+    assertEqual(getEvasionOffset(-200, 1.5), -DODGE_MAX_OFFSET * 1.5, 'Higher evasion should raise the cap');
+    assertEqual(getEvasionOffset(40, 0.5), 20, 'Lower evasion should dodge less');
+
+    const balanced = getBehaviorScript('balanced');
+    const chaos = getBehaviorScript('chaos');
+    const rolls = new SeededRandom(9);
+    assert(Array.from({ length: 200 }, () => rollExtraShot(balanced, rolls)).every(roll => !roll), 'Balanced should never fire a bonus shot');
+
+    const countBonus = (seed: number) => {
+        const stream = new SeededRandom(seed);
+        return Array.from({ length: 1000 }, () => rollExtraShot(chaos, stream)).filter(Boolean).length;
+    };
+    assertEqual(countBonus(5), countBonus(5), 'Bonus shots should follow the seed');
+    assert(Math.abs(countBonus(5) / 1000 - chaos.extraShotChance) < 0.05, 'Chaos should fire bonus shots at its chance');
+}
+
+async function testWeaponModBehaviors(): Promise<void> {
+    const { WEAPON_MODS } = await import('../src/config/GameConfig');
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { UpgradeManager } = await import('../src/systems/UpgradeManager');
+
+    WEAPON_MODS.forEach(mod => {
+        assert(mod.dpsMultiplier > 0, `${mod.id} needs a DPS multiplier`);
+        if (mod.behavior === 'railgun') assert((mod.chargeShots ?? 0) > 1, 'Railgun should charge over several pulls');
+    });
+    ['homing', 'chain', 'ricochet', 'beam', 'railgun'].forEach(id => {
+        assert(WEAPON_MODS.some(mod => mod.id === id && (mod.minSector ?? 0) > 0), `${id} should unlock by sector`);
+    });
+
+    SaveManager.reset();
+    SaveManager.addUpgradeLevel('weaponModSlot');
+    SaveManager.update({ activeWeaponMod: 'railgun', highestSector: 3 });
+    const upgrades = new UpgradeManager();
+    assertEqual(upgrades.getActiveWeaponMod().id, 'standard', 'A locked mod should fire as Standard');
+
+    SaveManager.update({ highestSector: 6 });
+    assertEqual(upgrades.getActiveWeaponMod().id, 'railgun', 'Reaching the sector should unlock the mod');
+    assert(upgrades.getLoadoutDPS() > upgrades.getEstimatedDPS(), 'Loadout DPS should use the mod multiplier');
+}
+
+// ============================================================================
+// REPLAY TESTS
+// ============================================================================
+
+async function testReplayFileRoundTrip(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { ReplayRecorder } = await import('../src/systems/ReplayRecorder');
+    const { encodeReplayFile, decodeReplayFile } = await import('../src/systems/ReplayCodec');
+
+    SaveManager.reset();
+    SaveManager.update({ scrap: 321, currentWave: 4 });
+    const recorder = new ReplayRecorder(2024, SaveManager.getCurrent());
+    [16.7, 16.7, 16.7, 17.3, 16.666666666666668].forEach(delta => recorder.recordFrame(delta));
+    recorder.recordInput(0, { type: 'move', axis: -1 });
+    recorder.recordInput(2, { type: 'purchase', id: 'damage' });
+    recorder.recordInput(2, { type: 'primary' });
+    recorder.recordInput(3, { type: 'droneClass', bay: 1, id: 'shield' });
+    recorder.recordInput(3, { type: 'droneFormation', id: 'screen' });
+    recorder.recordInput(5, { type: 'continue' });
+
+    const replay = recorder.getData();
+    const decoded = decodeReplayFile(encodeReplayFile(replay));
+    assertEqual(decoded.seed, 2024, 'Seed should round-trip');
+    assertEqual(decoded.save.scrap, 321, 'Save snapshot should round-trip');
+    assertEqual(decoded.deltas.join(','), replay.deltas.join(','), 'Frame deltas should round-trip exactly');
+    assertEqual(JSON.stringify(decoded.events), JSON.stringify(replay.events), 'Inputs should round-trip in order');
+
+    // The snapshot is taken at construction, not when exported
+    SaveManager.update({ scrap: 0 });
+    assertEqual(recorder.getData().save.scrap, 321, 'Recorder should keep its own save snapshot');
+}
+
+async function testReplayFileRejected(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { ReplayRecorder } = await import('../src/systems/ReplayRecorder');
+    const { encodeReplayFile, decodeReplayFile, ReplayFileError } = await import('../src/systems/ReplayCodec');
+
+    const recorder = new ReplayRecorder(7, SaveManager.getCurrent(), 3);
+    for (let i = 0; i < 5; i++) recorder.recordFrame(16);
+    recorder.recordInput(4, { type: 'primary' });
+    const replay = recorder.getData();
+    assertEqual(replay.deltas.length, 3, 'Recording should stop at the frame cap');
+    assert(replay.truncated && replay.events.length === 0, 'Capped recording should be marked truncated');
+
+    const file = JSON.parse(encodeReplayFile(replay));
+    const rejects = (text: string) => {
+        try {
+            decodeReplayFile(text);
+            return false;
+        } catch (e) {
+            return e instanceof ReplayFileError;
+        }
+    };
+    assert(rejects(JSON.stringify({ ...file, checksum: '00000000' })), 'Tampered replay should be rejected');
+    assert(rejects(JSON.stringify({ ...file, version: 99 })), 'Newer replay version should be rejected');
+    assert(rejects(SaveManager.exportSaveFile()), 'A save file is not a replay');
+}
+
+async function testSandboxedSaveNotPersisted(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    SaveManager.reset();
+    SaveManager.save({ scrap: 100 });
+
+    SaveManager.enterSandbox({ ...SaveManager.getCurrent(), scrap: 5000 });
+    SaveManager.save({ currentWave: 9 });
+    assertEqual(SaveManager.getCurrent().scrap, 5000, 'Sandbox should play on the given save');
+    assertEqual(SaveManager.getCurrent().currentWave, 9, 'Sandbox saves should update memory');
+
+    SaveManager.exitSandbox();
+    assert(!SaveManager.isSandboxed(), 'Sandbox should be closed');
+    assertEqual(SaveManager.getCurrent().scrap, 100, 'Slot should be untouched by the sandbox');
+    assertEqual(SaveManager.getCurrent().currentWave, 1, 'Sandbox wave should not be persisted');
+
+    const { result, save } = SaveManager.runInSandbox({ ...SaveManager.getCurrent(), scrap: 700 }, () => {
+        SaveManager.addScrap(50);
+        return SaveManager.getCurrent().scrap;
+    });
+    assertEqual(result, 750, 'Sandboxed runs should see the given save');
+    assertEqual(save.scrap, 750, 'Sandboxed runs should hand back their save');
+    assert(!SaveManager.isSandboxed(), 'Sandboxed runs should close the sandbox');
+    assertEqual(SaveManager.getCurrent().scrap, 100, 'Sandboxed runs should restore the loaded save');
+}
+
+// ============================================================================
+// SIMULATION TESTS
+// ============================================================================
+
+async function testSimulationWaveDeterministic(): Promise<void> {
+    const { SimulationEngine } = await import('../src/sim/SimulationEngine');
+    const { PURCHASE_POLICIES } = await import('../src/sim/PurchasePolicies');
+    const { SaveManager, createDefaultSave } = await import('../src/systems/SaveManager');
+
+    SaveManager.reset();
+    SaveManager.save({ scrap: 123 });
+
+    const engine = new SimulationEngine(createDefaultSave(), { seed: 777, policy: PURCHASE_POLICIES.none });
+    const first = engine.simulateWave();
+    const second = new SimulationEngine(createDefaultSave(), { seed: 777, policy: PURCHASE_POLICIES.none }).simulateWave();
+    assertEqual(JSON.stringify(second), JSON.stringify(first), 'Same seed should simulate the same wave');
+    assert(first.cleared, 'A fresh ship should clear wave 1');
+    assert(first.kills > 0 && first.scrapEarned > 0, 'Clearing a wave should earn kills and scrap');
+
+    assert(engine.getSave().stats.totalKills > 0, 'The engine should play on its own save');
+    assertEqual(SaveManager.getCurrent().scrap, 123, 'The engine should leave the loaded save alone');
+    assert(!SaveManager.isSandboxed(), 'The engine should close its sandbox');
+}
+
+async function testSimulationRunReport(): Promise<void> {
+    const { SimulationEngine } = await import('../src/sim/SimulationEngine');
+    const { PURCHASE_POLICIES } = await import('../src/sim/PurchasePolicies');
+
+    const { createDefaultSave } = await import('../src/systems/SaveManager');
+
+    const report = new SimulationEngine(createDefaultSave(), {
+        seed: 42,
+        policy: PURCHASE_POLICIES.recommended,
+        maxSimSeconds: 600,
+        sampleIntervalSeconds: 60,
+    }).run();
+
+    assertEqual(report.seed, 42, 'Report should carry the seed');
+    assert(!report.completed, 'Ten minutes should not clear the campaign');
+    assert(Object.keys(report.upgrades).length > 0, 'The recommended policy should buy upgrades');
+    assert(report.scrapCurve.length >= 10, 'Scrap curve should be sampled every minute');
+    assert(
+        report.scrapCurve.every((sample, i) => i === 0 || sample.totalScrapEarned >= report.scrapCurve[i - 1].totalScrapEarned),
+        'Scrap earned should never go down'
+    );
+}
+
+async function testOfflineProgress(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { calculateOfflineProgress } = await import('../src/sim/OfflineProgress');
+    const { OFFLINE_EFFICIENCY, getOfflineCapHours } = await import('../src/config/GameConfig');
+    const HOUR = 3600 * 1000;
+
+    // Fresh Auto-Fire ship, saved just now; returns the save time
+    const startSession = (idleLevel: number = 0): number => {
+        SaveManager.reset();
+        SaveManager.addUpgradeLevel('autoFire');
+        for (let i = 0; i < idleLevel; i++) SaveManager.addUpgradeLevel('offlineCapacity');
+        SaveManager.save({});
+        return SaveManager.getCurrent().lastSaveTime;
+    };
+
+    let savedAt = startSession();
+    assertEqual(await calculateOfflineProgress(savedAt + 30 * 1000, 5), null, 'Short absences should earn nothing');
+
+    const report = (await calculateOfflineProgress(savedAt + 10 * HOUR, 5))!;
+    assert(report !== null, 'Ten hours away should earn progress');
+    assert(report.capped, 'Ten hours should hit the base cap');
+    assertEqual(report.capHours, getOfflineCapHours(0), 'Base cap without Idle Protocols');
+    assertEqual(report.creditedSeconds, report.capHours * 3600 * OFFLINE_EFFICIENCY, 'Credited time is the capped time scaled by efficiency');
+    assert(report.scrap > 0 && report.kills > 0 && report.wavesCleared > 0, 'An Auto-Fire ship should clear waves while away');
+
+    const after = SaveManager.getCurrent();
+    assertEqual(after.stats.totalScrapEarned, report.scrap, 'Offline scrap should be banked');
+    assertEqual(after.stats.playTime, 0, 'Time away should not count as play time');
+    assert(
+        after.currentSector > report.start.sector || after.currentWave > report.start.wave,
+        'Cleared waves should advance the campaign'
+    );
+
+    savedAt = startSession();
+    let settled = false;
+    const pending = calculateOfflineProgress(savedAt + 10 * HOUR, 5).then((result) => {
+        settled = true;
+        return result;
+    });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    assert(!settled, 'Offline simulation should yield between waves');
+    const again = (await pending)!;
+    assertEqual(JSON.stringify(again), JSON.stringify(report), 'Same seed should simulate the same time away');
+
+    savedAt = startSession(2);
+    const extended = (await calculateOfflineProgress(savedAt + 10 * HOUR, 5))!;
+    assertEqual(extended.capHours, getOfflineCapHours(2), 'Idle Protocols should raise the cap');
+    assert(!extended.capped, 'Ten hours should fit under the raised cap');
+}
+
+// ============================================================================
+// PRESTIGE TESTS
+// ============================================================================
+
+async function testPrestigeReset(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { PrestigeManager } = await import('../src/systems/PrestigeManager');
+    const { getPrestigeReward } = await import('../src/config/GameConfig');
+
+    SaveManager.reset();
+    assert(!PrestigeManager.canPrestige(), 'Prestige should need a cleared sector 6');
+
+    SaveManager.addScrap(500000);
+    SaveManager.addUpgradeLevel('autoFire');
+    SaveManager.update({ currentSector: 6, highestSector: 6, cores: 6, droneLoadout: ['heavy'] });
+    const stats = SaveManager.getCurrent().stats;
+    stats.totalKills = 2000;
+    stats.bossesDefeated = 6;
+
+    const expected = getPrestigeReward(2000, 500000, 6);
+    assertEqual(PrestigeManager.getPendingReward(), expected, 'Pending reward should use run stats');
+    assertEqual(PrestigeManager.prestige(), expected, 'Prestige should pay out the pending reward');
+
+    const save = SaveManager.getCurrent();
+    assertEqual(save.scrap, 0, 'Prestige should reset scrap');
+    assertEqual(save.cores, 0, 'Prestige should reset cores');
+    assertEqual(save.currentSector, 0, 'Prestige should reset the sector');
+    assert(!SaveManager.hasUpgrade('autoFire'), 'Prestige should reset upgrades');
+    assertEqual(save.stats.totalKills, 2000, 'Lifetime stats should survive prestige');
+    assertEqual(save.droneLoadout.join(','), 'heavy', 'The drone loadout should survive prestige');
+    assertEqual(save.meta.prestigeCount, 1, 'Prestige count should increase');
+    assertEqual(save.meta.echoes, expected, 'Echoes should be banked');
+    assertEqual(PrestigeManager.getPendingReward(), 0, 'A fresh run should have no pending reward');
+
+    SaveManager.load();
+    assertEqual(SaveManager.getCurrent().meta.echoes, expected, 'Meta progress should persist');
+}
+
+async function testPrestigeDropsBehaviorScript(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { PrestigeManager } = await import('../src/systems/PrestigeManager');
+    const { UpgradeManager } = await import('../src/systems/UpgradeManager');
+
+    SaveManager.deleteSlot(0);
+    SaveManager.reset(0);
+    SaveManager.addUpgradeLevel('behaviorScripts');
+    SaveManager.update({ activeBehaviorScript: 'chaos', currentSector: 6 });
+    const upgradeManager = new UpgradeManager(undefined as never);
+    assertEqual(upgradeManager.getActiveBehaviorScript().id, 'chaos', 'Installed scripts should run the selection');
+
+    PrestigeManager.prestige();
+    assertEqual(SaveManager.getCurrent().activeBehaviorScript, 'chaos', 'Prestige should keep the selection');
+    assertEqual(upgradeManager.getActiveBehaviorScript().id, 'balanced', 'Without the upgrade the ship runs Balanced');
+    assertEqual(upgradeManager.getLoadoutDPS(), upgradeManager.getEstimatedDPS(), 'No script bonus should reach the DPS estimate');
+
+    SaveManager.addUpgradeLevel('behaviorScripts');
+    assertEqual(upgradeManager.getActiveBehaviorScript().id, 'chaos', 'Reinstalling scripts restores the selection');
+}
+
+async function testMetaUpgrades(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { PrestigeManager } = await import('../src/systems/PrestigeManager');
+    const { UpgradeManager } = await import('../src/systems/UpgradeManager');
+
+    SaveManager.reset();
+    const upgradeManager = new UpgradeManager(undefined as never);
+    const fullCost = upgradeManager.getCost('damage').scrap;
+
+    SaveManager.getCurrent().meta.echoes = 100;
+    assert(PrestigeManager.purchase('costDiscount'), 'Should buy Efficient Fabrication');
+    assert(PrestigeManager.purchase('startingScrap'), 'Should buy Salvage Cache');
+    assert(PrestigeManager.purchase('startingAutoFire'), 'Should buy Trigger Memory');
+    assert(!PrestigeManager.purchase('startingAutoFire'), 'Should not buy past max level');
+    assertEqual(SaveManager.getCurrent().meta.echoes, 100 - 3 - 2 - 5, 'Echoes should be spent');
+    assertEqual(upgradeManager.getCost('damage').scrap, Math.round(fullCost * 0.97), 'Scrap costs should be discounted');
+
+    SaveManager.update({ currentSector: 6 });
+    PrestigeManager.prestige();
+    assertEqual(SaveManager.getCurrent().scrap, 250, 'New run should get starting scrap');
+    assert(SaveManager.hasUpgrade('autoFire'), 'New run should start with Auto-Fire');
+}
+
+async function testNewGameKeepsMeta(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+
+    SaveManager.reset(0);
+    const meta = SaveManager.getCurrent().meta;
+    meta.prestigeCount = 2;
+    meta.echoes = 7;
+    meta.upgrades = { startingScrap: 1 };
+    meta.runStartStats.totalKills = 500;
+    SaveManager.save({ scrap: 900 });
+
+    SaveManager.reset(0);
+    let save = SaveManager.getCurrent();
+    assertEqual(save.scrap, 0, 'New game should reset the run');
+    assertEqual(save.meta.echoes, 7, 'New game should keep echoes');
+    assertEqual(save.meta.upgrades.startingScrap, 1, 'New game should keep meta upgrades');
+    assertEqual(save.meta.runStartStats.totalKills, 0, 'The new run starts from the reset lifetime stats');
+
+    localStorage.setItem('autoInvaders_save', '{not json');
+    save = SaveManager.load(0);
+    assertEqual(SaveManager.getQuarantinedSave(0), '{not json', 'Unreadable save should be quarantined');
+    assertEqual(save.meta.prestigeCount, 2, 'Prestige progress should survive a quarantined save');
+
+    SaveManager.deleteSlot(0);
+    SaveManager.reset(0);
+    assertEqual(SaveManager.getCurrent().meta.echoes, 0, 'Deleting a slot should wipe its prestige progress');
+}
+
 // ============================================================================
 // UPGRADE TESTS
 // ============================================================================
 
+async function testDroneClassLoadout(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { UpgradeManager } = await import('../src/systems/UpgradeManager');
+    const { DRONE_CLASSES, UPGRADES, getSalvageDroneBonus } = await import('../src/config/GameConfig');
+
+    DRONE_CLASSES.forEach(droneClass => {
+        droneClass.upgradeIds.forEach(id => {
+            assert(UPGRADES.some(u => u.id === id), `${droneClass.id} upgrade ${id} should exist`);
+        });
+    });
+
+    SaveManager.reset();
+    const upgradeManager = new UpgradeManager(undefined as never);
+    assertEqual(upgradeManager.getDroneLoadout().length, 0, 'No bays before Drone Bay I');
+
+    SaveManager.addUpgradeLevel('droneSlot1');
+    SaveManager.addUpgradeLevel('droneSlot2');
+    SaveManager.update({ droneLoadout: ['salvage', 'heavy'], highestSector: 1 });
+    const loadout = upgradeManager.getDroneLoadout().map(c => c.id);
+    assertEqual(loadout.join(','), 'salvage,combat', 'Locked classes should fly as Combat');
+
+    const baseSalvage = Math.pow(1.05, upgradeManager.getLevel('salvageYield'));
+    assertEqual(upgradeManager.getSalvageMultiplier(), baseSalvage * (1 + getSalvageDroneBonus(0)), 'Salvage drones should boost scrap');
+
+    SaveManager.update({ highestSector: 5 });
+    assertEqual(upgradeManager.getDroneLoadout()[1].id, 'heavy', 'Classes unlock with sector progress');
+}
+
+async function testDroneFormations(): Promise<void> {
+    const { SaveManager } = await import('../src/systems/SaveManager');
+    const { UpgradeManager } = await import('../src/systems/UpgradeManager');
+    const {
+        DRONE_FORMATIONS,
+        MAX_DRONE_BAYS,
+        GAME_HEIGHT,
+        PLAYER_Y,
+        getDroneFormation,
+        getDroneFormationOffset,
+    } = await import('../src/config/GameConfig');
+
+    assertEqual(getDroneFormation('vee').id, 'orbit', 'Unknown formations should fall back to Orbit');
+
+    DRONE_FORMATIONS.filter(f => f.id !== 'orbit').forEach(formation => {
+        const slots = new Set<string>();
+        for (let bay = 0; bay < MAX_DRONE_BAYS; bay++) {
+            const offset = getDroneFormationOffset(formation.id, bay, MAX_DRONE_BAYS, 0);
+            assert(PLAYER_Y + offset.y < GAME_HEIGHT, `${formation.id} bay ${bay} should stay on screen`);
+            slots.add(`${offset.x},${offset.y}`);
+        }
+        assertEqual(slots.size, MAX_DRONE_BAYS, `${formation.id} should give every bay its own slot`);
+    });
+    assert(getDroneFormationOffset('screen', 0, 3, 0).y < 0, 'The screen should fly ahead of the ship');
+    assert(getDroneFormationOffset('escort', 0, 3, 0).y > 0, 'The escort should trail the ship');
+
+    SaveManager.reset();
+    const upgradeManager = new UpgradeManager(undefined as never);
+    ['droneSlot1', 'droneSlot2', 'droneSlot3', 'droneSlot4'].forEach(id => SaveManager.addUpgradeLevel(id));
+    assert(upgradeManager.getDroneBayCount() >= 4, 'Drone Bays III and IV should add bays');
+    assert(upgradeManager.getDroneBayCount() <= MAX_DRONE_BAYS, 'Bay count should fit the saved loadout');
+}
+
 async function testUpgradePurchase(): Promise<void> {
     const { SaveManager } = await import('../src/systems/SaveManager');
 
@@ -189,6 +1376,55 @@ async function runAllTests(): Promise<void> {
     await test('SaveManager.load()', testSaveManagerLoad);
     await test('SaveManager.hasSave()', testHasSave);
     await test('Export/Import', testExportImport);
+    await test('Save slots are isolated', testSaveSlotsIsolated);
+    await test('Save slot copy/rename/delete', testSaveSlotCopyRenameDelete);
+    await test('Save code round-trip', testSaveCodeRoundTrip);
+    await test('Save code is compressed', testSaveCodeCompressed);
+    await test('Tampered save code rejected', testTamperedSaveCodeRejected);
+    await test('Legacy code and .json file import', testLegacyCodeAndSaveFileImport);
+    await test('Save migration steps', testMigrationSteps);
+    await test('Migrate unversioned save', testMigrateUnversionedSave);
+    await test('Save field validation', testSaveValidation);
+    await test('Invalid save quarantined', testInvalidSaveQuarantined);
+    await test('Future save version rejected', testFutureSaveRejected);
+    await test('Migrate v1 save adds meta progress', testMigrateV1AddsMeta);
+    await test('Migrate v2 save adds endless progress', testMigrateV2AddsEndless);
+    await test('Migrate v3 save adds core fragments', testMigrateV3AddsCoreFragments);
+    await test('Migrate v4 save adds drone loadout', testMigrateV4AddsDroneLoadout);
+    await test('Migrate v5 save adds drone formation', testMigrateV5AddsDroneFormation);
+    await test('Endless sector scaling', testEndlessSectorScaling);
+    await test('Endless run records', testEndlessRunRecords);
+    await test('Seeded RNG is deterministic', testSeededRandomDeterministic);
+    await test('Seeded RNG wave streams', testSeededRandomWaveStreams);
+    await test('Wave scripts validate', testWaveScriptsValid);
+    await test('Wave spawn plan', testWaveSpawnPlan);
+    await test('March formation', testMarchFormation);
+    await test('Jammer disruption', testJammerDisruption);
+    await test('Shield regen scaling', testShieldRegenScaling);
+    await test('Heat scaling', testHeatScaling);
+    await test('Elite affix rolls', testEliteAffixRolls);
+    await test('Boss patterns', testBossPatterns);
+    await test('Enemy fire profiles', testEnemyFireProfiles);
+    await test('Capped effect pool', testCappedPool);
+    await test('Baked textures', testBakedTextures);
+    await test('Spatial grid queries', testSpatialGridQueries);
+    await test('Autopilot scoring', testAutopilotScoring);
+    await test('Trajectory planner', testTrajectoryPlanner);
+    await test('Weapon mod behaviours', testWeaponModBehaviors);
+    await test('Loadout damage with Chaos', testLoadoutDamageMultiplier);
+    await test('Behavior script decisions', testBehaviorScriptDecisions);
+    await test('Replay file round-trip', testReplayFileRoundTrip);
+    await test('Bad replay files rejected', testReplayFileRejected);
+    await test('Sandboxed save not persisted', testSandboxedSaveNotPersisted);
+    await test('Simulated wave is deterministic', testSimulationWaveDeterministic);
+    await test('Simulation run report', testSimulationRunReport);
+    await test('Offline progress', testOfflineProgress);
+    await test('Prestige reset', testPrestigeReset);
+    await test('Prestige drops behavior script effects', testPrestigeDropsBehaviorScript);
+    await test('Meta upgrades', testMetaUpgrades);
+    await test('New game keeps prestige progress', testNewGameKeepsMeta);
+    await test('Drone class loadout', testDroneClassLoadout);
+    await test('Drone formations', testDroneFormations);
     await test('Upgrade purchase', testUpgradePurchase);
 
     console.log('\n========================================');